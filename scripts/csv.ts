@@ -0,0 +1,62 @@
+/**
+ * Checks for CSV writing and reading in src/lib/csv.ts.
+ * Run with: npm run test:csv
+ */
+
+import assert from "assert/strict";
+import { parseCsvRecords, toCsv } from "../src/lib/csv";
+
+const cases: [string, () => void][] = [
+  [
+    "cells that would run as spreadsheet formulas are escaped",
+    () => {
+      const csv = toCsv(
+        ["title"],
+        [
+          { title: '=HYPERLINK("http://evil","x")' },
+          { title: "+1" },
+          { title: "-2" },
+          { title: "@SUM(A1)" },
+          { title: "\tTab" },
+        ],
+      );
+      assert.deepEqual(csv.split("\r\n").slice(1, -1), [
+        `"'=HYPERLINK(""http://evil"",""x"")"`,
+        "'+1",
+        "'-2",
+        "'@SUM(A1)",
+        "'\tTab",
+      ]);
+    },
+  ],
+  [
+    "numbers and ordinary text are written as they are",
+    () => {
+      const csv = toCsv(["title", "value"], [{ title: "Half off", value: -5 }]);
+      assert.equal(csv, "title,value\r\nHalf off,-5\r\n");
+    },
+  ],
+  [
+    "escaped cells read back as the original text",
+    () => {
+      const rows = [{ title: "=1+1" }, { title: "'quoted" }];
+      const records = parseCsvRecords(toCsv(["title"], rows));
+      assert.deepEqual(
+        records.map((r) => r.record.title),
+        ["=1+1", "'quoted"],
+      );
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of cases) {
+  try {
+    run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}:`, error);
+  }
+}
+if (failed > 0) process.exit(1);
@@ -0,0 +1,276 @@
+/**
+ * Concurrency harness for coupon redemption.
+ * Fires parallel redemptions from several processes at a temporary SQLite
+ * file and asserts that neither usageLimit nor the per-user limit is ever
+ * exceeded, and that a single-use code redeems exactly once.
+ * Run with: npm run test:redemptions
+ */
+
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const WORKERS = 4;
+const USERS = 40;
+const ATTEMPTS_PER_USER = 2;
+const USAGE_LIMIT = 10;
+const REPEAT_PER_USER_LIMIT = 3;
+const REPEAT_ATTEMPTS = 12;
+
+const __filename = fileURLToPath(import.meta.url);
+
+interface WorkerJob {
+  limitedCode: string;
+  repeatCode: string;
+  singleUseCode: string;
+  userIds: string[];
+  repeatUserId: string;
+  repeatAttempts: number;
+}
+
+interface WorkerResult {
+  limited: number;
+  repeat: number;
+  singleUse: number;
+  errors: Record<string, number>;
+}
+
+async function loadDb() {
+  const { default: db } = await import("../src/lib/database");
+  return db;
+}
+
+// ─── Worker: wait for the start signal, then redeem everything at once ──────
+async function runWorker(job: WorkerJob): Promise<void> {
+  const db = await loadDb();
+  await db.init(); // tables already exist; sets the connection's busy timeout
+  const result: WorkerResult = {
+    limited: 0,
+    repeat: 0,
+    singleUse: 0,
+    errors: {},
+  };
+
+  const attempt = async (
+    code: string,
+    userId: string,
+    key: "limited" | "repeat" | "singleUse",
+  ) => {
+    try {
+      const res = await db.redeemCoupon(code, {
+        id: userId,
+        isPremium: false,
+      });
+      if (res.success) result[key]++;
+      else result.errors[res.error!] = (result.errors[res.error!] ?? 0) + 1;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      result.errors[message] = (result.errors[message] ?? 0) + 1;
+    }
+  };
+
+  console.log("READY");
+  await new Promise((resolve) => process.stdin.once("data", resolve));
+
+  await Promise.all([
+    ...job.userIds.flatMap((id) =>
+      Array.from({ length: ATTEMPTS_PER_USER }, () =>
+        attempt(job.limitedCode, id, "limited"),
+      ),
+    ),
+    ...Array.from({ length: job.repeatAttempts }, () =>
+      attempt(job.repeatCode, job.repeatUserId, "repeat"),
+    ),
+    ...job.userIds.map((id) => attempt(job.singleUseCode, id, "singleUse")),
+  ]);
+
+  console.log(`RESULT ${JSON.stringify(result)}`);
+  process.exit(0);
+}
+
+function startWorker(job: WorkerJob) {
+  const child = spawn(
+    process.execPath,
+    [...process.execArgv, __filename, "worker", JSON.stringify(job)],
+    { env: process.env, stdio: ["pipe", "pipe", "inherit"] },
+  );
+
+  let output = "";
+  let onReady: () => void;
+  const ready = new Promise<void>((resolve) => (onReady = resolve));
+  child.stdout.on("data", (chunk: Buffer) => {
+    output += chunk.toString();
+    if (output.includes("READY")) onReady();
+  });
+
+  const done = new Promise<WorkerResult>((resolve, reject) => {
+    child.on("exit", (code) => {
+      const line = output.split("\n").find((l) => l.startsWith("RESULT "));
+      if (code !== 0 || !line) {
+        reject(new Error(`Worker exited with code ${code}`));
+      } else {
+        resolve(JSON.parse(line.slice("RESULT ".length)));
+      }
+    });
+  });
+
+  return { child, ready, done };
+}
+
+// ─── Parent: set up a temp database, run the workers, check the totals ──────
+async function main(): Promise<void> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "proximiti-redeem-"));
+  process.env.DATABASE_URL = `file:${path.join(tmpDir, "redeem.sqlite")}`;
+
+  const failures: string[] = [];
+  try {
+    const db = await loadDb();
+    await db.init();
+
+    const now = Date.now();
+    const couponBase = {
+      businessId: "1",
+      title: "Concurrency test",
+      description: "Harness coupon",
+      discountType: "fixed" as const,
+      discountValue: 5,
+      startDate: new Date(now - 60 * 1000),
+      endDate: new Date(now + 60 * 60 * 1000),
+    };
+    const limited = await db.createCoupon({
+      ...couponBase,
+      couponCode: "RACE-LIMITED",
+      usageLimit: USAGE_LIMIT,
+      perUserLimit: 1,
+    });
+    const repeat = await db.createCoupon({
+      ...couponBase,
+      couponCode: "RACE-REPEAT",
+      perUserLimit: REPEAT_PER_USER_LIMIT,
+    });
+    const campaign = await db.createCoupon({
+      ...couponBase,
+      couponCode: "RACE-FLYER",
+    });
+    const [singleUseCode] = await db.generateCouponCodes(campaign.id, 1);
+
+    const userIds: string[] = [];
+    for (let i = 0; i < USERS; i++) {
+      const user = await db.createUser({
+        email: `redeem-${i}@example.test`,
+        name: `Redeemer ${i}`,
+        isVerified: true,
+      });
+      userIds.push(user.id);
+    }
+
+    console.log(
+      `Running ${WORKERS} workers: ${USERS * ATTEMPTS_PER_USER} attempts on ` +
+        `a limit of ${USAGE_LIMIT}, ${REPEAT_ATTEMPTS} on a per-user ` +
+        `limit of ${REPEAT_PER_USER_LIMIT}, ${USERS} on one single-use code`,
+    );
+
+    const workers = Array.from({ length: WORKERS }, (_, w) =>
+      startWorker({
+        limitedCode: limited.couponCode,
+        repeatCode: repeat.couponCode,
+        singleUseCode,
+        userIds: userIds.filter((_, i) => i % WORKERS === w),
+        repeatUserId: userIds[0],
+        repeatAttempts: REPEAT_ATTEMPTS / WORKERS,
+      }),
+    );
+    await Promise.all(workers.map((w) => w.ready));
+    workers.forEach((w) => w.child.stdin.end("go\n"));
+    const results = await Promise.all(workers.map((w) => w.done));
+
+    const reported = results.reduce(
+      (sum, r) => ({
+        limited: sum.limited + r.limited,
+        repeat: sum.repeat + r.repeat,
+        singleUse: sum.singleUse + r.singleUse,
+      }),
+      { limited: 0, repeat: 0, singleUse: 0 },
+    );
+    const errors: Record<string, number> = {};
+    for (const r of results) {
+      for (const [message, count] of Object.entries(r.errors)) {
+        errors[message] = (errors[message] ?? 0) + count;
+      }
+    }
+
+    const finalLimited = await db.getCouponById(parseInt(limited.id));
+    const finalRepeat = await db.getCouponById(parseInt(repeat.id));
+    const finalCampaign = await db.getCouponById(parseInt(campaign.id));
+    const perUser = new Map<string, number>();
+    for (const id of userIds) {
+      const redemptions = await db.getUserRedemptions(id);
+      for (const r of redemptions) {
+        const key = `${r.couponId}:${id}`;
+        perUser.set(key, (perUser.get(key) ?? 0) + 1);
+      }
+    }
+    const limitedRows = [...perUser]
+      .filter(([key]) => key.startsWith(`${limited.id}:`))
+      .reduce((sum, [, n]) => sum + n, 0);
+    const repeatRows = perUser.get(`${repeat.id}:${userIds[0]}`) ?? 0;
+
+    const expect = (label: string, actual: number, expected: number) => {
+      const ok = actual === expected;
+      console.log(
+        `${ok ? "✓" : "✗"} ${label}: ${actual} (expected ${expected})`,
+      );
+      if (!ok) failures.push(label);
+    };
+
+    expect("limited usage_count", finalLimited.usageCount, USAGE_LIMIT);
+    expect("limited redemption rows", limitedRows, USAGE_LIMIT);
+    expect("limited successful redeems", reported.limited, USAGE_LIMIT);
+    expect(
+      "users over their limit",
+      [...perUser]
+        .filter(([key]) => key.startsWith(`${limited.id}:`))
+        .filter(([, n]) => n > 1).length,
+      0,
+    );
+    expect(
+      "repeat usage_count",
+      finalRepeat.usageCount,
+      REPEAT_PER_USER_LIMIT,
+    );
+    expect("repeat redemption rows", repeatRows, REPEAT_PER_USER_LIMIT);
+    expect(
+      "repeat successful redeems",
+      reported.repeat,
+      REPEAT_PER_USER_LIMIT,
+    );
+    expect("single-use code redeems", reported.singleUse, 1);
+    expect("single-use usage_count", finalCampaign.usageCount, 1);
+    expect("single-use codes used", finalCampaign.codesUsed, 1);
+
+    console.log("Rejections:", errors);
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+
+  if (failures.length > 0) {
+    console.error(`\n${failures.length} check(s) failed`);
+    process.exit(1);
+  }
+  console.log("\nAll checks passed");
+  process.exit(0);
+}
+
+if (process.argv[2] === "worker") {
+  runWorker(JSON.parse(process.argv[3])).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+} else {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
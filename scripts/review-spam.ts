@@ -0,0 +1,66 @@
+/**
+ * Checks for the review spam heuristics in src/lib/reviewSpam.ts.
+ * Run with: npm run test:review-spam
+ */
+
+import assert from "assert/strict";
+import { assessReview, type SpamSignals } from "../src/lib/reviewSpam";
+
+// An established reviewer posting to a quiet business: no signals fire
+const quiet: SpamSignals = {
+  accountAgeHours: 24 * 30,
+  userReviewsLastDay: 0,
+  businessReviewsLastHour: 0,
+  recentTexts: [],
+  businessRating: null,
+  businessRatingConfidence: 0,
+};
+
+const cases: [string, () => void][] = [
+  [
+    "a short review matching another short review isn't a duplicate",
+    () => {
+      const result = assessReview(
+        { rating: 5, text: "Great place!" },
+        { ...quiet, accountAgeHours: 1, recentTexts: ["great place"] },
+      );
+      assert.ok(!result.reasons.includes("duplicate_text"));
+      assert.equal(result.flagged, false);
+    },
+  ],
+  [
+    "a longer copied review is a duplicate",
+    () => {
+      const text = "Friendly staff, quick service and the coffee was great";
+      const result = assessReview(
+        { rating: 5, text },
+        { ...quiet, accountAgeHours: 1, recentTexts: [text] },
+      );
+      assert.ok(result.reasons.includes("duplicate_text"));
+      assert.equal(result.flagged, true);
+    },
+  ],
+  [
+    "an ordinary review raises no signals",
+    () => {
+      const result = assessReview(
+        { rating: 4, text: "Nice spot for lunch, a bit busy at noon" },
+        { ...quiet, recentTexts: ["Terrible parking and rude service"] },
+      );
+      assert.deepEqual(result.reasons, []);
+      assert.equal(result.score, 0);
+    },
+  ],
+];
+
+let failed = 0;
+for (const [name, run] of cases) {
+  try {
+    run();
+    console.log(`✅ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${name}:`, error);
+  }
+}
+if (failed > 0) process.exit(1);
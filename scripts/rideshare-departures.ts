@@ -0,0 +1,157 @@
+/**
+ * Checks for scheduled rideshare departures against a temporary SQLite file:
+ * rides leaving right away, and rides from before departures were scheduled,
+ * are never cancelled as overdue or reminded about.
+ * Run with: npm run test:rideshare-departures
+ */
+
+import assert from "assert/strict";
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createClient } from "@libsql/client";
+
+// Matches RIDESHARE_DEPARTURE_GRACE_MINUTES and RIDESHARE_REMINDER_MINUTES
+const GRACE_MINUTES = 15;
+const REMINDER_MINUTES = 15;
+
+const __filename = fileURLToPath(import.meta.url);
+
+async function loadDb() {
+  const { default: db } = await import("../src/lib/database");
+  return db;
+}
+
+/** Open the database in a new process, which runs the migrations again. */
+function reopenDatabase(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      process.execPath,
+      [...process.execArgv, __filename, "migrate"],
+      { env: process.env, stdio: "inherit" },
+    );
+    child.on("exit", (code) =>
+      code === 0
+        ? resolve()
+        : reject(new Error(`Migration process exited with ${code}`)),
+    );
+  });
+}
+
+async function main(): Promise<void> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "proximiti-rides-"));
+  const url = `file:${path.join(tmpDir, "rides.sqlite")}`;
+  process.env.DATABASE_URL = url;
+
+  let failed = 0;
+  try {
+    const db = await loadDb();
+    await db.init();
+    const client = createClient({ url });
+
+    const user = await db.createUser({
+      email: "rider@example.com",
+      name: "Rider",
+      isVerified: true,
+    });
+    const insertRide = async (createdAgo: string, departureSql: string) => {
+      const result = await client.execute({
+        sql: `INSERT INTO rideshares (
+                creator_id, origin_name, origin_lat, origin_lng,
+                destination_name, destination_lat, destination_lng,
+                created_at, departure_at
+              ) VALUES (?, 'Union Station', 43.645, -79.38,
+                        'CN Tower', 43.6426, -79.3871,
+                        datetime('now', ?), ${departureSql})
+              RETURNING id`,
+        args: [user.id, createdAgo],
+      });
+      return String(result.rows[0].id);
+    };
+
+    // A ride from before scheduling, given its creation time by the old
+    // backfill, and one the backfill never reached
+    const backfilled = await insertRide(
+      "-1 hour",
+      "strftime('%Y-%m-%dT%H:%M:%fZ', datetime('now', '-1 hour'))",
+    );
+    const legacy = await insertRide("-1 hour", "NULL");
+    // A scheduled ride whose departure passed without a driver
+    const overdue = await insertRide(
+      "-2 hours",
+      "strftime('%Y-%m-%dT%H:%M:%fZ', datetime('now', '-1 hour'))",
+    );
+    await reopenDatabase();
+
+    const leavingNow = await db.createRideshare({
+      creatorId: user.id,
+      originName: "Union Station",
+      originLat: 43.645,
+      originLng: -79.38,
+      destinationName: "CN Tower",
+      destinationLat: 43.6426,
+      destinationLng: -79.3871,
+      maxPassengers: 3,
+    });
+
+    const cases: [string, () => Promise<void>][] = [
+      [
+        "rides leaving right away have no departure time",
+        async () => {
+          assert.equal(leavingNow.departureAt, null);
+          const rides = await db.getActiveRideshares();
+          const departures = new Map(rides.map((r) => [r.id, r.departureAt]));
+          assert.equal(departures.get(backfilled), null);
+          assert.equal(departures.get(legacy), null);
+          assert.notEqual(departures.get(overdue), null);
+        },
+      ],
+      [
+        "only the overdue scheduled ride is cancelled",
+        async () => {
+          const cancelled = await db.cancelOverdueRideshares(GRACE_MINUTES);
+          assert.deepEqual(cancelled, [overdue]);
+        },
+      ],
+      [
+        "rides leaving right away get no departure reminder",
+        async () => {
+          const reminded =
+            await db.claimDueRideshareReminders(REMINDER_MINUTES);
+          assert.deepEqual(reminded, []);
+        },
+      ],
+    ];
+
+    for (const [name, run] of cases) {
+      try {
+        await run();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failed++;
+        console.error(`❌ ${name}:`, error);
+      }
+    }
+    client.close();
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+if (process.argv[2] === "migrate") {
+  loadDb()
+    .then((db) => db.init())
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error(err);
+      process.exit(1);
+    });
+} else {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
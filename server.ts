@@ -9,18 +9,85 @@ import helmet from "helmet";
 import dotenv from "dotenv";
 import { Filter } from "bad-words";
 import Stripe from "stripe";
+import QRCode from "qrcode";
 
 import {
+  AuthService,
   authenticate,
+  authenticateStream,
   optionalAuthenticate,
   requireAdmin,
+  requireRole,
   extractToken,
   securityHeaders,
   createRateLimiter,
+  onSessionRevoked,
   type AuthenticatedRequest,
 } from "./src/lib/auth";
 import authRoutes from "./src/lib/routes/auth";
-import db from "./src/lib/database";
+import db, {
+  type AnalyticsBucket,
+  type BusinessClaimStatus,
+  type BusinessFilter,
+  type BusinessInput,
+  type Coupon,
+  type CouponInput,
+  type ModerationAction,
+  type RideshareMessage,
+  type ReviewReportReason,
+  type ReviewSort,
+  REVIEW_REPORT_REASONS,
+  REVIEW_SORTS,
+} from "./src/lib/database";
+import crypto from "crypto";
+import { calculateDistance } from "./src/lib/businesses";
+import {
+  aggregateRating,
+  emptyDistribution,
+  type RatingSummary,
+} from "./src/lib/ratings";
+import { parseCsvRecords, toCsv } from "./src/lib/csv";
+import { normalizeDiscount, type Discount } from "./src/lib/discounts";
+import {
+  normalizeSchedule,
+  type CouponSchedule,
+} from "./src/lib/couponSchedule";
+import {
+  getOverpassPoolStatus,
+  getPlaceDetails,
+  getPlacePhoto,
+  getPlaceProvider,
+  getPlaceReviews,
+  searchNearby,
+  searchText,
+  type PlaceBusiness,
+} from "./src/lib/places";
+import {
+  cachedPlaceLookup,
+  getPlaceCacheConfig,
+  placeCacheState,
+} from "./src/lib/places/cache";
+import { MAX_REVIEW_PHOTOS } from "./src/lib/photos";
+import { assessReview } from "./src/lib/reviewSpam";
+import { decodePhotoDataUrl, processPhoto } from "./src/lib/photoProcessing";
+import { getFileStorage, LocalFileStorage } from "./src/lib/storage";
+import {
+  DEFAULT_MAX_DETOUR_KM,
+  MAX_DETOUR_LIMIT_KM,
+  matchRide,
+} from "./src/lib/rideMatching";
+import {
+  FARE_CURRENCY,
+  MAX_PER_KM_FARE_CENTS,
+  MAX_TOTAL_FARE_CENTS,
+  MIN_CARD_PAYMENT_CENTS,
+  formatCents,
+} from "./src/lib/rideFares";
+import {
+  publishRideshareEvent,
+  subscribeToRideshares,
+  type RideshareEventType,
+} from "./src/lib/rideshareEvents";
 
 dotenv.config();
 
@@ -124,6 +191,38 @@ app.use((req, res, next) => {
 });
 app.use(express.urlencoded({ extended: true }));
 
+// Uploaded review photos on local disk. Keys are random and never reused, so
+// the files can be cached indefinitely; served ahead of the rate limiter since
+// a single page can show dozens of thumbnails.
+const fileStorage = getFileStorage();
+if (fileStorage instanceof LocalFileStorage) {
+  app.use(
+    fileStorage.publicPath,
+    (_req, res, next) => {
+      res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+      next();
+    },
+    express.static(fileStorage.root, {
+      immutable: true,
+      maxAge: "365d",
+      index: false,
+    }),
+  );
+}
+
+/** Remove stored files, e.g. the photos of a deleted review. Best effort. */
+async function deleteStoredFiles(keys: string[]) {
+  await Promise.all(
+    keys.map((key) =>
+      fileStorage
+        .delete(key)
+        .catch((error) =>
+          console.error(`Error deleting stored file ${key}:`, error),
+        ),
+    ),
+  );
+}
+
 const globalRateLimit = createRateLimiter(15 * 60 * 1000, 500); // 500 requests per 15 minutes
 app.use(globalRateLimit);
 
@@ -144,38 +243,209 @@ app.get("/health", (req, res) => {
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     memory: process.memoryUsage(),
+    overpass: getOverpassPoolStatus(),
   });
 });
 
 app.use("/api", authRoutes);
 
+const BUSINESS_CATEGORIES = [
+  "food",
+  "coffee",
+  "retail",
+  "services",
+  "health",
+  "entertainment",
+];
+const PRICE_LEVELS = ["$", "$$", "$$$", "$$$$"];
+const BUSINESS_DEFAULTS = {
+  rating: 0,
+  reviewCount: 0,
+  address: "",
+  hours: "",
+  description: "",
+  image: "",
+  phone: "",
+  priceLevel: "$$",
+};
+
+/** The message of a thrown value, which may not be an `Error`. */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Read `limit` and `offset` query parameters, clamped to 1..`maxLimit` and
+ * 0 or more. Missing values take the defaults; non-integers are an error.
+ */
+function parsePaging(
+  query: Request["query"],
+  defaultLimit: number,
+  maxLimit: number,
+): { limit: number; offset: number } | { error: string } {
+  const read = (name: string, fallback: number) => {
+    const value = query[name];
+    if (value === undefined) return fallback;
+    return typeof value === "string" && /^-?\d+$/.test(value.trim())
+      ? parseInt(value)
+      : NaN;
+  };
+  const limit = read("limit", defaultLimit);
+  const offset = read("offset", 0);
+  if (isNaN(limit)) return { error: "limit must be an integer" };
+  if (isNaN(offset)) return { error: "offset must be an integer" };
+  return {
+    limit: Math.min(Math.max(limit, 1), maxLimit),
+    offset: Math.max(offset, 0),
+  };
+}
+
+/**
+ * Validate a business payload from the admin API. With `partial` set only the
+ * fields present are checked (PUT); otherwise name, category and coordinates
+ * are required (POST).
+ */
+function parseBusinessInput(
+  body: unknown,
+  partial: boolean,
+): { data: Partial<BusinessInput> } | { error: string } {
+  const data: Partial<BusinessInput> = {};
+  const b = (body ?? {}) as Record<string, unknown>;
+
+  const stringFields = [
+    "name",
+    "address",
+    "hours",
+    "description",
+    "image",
+    "phone",
+    "website",
+  ] as const;
+  for (const key of stringFields) {
+    if (b[key] === undefined) continue;
+    if (typeof b[key] !== "string") return { error: `${key} must be a string` };
+    data[key] = b[key].trim();
+  }
+  if (data.name !== undefined && data.name.length === 0) {
+    return { error: "Name is required" };
+  }
+
+  if (b.category !== undefined) {
+    if (
+      typeof b.category !== "string" ||
+      !BUSINESS_CATEGORIES.includes(b.category)
+    ) {
+      return {
+        error: `Category must be one of: ${BUSINESS_CATEGORIES.join(", ")}`,
+      };
+    }
+    data.category = b.category;
+  }
+  if (b.priceLevel !== undefined) {
+    if (
+      typeof b.priceLevel !== "string" ||
+      !PRICE_LEVELS.includes(b.priceLevel)
+    ) {
+      return { error: "Price level must be one of $, $$, $$$, $$$$" };
+    }
+    data.priceLevel = b.priceLevel;
+  }
+  if (b.lat !== undefined) {
+    if (typeof b.lat !== "number" || b.lat < -90 || b.lat > 90) {
+      return { error: "lat must be a number between -90 and 90" };
+    }
+    data.lat = b.lat;
+  }
+  if (b.lng !== undefined) {
+    if (typeof b.lng !== "number" || b.lng < -180 || b.lng > 180) {
+      return { error: "lng must be a number between -180 and 180" };
+    }
+    data.lng = b.lng;
+  }
+  if (b.rating !== undefined) {
+    if (typeof b.rating !== "number" || b.rating < 0 || b.rating > 5) {
+      return { error: "Rating must be a number between 0 and 5" };
+    }
+    data.rating = b.rating;
+  }
+  if (b.reviewCount !== undefined) {
+    if (
+      typeof b.reviewCount !== "number" ||
+      !Number.isInteger(b.reviewCount) ||
+      b.reviewCount < 0
+    ) {
+      return { error: "reviewCount must be a non-negative integer" };
+    }
+    data.reviewCount = b.reviewCount;
+  }
+
+  if (!partial) {
+    if (!data.name) return { error: "Name is required" };
+    if (!data.category) return { error: "Category is required" };
+    if (data.lat === undefined || data.lng === undefined) {
+      return { error: "lat and lng are required" };
+    }
+  }
+  return { data };
+}
+
+/**
+ * Blend each business's stored provider rating with its first-party reviews.
+ * `rating` and `reviewCount` become the blended figures shown everywhere.
+ */
+async function withRatings<
+  T extends { id: string; rating: number; reviewCount: number },
+>(businesses: T[]): Promise<(T & { ratingSummary: RatingSummary })[]> {
+  const distributions = await db.getRatingDistributions(
+    businesses.map((b) => b.id),
+  );
+  return businesses.map((b) => {
+    const ratingSummary = aggregateRating(
+      distributions.get(b.id) ?? emptyDistribution(),
+      { rating: b.rating, count: b.reviewCount },
+    );
+    return {
+      ...b,
+      rating: ratingSummary.rating ?? 0,
+      reviewCount: ratingSummary.reviewCount,
+      ratingSummary,
+    };
+  });
+}
+
+// List the business catalog. Filters: category, q (text), bbox=minLng,minLat,maxLng,maxLat
 app.get(
   "/api/businesses",
   optionalAuthenticate,
-  (req: AuthenticatedRequest, res: Response) => {
+  async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const businesses = [
-        {
-          id: "1",
-          name: "The Green Kitchen",
-          category: "food",
-          rating: 4.7,
-          reviewCount: 234,
-          address: "123 Queen Street West, Toronto, ON M5H 2M9",
-          hours: "8:00 AM - 10:00 PM",
-          description:
-            "Farm-to-table restaurant serving organic, locally-sourced dishes.",
-          image:
-            "https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=400&h=300&fit=crop",
-          lat: 43.6532,
-          lng: -79.3832,
-          phone: "(416) 123-4567",
-          priceLevel: "$$",
-        },
-      ];
+      const { category, q, bbox } = req.query as Record<string, string>;
+      const paging = parsePaging(req.query, 50, 200);
+      if ("error" in paging) {
+        return res.status(400).json({ error: paging.error });
+      }
+      const { limit, offset } = paging;
+
+      const filter: BusinessFilter = { limit, offset };
+      if (category && category !== "all") filter.category = category;
+      if (q && q.trim()) filter.query = q.trim().slice(0, 100);
+      if (bbox) {
+        const parts = bbox.split(",").map((v) => parseFloat(v));
+        if (parts.length !== 4 || parts.some((v) => isNaN(v))) {
+          return res.status(400).json({
+            error: "bbox must be minLng,minLat,maxLng,maxLat",
+          });
+        }
+        const [minLng, minLat, maxLng, maxLat] = parts;
+        filter.bbox = { minLat, minLng, maxLat, maxLng };
+      }
+
+      const { businesses, total } = await db.getBusinesses(filter);
 
       res.json({
-        businesses,
+        businesses: await withRatings(businesses),
+        total,
+        hasMore: offset + limit < total,
         user: req.user
           ? {
               id: req.user.id,
@@ -195,6 +465,123 @@ app.get(
   },
 );
 
+// External IDs can trigger paid provider lookups, so they get their own limit
+const placeDetailsRateLimit = createRateLimiter(60 * 1000, 30); // 30 requests/minute
+
+app.get(
+  "/api/businesses/:id",
+  (req: Request, res: Response, next: NextFunction) => {
+    if (/^(gp|osm)-/.test(String(req.params.id))) {
+      return placeDetailsRateLimit(req, res, next);
+    }
+    next();
+  },
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as { id: string };
+      let business = await db.getBusinessById(id);
+
+      // External IDs not seen yet are resolved through the place providers
+      if (!business && /^(gp|osm)-/.test(id)) {
+        const place = await getPlaceDetails(id).catch(() => null);
+        if (place) {
+          await storePlaces([place]);
+          business = await db.getBusinessById(id);
+        }
+      }
+
+      if (!business) {
+        return res.status(404).json({ error: "Business not found" });
+      }
+      const [rated] = await withRatings([business]);
+      res.json({ business: rated });
+    } catch (error) {
+      console.error("Error fetching business:", error);
+      res.status(500).json({ error: "Failed to fetch business" });
+    }
+  },
+);
+
+app.post(
+  "/api/businesses",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const parsed = parseBusinessInput(req.body, false);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const business = await db.createBusiness({
+        ...BUSINESS_DEFAULTS,
+        ...parsed.data,
+      } as BusinessInput);
+
+      res.status(201).json({
+        message: "Business created successfully",
+        business,
+      });
+    } catch (error) {
+      console.error("Error creating business:", error);
+      res.status(500).json({ error: "Failed to create business" });
+    }
+  },
+);
+
+app.put(
+  "/api/businesses/:id",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params as { id: string };
+      const parsed = parseBusinessInput(req.body, true);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      if (Object.keys(parsed.data).length === 0) {
+        return res.status(400).json({ error: "No valid fields to update" });
+      }
+
+      const business = await db.updateBusiness(id, parsed.data);
+
+      res.json({
+        message: "Business updated successfully",
+        business,
+      });
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: "Business not found" });
+      }
+      console.error("Error updating business:", error);
+      res.status(500).json({ error: "Failed to update business" });
+    }
+  },
+);
+
+app.delete(
+  "/api/businesses/:id",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params as { id: string };
+      const photoKeys = await db.deleteBusiness(id);
+
+      if (!photoKeys) {
+        return res.status(404).json({ error: "Business not found" });
+      }
+      await deleteStoredFiles(photoKeys);
+
+      res.json({ message: "Business deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting business:", error);
+      res.status(500).json({ error: "Failed to delete business" });
+    }
+  },
+);
+
 app.get(
   "/api/profile",
   authenticate,
@@ -274,6 +661,7 @@ app.get(
           planType: user.planType,
           planExpiresAt: user.planExpiresAt,
           stripeSubscriptionId: user.stripeSubscriptionId,
+          reviewBannedAt: user.reviewBannedAt,
           createdAt: user.createdAt,
         })),
         pagination: {
@@ -301,10 +689,10 @@ app.put(
       const id = req.params.id as string;
       const { role } = req.body;
 
-      if (!["user", "admin"].includes(role)) {
+      if (!["user", "business_owner", "admin"].includes(role)) {
         return res.status(400).json({
           error: "Invalid role",
-          message: 'Role must be either "user" or "admin"',
+          message: 'Role must be "user", "business_owner" or "admin"',
         });
       }
 
@@ -409,9 +797,9 @@ app.delete(
   },
 );
 
-// Threshold: once Proximiti review count >= this, Google reviews are phased out
-const PROXIMITI_PHASE_OUT_THRESHOLD = 10;
-
+// A page of a business's reviews; ?sort=helpful|newest|highest|lowest and
+// ?stars=1-5. `rating.distribution` is the star histogram of every visible
+// review, unaffected by the filter.
 app.get(
   "/api/reviews/:businessId",
   optionalAuthenticate,
@@ -422,16 +810,30 @@ app.get(
       const offset = parseInt(req.query.offset as string) || 0;
       const requestingUserId = req.user?.id;
 
+      const sort = (req.query.sort as string | undefined) ?? "helpful";
+      if (!REVIEW_SORTS.includes(sort as ReviewSort)) {
+        return res
+          .status(400)
+          .json({ error: `sort must be one of ${REVIEW_SORTS.join(", ")}` });
+      }
+      const stars = req.query.stars ? Number(req.query.stars) : undefined;
+      if (stars !== undefined && ![1, 2, 3, 4, 5].includes(stars)) {
+        return res.status(400).json({ error: "stars must be 1 to 5" });
+      }
+
       const { reviews, total } = await db.getReviewsForBusiness(
         businessId,
         limit,
         offset,
         requestingUserId,
+        { sort: sort as ReviewSort, stars },
       );
-      const proximitiCount = await db.getProximitiReviewCount(businessId);
-
-      // Determine if Proximiti reviews should phase out Google reviews
-      const useProximitiOnly = proximitiCount >= PROXIMITI_PHASE_OUT_THRESHOLD;
+      const business = (await db.getBusinessById(businessId)) ?? {
+        id: businessId,
+        rating: 0,
+        reviewCount: 0,
+      };
+      const [{ ratingSummary }] = await withRatings([business]);
 
       // Check if requesting user has already reviewed this business
       let userReview = null;
@@ -442,12 +844,18 @@ app.get(
         );
       }
 
+      // Owners see reply controls on their business's reviews
+      const canReply =
+        req.user?.role === "business_owner" &&
+        (await db.isBusinessOwner(req.user.id, businessId));
+
       res.json({
         reviews,
         total,
-        proximitiCount,
-        useProximitiOnly,
+        proximitiCount: ratingSummary.proximiti.count,
+        rating: ratingSummary,
         userReview,
+        canReply,
         hasMore: offset + limit < total,
       });
     } catch (error) {
@@ -457,38 +865,72 @@ app.get(
   },
 );
 
+// Photos from a business's visible reviews, newest first
+app.get(
+  "/api/businesses/:id/review-photos",
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params as Record<string, string>;
+      const paging = parsePaging(req.query, 12, 48);
+      if ("error" in paging) {
+        return res.status(400).json({ error: paging.error });
+      }
+      const photos = await db.getBusinessReviewPhotos(id, paging.limit);
+      res.json({ photos });
+    } catch (error) {
+      console.error("Error fetching review photos:", error);
+      res.status(500).json({ error: "Failed to fetch review photos" });
+    }
+  },
+);
+
+const REVIEW_BANNED_MESSAGE =
+  "Your account has been banned from posting reviews";
+const MAX_REPORT_DETAILS_LENGTH = 500;
+
+/** Validate a review's rating and text. Shared by create and edit. */
+function parseReviewInput(
+  body: unknown,
+): { data: { rating: number; text: string } } | { error: string } {
+  const { rating, text } = (body ?? {}) as { rating?: unknown; text?: unknown };
+  if (!rating || typeof rating !== "number" || rating < 1 || rating > 5) {
+    return { error: "Rating must be a number between 1 and 5" };
+  }
+  if (!text || typeof text !== "string" || text.trim().length < 10) {
+    return { error: "Review text must be at least 10 characters" };
+  }
+  if (text.trim().length > 1000) {
+    return { error: "Review text must be under 1000 characters" };
+  }
+  if (profanityFilter.isProfane(text)) {
+    return {
+      error:
+        "Review contains inappropriate language. Please revise and resubmit.",
+    };
+  }
+  return { data: { rating: Math.round(rating), text: text.trim() } };
+}
+
 app.post(
   "/api/reviews/:businessId",
   authenticate,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { businessId } = req.params as Record<string, string>;
-      const { rating, text } = req.body;
       const userId = req.user!.id;
 
-      // Validate inputs
-      if (!rating || typeof rating !== "number" || rating < 1 || rating > 5) {
-        return res
-          .status(400)
-          .json({ error: "Rating must be a number between 1 and 5" });
-      }
-      if (!text || typeof text !== "string" || text.trim().length < 10) {
-        return res
-          .status(400)
-          .json({ error: "Review text must be at least 10 characters" });
+      if (req.user!.reviewBannedAt) {
+        return res.status(403).json({ error: REVIEW_BANNED_MESSAGE });
       }
-      if (text.trim().length > 1000) {
-        return res
-          .status(400)
-          .json({ error: "Review text must be under 1000 characters" });
+
+      const parsed = parseReviewInput(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
       }
+      const { rating, text } = parsed.data;
 
-      // Profanity check
-      if (profanityFilter.isProfane(text)) {
-        return res.status(400).json({
-          error:
-            "Review contains inappropriate language. Please revise and resubmit.",
-        });
+      if (!(await db.businessExists(businessId))) {
+        return res.status(404).json({ error: "Business not found" });
       }
 
       // Check for duplicate review
@@ -499,12 +941,23 @@ app.post(
           .json({ error: "You have already reviewed this business" });
       }
 
+      // Likely spam is posted but queued for moderation, not rejected
+      const spam = assessReview(
+        { rating, text },
+        await db.getReviewSpamSignals(userId, businessId),
+      );
       const review = await db.createReview(
         businessId,
         userId,
-        Math.round(rating),
-        text.trim(),
+        rating,
+        text,
+        spam,
       );
+      if (spam.flagged) {
+        console.log(
+          `🚩 Review ${review.id} flagged as likely spam (score ${spam.score}: ${spam.reasons.join(", ")})`,
+        );
+      }
       res
         .status(201)
         .json({ message: "Review submitted successfully", review });
@@ -518,220 +971,532 @@ app.post(
   },
 );
 
-app.post(
-  "/api/reviews/:reviewId/helpful",
+// Edit your own review; the previous version is kept as a revision
+app.put(
+  "/api/reviews/:reviewId",
   authenticate,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { reviewId } = req.params as Record<string, string>;
       const userId = req.user!.id;
-      const isNowHelpful = await db.toggleHelpful(reviewId, userId);
-      res.json({ helpful: isNowHelpful });
+
+      if (req.user!.reviewBannedAt) {
+        return res.status(403).json({ error: REVIEW_BANNED_MESSAGE });
+      }
+
+      const parsed = parseReviewInput(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const existing = await db.getReviewById(parseInt(reviewId));
+      if (existing.userId !== userId) {
+        return res
+          .status(403)
+          .json({ error: "You can only edit your own review" });
+      }
+
+      const review = await db.updateReview(
+        reviewId,
+        parsed.data.rating,
+        parsed.data.text,
+        userId,
+      );
+      res.json({ message: "Review updated successfully", review });
     } catch (error) {
-      console.error("Error toggling helpful:", error);
-      res.status(500).json({ error: "Failed to update helpful status" });
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: errorMessage(error) });
+      }
+      console.error("Error updating review:", error);
+      res.status(500).json({ error: "Failed to update review" });
     }
   },
 );
 
-// Google Places reviews proxy (keeps API key server-side)
-// When SERPAPI_KEY is configured, uses SerpAPI google_maps_reviews for unlimited paginated reviews.
-// Falls back to Google Places API (5 reviews max) otherwise.
-app.get(
-  "/api/places/google-reviews",
-  optionalAuthenticate,
-  async (_req: Request, res: Response) => {
+app.delete(
+  "/api/reviews/:reviewId",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const {
-        name,
-        lat,
-        lng,
-        placeId: existingDataId, // reused to store SerpAPI data_id across pages
-        pagetoken,
-      } = _req.query as Record<string, string>;
-      const placesApiKey = process.env.GOOGLE_PLACES_API_KEY;
-      const serpApiKey = process.env.SERPAPI_KEY;
-
-      if (!placesApiKey && !serpApiKey) {
+      const { reviewId } = req.params as Record<string, string>;
+      const existing = await db.getReviewById(parseInt(reviewId));
+      if (existing.userId !== req.user!.id) {
         return res
-          .status(503)
-          .json({ error: "Google Places API not configured", reviews: [] });
+          .status(403)
+          .json({ error: "You can only delete your own review" });
       }
 
-      // Allow pagination without name/lat/lng if we already have the dataId
-      if (!existingDataId && (!name || !lat || !lng)) {
-        return res
-          .status(400)
-          .json({ error: "name, lat and lng are required" });
+      await deleteStoredFiles(await db.deleteReview(reviewId));
+      res.json({ message: "Review deleted successfully" });
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: errorMessage(error) });
       }
+      console.error("Error deleting review:", error);
+      res.status(500).json({ error: "Failed to delete review" });
+    }
+  },
+);
 
-      if (serpApiKey) {
-        let dataId: string | null = existingDataId || null;
-        let googleRating: number | null = null;
-        let totalRatings: number | null = null;
-
-        // Step 1 (first page only): find place via SerpAPI google_maps to get data_id + rating
-        if (!dataId) {
-          const mapsUrl = new URL("https://serpapi.com/search.json");
-          mapsUrl.searchParams.set("engine", "google_maps");
-          mapsUrl.searchParams.set("q", name);
-          mapsUrl.searchParams.set("ll", `@${lat},${lng},14z`);
-          mapsUrl.searchParams.set("hl", "en");
-          mapsUrl.searchParams.set("api_key", serpApiKey);
-
-          const mapsResp = await fetch(mapsUrl.toString(), {
-            signal: AbortSignal.timeout(30000),
-          });
-          const mapsData = (await mapsResp.json()) as any;
-
-          if (mapsData.error) {
-            console.error("SerpAPI maps search error:", mapsData.error);
-            return res.status(502).json({
-              error: "Failed to locate business via SerpAPI",
-              reviews: [],
-            });
-          }
-
-          const place = mapsData.local_results?.[0];
-          if (!place) {
-            return res.json({
-              placeId: null,
-              reviews: [],
-              googleRating: null,
-              totalRatings: null,
-              nextPageToken: null,
-            });
-          }
-
-          dataId = place.data_id;
-          googleRating = place.rating ?? null;
-          totalRatings = place.reviews ?? null; // "reviews" field = total count integer
-        }
-
-        // Step 2: fetch reviews with google_maps_reviews engine
-        const reviewsUrl = new URL("https://serpapi.com/search.json");
-        reviewsUrl.searchParams.set("engine", "google_maps_reviews");
-        reviewsUrl.searchParams.set("data_id", dataId!);
-        reviewsUrl.searchParams.set("hl", "en");
-        reviewsUrl.searchParams.set("api_key", serpApiKey);
-        if (pagetoken)
-          reviewsUrl.searchParams.set("next_page_token", pagetoken);
-
-        const reviewsResp = await fetch(reviewsUrl.toString(), {
-          signal: AbortSignal.timeout(30000),
-        });
-        const reviewsData = (await reviewsResp.json()) as any;
+// Admin: remove an abusive review
+app.delete(
+  "/api/admin/reviews/:reviewId",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
+      await deleteStoredFiles(await db.deleteReview(reviewId));
+      console.log(`🗑️ Admin ${req.user!.id} removed review ${reviewId}`);
+      res.json({ message: "Review removed" });
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: errorMessage(error) });
+      }
+      console.error("Error removing review:", error);
+      res.status(500).json({ error: "Failed to remove review" });
+    }
+  },
+);
 
-        if (reviewsData.error) {
-          console.error("SerpAPI reviews error:", reviewsData.error);
-          return res.status(502).json({
-            error: "Failed to fetch reviews via SerpAPI",
-            reviews: [],
-          });
-        }
+// Attach a photo to your own review. The image arrives as a data URL and is
+// re-encoded before storage, which drops EXIF data such as GPS position.
+app.post(
+  "/api/reviews/:reviewId/photos",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
 
-        const reviews = (reviewsData.reviews ?? []).map((r: any) => ({
-          author_name: r.user?.name || "Anonymous",
-          author_url: r.user?.link || null,
-          profile_photo_url: r.user?.thumbnail || null,
-          rating: r.rating ?? 0,
-          text: r.snippet ?? "",
-          time: r.iso_date
-            ? Math.floor(new Date(r.iso_date).getTime() / 1000)
-            : Math.floor(Date.now() / 1000),
-          relative_time_description: r.date ?? "",
-        }));
+      if (req.user!.reviewBannedAt) {
+        return res.status(403).json({ error: REVIEW_BANNED_MESSAGE });
+      }
 
-        return res.json({
-          placeId: dataId, // returned so frontend can send it back for pagination
-          reviews,
-          googleRating, // only populated on first page
-          totalRatings, // only populated on first page
-          nextPageToken:
-            reviewsData.serpapi_pagination?.next_page_token ?? null,
+      const existing = await db.getReviewById(parseInt(reviewId));
+      if (existing.userId !== req.user!.id) {
+        return res
+          .status(403)
+          .json({ error: "You can only add photos to your own review" });
+      }
+      if (existing.photos.length >= MAX_REVIEW_PHOTOS) {
+        return res.status(400).json({
+          error: `A review can have at most ${MAX_REVIEW_PHOTOS} photos`,
         });
       }
 
-      if (!placesApiKey) {
-        return res
-          .status(503)
-          .json({ error: "Google Places API not configured", reviews: [] });
+      let processed;
+      try {
+        const { type, data } = decodePhotoDataUrl(req.body?.image);
+        processed = await processPhoto(data, type);
+      } catch (error) {
+        return res.status(400).json({ error: errorMessage(error) });
       }
 
-      let placeId: string | null = existingDataId || null;
+      const name = `reviews/${reviewId}/${crypto.randomUUID()}`;
+      const imageKey = `${name}.jpg`;
+      const thumbnailKey = `${name}-thumb.jpg`;
+      await fileStorage.put(imageKey, processed.image, "image/jpeg");
+      await fileStorage.put(thumbnailKey, processed.thumbnail, "image/jpeg");
 
-      if (!placeId) {
-        const findUrl = `https://maps.googleapis.com/maps/api/place/findplacefromtext/json?input=${encodeURIComponent(name)}&inputtype=textquery&locationbias=point:${lat},${lng}&fields=place_id,rating,user_ratings_total&key=${placesApiKey}`;
-        const findResp = await fetch(findUrl, {
-          signal: AbortSignal.timeout(30000),
-        });
-        const findData = (await findResp.json()) as any;
-
-        if (findData.candidates?.length > 0) {
-          placeId = findData.candidates[0].place_id;
-        } else {
-          return res.json({
-            placeId: null,
-            reviews: [],
-            googleRating: null,
-            totalRatings: null,
-            nextPageToken: null,
-          });
-        }
+      try {
+        const review = await db.addReviewPhoto(
+          reviewId,
+          {
+            imageKey,
+            thumbnailKey,
+            url: fileStorage.url(imageKey),
+            thumbnailUrl: fileStorage.url(thumbnailKey),
+            width: processed.width,
+            height: processed.height,
+          },
+          MAX_REVIEW_PHOTOS,
+        );
+        res.status(201).json({ message: "Photo added", review });
+      } catch (error) {
+        await deleteStoredFiles([imageKey, thumbnailKey]);
+        throw error;
+      }
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: errorMessage(error) });
+      }
+      if (errorMessage(error).includes("at most")) {
+        return res.status(400).json({ error: errorMessage(error) });
       }
+      console.error("Error adding review photo:", error);
+      res.status(500).json({ error: "Failed to add photo" });
+    }
+  },
+);
 
-      // Step 2: Get reviews from Place Details API
-      // Important: Google Places API requires significant delay before using next_page_token
-      // Free tier is heavily rate-limited (429 errors are common)
-      if (pagetoken) {
-        await new Promise((resolve) => setTimeout(resolve, 3000));
+app.delete(
+  "/api/reviews/:reviewId/photos/:photoId",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId, photoId } = req.params as Record<string, string>;
+      const existing = await db.getReviewById(parseInt(reviewId));
+      if (existing.userId !== req.user!.id && req.user!.role !== "admin") {
+        return res
+          .status(403)
+          .json({ error: "You can only remove photos from your own review" });
       }
 
-      const detailsUrl = pagetoken
-        ? `https://maps.googleapis.com/maps/api/place/details/json?pagetoken=${pagetoken}&fields=reviews,rating,user_ratings_total,next_page_token&key=${placesApiKey}`
-        : `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}&fields=reviews,rating,user_ratings_total,next_page_token&key=${placesApiKey}`;
+      await deleteStoredFiles(await db.deleteReviewPhoto(reviewId, photoId));
+      const review = await db.getReviewById(parseInt(reviewId));
+      res.json({ message: "Photo removed", review });
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: errorMessage(error) });
+      }
+      console.error("Error removing review photo:", error);
+      res.status(500).json({ error: "Failed to remove photo" });
+    }
+  },
+);
 
-      const detailsResp = await fetch(detailsUrl, {
-        signal: AbortSignal.timeout(30000),
-      });
-      const detailsData = (await detailsResp.json()) as any;
+// Flag a review for the moderation queue
+app.post(
+  "/api/reviews/:reviewId/report",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
+      const { reason, details } = req.body ?? {};
 
-      // Check for rate limit errors
+      if (req.user!.reviewBannedAt) {
+        return res.status(403).json({ error: REVIEW_BANNED_MESSAGE });
+      }
+      if (!REVIEW_REPORT_REASONS.includes(reason)) {
+        return res.status(400).json({
+          error: `Reason must be one of: ${REVIEW_REPORT_REASONS.join(", ")}`,
+        });
+      }
       if (
-        detailsData.error_message?.includes("quota") ||
-        detailsData.error_message?.includes("rate")
+        details != null &&
+        (typeof details !== "string" ||
+          details.trim().length > MAX_REPORT_DETAILS_LENGTH)
       ) {
-        console.warn(
-          "Google Places API rate limited:",
-          detailsData.error_message,
-        );
-        return res.status(429).json({
-          error: "Rate limited. Please wait before loading more reviews.",
+        return res.status(400).json({
+          error: `Details must be at most ${MAX_REPORT_DETAILS_LENGTH} characters`,
         });
       }
 
-      if (detailsData.status && detailsData.status !== "OK") {
-        console.warn(
-          "Google Places API error:",
-          detailsData.status,
-          detailsData.error_message,
-        );
+      const result = await db.reportReview(
+        reviewId,
+        req.user!.id,
+        reason as ReviewReportReason,
+        details?.trim() || null,
+      );
+      if (!result.success) {
+        const status = result.error?.includes("not found")
+          ? 404
+          : result.error?.includes("already")
+            ? 409
+            : 400;
+        return res.status(status).json({ error: result.error });
+      }
+      res
+        .status(201)
+        .json({ message: "Thanks – a moderator will take a look" });
+    } catch (error) {
+      console.error("Error reporting review:", error);
+      res.status(500).json({ error: "Failed to report review" });
+    }
+  },
+);
+
+// Admin: reported ("open") or hidden reviews awaiting moderation
+app.get(
+  "/api/admin/review-reports",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const status = req.query.status === "hidden" ? "hidden" : "open";
+      const items = await db.getModerationQueue(status);
+      res.json({ items });
+    } catch (error) {
+      console.error("Error fetching moderation queue:", error);
+      res.status(500).json({ error: "Failed to fetch moderation queue" });
+    }
+  },
+);
+
+// Admin: hide, restore, dismiss reports on, or ban the author of a review
+app.post(
+  "/api/admin/reviews/:reviewId/moderate",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
+      const { action } = req.body ?? {};
+      const actions: ModerationAction[] = ["hide", "restore", "dismiss", "ban"];
+      if (!actions.includes(action)) {
         return res
           .status(400)
-          .json({ error: `Google API error: ${detailsData.status}` });
+          .json({ error: `Action must be one of: ${actions.join(", ")}` });
+      }
+
+      const result = await db.moderateReview(reviewId, action, req.user!.id);
+      if (!result.success) {
+        const status = result.error?.includes("not found") ? 404 : 400;
+        return res.status(status).json({ error: result.error });
+      }
+      console.log(
+        `🛡️ Admin ${req.user!.id} applied ${action} to review ${reviewId}`,
+      );
+      res.json({ message: "Review moderated" });
+    } catch (error) {
+      console.error("Error moderating review:", error);
+      res.status(500).json({ error: "Failed to moderate review" });
+    }
+  },
+);
+
+// Admin: let a banned user post reviews again
+app.delete(
+  "/api/admin/users/:id/review-ban",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const lifted = await db.liftReviewBan(req.params.id as string);
+      if (!lifted) {
+        return res.status(404).json({ error: "User is not banned" });
+      }
+      res.json({ message: "Review ban lifted" });
+    } catch (error) {
+      console.error("Error lifting review ban:", error);
+      res.status(500).json({ error: "Failed to lift review ban" });
+    }
+  },
+);
+
+// Resolve the business a review belongs to, for ownership checks
+const reviewBusiness = async (req: AuthenticatedRequest) => {
+  try {
+    const review = await db.getReviewById(
+      parseInt(req.params.reviewId as string),
+    );
+    return review.businessId;
+  } catch {
+    return null;
+  }
+};
+
+const MAX_REPLY_LENGTH = 1000;
+
+/** Validate an owner's reply text. */
+function parseReplyText(body: unknown): { text: string } | { error: string } {
+  const text = (body as { text?: unknown } | undefined)?.text;
+  if (typeof text !== "string" || !text.trim()) {
+    return { error: "Reply text is required" };
+  }
+  if (text.trim().length > MAX_REPLY_LENGTH) {
+    return {
+      error: `Reply text must be under ${MAX_REPLY_LENGTH} characters`,
+    };
+  }
+  if (profanityFilter.isProfane(text)) {
+    return {
+      error:
+        "Reply contains inappropriate language. Please revise and resubmit.",
+    };
+  }
+  return { text: text.trim() };
+}
+
+// Owners of the reviewed business can post one public reply per review
+app.post(
+  "/api/reviews/:reviewId/reply",
+  authenticate,
+  requireRole(["business_owner"], reviewBusiness),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
+      const parsed = parseReplyText(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const review = await db.createReviewReply(
+        reviewId,
+        req.user!.id,
+        parsed.text,
+      );
+      res.status(201).json({ message: "Reply posted", review });
+    } catch (error) {
+      if (errorMessage(error).includes("already has a reply")) {
+        return res.status(409).json({ error: errorMessage(error) });
+      }
+      console.error("Error posting review reply:", error);
+      res.status(500).json({ error: "Failed to post reply" });
+    }
+  },
+);
+
+app.put(
+  "/api/reviews/:reviewId/reply",
+  authenticate,
+  requireRole(["business_owner"], reviewBusiness),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
+      const parsed = parseReplyText(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const review = await db.updateReviewReply(reviewId, parsed.text);
+      res.json({ message: "Reply updated", review });
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: errorMessage(error) });
+      }
+      console.error("Error updating review reply:", error);
+      res.status(500).json({ error: "Failed to update reply" });
+    }
+  },
+);
+
+app.delete(
+  "/api/reviews/:reviewId/reply",
+  authenticate,
+  requireRole(["business_owner"], reviewBusiness),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
+      await db.deleteReviewReply(reviewId);
+      res.json({ message: "Reply deleted" });
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: errorMessage(error) });
+      }
+      console.error("Error deleting review reply:", error);
+      res.status(500).json({ error: "Failed to delete reply" });
+    }
+  },
+);
+
+// The reviewer has seen the reply to their review
+app.post(
+  "/api/reviews/:reviewId/reply/read",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
+      await db.markReviewReplyRead(reviewId, req.user!.id);
+      res.json({ message: "Reply marked as read" });
+    } catch (error) {
+      console.error("Error marking review reply read:", error);
+      res.status(500).json({ error: "Failed to mark reply as read" });
+    }
+  },
+);
+
+// Edit history is public, like the review itself; a hidden review's history
+// is only shown to admins and its author
+app.get(
+  "/api/reviews/:reviewId/revisions",
+  optionalAuthenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
+      const revisions = await db.getReviewRevisions(reviewId, req.user);
+      res.json({ revisions });
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: "Review not found" });
       }
+      console.error("Error fetching review revisions:", error);
+      res.status(500).json({ error: "Failed to fetch review history" });
+    }
+  },
+);
+
+app.post(
+  "/api/reviews/:reviewId/helpful",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { reviewId } = req.params as Record<string, string>;
+      const userId = req.user!.id;
+      const isNowHelpful = await db.toggleHelpful(reviewId, userId);
+      res.json({ helpful: isNowHelpful });
+    } catch (error) {
+      console.error("Error toggling helpful:", error);
+      res.status(500).json({ error: "Failed to update helpful status" });
+    }
+  },
+);
+
+/** Record provider results in the catalog so coupons and reviews can reference them. */
+async function storePlaces(places: PlaceBusiness[]): Promise<void> {
+  try {
+    for (const source of ["google", "osm"] as const) {
+      await db.upsertExternalBusinesses(
+        places.filter((p) => p.source === source),
+        source,
+      );
+    }
+  } catch (err) {
+    console.warn("Failed to store places:", err);
+  }
+}
+
+// Google reviews proxy (keeps API keys server-side). Served by SerpAPI when
+// configured for unlimited paginated reviews, otherwise Google Places (5 max).
+// See PLACE_PROVIDERS_REVIEWS to change the order.
+app.get(
+  "/api/places/google-reviews",
+  optionalAuthenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const {
+        name,
+        lat,
+        lng,
+        placeId, // provider-prefixed place reference from the first page
+        pagetoken,
+      } = req.query as Record<string, string>;
 
-      const responseNextPageToken = detailsData.next_page_token ?? null;
+      // Allow pagination without name/lat/lng if we already have the placeId
+      if (!placeId && (!name || !lat || !lng)) {
+        return res
+          .status(400)
+          .json({ error: "name, lat and lng are required" });
+      }
 
-      return res.json({
+      const page = await getPlaceReviews({
+        name,
+        lat: lat ? parseFloat(lat) : undefined,
+        lng: lng ? parseFloat(lng) : undefined,
         placeId,
-        reviews: detailsData.result?.reviews ?? [],
-        googleRating: detailsData.result?.rating ?? null,
-        totalRatings: detailsData.result?.user_ratings_total ?? null,
-        nextPageToken: responseNextPageToken,
+        pageToken: pagetoken,
+      });
+
+      res.json({
+        placeId: page.placeId, // returned so frontend can send it back for pagination
+        reviews: page.reviews,
+        googleRating: page.rating, // only populated on first page
+        totalRatings: page.totalRatings, // only populated on first page
+        nextPageToken: page.nextPageToken,
       });
     } catch (error) {
-      console.error("Google Places proxy error:", error);
+      if (errorMessage(error).includes("Invalid placeId")) {
+        return res.status(400).json({ error: "Invalid placeId", reviews: [] });
+      }
+      if (errorMessage(error).includes("No place provider")) {
+        return res
+          .status(503)
+          .json({ error: "Google Places API not configured", reviews: [] });
+      }
+      if (errorMessage(error).includes("rate limited")) {
+        return res.status(429).json({
+          error: "Rate limited. Please wait before loading more reviews.",
+        });
+      }
+      console.error("Google reviews proxy error:", error);
       res
         .status(500)
         .json({ error: "Failed to fetch Google reviews", reviews: [] });
@@ -739,21 +1504,13 @@ app.get(
   },
 );
 
-// Google Places Photo proxy – returns the first photo of a business as a redirect.
-// Uses the existing GOOGLE_PLACES_API_KEY; no SerpAPI consumed.
+// Place photo proxy – returns the first photo of a business as a redirect.
 app.get(
   "/api/places/photo",
   optionalAuthenticate,
-  async (_req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
-      const { name, lat, lng } = _req.query as Record<string, string>;
-      const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-
-      if (!apiKey) {
-        return res
-          .status(503)
-          .json({ error: "Google Places API not configured" });
-      }
+      const { name, lat, lng } = req.query as Record<string, string>;
       if (!name || !lat || !lng) {
         return res
           .status(400)
@@ -765,266 +1522,59 @@ app.get(
       const cached = await db.getCachedPhoto(cacheKey);
       if (cached) return res.redirect(302, cached);
 
-      // Find place and request a photo reference in one call
-      const findUrl = `https://maps.googleapis.com/maps/api/place/findplacefromtext/json?input=${encodeURIComponent(name)}&inputtype=textquery&locationbias=point:${lat},${lng}&fields=place_id&key=${apiKey}`;
-      const findData = (await (
-        await fetch(findUrl, { signal: AbortSignal.timeout(15000) })
-      ).json()) as any;
-      const placeId = findData.candidates?.[0]?.place_id;
-      if (!placeId) return res.status(404).json({ error: "Place not found" });
-
-      // Fetch place details to get a photo reference
-      const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}&fields=photos&key=${apiKey}`;
-      const detailsData = (await (
-        await fetch(detailsUrl, { signal: AbortSignal.timeout(15000) })
-      ).json()) as any;
-      const photoRef = detailsData.result?.photos?.[0]?.photo_reference;
-      if (!photoRef)
+      const photoUrl = await getPlacePhoto({
+        name,
+        lat: parseFloat(lat),
+        lng: parseFloat(lng),
+      });
+      if (!photoUrl)
         return res.status(404).json({ error: "No photo available" });
 
-      // Redirect to the actual Places Photo URL (browser fetches it directly)
-      const photoUrl = `https://maps.googleapis.com/maps/api/place/photo?maxwidth=800&photoreference=${photoRef}&key=${apiKey}`;
       await db.cachePhoto(cacheKey, photoUrl);
       res.redirect(302, photoUrl);
     } catch (error) {
+      if (errorMessage(error).includes("No place provider")) {
+        return res
+          .status(503)
+          .json({ error: "Google Places API not configured" });
+      }
       console.error("Places photo proxy error:", error);
       res.status(500).json({ error: "Failed to fetch business photo" });
     }
   },
 );
 
-// Google Places Nearby Search proxy – uses Places API (New) for comprehensive business data.
-// Falls back gracefully; API key stays server-side.
+// Nearby businesses from the first place provider that returns results
+// (Google → SerpAPI → Overpass by default; see PLACE_PROVIDERS).
 app.get(
   "/api/places/nearby",
   optionalAuthenticate,
   async (req: Request, res: Response) => {
     try {
       const { lat, lng, radius = "2000" } = req.query as Record<string, string>;
-      const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-
-      if (!apiKey) {
-        return res
-          .status(503)
-          .json({ error: "Google Places API not configured", businesses: [] });
-      }
       if (!lat || !lng) {
         return res
           .status(400)
           .json({ error: "lat and lng are required", businesses: [] });
       }
 
-      const PLACES_TYPE_CATEGORY: Record<string, string> = {
-        // Food
-        restaurant: "food",
-        fast_food_restaurant: "food",
-        meal_delivery: "food",
-        meal_takeaway: "food",
-        bar: "food",
-        pub: "food",
-        night_club: "food",
-        bakery: "food",
-        dessert_shop: "food",
-        sandwich_shop: "food",
-        pizza_restaurant: "food",
-        hamburger_restaurant: "food",
-        sushi_restaurant: "food",
-        seafood_restaurant: "food",
-        steak_house: "food",
-        // Coffee
-        cafe: "coffee",
-        coffee_shop: "coffee",
-        tea_house: "coffee",
-        juice_bar: "coffee",
-        ice_cream_shop: "coffee",
-        // Retail
-        grocery_store: "retail",
-        supermarket: "retail",
-        convenience_store: "retail",
-        clothing_store: "retail",
-        electronics_store: "retail",
-        shopping_mall: "retail",
-        book_store: "retail",
-        jewelry_store: "retail",
-        shoe_store: "retail",
-        hardware_store: "retail",
-        furniture_store: "retail",
-        department_store: "retail",
-        florist: "retail",
-        pet_store: "retail",
-        bicycle_store: "retail",
-        sporting_goods_store: "retail",
-        home_goods_store: "retail",
-        gift_shop: "retail",
-        drugstore: "retail",
-        discount_store: "retail",
-        market: "retail",
-        // Health
-        gym: "health",
-        fitness_center: "health",
-        sports_club: "health",
-        pharmacy: "health",
-        doctor: "health",
-        dentist: "health",
-        hospital: "health",
-        physiotherapist: "health",
-        beauty_salon: "health",
-        spa: "health",
-        hair_salon: "health",
-        nail_salon: "health",
-        barbershop: "health",
-        massage_therapist: "health",
-        veterinary_care: "health",
-        // Entertainment
-        movie_theater: "entertainment",
-        bowling_alley: "entertainment",
-        casino: "entertainment",
-        amusement_park: "entertainment",
-        zoo: "entertainment",
-        aquarium: "entertainment",
-        museum: "entertainment",
-        art_gallery: "entertainment",
-        performing_arts_theater: "entertainment",
-        stadium: "entertainment",
-        // Services
-        bank: "services",
-        atm: "services",
-        car_repair: "services",
-        car_wash: "services",
-        laundry: "services",
-        gas_station: "services",
-        hotel: "services",
-        lodging: "services",
-        travel_agency: "services",
-        car_rental: "services",
-        insurance_agency: "services",
-        real_estate_agency: "services",
-        post_office: "services",
+      const params = {
+        lat: parseFloat(lat),
+        lng: parseFloat(lng),
+        radius: parseFloat(radius),
       };
-
-      const CATEGORY_IMAGE_POOLS: Record<string, string[]> = {
-        food: [
-          "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1555396273-367ea4eb4db5?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=400&h=300&fit=crop",
-        ],
-        coffee: [
-          "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1556679343-c7306c1976bc?w=400&h=300&fit=crop",
-        ],
-        retail: [
-          "https://images.unsplash.com/photo-1567401893414-76b7b1e5a7a5?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=300&fit=crop",
-        ],
-        health: [
-          "https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1534438327276-14e5300c3a48?w=400&h=300&fit=crop",
-        ],
-        entertainment: [
-          "https://images.unsplash.com/photo-1536440136628-849c177e76a1?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1489599849927-2ee91cede3ba?w=400&h=300&fit=crop",
-        ],
-        services: [
-          "https://images.unsplash.com/photo-1492144534655-ae79c964c9d7?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1487754180451-c456f719a1fc?w=400&h=300&fit=crop",
-        ],
-      };
-
-      function djb2(s: string): number {
-        return s
-          .split("")
-          .reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 0);
-      }
-
-      const placesRes = await fetch(
-        "https://places.googleapis.com/v1/places:searchNearby",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-Goog-Api-Key": apiKey,
-            "X-Goog-FieldMask": [
-              "places.id",
-              "places.displayName",
-              "places.formattedAddress",
-              "places.location",
-              "places.types",
-              "places.rating",
-              "places.userRatingCount",
-              "places.priceLevel",
-              "places.regularOpeningHours",
-              "places.internationalPhoneNumber",
-              "places.websiteUri",
-            ].join(","),
-          },
-          body: JSON.stringify({
-            maxResultCount: 20,
-            locationRestriction: {
-              circle: {
-                center: {
-                  latitude: parseFloat(lat),
-                  longitude: parseFloat(lng),
-                },
-                radius: parseFloat(radius),
-              },
-            },
-          }),
-          signal: AbortSignal.timeout(15000),
+      const { value, status } = await cachedPlaceLookup(
+        "nearby",
+        params,
+        async () => {
+          const result = await searchNearby(params);
+          await storePlaces(result.businesses);
+          return { value: result, provider: result.provider };
         },
       );
 
-      if (!placesRes.ok) {
-        const errText = await placesRes.text();
-        console.error("Google Places Nearby error:", errText);
-        return res
-          .status(placesRes.status)
-          .json({ error: "Google Places API error", businesses: [] });
-      }
-
-      const placesData = (await placesRes.json()) as { places?: any[] };
-      const places = placesData.places ?? [];
-
-      const priceLevelMap: Record<string, string> = {
-        PRICE_LEVEL_FREE: "$",
-        PRICE_LEVEL_INEXPENSIVE: "$",
-        PRICE_LEVEL_MODERATE: "$$",
-        PRICE_LEVEL_EXPENSIVE: "$$$",
-        PRICE_LEVEL_VERY_EXPENSIVE: "$$$$",
-      };
-
-      const businesses = places.map((place: any) => {
-        const name: string = place.displayName?.text ?? "Unknown";
-        const types: string[] = place.types ?? [];
-        const category =
-          types.map((t) => PLACES_TYPE_CATEGORY[t]).find(Boolean) ?? "services";
-        const pool =
-          CATEGORY_IMAGE_POOLS[category] ?? CATEGORY_IMAGE_POOLS.food;
-        const image = pool[djb2(name) % pool.length];
-        const hours: string =
-          place.regularOpeningHours?.weekdayDescriptions?.join("\n") ?? "";
-        return {
-          id: `gp-${place.id}`,
-          name,
-          category,
-          rating:
-            place.rating ?? Math.round((Math.random() * 1.5 + 3.5) * 10) / 10,
-          reviewCount:
-            place.userRatingCount ?? Math.floor(Math.random() * 300) + 20,
-          address: place.formattedAddress ?? "",
-          hours,
-          description: `${name} – ${(types[0] ?? "business").replace(/_/g, " ")}`,
-          image,
-          lat: place.location?.latitude ?? 0,
-          lng: place.location?.longitude ?? 0,
-          phone: place.internationalPhoneNumber ?? "",
-          priceLevel: priceLevelMap[place.priceLevel] ?? "$$",
-          website: place.websiteUri ?? undefined,
-        };
-      });
-
-      res.json({ businesses });
+      res.setHeader("X-Cache", status.toUpperCase());
+      res.json({ ...value, businesses: await withRatings(value.businesses) });
     } catch (error) {
       console.error("Places nearby proxy error:", error);
       res
@@ -1034,7 +1584,7 @@ app.get(
   },
 );
 
-// Searches for named POIs matching a query near a location.
+// Searches OpenStreetMap for named POIs matching a query near a location.
 // Works entirely free — no API key needed.
 app.get(
   "/api/osm/search",
@@ -1050,110 +1600,25 @@ app.get(
       if (!q || !lat || !lng)
         return res
           .status(400)
-          .json({ error: "query, lat and lng are required", results: [] });
-
-      const r = Math.min(parseFloat(radius), 50000); // cap at 50 km
-      // Search by name (case-insensitive regex) with amenity or shop tag
-      const overpassQuery = `
-[out:json][timeout:20];
-(
-  node["name"~"${q.replace(/"/g, "")}", i]["amenity"](around:${r},${lat},${lng});
-  node["name"~"${q.replace(/"/g, "")}", i]["shop"](around:${r},${lat},${lng});
-  node["name"~"${q.replace(/"/g, "")}", i]["tourism"](around:${r},${lat},${lng});
-  node["name"~"${q.replace(/"/g, "")}", i]["leisure"](around:${r},${lat},${lng});
-  way["name"~"${q.replace(/"/g, "")}", i]["amenity"](around:${r},${lat},${lng});
-  way["name"~"${q.replace(/"/g, "")}", i]["shop"](around:${r},${lat},${lng});
-);
-out center body 30;
-`;
-
-      const OVERPASS_ENDPOINTS = [
-        "https://overpass-api.de/api/interpreter",
-        "https://overpass.kumi.systems/api/interpreter",
-        "https://overpass.openstreetmap.ru/api/interpreter",
-        "https://overpass.private.coffee/api/interpreter",
-      ];
-
-      let osmData: any = null;
-      for (const endpoint of OVERPASS_ENDPOINTS) {
-        try {
-          const controller = new AbortController();
-          const timer = setTimeout(() => controller.abort(), 8000);
-          const osmRes = await fetch(endpoint, {
-            method: "POST",
-            body: overpassQuery,
-            headers: { "Content-Type": "text/plain" },
-            signal: controller.signal,
-          }).finally(() => clearTimeout(timer));
-          if (osmRes.ok) {
-            osmData = await osmRes.json();
-            break;
-          }
-        } catch {
-          // try next
-        }
-      }
-
-      if (!osmData) return res.json({ results: [] });
-
-      const userLat = parseFloat(lat);
-      const userLng = parseFloat(lng);
-
-      // Haversine helper
-      function haversine(
-        la1: number,
-        lo1: number,
-        la2: number,
-        lo2: number,
-      ): number {
-        const R = 6371;
-        const dLat = ((la2 - la1) * Math.PI) / 180;
-        const dLon = ((lo2 - lo1) * Math.PI) / 180;
-        const a =
-          Math.sin(dLat / 2) ** 2 +
-          Math.cos((la1 * Math.PI) / 180) *
-            Math.cos((la2 * Math.PI) / 180) *
-            Math.sin(dLon / 2) ** 2;
-        return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      }
+          .json({ error: "query, lat and lng are required", businesses: [] });
 
-      const results = (osmData.elements ?? [])
-        .filter(
-          (el: any) =>
-            el.tags?.name && (el.lat != null || el.center?.lat != null),
-        )
-        .map((el: any) => {
-          const elLat = el.lat ?? el.center?.lat ?? 0;
-          const elLng = el.lon ?? el.center?.lon ?? 0;
-          const tags = el.tags ?? {};
-          const addr = [tags["addr:housenumber"], tags["addr:street"]]
-            .filter(Boolean)
-            .join(" ");
-          const city = tags["addr:city"] || tags["addr:suburb"] || "";
-          return {
-            name: tags.name,
-            lat: elLat,
-            lng: elLng,
-            address: addr ? `${addr}${city ? ", " + city : ""}` : city || "",
-            type:
-              tags.amenity || tags.shop || tags.tourism || tags.leisure || "",
-            phone: tags.phone || tags["contact:phone"] || "",
-            website: tags.website || tags["contact:website"] || "",
-            distance: haversine(userLat, userLng, elLat, elLng),
-          };
-        })
-        .sort((a: any, b: any) => a.distance - b.distance)
-        .slice(0, 20);
+      const businesses = await getPlaceProvider("overpass").textSearch!({
+        query: q,
+        lat: parseFloat(lat),
+        lng: parseFloat(lng),
+        radius: parseFloat(radius),
+      });
+      await storePlaces(businesses);
 
-      res.json({ results });
+      res.json({ businesses: await withRatings(businesses) });
     } catch (error) {
       console.error("OSM text search error:", error);
-      res.status(500).json({ error: "Search failed", results: [] });
+      res.status(500).json({ error: "Search failed", businesses: [] });
     }
   },
 );
 
-// OpenStreetMap Overpass proxy – runs server-side so CSP doesn't block mirrors.
+// OpenStreetMap nearby businesses via the Overpass provider only.
 app.get(
   "/api/osm/nearby",
   optionalAuthenticate,
@@ -1163,71 +1628,33 @@ app.get(
       if (!lat || !lng)
         return res.status(400).json({ error: "lat and lng are required" });
 
-      const r = parseFloat(radius);
-      const query = `
-[out:json][timeout:25];
-(
-  node["amenity"]["name"](around:${r},${lat},${lng});
-  node["shop"]["name"](around:${r},${lat},${lng});
-  way["amenity"]["name"](around:${r},${lat},${lng});
-  way["shop"]["name"](around:${r},${lat},${lng});
-);
-out body;
->;
-out skel qt;
-`;
-
-      const OVERPASS_ENDPOINTS = [
-        "https://overpass-api.de/api/interpreter",
-        "https://overpass.kumi.systems/api/interpreter",
-        "https://overpass.openstreetmap.ru/api/interpreter",
-        "https://overpass.private.coffee/api/interpreter",
-        "https://maps.mail.ru/osm/tools/overpass/api/interpreter",
-        "https://overpass.terrametrics.com/api/interpreter",
-      ];
-
-      let osmData: any = null;
-      const PER_ENDPOINT_TIMEOUT = 8000; // 8 s per mirror — try them all fast
-      for (const endpoint of OVERPASS_ENDPOINTS) {
-        try {
-          const controller = new AbortController();
-          const timer = setTimeout(
-            () => controller.abort(),
-            PER_ENDPOINT_TIMEOUT,
-          );
-          const osmRes = await fetch(endpoint, {
-            method: "POST",
-            body: query,
-            headers: { "Content-Type": "text/plain" },
-            signal: controller.signal,
-          }).finally(() => clearTimeout(timer));
-          if (osmRes.ok) {
-            osmData = await osmRes.json();
-            break;
-          }
-          console.warn(`Overpass ${endpoint} returned HTTP ${osmRes.status}`);
-        } catch (err) {
-          console.warn(`Overpass ${endpoint} failed:`, err);
-        }
-      }
-
-      if (!osmData) {
-        console.warn("All Overpass endpoints failed — returning empty result");
-        // Return an empty but valid response so the client degrades gracefully
-        // to its static-data fallback without surfacing an error to the user.
-        return res.json({ elements: [] });
-      }
+      const params = {
+        lat: parseFloat(lat),
+        lng: parseFloat(lng),
+        radius: parseFloat(radius),
+      };
+      const { value: businesses, status } = await cachedPlaceLookup(
+        "osm-nearby",
+        params,
+        async () => {
+          const result = await getPlaceProvider("overpass").nearby!(params);
+          await storePlaces(result);
+          return { value: result, provider: "overpass" };
+        },
+      );
 
-      res.json(osmData);
+      res.setHeader("X-Cache", status.toUpperCase());
+      res.json({ businesses: await withRatings(businesses) });
     } catch (error) {
-      console.error("OSM proxy error:", error);
-      res.status(500).json({ error: "OSM proxy error", elements: [] });
+      // Return an empty but valid response so the client degrades gracefully
+      // to its catalog fallback without surfacing an error to the user.
+      console.warn("OSM nearby failed — returning empty result:", error);
+      res.json({ businesses: [] });
     }
   },
 );
 
-// Google Places Text Search proxy – searches by name/keyword near a location.
-// Uses Places API (New): places:searchText
+// Text search by name/keyword near a location, with provider fallback.
 app.get(
   "/api/places/search",
   optionalAuthenticate,
@@ -1239,221 +1666,138 @@ app.get(
         lng,
         radius = "5000",
       } = req.query as Record<string, string>;
-      const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-
-      if (!apiKey)
-        return res
-          .status(503)
-          .json({ error: "Google Places API not configured", businesses: [] });
       if (!query || !lat || !lng)
         return res
           .status(400)
           .json({ error: "query, lat and lng are required", businesses: [] });
 
-      const PLACES_TYPE_CATEGORY: Record<string, string> = {
-        restaurant: "food",
-        fast_food_restaurant: "food",
-        meal_takeaway: "food",
-        bar: "food",
-        pub: "food",
-        night_club: "food",
-        bakery: "food",
-        sandwich_shop: "food",
-        pizza_restaurant: "food",
-        hamburger_restaurant: "food",
-        sushi_restaurant: "food",
-        seafood_restaurant: "food",
-        steak_house: "food",
-        meal_delivery: "food",
-        dessert_shop: "food",
-        cafe: "coffee",
-        coffee_shop: "coffee",
-        tea_house: "coffee",
-        juice_bar: "coffee",
-        ice_cream_shop: "coffee",
-        grocery_store: "retail",
-        supermarket: "retail",
-        convenience_store: "retail",
-        clothing_store: "retail",
-        electronics_store: "retail",
-        shopping_mall: "retail",
-        book_store: "retail",
-        jewelry_store: "retail",
-        shoe_store: "retail",
-        hardware_store: "retail",
-        furniture_store: "retail",
-        department_store: "retail",
-        florist: "retail",
-        pet_store: "retail",
-        bicycle_store: "retail",
-        sporting_goods_store: "retail",
-        home_goods_store: "retail",
-        gift_shop: "retail",
-        drugstore: "retail",
-        discount_store: "retail",
-        market: "retail",
-        gym: "health",
-        fitness_center: "health",
-        sports_club: "health",
-        pharmacy: "health",
-        doctor: "health",
-        dentist: "health",
-        hospital: "health",
-        physiotherapist: "health",
-        beauty_salon: "health",
-        spa: "health",
-        hair_salon: "health",
-        nail_salon: "health",
-        barbershop: "health",
-        massage_therapist: "health",
-        veterinary_care: "health",
-        movie_theater: "entertainment",
-        bowling_alley: "entertainment",
-        casino: "entertainment",
-        amusement_park: "entertainment",
-        museum: "entertainment",
-        art_gallery: "entertainment",
-        stadium: "entertainment",
-        bank: "services",
-        atm: "services",
-        car_repair: "services",
-        car_wash: "services",
-        laundry: "services",
-        gas_station: "services",
-        hotel: "services",
-        lodging: "services",
-        post_office: "services",
-        car_rental: "services",
-        real_estate_agency: "services",
+      const params = {
+        query,
+        lat: parseFloat(lat),
+        lng: parseFloat(lng),
+        radius: parseFloat(radius),
       };
+      const { value, status } = await cachedPlaceLookup(
+        "search",
+        params,
+        async () => {
+          const result = await searchText(params);
+          await storePlaces(result.businesses);
+          return { value: result, provider: result.provider };
+        },
+      );
 
-      const CATEGORY_IMAGE_POOLS: Record<string, string[]> = {
-        food: [
-          "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1555396273-367ea4eb4db5?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=400&h=300&fit=crop",
-        ],
-        coffee: [
-          "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop",
-        ],
-        retail: [
-          "https://images.unsplash.com/photo-1567401893414-76b7b1e5a7a5?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=300&fit=crop",
-        ],
-        health: [
-          "https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1534438327276-14e5300c3a48?w=400&h=300&fit=crop",
-        ],
-        entertainment: [
-          "https://images.unsplash.com/photo-1536440136628-849c177e76a1?w=400&h=300&fit=crop",
-        ],
-        services: [
-          "https://images.unsplash.com/photo-1492144534655-ae79c964c9d7?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1487754180451-c456f719a1fc?w=400&h=300&fit=crop",
-        ],
-      };
+      res.setHeader("X-Cache", status.toUpperCase());
+      res.json({ ...value, businesses: await withRatings(value.businesses) });
+    } catch (error) {
+      console.error("Places text search error:", error);
+      res
+        .status(500)
+        .json({ error: "Failed to search places", businesses: [] });
+    }
+  },
+);
 
-      function djb2(s: string): number {
-        return s
-          .split("")
-          .reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 0);
+// Admin: inspect the place lookup cache
+app.get(
+  "/api/admin/place-cache",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const kind = req.query.kind as string | undefined;
+      const paging = parsePaging(req.query, 50, 200);
+      if ("error" in paging) {
+        return res.status(400).json({ error: paging.error });
       }
+      const { limit, offset } = paging;
 
-      const response = await fetch(
-        "https://places.googleapis.com/v1/places:searchText",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "X-Goog-Api-Key": apiKey,
-            "X-Goog-FieldMask": [
-              "places.id",
-              "places.displayName",
-              "places.formattedAddress",
-              "places.location",
-              "places.types",
-              "places.rating",
-              "places.userRatingCount",
-              "places.priceLevel",
-              "places.regularOpeningHours",
-              "places.internationalPhoneNumber",
-              "places.websiteUri",
-            ].join(","),
-          },
-          body: JSON.stringify({
-            textQuery: query,
-            maxResultCount: 20,
-            locationBias: {
-              circle: {
-                center: {
-                  latitude: parseFloat(lat),
-                  longitude: parseFloat(lng),
-                },
-                radius: parseFloat(radius),
-              },
-            },
-          }),
-          signal: AbortSignal.timeout(15000),
-        },
+      const { entries, total } = await db.listPlaceCacheEntries(
+        kind,
+        limit,
+        offset,
       );
 
-      if (!response.ok) {
-        const errText = await response.text();
-        console.error("Google Places Text Search error:", errText);
-        return res
-          .status(response.status)
-          .json({ error: "Google Places API error", businesses: [] });
-      }
+      res.json({
+        entries: entries.map((e) => ({
+          ...e,
+          state: placeCacheState(e.ageSeconds),
+        })),
+        total,
+        config: getPlaceCacheConfig(),
+      });
+    } catch (error) {
+      console.error("Error listing place cache:", error);
+      res.status(500).json({ error: "Failed to list place cache" });
+    }
+  },
+);
 
-      const data = (await response.json()) as { places?: any[] };
-      const places = data.places ?? [];
+app.get(
+  "/api/admin/place-cache/:key",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { key } = req.params as { key: string };
+      const entry = await db.getPlaceCacheEntry(key);
+      if (!entry) {
+        return res.status(404).json({ error: "Cache entry not found" });
+      }
 
-      const priceLevelMap: Record<string, string> = {
-        PRICE_LEVEL_FREE: "$",
-        PRICE_LEVEL_INEXPENSIVE: "$",
-        PRICE_LEVEL_MODERATE: "$$",
-        PRICE_LEVEL_EXPENSIVE: "$$$",
-        PRICE_LEVEL_VERY_EXPENSIVE: "$$$$",
-      };
+      const { payload, ...meta } = entry;
+      res.json({
+        entry: {
+          ...meta,
+          state: placeCacheState(entry.ageSeconds),
+          payload: JSON.parse(payload!),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching place cache entry:", error);
+      res.status(500).json({ error: "Failed to fetch cache entry" });
+    }
+  },
+);
 
-      const businesses = places.map((place: any) => {
-        const name: string = place.displayName?.text ?? "Unknown";
-        const types: string[] = place.types ?? [];
-        const category =
-          types.map((t: string) => PLACES_TYPE_CATEGORY[t]).find(Boolean) ??
-          "services";
-        const pool =
-          CATEGORY_IMAGE_POOLS[category] ?? CATEGORY_IMAGE_POOLS.food;
-        const image = pool[djb2(name) % pool.length];
-        const hours: string =
-          place.regularOpeningHours?.weekdayDescriptions?.join("\n") ?? "";
-        return {
-          id: `gp-${place.id}`,
-          name,
-          category,
-          rating:
-            place.rating ?? Math.round((Math.random() * 1.5 + 3.5) * 10) / 10,
-          reviewCount:
-            place.userRatingCount ?? Math.floor(Math.random() * 300) + 20,
-          address: place.formattedAddress ?? "",
-          hours,
-          description: `${name} – ${(types[0] ?? "business").replace(/_/g, " ")}`,
-          image,
-          lat: place.location?.latitude ?? 0,
-          lng: place.location?.longitude ?? 0,
-          phone: place.internationalPhoneNumber ?? "",
-          priceLevel: priceLevelMap[place.priceLevel] ?? "$$",
-          website: place.websiteUri ?? undefined,
-        };
+// Admin: purge the place lookup cache – everything, one kind, or only
+// entries past their stale window (?expired=true)
+app.delete(
+  "/api/admin/place-cache",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const kind = req.query.kind as string | undefined;
+      const { ttlSeconds, staleSeconds } = getPlaceCacheConfig();
+      const purged = await db.deletePlaceCacheEntries({
+        kind,
+        olderThanSeconds:
+          req.query.expired === "true" ? ttlSeconds + staleSeconds : undefined,
       });
+      res.json({ message: "Place cache purged", purged });
+    } catch (error) {
+      console.error("Error purging place cache:", error);
+      res.status(500).json({ error: "Failed to purge place cache" });
+    }
+  },
+);
 
-      res.json({ businesses });
+app.delete(
+  "/api/admin/place-cache/:key",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { key } = req.params as { key: string };
+      const purged = await db.deletePlaceCacheEntries({ key });
+      if (purged === 0) {
+        return res.status(404).json({ error: "Cache entry not found" });
+      }
+      res.json({ message: "Cache entry purged", purged });
     } catch (error) {
-      console.error("Places text search error:", error);
-      res
-        .status(500)
-        .json({ error: "Failed to search places", businesses: [] });
+      console.error("Error purging place cache entry:", error);
+      res.status(500).json({ error: "Failed to purge cache entry" });
     }
   },
 );
@@ -1473,7 +1817,6 @@ app.post(
       };
 
       const geminiKey = process.env.GEMINI_API_KEY;
-      const placesKey = process.env.GOOGLE_PLACES_API_KEY;
 
       if (!geminiKey) {
         return res.status(503).json({
@@ -1553,243 +1896,49 @@ app.post(
       }
 
       // Google handles natural language natively — "bakery wedding cakes" works great.
+      type PlaceResult = PlaceBusiness & { distanceKm: number };
+      const allPlaces: PlaceResult[] = [];
 
-      const PLACES_TYPE_CATEGORY: Record<string, string> = {
-        restaurant: "food",
-        fast_food_restaurant: "food",
-        meal_takeaway: "food",
-        bar: "food",
-        pub: "food",
-        bakery: "food",
-        sandwich_shop: "food",
-        pizza_restaurant: "food",
-        hamburger_restaurant: "food",
-        sushi_restaurant: "food",
-        seafood_restaurant: "food",
-        steak_house: "food",
-        dessert_shop: "food",
-        cafe: "coffee",
-        coffee_shop: "coffee",
-        tea_house: "coffee",
-        juice_bar: "coffee",
-        ice_cream_shop: "coffee",
-        grocery_store: "retail",
-        supermarket: "retail",
-        convenience_store: "retail",
-        clothing_store: "retail",
-        electronics_store: "retail",
-        shopping_mall: "retail",
-        book_store: "retail",
-        jewelry_store: "retail",
-        shoe_store: "retail",
-        hardware_store: "retail",
-        furniture_store: "retail",
-        department_store: "retail",
-        florist: "retail",
-        pet_store: "retail",
-        sporting_goods_store: "retail",
-        home_goods_store: "retail",
-        gift_shop: "retail",
-        drugstore: "retail",
-        market: "retail",
-        gym: "health",
-        fitness_center: "health",
-        pharmacy: "health",
-        doctor: "health",
-        dentist: "health",
-        hospital: "health",
-        beauty_salon: "health",
-        spa: "health",
-        hair_salon: "health",
-        nail_salon: "health",
-        barbershop: "health",
-        movie_theater: "entertainment",
-        bowling_alley: "entertainment",
-        casino: "entertainment",
-        amusement_park: "entertainment",
-        museum: "entertainment",
-        art_gallery: "entertainment",
-        bank: "services",
-        car_repair: "services",
-        car_wash: "services",
-        laundry: "services",
-        gas_station: "services",
-        hotel: "services",
-        lodging: "services",
-        post_office: "services",
-      };
-
-      const CATEGORY_IMAGE_POOLS: Record<string, string[]> = {
-        food: [
-          "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1555396273-367ea4eb4db5?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=400&h=300&fit=crop",
-        ],
-        coffee: [
-          "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop",
-        ],
-        retail: [
-          "https://images.unsplash.com/photo-1567401893414-76b7b1e5a7a5?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=300&fit=crop",
-        ],
-        health: [
-          "https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1534438327276-14e5300c3a48?w=400&h=300&fit=crop",
-        ],
-        entertainment: [
-          "https://images.unsplash.com/photo-1536440136628-849c177e76a1?w=400&h=300&fit=crop",
-        ],
-        services: [
-          "https://images.unsplash.com/photo-1492144534655-ae79c964c9d7?w=400&h=300&fit=crop",
-          "https://images.unsplash.com/photo-1487754180451-c456f719a1fc?w=400&h=300&fit=crop",
-        ],
-      };
-
-      function djb2(s: string): number {
-        return s
-          .split("")
-          .reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 0);
-      }
-
-      const haversine = (
-        lt1: number,
-        ln1: number,
-        lt2: number,
-        ln2: number,
-      ) => {
-        const R = 6371;
-        const dLat = ((lt2 - lt1) * Math.PI) / 180;
-        const dLng = ((ln2 - ln1) * Math.PI) / 180;
-        const a =
-          Math.sin(dLat / 2) ** 2 +
-          Math.cos((lt1 * Math.PI) / 180) *
-            Math.cos((lt2 * Math.PI) / 180) *
-            Math.sin(dLng / 2) ** 2;
-        return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      };
-
-      type PlaceResult = {
-        id: string;
-        name: string;
-        lat: number;
-        lng: number;
-        distanceKm: number;
-        rating: number | null;
-        reviewCount: number;
-        address: string;
-        category: string;
-        types: string[];
-        phone: string | null;
-        website: string | null;
-        openingHours: string | null;
-        image: string;
-      };
-
-      let allPlaces: PlaceResult[] = [];
-
-      if (placesKey) {
-        // Run multiple search queries in parallel for better coverage
-        const searchPromises = searchQueries.map(async (sq) => {
+      // Run multiple search queries in parallel for better coverage
+      const searchResults = await Promise.all(
+        searchQueries.map(async (sq) => {
           try {
-            const response = await fetch(
-              "https://places.googleapis.com/v1/places:searchText",
-              {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                  "X-Goog-Api-Key": placesKey,
-                  "X-Goog-FieldMask": [
-                    "places.id",
-                    "places.displayName",
-                    "places.formattedAddress",
-                    "places.location",
-                    "places.types",
-                    "places.rating",
-                    "places.userRatingCount",
-                    "places.priceLevel",
-                    "places.regularOpeningHours",
-                    "places.internationalPhoneNumber",
-                    "places.websiteUri",
-                    "places.editorialSummary",
-                  ].join(","),
-                },
-                body: JSON.stringify({
-                  textQuery: sq,
-                  maxResultCount: 10,
-                  locationBias: {
-                    circle: {
-                      center: { latitude: searchLat, longitude: searchLng },
-                      radius: 15000,
-                    },
-                  },
-                }),
-                signal: AbortSignal.timeout(15000),
-              },
-            );
-            if (!response.ok) return [];
-            const data = (await response.json()) as { places?: any[] };
-            return data.places ?? [];
+            const { businesses } = await searchText({
+              query: sq,
+              lat: searchLat,
+              lng: searchLng,
+              radius: 15000,
+              limit: 10,
+            });
+            return businesses;
           } catch (e) {
-            console.warn(
-              `[AI Search] Google Places search failed for "${sq}":`,
-              e,
-            );
+            console.warn(`[AI Search] Place search failed for "${sq}":`, e);
             return [];
           }
-        });
+        }),
+      );
 
-        const searchResults = await Promise.all(searchPromises);
-        const seenIds = new Set<string>();
-
-        for (const places of searchResults) {
-          for (const place of places) {
-            const placeId = place.id;
-            if (seenIds.has(placeId)) continue;
-            seenIds.add(placeId);
-
-            const name: string = place.displayName?.text ?? "Unknown";
-            const types: string[] = place.types ?? [];
-            const category =
-              types.map((t: string) => PLACES_TYPE_CATEGORY[t]).find(Boolean) ??
-              "services";
-            const pool =
-              CATEGORY_IMAGE_POOLS[category] ?? CATEGORY_IMAGE_POOLS.food;
-            const image = pool[djb2(name) % pool.length];
-            const pLat = place.location?.latitude ?? 0;
-            const pLng = place.location?.longitude ?? 0;
-            const distanceKm = haversine(searchLat, searchLng, pLat, pLng);
-            const hours: string =
-              place.regularOpeningHours?.weekdayDescriptions?.join("\n") ?? "";
-
-            allPlaces.push({
-              id: `gp-${placeId}`,
-              name,
-              lat: pLat,
-              lng: pLng,
-              distanceKm,
-              rating: place.rating ?? null,
-              reviewCount: place.userRatingCount ?? 0,
-              address: place.formattedAddress ?? "",
-              category,
-              types,
-              phone: place.internationalPhoneNumber ?? null,
-              website: place.websiteUri ?? null,
-              openingHours: hours || null,
-              image,
-            });
-          }
+      const seenIds = new Set<string>();
+      for (const places of searchResults) {
+        for (const place of places) {
+          if (seenIds.has(place.id)) continue;
+          seenIds.add(place.id);
+          allPlaces.push({
+            ...place,
+            distanceKm: calculateDistance(
+              searchLat,
+              searchLng,
+              place.lat,
+              place.lng,
+            ),
+          });
         }
-
-        console.log(
-          `[AI Search] Google Places returned ${allPlaces.length} unique results`,
-        );
-      } else {
-        console.warn(
-          "[AI Search] No GOOGLE_PLACES_API_KEY — skipping Google Places",
-        );
       }
 
+      console.log(
+        `[AI Search] Place search returned ${allPlaces.length} unique results`,
+      );
+
       // Instead of manual scoring, let Gemini (which understands the query deeply)
       // pick the best matches and explain why.
 
@@ -1809,8 +1958,9 @@ app.post(
       // Sort by distance first to give nearby places priority
       allPlaces.sort((a, b) => a.distanceKm - b.distanceKm);
 
-      // Limit candidates for Gemini ranking (top 20 by distance)
-      const candidates = allPlaces.slice(0, 20);
+      // Limit candidates for Gemini ranking (top 20 by distance), rated with
+      // our own reviews blended in
+      const candidates = await withRatings(allPlaces.slice(0, 20));
 
       const rankPrompt = `You are a local business recommendation expert. The user is searching for:
 "${rawQuery}"
@@ -1818,7 +1968,7 @@ app.post(
 Here are ${candidates.length} nearby businesses. Pick the TOP 5 that BEST match the user's query (considering relevance, quality, and distance). For each, write a specific 10-20 word reason explaining WHY it matches.
 
 Businesses:
-${candidates.map((p, i) => `${i + 1}. "${p.name}" | ${p.address} | types: ${p.types.slice(0, 5).join(", ")} | rating: ${p.rating ?? "N/A"} (${p.reviewCount} reviews) | ${p.distanceKm.toFixed(1)}km away`).join("\n")}
+${candidates.map((p, i) => `${i + 1}. "${p.name}" | ${p.address} | types: ${p.types.slice(0, 5).join(", ")} | rating: ${p.ratingSummary.rating ?? "N/A"} (${p.reviewCount} reviews) | ${p.distanceKm.toFixed(1)}km away`).join("\n")}
 
 Return ONLY valid compact JSON (no markdown, no comments):
 {
@@ -1942,13 +2092,13 @@ RULES:
           lat: place.lat,
           lng: place.lng,
           distanceKm: Math.round(place.distanceKm * 10) / 10,
-          rating: place.rating,
+          rating: place.ratingSummary.rating,
           address: place.address || null,
           category: place.category,
           cuisine: null as string | null,
-          phone: place.phone,
-          website: place.website,
-          openingHours: place.openingHours,
+          phone: place.phone || null,
+          website: place.website ?? null,
+          openingHours: place.hours || null,
           featureMatches: [] as string[],
           matchReason: r.reason,
           score: r.score,
@@ -1957,6 +2107,10 @@ RULES:
         };
       });
 
+      // Store the picks so the detail view can attach coupons and reviews
+      // The unblended places: storage keeps the provider's own rating
+      await storePlaces(rankings.map((r) => allPlaces[r.index - 1]));
+
       res.json({
         results,
         parsed: {
@@ -1992,16 +2146,29 @@ app.use((error: any, _req: Request, res: Response, _next: NextFunction) => {
   });
 });
 
-app.get("/api/businesses/:id/coupons", async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params as { id: string };
-    const coupons = await db.getActiveCouponsForBusiness(id);
-    res.json({ coupons });
-  } catch (error) {
-    console.error("Error fetching coupons:", error);
-    res.status(500).json({ error: "Failed to fetch coupons" });
-  }
-});
+app.get(
+  "/api/businesses/:id/coupons",
+  optionalAuthenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params as { id: string };
+      const coupons = await db.getActiveCouponsForBusiness(id);
+      // Premium codes are only revealed to members; redeem enforces it too
+      const canSeePremium =
+        !!req.user?.isPremium || req.user?.role === "admin";
+      res.json({
+        coupons: coupons.map((c) =>
+          c.isPremiumOnly && !canSeePremium
+            ? { ...c, couponCode: "•".repeat(c.couponCode.length) }
+            : c,
+        ),
+      });
+    } catch (error) {
+      console.error("Error fetching coupons:", error);
+      res.status(500).json({ error: "Failed to fetch coupons" });
+    }
+  },
+);
 
 // Batch coupon counts for multiple businesses in one request (avoids N+1 calls from the UI)
 app.get(
@@ -2039,307 +2206,1533 @@ app.get(
   },
 );
 
-app.post("/api/coupons/redeem", async (req: Request, res: Response) => {
-  try {
-    const { couponCode } = req.body;
+app.post(
+  "/api/coupons/redeem",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { couponCode } = req.body;
 
-    if (!couponCode || typeof couponCode !== "string") {
-      return res.status(400).json({ error: "Coupon code is required" });
-    }
+      if (!couponCode || typeof couponCode !== "string") {
+        return res.status(400).json({ error: "Coupon code is required" });
+      }
 
-    const result = await db.redeemCoupon(couponCode.trim());
+      const result = await db.redeemCoupon(couponCode.trim(), req.user!);
 
-    if (!result.success) {
-      return res.status(400).json({ error: result.error });
-    }
+      if (!result.success) {
+        const status = result.error?.includes("not found")
+          ? 404
+          : result.error?.includes("Premium")
+            ? 403
+            : result.error?.includes("already redeemed") ||
+                result.error?.includes("already been used")
+              ? 409
+              : 400;
+        return res.status(status).json({ error: result.error });
+      }
 
-    res.json({
-      message: "Coupon redeemed successfully",
-      coupon: result.coupon,
-    });
-  } catch (error) {
-    console.error("Error redeeming coupon:", error);
-    res.status(500).json({ error: "Failed to redeem coupon" });
-  }
-});
+      res.json({
+        message: "Coupon redeemed successfully",
+        coupon: result.coupon,
+        redemption: result.redemption,
+      });
+    } catch (error) {
+      console.error("Error redeeming coupon:", error);
+      res.status(500).json({ error: "Failed to redeem coupon" });
+    }
+  },
+);
 
+// Coupons the current user has redeemed, optionally for one business
 app.get(
-  "/api/admin/coupons",
+  "/api/coupons/redeemed",
   authenticate,
-  requireAdmin,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { businessId } = req.query;
-
-      let coupons;
-      if (businessId) {
-        coupons = await db.getAllCouponsForBusiness(businessId as string);
-      } else {
-        coupons = await db.getAllCoupons();
-      }
-
-      res.json({ coupons });
+      const businessId = req.query.businessId as string | undefined;
+      const redemptions = await db.getUserRedemptions(req.user!.id, {
+        businessId,
+      });
+      res.json({ redemptions });
     } catch (error) {
-      console.error("Error fetching admin coupons:", error);
-      res.status(500).json({ error: "Failed to fetch coupons" });
+      console.error("Error fetching redeemed coupons:", error);
+      res.status(500).json({ error: "Failed to fetch redeemed coupons" });
     }
   },
 );
 
+// Deal impressions and code copies, for coupon analytics
+const couponEventRateLimit = createRateLimiter(60 * 1000, 120); // 120 requests/minute
+
 app.post(
-  "/api/businesses/:id/coupons",
-  authenticate,
-  requireAdmin,
+  "/api/coupons/events",
+  couponEventRateLimit,
+  optionalAuthenticate,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { id: businessId } = req.params as { id: string };
-      const {
-        title,
-        description,
-        discountType,
-        discountValue,
-        couponCode,
-        startDate,
-        endDate,
-        usageLimit,
-        isPremiumOnly,
-      } = req.body;
+      const { couponIds, type } = req.body;
 
-      // Validation
-      if (!title || typeof title !== "string" || title.trim().length === 0) {
-        return res.status(400).json({ error: "Title is required" });
-      }
-      if (
-        !description ||
-        typeof description !== "string" ||
-        description.trim().length === 0
-      ) {
-        return res.status(400).json({ error: "Description is required" });
-      }
-      if (!["percentage", "fixed"].includes(discountType)) {
+      if (!["view", "copy"].includes(type)) {
         return res
           .status(400)
-          .json({ error: 'Discount type must be "percentage" or "fixed"' });
+          .json({ error: 'Event type must be "view" or "copy"' });
       }
       if (
-        !discountValue ||
-        typeof discountValue !== "number" ||
-        discountValue <= 0
+        !Array.isArray(couponIds) ||
+        couponIds.length === 0 ||
+        couponIds.length > 50 ||
+        !couponIds.every((id) => typeof id === "string" && /^\d+$/.test(id))
       ) {
         return res
           .status(400)
-          .json({ error: "Discount value must be positive" });
+          .json({ error: "couponIds must be 1-50 coupon IDs" });
       }
-      if (
-        !couponCode ||
-        typeof couponCode !== "string" ||
-        couponCode.trim().length === 0
-      ) {
+
+      const recorded = await db.recordCouponEvents(
+        couponIds,
+        type,
+        req.user?.id ?? null,
+      );
+      res.status(202).json({ recorded });
+    } catch (error) {
+      console.error("Error recording coupon events:", error);
+      res.status(500).json({ error: "Failed to record coupon events" });
+    }
+  },
+);
+
+// Point-of-sale claims: the shopper shows a short-lived signed QR code and
+// the merchant verifies it, which redeems the coupon exactly once
+const COUPON_CLAIM_TTL_SECONDS = parseInt(
+  process.env.COUPON_CLAIM_TTL_SECONDS || "300",
+);
+
+app.post(
+  "/api/coupons/claim",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { couponCode } = req.body;
+
+      if (!couponCode || typeof couponCode !== "string") {
         return res.status(400).json({ error: "Coupon code is required" });
       }
-      if (!startDate || !endDate) {
+
+      const result = await db.createCouponClaim(
+        couponCode.trim(),
+        req.user!,
+        COUPON_CLAIM_TTL_SECONDS,
+      );
+
+      if (!result.success) {
+        const status = result.error?.includes("not found")
+          ? 404
+          : result.error?.includes("Premium")
+            ? 403
+            : result.error?.includes("already redeemed") ||
+                result.error?.includes("already been used")
+              ? 409
+              : 400;
+        return res.status(status).json({ error: result.error });
+      }
+
+      const token = AuthService.signCouponClaim(result.claim!);
+      const qrCodeDataUrl = await QRCode.toDataURL(token, { width: 256 });
+
+      res.status(201).json({
+        claimId: result.claim!.id,
+        expiresAt: result.claim!.expiresAt,
+        token,
+        qrCodeDataUrl,
+        coupon: result.coupon,
+      });
+    } catch (error) {
+      console.error("Error creating coupon claim:", error);
+      res.status(500).json({ error: "Failed to create coupon claim" });
+    }
+  },
+);
+
+app.post(
+  "/api/coupons/claims/verify",
+  authenticate,
+  requireRole(["admin", "business_owner"]),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { token } = req.body;
+
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ error: "Claim token is required" });
+      }
+
+      let claimId: string;
+      try {
+        ({ claimId } = AuthService.verifyCouponClaim(token.trim()));
+      } catch (error) {
         return res
-          .status(400)
-          .json({ error: "Start date and end date are required" });
+          .status(errorMessage(error).includes("expired") ? 410 : 400)
+          .json({ error: errorMessage(error) });
       }
 
-      const start = new Date(startDate);
-      const end = new Date(endDate);
+      // Owners may only redeem deals for their own businesses
+      if (req.user!.role === "business_owner") {
+        const claim = await db.getCouponClaim(claimId);
+        if (!claim) {
+          return res.status(404).json({ error: "Claim not found" });
+        }
+        const coupon = await db.getCouponById(parseInt(claim.couponId));
+        if (!(await db.isBusinessOwner(req.user!.id, coupon.businessId))) {
+          return res
+            .status(403)
+            .json({ error: "This deal belongs to another business" });
+        }
+      }
+
+      const result = await db.redeemCouponClaim(claimId, req.user!.id);
+
+      if (!result.success) {
+        const status = result.error?.includes("not found")
+          ? 404
+          : result.error?.includes("already been used")
+            ? 409
+            : result.error?.includes("expired")
+              ? 410
+              : 400;
+        return res.status(status).json({ error: result.error });
+      }
+
+      res.json({
+        message: "Coupon redeemed successfully",
+        coupon: result.coupon,
+        redemption: result.redemption,
+        customer: result.customer,
+      });
+    } catch (error) {
+      console.error("Error verifying coupon claim:", error);
+      res.status(500).json({ error: "Failed to verify coupon claim" });
+    }
+  },
+);
+
+app.get(
+  "/api/admin/coupons",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { businessId } = req.query;
+
+      let coupons;
+      if (businessId) {
+        coupons = await db.getAllCouponsForBusiness(businessId as string);
+      } else {
+        coupons = await db.getAllCoupons();
+      }
+
+      res.json({ coupons });
+    } catch (error) {
+      console.error("Error fetching admin coupons:", error);
+      res.status(500).json({ error: "Failed to fetch coupons" });
+    }
+  },
+);
+
+// Resolve the business a coupon belongs to, for ownership checks
+const couponBusiness = async (req: AuthenticatedRequest) => {
+  try {
+    const coupon = await db.getCouponById(
+      parseInt(req.params.couponId as string),
+    );
+    return coupon.businessId;
+  } catch {
+    return null;
+  }
+};
+
+app.get(
+  "/api/owner/businesses",
+  authenticate,
+  requireRole(["business_owner", "admin"]),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const businesses = await db.getOwnedBusinesses(req.user!.id);
+      res.json({ businesses });
+    } catch (error) {
+      console.error("Error fetching owned businesses:", error);
+      res.status(500).json({ error: "Failed to fetch businesses" });
+    }
+  },
+);
+
+app.get(
+  "/api/owner/coupons",
+  authenticate,
+  requireRole(["business_owner", "admin"]),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { businessId } = req.query;
+      const owned = await db.getOwnedBusinessIds(req.user!.id);
+
+      if (businessId && !owned.includes(businessId as string)) {
+        return res
+          .status(403)
+          .json({ error: "You can only view coupons for businesses you own" });
+      }
+
+      const ids = businessId ? [businessId as string] : owned;
+      const coupons = (
+        await Promise.all(ids.map((id) => db.getAllCouponsForBusiness(id)))
+      ).flat();
+
+      res.json({ coupons });
+    } catch (error) {
+      console.error("Error fetching owner coupons:", error);
+      res.status(500).json({ error: "Failed to fetch coupons" });
+    }
+  },
+);
+
+// Views → copies → redemptions over time. Owners only see their own
+// businesses; admins see everything.
+const ANALYTICS_BUCKET_HOURS = { hour: 1, day: 24, week: 7 * 24 };
+const MAX_ANALYTICS_BUCKETS = 400;
+
+app.get(
+  "/api/analytics/coupons",
+  authenticate,
+  requireRole(["admin", "business_owner"]),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const bucket = (req.query.bucket as string) || "day";
+      const businessId = req.query.businessId as string | undefined;
+      const couponId = req.query.couponId as string | undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from
+        ? new Date(req.query.from as string)
+        : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      if (!(bucket in ANALYTICS_BUCKET_HOURS)) {
+        return res
+          .status(400)
+          .json({ error: 'Bucket must be "hour", "day" or "week"' });
+      }
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({ error: "Invalid date format" });
+      }
+      if (to <= from) {
+        return res.status(400).json({ error: "from must be before to" });
+      }
+      const buckets =
+        (to.getTime() - from.getTime()) /
+        (ANALYTICS_BUCKET_HOURS[bucket as AnalyticsBucket] * 60 * 60 * 1000);
+      if (buckets > MAX_ANALYTICS_BUCKETS) {
+        return res.status(400).json({
+          error: `Date range is too long for "${bucket}" buckets`,
+        });
+      }
+
+      let businessIds = businessId ? [businessId] : undefined;
+      if (req.user!.role === "business_owner") {
+        const owned = await db.getOwnedBusinessIds(req.user!.id);
+        if (businessId && !owned.includes(businessId)) {
+          return res.status(403).json({
+            error: "You can only view analytics for businesses you own",
+          });
+        }
+        businessIds ??= owned;
+      }
+
+      const analytics = await db.getCouponAnalytics({
+        from,
+        to,
+        bucket: bucket as AnalyticsBucket,
+        businessIds,
+        couponId,
+      });
+      res.json(analytics);
+    } catch (error) {
+      console.error("Error fetching coupon analytics:", error);
+      res.status(500).json({ error: "Failed to fetch coupon analytics" });
+    }
+  },
+);
+
+/**
+ * Validate a coupon creation payload. Shared by the create endpoint and CSV
+ * import so both apply the same rules; the business is checked separately.
+ */
+function parseCouponInput(
+  body: unknown,
+): { data: Omit<CouponInput, "businessId"> } | { error: string } {
+  const {
+    title,
+    description,
+    discountType,
+    discountValue,
+    discountDetails,
+    couponCode,
+    startDate,
+    endDate,
+    schedule,
+    usageLimit,
+    perUserLimit,
+    isPremiumOnly,
+  } = (body ?? {}) as Record<string, unknown>;
+
+  if (!title || typeof title !== "string" || title.trim().length === 0) {
+    return { error: "Title is required" };
+  }
+  if (
+    !description ||
+    typeof description !== "string" ||
+    description.trim().length === 0
+  ) {
+    return { error: "Description is required" };
+  }
+  let discount: Discount;
+  try {
+    discount = normalizeDiscount(discountType, discountValue, discountDetails);
+  } catch (error) {
+    return { error: errorMessage(error) };
+  }
+  if (
+    !couponCode ||
+    typeof couponCode !== "string" ||
+    couponCode.trim().length === 0
+  ) {
+    return { error: "Coupon code is required" };
+  }
+  if (!startDate || !endDate) {
+    return { error: "Start date and end date are required" };
+  }
+
+  const start = new Date(startDate as string);
+  const end = new Date(endDate as string);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return { error: "Invalid date format" };
+  }
+  if (end <= start) {
+    return { error: "End date must be after start date" };
+  }
+  let couponSchedule: CouponSchedule | null;
+  try {
+    couponSchedule = normalizeSchedule(schedule);
+  } catch (error) {
+    return { error: errorMessage(error) };
+  }
+  if (
+    usageLimit !== undefined &&
+    usageLimit !== null &&
+    (typeof usageLimit !== "number" || usageLimit <= 0)
+  ) {
+    return { error: "Usage limit must be a positive number" };
+  }
+  if (
+    perUserLimit !== undefined &&
+    perUserLimit !== null &&
+    (typeof perUserLimit !== "number" ||
+      !Number.isInteger(perUserLimit) ||
+      perUserLimit <= 0)
+  ) {
+    return { error: "Per-user limit must be a positive integer or null" };
+  }
+
+  return {
+    data: {
+      title: title.trim(),
+      description: description.trim(),
+      ...discount,
+      couponCode: couponCode.trim(),
+      startDate: start,
+      endDate: end,
+      schedule: couponSchedule,
+      usageLimit: usageLimit || undefined,
+      perUserLimit,
+      isPremiumOnly: Boolean(isPremiumOnly),
+    },
+  };
+}
+
+app.post(
+  "/api/businesses/:id/coupons",
+  authenticate,
+  requireRole(["admin", "business_owner"], (req) => req.params.id as string),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id: businessId } = req.params as { id: string };
+      const parsed = parseCouponInput(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      if (!(await db.businessExists(businessId))) {
+        return res.status(404).json({ error: "Business not found" });
+      }
+
+      const coupon = await db.createCoupon({ businessId, ...parsed.data });
+
+      res.status(201).json({
+        message: "Coupon created successfully",
+        coupon,
+      });
+    } catch (error) {
+      if (errorMessage(error).includes("already exists")) {
+        return res.status(409).json({ error: errorMessage(error) });
+      }
+      console.error("Error creating coupon:", error);
+      res.status(500).json({ error: "Failed to create coupon" });
+    }
+  },
+);
+
+// Columns for coupon CSV export/import. Import reads the leading create
+// fields and ignores the rest, so an edited export can be re-imported.
+const COUPON_CSV_COLUMNS: (keyof Coupon)[] = [
+  "businessId",
+  "title",
+  "description",
+  "discountType",
+  "discountValue",
+  "discountDetails",
+  "couponCode",
+  "startDate",
+  "endDate",
+  "schedule",
+  "usageLimit",
+  "perUserLimit",
+  "isPremiumOnly",
+  "id",
+  "isActive",
+  "usageCount",
+  "createdAt",
+];
+const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Turn a CSV record's strings into the JSON shape the create endpoint takes.
+ * An empty perUserLimit means unlimited (as exported); a missing column keeps
+ * the default.
+ */
+function csvRecordToCouponBody(
+  record: Record<string, string>,
+): { data: Record<string, unknown> } | { error: string } {
+  const data: Record<string, unknown> = { ...record };
+  const number = (v: string) => (Number.isFinite(Number(v)) ? Number(v) : v);
+
+  for (const key of ["discountValue", "usageLimit", "perUserLimit"]) {
+    const value = record[key]?.trim();
+    if (value === undefined) continue;
+    data[key] =
+      value === "" ? (key === "perUserLimit" ? null : undefined) : number(value);
+  }
+  for (const key of ["discountDetails", "schedule"]) {
+    const value = record[key]?.trim();
+    if (!value) {
+      data[key] = null;
+      continue;
+    }
+    try {
+      data[key] = JSON.parse(value);
+    } catch {
+      return { error: `${key} must be valid JSON` };
+    }
+  }
+  const premium = (record.isPremiumOnly ?? "").trim().toLowerCase();
+  if (!["", "true", "false", "1", "0", "yes", "no"].includes(premium)) {
+    return { error: "isPremiumOnly must be true or false" };
+  }
+  data.isPremiumOnly = ["true", "1", "yes"].includes(premium);
+  return { data };
+}
+
+app.get(
+  "/api/admin/coupons/export",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { businessId } = req.query;
+      const coupons = businessId
+        ? await db.getAllCouponsForBusiness(businessId as string)
+        : await db.getAllCoupons();
+
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="coupons-${date}.csv"`,
+      );
+      res.send(toCsv(COUPON_CSV_COLUMNS, coupons));
+    } catch (error) {
+      console.error("Error exporting coupons:", error);
+      res.status(500).json({ error: "Failed to export coupons" });
+    }
+  },
+);
+
+// Bulk-create coupons from CSV. Every row is validated like a single create;
+// any error rejects the whole file. With dryRun nothing is written.
+app.post(
+  "/api/admin/coupons/import",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { csv, dryRun } = req.body;
+      if (typeof csv !== "string" || csv.trim().length === 0) {
+        return res.status(400).json({ error: "CSV content is required" });
+      }
+      let records;
+      try {
+        records = parseCsvRecords(csv);
+      } catch (error) {
+        return res
+          .status(400)
+          .json({ error: `Invalid CSV: ${errorMessage(error)}` });
+      }
+      if (records.length === 0) {
+        return res.status(400).json({ error: "CSV has no coupon rows" });
+      }
+      if (records.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({
+          error: `CSV can have at most ${MAX_IMPORT_ROWS} coupons`,
+        });
+      }
+
+      const errors: { row: number; couponCode?: string; error: string }[] = [];
+      const coupons: CouponInput[] = [];
+      const seenCodes = new Set<string>();
+      const businessFound = new Map<string, boolean>();
+
+      for (const { row, record } of records) {
+        const fail = (error: string) =>
+          errors.push({
+            row,
+            couponCode: record.couponCode?.trim() || undefined,
+            error,
+          });
+
+        const body = csvRecordToCouponBody(record);
+        if ("error" in body) {
+          fail(body.error);
+          continue;
+        }
+        const parsed = parseCouponInput(body.data);
+        if ("error" in parsed) {
+          fail(parsed.error);
+          continue;
+        }
+        const businessId = record.businessId?.trim();
+        if (!businessId) {
+          fail("businessId is required");
+          continue;
+        }
+        if (!businessFound.has(businessId)) {
+          businessFound.set(businessId, await db.businessExists(businessId));
+        }
+        if (!businessFound.get(businessId)) {
+          fail("Business not found");
+          continue;
+        }
+        const code = parsed.data.couponCode.toUpperCase();
+        if (seenCodes.has(code)) {
+          fail("Coupon code appears more than once in this file");
+          continue;
+        }
+        seenCodes.add(code);
+        if (await db.getCouponByCode(code)) {
+          fail("Coupon code already exists");
+          continue;
+        }
+        coupons.push({ businessId, ...parsed.data });
+      }
+
+      const summary = {
+        dryRun: Boolean(dryRun),
+        total: records.length,
+        valid: coupons.length,
+        errors,
+      };
+      if (dryRun) {
+        return res.json({ ...summary, imported: 0 });
+      }
+      if (errors.length > 0) {
+        return res.status(400).json({
+          ...summary,
+          imported: 0,
+          error: `${errors.length} row(s) have errors – nothing was imported`,
+        });
+      }
+
+      const created = await db.createCoupons(coupons);
+      res.status(201).json({
+        ...summary,
+        imported: created.length,
+        message: `Imported ${created.length} coupons`,
+      });
+    } catch (error: any) {
+      if (error.message?.includes("already exists")) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error importing coupons:", error);
+      res.status(500).json({ error: "Failed to import coupons" });
+    }
+  },
+);
+
+app.put(
+  "/api/coupons/:couponId",
+  authenticate,
+  requireRole(["admin", "business_owner"], couponBusiness),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { couponId } = req.params as { couponId: string };
+      const {
+        title,
+        description,
+        discountType,
+        discountValue,
+        discountDetails,
+        startDate,
+        endDate,
+        schedule,
+        usageLimit,
+        perUserLimit,
+        isActive,
+      } = req.body;
+
+      const updates: any = {};
+
+      if (title !== undefined) {
+        if (typeof title !== "string" || title.trim().length === 0) {
+          return res.status(400).json({ error: "Invalid title" });
+        }
+        updates.title = title.trim();
+      }
+      if (description !== undefined) {
+        if (
+          typeof description !== "string" ||
+          description.trim().length === 0
+        ) {
+          return res.status(400).json({ error: "Invalid description" });
+        }
+        updates.description = description.trim();
+      }
+      if (
+        discountType !== undefined ||
+        discountValue !== undefined ||
+        discountDetails !== undefined
+      ) {
+        // Type, value and details are only valid together, so fill in
+        // whichever weren't sent from the stored coupon
+        const current = await db.getCouponById(parseInt(couponId));
+        const type = discountType ?? current.discountType;
+        try {
+          Object.assign(
+            updates,
+            normalizeDiscount(
+              type,
+              discountValue ?? current.discountValue,
+              discountDetails !== undefined || type !== current.discountType
+                ? discountDetails
+                : current.discountDetails,
+            ),
+          );
+        } catch (error) {
+          return res.status(400).json({ error: errorMessage(error) });
+        }
+      }
+      if (startDate !== undefined) {
+        const start = new Date(startDate);
+        if (isNaN(start.getTime())) {
+          return res.status(400).json({ error: "Invalid start date" });
+        }
+        updates.startDate = start.toISOString();
+      }
+      if (endDate !== undefined) {
+        const end = new Date(endDate);
+        if (isNaN(end.getTime())) {
+          return res.status(400).json({ error: "Invalid end date" });
+        }
+        updates.endDate = end.toISOString();
+      }
+      if (schedule !== undefined) {
+        try {
+          updates.schedule = normalizeSchedule(schedule);
+        } catch (error) {
+          return res.status(400).json({ error: errorMessage(error) });
+        }
+      }
+      if (usageLimit !== undefined) {
+        if (
+          usageLimit !== null &&
+          (typeof usageLimit !== "number" || usageLimit <= 0)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "Usage limit must be a positive number or null" });
+        }
+        updates.usageLimit = usageLimit;
+      }
+      if (perUserLimit !== undefined) {
+        if (
+          perUserLimit !== null &&
+          (!Number.isInteger(perUserLimit) || perUserLimit <= 0)
+        ) {
+          return res.status(400).json({
+            error: "Per-user limit must be a positive integer or null",
+          });
+        }
+        updates.perUserLimit = perUserLimit;
+      }
+      if (isActive !== undefined) {
+        if (typeof isActive !== "boolean") {
+          return res.status(400).json({ error: "isActive must be a boolean" });
+        }
+        updates.isActive = isActive;
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: "No valid fields to update" });
+      }
+
+      const coupon = await db.updateCoupon(couponId, updates);
+
+      res.json({
+        message: "Coupon updated successfully",
+        coupon,
+      });
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        return res.status(404).json({ error: "Coupon not found" });
+      }
+      console.error("Error updating coupon:", error);
+      res.status(500).json({ error: "Failed to update coupon" });
+    }
+  },
+);
+
+app.delete(
+  "/api/coupons/:couponId",
+  authenticate,
+  requireRole(["admin", "business_owner"], couponBusiness),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { couponId } = req.params as { couponId: string };
+      const success = await db.deleteCoupon(couponId);
+
+      if (!success) {
+        return res.status(404).json({ error: "Coupon not found" });
+      }
+
+      res.json({ message: "Coupon deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting coupon:", error);
+      res.status(500).json({ error: "Failed to delete coupon" });
+    }
+  },
+);
+
+const MAX_CODES_PER_BATCH = 5000;
+
+// Generate a batch of unique single-use codes under a coupon (e.g. for a
+// flyer drop). From then on only those codes redeem the deal.
+app.post(
+  "/api/coupons/:couponId/codes",
+  authenticate,
+  requireRole(["admin", "business_owner"], couponBusiness),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { couponId } = req.params as { couponId: string };
+      const { count } = req.body;
+
+      if (
+        !Number.isInteger(count) ||
+        count < 1 ||
+        count > MAX_CODES_PER_BATCH
+      ) {
+        return res.status(400).json({
+          error: `Count must be an integer between 1 and ${MAX_CODES_PER_BATCH}`,
+        });
+      }
+
+      const codes = await db.generateCouponCodes(couponId, count);
+      res.status(201).json({
+        message: `Generated ${codes.length} codes`,
+        codes,
+        coupon: await db.getCouponById(parseInt(couponId)),
+      });
+    } catch (error) {
+      if (errorMessage(error).includes("at most")) {
+        return res.status(400).json({ error: errorMessage(error) });
+      }
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: errorMessage(error) });
+      }
+      console.error("Error generating coupon codes:", error);
+      res.status(500).json({ error: "Failed to generate coupon codes" });
+    }
+  },
+);
+
+app.get(
+  "/api/coupons/:couponId/codes",
+  authenticate,
+  requireRole(["admin", "business_owner"], couponBusiness),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { couponId } = req.params as { couponId: string };
+      res.json({ codes: await db.getCouponCodes(couponId) });
+    } catch (error) {
+      console.error("Error fetching coupon codes:", error);
+      res.status(500).json({ error: "Failed to fetch coupon codes" });
+    }
+  },
+);
+
+// Ask to be made the owner of a listing; an admin reviews the request
+app.post(
+  "/api/businesses/:id/claims",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const businessId = req.params.id as string;
+      const { message } = req.body;
+
+      if (
+        !message ||
+        typeof message !== "string" ||
+        message.trim().length === 0
+      ) {
+        return res.status(400).json({
+          error: "Tell us how you're connected to this business",
+        });
+      }
+      if (message.length > 1000) {
+        return res
+          .status(400)
+          .json({ error: "Message must be 1000 characters or less" });
+      }
+      if (!(await db.businessExists(businessId))) {
+        return res.status(404).json({ error: "Business not found" });
+      }
+
+      const result = await db.createBusinessClaim(
+        req.user!.id,
+        businessId,
+        message.trim(),
+      );
+      if (!result.success) {
+        return res.status(409).json({ error: result.error });
+      }
+
+      res.status(201).json({
+        message: "Claim submitted for review",
+        claim: result.claim,
+      });
+    } catch (error) {
+      console.error("Error submitting business claim:", error);
+      res.status(500).json({ error: "Failed to submit claim" });
+    }
+  },
+);
+
+app.get(
+  "/api/business-claims/mine",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const claims = await db.getBusinessClaims({ userId: req.user!.id });
+      res.json({ claims });
+    } catch (error) {
+      console.error("Error fetching business claims:", error);
+      res.status(500).json({ error: "Failed to fetch claims" });
+    }
+  },
+);
+
+app.get(
+  "/api/admin/business-claims",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !["pending", "approved", "rejected"].includes(status)) {
+        return res.status(400).json({ error: "Invalid status filter" });
+      }
+
+      const claims = await db.getBusinessClaims({
+        status: status as BusinessClaimStatus | undefined,
+      });
+      res.json({ claims });
+    } catch (error) {
+      console.error("Error fetching business claims:", error);
+      res.status(500).json({ error: "Failed to fetch claims" });
+    }
+  },
+);
+
+app.put(
+  "/api/admin/business-claims/:id",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status } = req.body;
+      if (!["approved", "rejected"].includes(status)) {
+        return res
+          .status(400)
+          .json({ error: 'Status must be "approved" or "rejected"' });
+      }
+
+      const claim = await db.reviewBusinessClaim(
+        req.params.id as string,
+        req.user!.id,
+        status,
+      );
+      res.json({ message: `Claim ${status}`, claim });
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: errorMessage(error) });
+      }
+      if (errorMessage(error).includes("already been reviewed")) {
+        return res.status(409).json({ error: errorMessage(error) });
+      }
+      console.error("Error reviewing business claim:", error);
+      res.status(500).json({ error: "Failed to review claim" });
+    }
+  },
+);
+
+// Admin: revoke a user's ownership of a business
+app.delete(
+  "/api/admin/businesses/:id/owners/:userId",
+  authenticate,
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const removed = await db.removeBusinessOwner(
+        req.params.userId as string,
+        req.params.id as string,
+      );
+      if (!removed) {
+        return res.status(404).json({ error: "Owner not found" });
+      }
+      res.json({ message: "Owner removed" });
+    } catch (error) {
+      console.error("Error removing business owner:", error);
+      res.status(500).json({ error: "Failed to remove owner" });
+    }
+  },
+);
+
+/**
+ * Tell everyone streaming a rideshare that it changed. Errors are only
+ * logged: the change itself has already been saved.
+ */
+async function broadcastRideshare(
+  type: RideshareEventType,
+  rideshareId: string | number,
+  actorId: string | null,
+  message?: RideshareMessage,
+) {
+  try {
+    const rideshare = await db.getRideshareById(Number(rideshareId));
+    const passengers = await db.getRidesharePassengers(rideshare.id);
+    publishRideshareEvent({ type, rideshare, passengers, actorId, message });
+  } catch (error) {
+    console.error("Error broadcasting rideshare event:", error);
+  }
+}
+
+// Comment lines sent on idle streams so proxies don't time them out
+const EVENT_STREAM_HEARTBEAT_MS = 25 * 1000;
+
+/**
+ * Send rideshare events as server-sent events until the client disconnects
+ * or the session that opened the stream is revoked or expires, which ends it
+ * with a `session_ended` event. The lobby stream (no `rideshareId`) leaves
+ * out passenger lists and chat messages. Messages and departure reminders
+ * only go to the ride's participants.
+ */
+function streamRideshareEvents(
+  req: AuthenticatedRequest,
+  res: Response,
+  rideshareId?: string,
+) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stop nginx and similar proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  const userId = req.user!.id;
+  const sessionId = req.sessionId!;
+  let open = true;
+  const unsubscribe = subscribeToRideshares(
+    ({ type, rideshare, passengers, message }) => {
+      if (type === "message" || type === "reminder") {
+        const participant =
+          rideshare.creatorId === userId ||
+          rideshare.driverId === userId ||
+          passengers.some((p) => p.userId === userId);
+        if (!participant || (type === "message" && !rideshareId)) return;
+      }
+      const data = rideshareId
+        ? { type, rideshare, passengers, message }
+        : { type, rideshare };
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    },
+    rideshareId,
+  );
+  const stopWatchingSession = onSessionRevoked((revocation) => {
+    if (revocation.sessionId === sessionId || revocation.userId === userId) {
+      endSession();
+    }
+  });
+  // Session expiry has no event, so check on each heartbeat
+  const heartbeat = setInterval(async () => {
+    let valid = true;
+    try {
+      valid = await db.isSessionValid(sessionId);
+    } catch (error) {
+      console.error("Error checking event stream session:", error);
+    }
+    if (!open) return;
+    if (!valid) return endSession();
+    res.write(": ping\n\n");
+  }, EVENT_STREAM_HEARTBEAT_MS);
+
+  const cleanup = () => {
+    open = false;
+    clearInterval(heartbeat);
+    unsubscribe();
+    stopWatchingSession();
+  };
+  const endSession = () => {
+    if (!open) return;
+    cleanup();
+    res.end("event: session_ended\ndata: {}\n\n");
+  };
+  req.on("close", cleanup);
+}
+
+// Rides still waiting for a driver this long after departure are called off
+const RIDESHARE_DEPARTURE_GRACE_MINUTES = 15;
+// How long before departure participants are reminded
+const RIDESHARE_REMINDER_MINUTES = 15;
+const MAX_RIDESHARE_SCHEDULE_DAYS = 30;
+
+/** Cancel overdue rides and send departure reminders; run every minute. */
+async function sweepScheduledRideshares() {
+  try {
+    const cancelled = await db.cancelOverdueRideshares(
+      RIDESHARE_DEPARTURE_GRACE_MINUTES,
+    );
+    for (const id of cancelled) {
+      await broadcastRideshare("cancelled", id, null);
+    }
+    const due = await db.claimDueRideshareReminders(
+      RIDESHARE_REMINDER_MINUTES,
+    );
+    for (const id of due) {
+      await broadcastRideshare("reminder", id, null);
+    }
+  } catch (error) {
+    console.error("Error sweeping scheduled rideshares:", error);
+  }
+}
+
+// Get all active rideshares (public listing; mine=true requires auth)
+app.get(
+  "/api/rideshares",
+  optionalAuthenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const includeAll = req.query.all === "true";
+      const mine = req.query.mine === "true";
+
+      let rideshares;
+      if (mine) {
+        if (!req.user) {
+          return res.status(401).json({ error: "Authentication required" });
+        }
+        rideshares = await db.getUserRideshares(req.user.id);
+      } else if (includeAll) {
+        rideshares = await db.getAllRideshares(true);
+      } else {
+        rideshares = await db.getActiveRideshares();
+      }
+
+      res.json({ rideshares });
+    } catch (error) {
+      console.error("Error fetching rideshares:", error);
+      res.status(500).json({ error: "Failed to fetch rideshares" });
+    }
+  },
+);
+
+const MAX_RIDESHARE_MATCHES = 20;
+
+// Active rides going the caller's way: pick-up near their origin, drop-off
+// near their destination and heading the same direction, best match first
+app.get(
+  "/api/rideshares/match",
+  optionalAuthenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const [originLat, originLng, destinationLat, destinationLng] = [
+        req.query.originLat,
+        req.query.originLng,
+        req.query.destinationLat,
+        req.query.destinationLng,
+      ].map((value) => parseFloat(value as string));
+      const lats = [originLat, destinationLat];
+      const lngs = [originLng, destinationLng];
+      if (
+        lats.some((lat) => !(Math.abs(lat) <= 90)) ||
+        lngs.some((lng) => !(Math.abs(lng) <= 180))
+      ) {
+        return res.status(400).json({
+          error:
+            "originLat, originLng, destinationLat and destinationLng are required",
+        });
+      }
+      const maxDetourKm =
+        req.query.maxDetourKm == null
+          ? DEFAULT_MAX_DETOUR_KM
+          : parseFloat(req.query.maxDetourKm as string);
+      if (!(maxDetourKm > 0 && maxDetourKm <= MAX_DETOUR_LIMIT_KM)) {
+        return res.status(400).json({
+          error: `maxDetourKm must be between 0 and ${MAX_DETOUR_LIMIT_KM}`,
+        });
+      }
+
+      const trip = {
+        originLat,
+        originLng,
+        destinationLat,
+        destinationLng,
+        maxDetourKm,
+      };
+      const matches = (await db.getActiveRideshares())
+        .flatMap((rideshare) => {
+          const match = matchRide(rideshare, trip);
+          return match ? [{ rideshare, ...match }] : [];
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_RIDESHARE_MATCHES);
+
+      res.json({ matches });
+    } catch (error) {
+      console.error("Error matching rideshares:", error);
+      res.status(500).json({ error: "Failed to match rideshares" });
+    }
+  },
+);
+
+// Departure reminders the user hasn't seen, e.g. sent while they were offline
+app.get(
+  "/api/rideshares/reminders",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const reminders = await db.getUnreadRideshareReminders(req.user!.id);
+      res.json({ reminders });
+    } catch (error) {
+      console.error("Error fetching rideshare reminders:", error);
+      res.status(500).json({ error: "Failed to fetch reminders" });
+    }
+  },
+);
+
+app.post(
+  "/api/rideshares/:id/reminder/read",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params as { id: string };
+      await db.markRideshareReminderRead(id, req.user!.id);
+      res.json({ message: "Reminder marked as read" });
+    } catch (error) {
+      console.error("Error marking rideshare reminder read:", error);
+      res.status(500).json({ error: "Failed to mark reminder as read" });
+    }
+  },
+);
+
+// The user's fare shares, owed and owed to them, with running totals
+app.get(
+  "/api/rideshares/ledger",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const ledger = await db.getFareLedger(req.user!.id);
+      res.json(ledger);
+    } catch (error) {
+      console.error("Error fetching fare ledger:", error);
+      res.status(500).json({ error: "Failed to fetch fare ledger" });
+    }
+  },
+);
+
+// The driver records a share as paid outside the app, e.g. in cash
+app.post(
+  "/api/rideshares/ledger/:shareId/paid",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { shareId } = req.params as { shareId: string };
+      const result = await db.markFareSharePaid(shareId, req.user!.id);
+      if (!result.success) {
+        const status = result.error === "Fare share not found" ? 404 : 400;
+        return res.status(status).json({ error: result.error });
+      }
+      const share = await db.getFareShareById(shareId);
+      res.json({ message: "Marked as paid", share });
+    } catch (error) {
+      console.error("Error marking fare share paid:", error);
+      res.status(500).json({ error: "Failed to mark fare share paid" });
+    }
+  },
+);
+
+/**
+ * POST /api/rideshares/ledger/:shareId/checkout
+ * Stripe Checkout for the payer's share of a fare. The money lands in the
+ * platform's account; paying drivers out (e.g. Stripe Connect) is not
+ * handled here.
+ */
+app.post(
+  "/api/rideshares/ledger/:shareId/checkout",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    if (!stripe) {
+      return res.status(503).json({ error: "Stripe not configured" });
+    }
 
-      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-        return res.status(400).json({ error: "Invalid date format" });
+    try {
+      const { shareId } = req.params as { shareId: string };
+      const userId = String(req.user!.id);
+      const share = await db.getFareShareById(shareId);
+      if (!share) {
+        return res.status(404).json({ error: "Fare share not found" });
       }
-      if (end <= start) {
-        return res
-          .status(400)
-          .json({ error: "End date must be after start date" });
+      if (share.payerId !== userId) {
+        return res.status(403).json({ error: "This share isn't yours to pay" });
       }
-      if (
-        usageLimit !== undefined &&
-        usageLimit !== null &&
-        (typeof usageLimit !== "number" || usageLimit <= 0)
-      ) {
-        return res
-          .status(400)
-          .json({ error: "Usage limit must be a positive number" });
+      if (share.status === "paid") {
+        return res.status(400).json({ error: "This share is already paid" });
+      }
+      if (share.amountCents < MIN_CARD_PAYMENT_CENTS) {
+        return res.status(400).json({
+          error: `Shares under ${formatCents(MIN_CARD_PAYMENT_CENTS)} can't be paid by card`,
+        });
       }
 
-      const coupon = await db.createCoupon({
-        businessId,
-        title: title.trim(),
-        description: description.trim(),
-        discountType,
-        discountValue,
-        couponCode: couponCode.trim(),
-        startDate: start,
-        endDate: end,
-        usageLimit: usageLimit || undefined,
-        isPremiumOnly: isPremiumOnly || false,
+      const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+      const session = await stripe.checkout.sessions.create({
+        mode: "payment",
+        payment_method_types: ["card"],
+        customer_email: req.user!.email,
+        metadata: { userId, fareShareId: share.id },
+        line_items: [
+          {
+            price_data: {
+              currency: FARE_CURRENCY,
+              unit_amount: share.amountCents,
+              product_data: {
+                name: `Ride: ${share.originName} → ${share.destinationName}`,
+              },
+            },
+            quantity: 1,
+          },
+        ],
+        success_url: `${frontendUrl}/?ride_payment=success&session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${frontendUrl}/?ride_payment=cancelled`,
       });
 
-      res.status(201).json({
-        message: "Coupon created successfully",
-        coupon,
-      });
-    } catch (error: any) {
-      if (error.message?.includes("already exists")) {
-        return res.status(409).json({ error: error.message });
-      }
-      console.error("Error creating coupon:", error);
-      res.status(500).json({ error: "Failed to create coupon" });
+      res.json({ url: session.url });
+    } catch (error) {
+      console.error("Stripe ride checkout error:", error);
+      res.status(500).json({ error: "Failed to create checkout session" });
     }
   },
 );
 
-app.put(
-  "/api/coupons/:couponId",
+/**
+ * POST /api/rideshares/ledger/verify-payment
+ * Settle a fare share after the Checkout redirect, without waiting for the
+ * webhook.
+ */
+app.post(
+  "/api/rideshares/ledger/verify-payment",
   authenticate,
-  requireAdmin,
   async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const { couponId } = req.params as { couponId: string };
-      const {
-        title,
-        description,
-        discountType,
-        discountValue,
-        startDate,
-        endDate,
-        usageLimit,
-        isActive,
-      } = req.body;
+    const userId = String(req.user!.id);
+    const { sessionId } = req.body as { sessionId?: string };
 
-      const updates: any = {};
+    if (!sessionId) {
+      return res.status(400).json({ error: "sessionId is required" });
+    }
+    if (!stripe) {
+      return res.status(503).json({ error: "Stripe not configured" });
+    }
 
-      if (title !== undefined) {
-        if (typeof title !== "string" || title.trim().length === 0) {
-          return res.status(400).json({ error: "Invalid title" });
-        }
-        updates.title = title.trim();
-      }
-      if (description !== undefined) {
-        if (
-          typeof description !== "string" ||
-          description.trim().length === 0
-        ) {
-          return res.status(400).json({ error: "Invalid description" });
-        }
-        updates.description = description.trim();
-      }
-      if (discountType !== undefined) {
-        if (!["percentage", "fixed"].includes(discountType)) {
-          return res
-            .status(400)
-            .json({ error: 'Discount type must be "percentage" or "fixed"' });
-        }
-        updates.discountType = discountType;
-      }
-      if (discountValue !== undefined) {
-        if (typeof discountValue !== "number" || discountValue <= 0) {
-          return res
-            .status(400)
-            .json({ error: "Discount value must be positive" });
-        }
-        updates.discountValue = discountValue;
-      }
-      if (startDate !== undefined) {
-        const start = new Date(startDate);
-        if (isNaN(start.getTime())) {
-          return res.status(400).json({ error: "Invalid start date" });
-        }
-        updates.startDate = start.toISOString();
-      }
-      if (endDate !== undefined) {
-        const end = new Date(endDate);
-        if (isNaN(end.getTime())) {
-          return res.status(400).json({ error: "Invalid end date" });
-        }
-        updates.endDate = end.toISOString();
-      }
-      if (usageLimit !== undefined) {
-        if (
-          usageLimit !== null &&
-          (typeof usageLimit !== "number" || usageLimit <= 0)
-        ) {
-          return res
-            .status(400)
-            .json({ error: "Usage limit must be a positive number or null" });
-        }
-        updates.usageLimit = usageLimit;
+    try {
+      const session = await stripe.checkout.sessions.retrieve(sessionId);
+      const shareId = session.metadata?.fareShareId;
+      if (session.metadata?.userId !== userId || !shareId) {
+        return res
+          .status(403)
+          .json({ error: "Session does not belong to this user" });
       }
-      if (isActive !== undefined) {
-        if (typeof isActive !== "boolean") {
-          return res.status(400).json({ error: "isActive must be a boolean" });
-        }
-        updates.isActive = isActive;
+      if (session.payment_status !== "paid") {
+        return res.status(402).json({
+          error: "Payment not completed",
+          paymentStatus: session.payment_status,
+        });
       }
 
-      if (Object.keys(updates).length === 0) {
-        return res.status(400).json({ error: "No valid fields to update" });
-      }
+      await db.settleFareShare(shareId, session.id);
+      const share = await db.getFareShareById(shareId);
+      res.json({ share });
+    } catch (error) {
+      console.error("Verify ride payment error:", error);
+      res.status(500).json({ error: "Failed to verify payment" });
+    }
+  },
+);
 
-      const coupon = await db.updateCoupon(couponId, updates);
+// A short-lived token for opening the event streams below, which can't send
+// the access token when the app is served from another origin
+app.post(
+  "/api/rideshares/events/token",
+  authenticate,
+  (req: AuthenticatedRequest, res: Response) => {
+    const token = AuthService.signStreamToken(req.user!.id, req.sessionId!);
+    res.json({ token });
+  },
+);
 
-      res.json({
-        message: "Coupon updated successfully",
-        coupon,
-      });
-    } catch (error: any) {
-      if (error.message?.includes("not found")) {
-        return res.status(404).json({ error: "Coupon not found" });
+// Live lobby updates: every rideshare's changes, as server-sent events
+app.get(
+  "/api/rideshares/events",
+  authenticateStream,
+  (req: AuthenticatedRequest, res: Response) => {
+    streamRideshareEvents(req, res);
+  },
+);
+
+// Live updates for one rideshare, with its passengers
+app.get(
+  "/api/rideshares/:id/events",
+  authenticateStream,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rideshare = await db.getRideshareById(
+        parseInt(req.params.id as string),
+      );
+      streamRideshareEvents(req, res, rideshare.id);
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: "Rideshare not found" });
       }
-      console.error("Error updating coupon:", error);
-      res.status(500).json({ error: "Failed to update coupon" });
+      console.error("Error opening rideshare event stream:", error);
+      res.status(500).json({ error: "Failed to open event stream" });
     }
   },
 );
 
-app.delete(
-  "/api/coupons/:couponId",
+const MAX_RIDE_MESSAGE_LENGTH = 500;
+
+/** Validate a ride chat message's text. */
+function parseRideMessageText(
+  body: unknown,
+): { text: string } | { error: string } {
+  const text = (body as { text?: unknown } | undefined)?.text;
+  if (typeof text !== "string" || !text.trim()) {
+    return { error: "Message text is required" };
+  }
+  if (text.trim().length > MAX_RIDE_MESSAGE_LENGTH) {
+    return {
+      error: `Messages must be under ${MAX_RIDE_MESSAGE_LENGTH} characters`,
+    };
+  }
+  if (profanityFilter.isProfane(text)) {
+    return {
+      error:
+        "Message contains inappropriate language. Please revise and resend.",
+    };
+  }
+  return { text: text.trim() };
+}
+
+// A ride's chat thread, for its creator, driver and passengers. Kept
+// (read-only) for 30 days after the ride ends, then deleted with the ride.
+app.get(
+  "/api/rideshares/:id/messages",
   authenticate,
-  requireAdmin,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { couponId } = req.params as { couponId: string };
-      const success = await db.deleteCoupon(couponId);
-
-      if (!success) {
-        return res.status(404).json({ error: "Coupon not found" });
+      const { id } = req.params as { id: string };
+      await db.getRideshareById(parseInt(id));
+      if (!(await db.isRideshareParticipant(id, req.user!.id))) {
+        return res.status(403).json({
+          error: "Only the ride's participants can read its messages",
+        });
       }
-
-      res.json({ message: "Coupon deleted successfully" });
+      const messages = await db.getRideshareMessages(id);
+      res.json({ messages });
     } catch (error) {
-      console.error("Error deleting coupon:", error);
-      res.status(500).json({ error: "Failed to delete coupon" });
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: "Rideshare not found" });
+      }
+      console.error("Error fetching ride messages:", error);
+      res.status(500).json({ error: "Failed to fetch messages" });
     }
   },
 );
 
-// Get all active rideshares (public listing; mine=true requires auth)
-app.get(
-  "/api/rideshares",
-  optionalAuthenticate,
+app.post(
+  "/api/rideshares/:id/messages",
+  authenticate,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const includeAll = req.query.all === "true";
-      const mine = req.query.mine === "true";
+      const { id } = req.params as { id: string };
+      const parsed = parseRideMessageText(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      await db.getRideshareById(parseInt(id));
+      if (!(await db.isRideshareParticipant(id, req.user!.id))) {
+        return res.status(403).json({
+          error: "Only the ride's participants can post messages",
+        });
+      }
 
-      let rideshares;
-      if (mine) {
-        if (!req.user) {
-          return res.status(401).json({ error: "Authentication required" });
-        }
-        rideshares = await db.getUserRideshares(req.user.id);
-      } else if (includeAll) {
-        rideshares = await db.getAllRideshares(true);
-      } else {
-        rideshares = await db.getActiveRideshares();
+      const result = await db.createRideshareMessage(
+        id,
+        req.user!.id,
+        parsed.text,
+      );
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
       }
 
-      res.json({ rideshares });
+      await broadcastRideshare("message", id, req.user!.id, result.message);
+      res.status(201).json({ message: result.message });
     } catch (error) {
-      console.error("Error fetching rideshares:", error);
-      res.status(500).json({ error: "Failed to fetch rideshares" });
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: "Rideshare not found" });
+      }
+      console.error("Error posting ride message:", error);
+      res.status(500).json({ error: "Failed to post message" });
     }
   },
 );
@@ -2407,6 +3800,7 @@ app.post(
         destinationLng,
         maxPassengers,
         note,
+        departureAt,
       } = req.body;
 
       // Validate required fields
@@ -2432,6 +3826,27 @@ app.post(
           .json({ error: "Max passengers must be between 1 and 4" });
       }
 
+      // Omitted for rides leaving now
+      let departure: Date | undefined;
+      if (departureAt != null && departureAt !== "") {
+        departure = new Date(departureAt);
+        if (isNaN(departure.getTime())) {
+          return res.status(400).json({ error: "Invalid departure time" });
+        }
+        // Allow a minute for clock differences with the client
+        if (departure.getTime() < Date.now() - 60 * 1000) {
+          return res
+            .status(400)
+            .json({ error: "Departure time must be in the future" });
+        }
+        const maxAhead = MAX_RIDESHARE_SCHEDULE_DAYS * 24 * 60 * 60 * 1000;
+        if (departure.getTime() > Date.now() + maxAhead) {
+          return res.status(400).json({
+            error: `Rides can be scheduled at most ${MAX_RIDESHARE_SCHEDULE_DAYS} days ahead`,
+          });
+        }
+      }
+
       const rideshare = await db.createRideshare({
         creatorId: req.user!.id,
         originName,
@@ -2442,8 +3857,10 @@ app.post(
         destinationLng: parseFloat(destinationLng),
         maxPassengers: max,
         note: note || undefined,
+        departureAt: departure,
       });
 
+      await broadcastRideshare("created", rideshare.id, req.user!.id);
       res.status(201).json({ message: "Rideshare created", rideshare });
     } catch (error) {
       console.error("Error creating rideshare:", error);
@@ -2464,6 +3881,7 @@ app.post(
         return res.status(400).json({ error: result.error });
       }
 
+      await broadcastRideshare("joined", id, req.user!.id);
       const rideshare = await db.getRideshareById(parseInt(id));
       const passengers = await db.getRidesharePassengers(id);
       res.json({ message: "Joined rideshare", rideshare, passengers });
@@ -2486,6 +3904,7 @@ app.post(
         return res.status(400).json({ error: result.error });
       }
 
+      await broadcastRideshare("left", id, req.user!.id);
       res.json({ message: "Left rideshare" });
     } catch (error) {
       console.error("Error leaving rideshare:", error);
@@ -2507,6 +3926,7 @@ app.post(
         return res.status(400).json({ error: result.error });
       }
 
+      await broadcastRideshare("accepted", id, req.user!.id);
       const rideshare = await db.getRideshareById(parseInt(id));
       res.json({ message: "Transport accepted", rideshare });
     } catch (error) {
@@ -2529,6 +3949,7 @@ app.post(
         return res.status(400).json({ error: result.error });
       }
 
+      await broadcastRideshare("started", id, req.user!.id);
       const rideshare = await db.getRideshareById(parseInt(id));
       res.json({ message: "Transport started — lobby locked", rideshare });
     } catch (error) {
@@ -2550,6 +3971,7 @@ app.post(
         return res.status(400).json({ error: result.error });
       }
 
+      await broadcastRideshare("completed", id, req.user!.id);
       const rideshare = await db.getRideshareById(parseInt(id));
       res.json({ message: "Ride completed", rideshare });
     } catch (error) {
@@ -2559,6 +3981,55 @@ app.post(
   },
 );
 
+// The driver sets the fare, in dollars, as a total or per km; passengers
+// split it when the ride completes. A null fareType clears it.
+app.put(
+  "/api/rideshares/:id/fare",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id } = req.params as { id: string };
+      const { fareType, amount } = req.body as {
+        fareType?: string | null;
+        amount?: number;
+      };
+
+      let fare: { type: "total" | "per_km"; cents: number } | null = null;
+      if (fareType != null) {
+        if (fareType !== "total" && fareType !== "per_km") {
+          return res
+            .status(400)
+            .json({ error: 'fareType must be "total" or "per_km"' });
+        }
+        const cents = Math.round(Number(amount) * 100);
+        const max =
+          fareType === "total" ? MAX_TOTAL_FARE_CENTS : MAX_PER_KM_FARE_CENTS;
+        if (!Number.isFinite(cents) || cents <= 0 || cents > max) {
+          return res.status(400).json({
+            error: `amount must be more than 0 and at most ${max / 100}`,
+          });
+        }
+        fare = { type: fareType, cents };
+      }
+
+      const result = await db.setRideshareFare(id, req.user!.id, fare);
+      if (!result.success) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      await broadcastRideshare("fare_set", id, req.user!.id);
+      const rideshare = await db.getRideshareById(parseInt(id));
+      res.json({ message: fare ? "Fare set" : "Fare cleared", rideshare });
+    } catch (error) {
+      if (errorMessage(error).includes("not found")) {
+        return res.status(404).json({ error: "Rideshare not found" });
+      }
+      console.error("Error setting rideshare fare:", error);
+      res.status(500).json({ error: "Failed to set fare" });
+    }
+  },
+);
+
 app.post(
   "/api/rideshares/:id/cancel",
   authenticate,
@@ -2571,6 +4042,7 @@ app.post(
         return res.status(400).json({ error: result.error });
       }
 
+      await broadcastRideshare("cancelled", id, req.user!.id);
       const rideshare = await db.getRideshareById(parseInt(id));
       res.json({ message: "Ride cancelled", rideshare });
     } catch (error) {
@@ -2674,6 +4146,12 @@ app.post(
           .status(403)
           .json({ error: "Session does not belong to this user" });
       }
+      // Ride fare payments never grant premium
+      if (session.metadata?.fareShareId) {
+        return res
+          .status(400)
+          .json({ error: "Not a premium checkout session" });
+      }
       if (session.payment_status !== "paid") {
         return res
           .status(402)
@@ -2838,7 +4316,20 @@ app.post(
     }
 
     try {
-      if (event.type === "checkout.session.completed") {
+      const completedSession =
+        event.type === "checkout.session.completed"
+          ? (event.data.object as Stripe.Checkout.Session)
+          : null;
+      const fareShareId = completedSession?.metadata?.fareShareId;
+      if (fareShareId) {
+        // A rider paying their share of a fare, not a premium purchase
+        if (
+          completedSession?.payment_status === "paid" &&
+          (await db.settleFareShare(fareShareId, completedSession.id))
+        ) {
+          console.log(`🚗 Fare share ${fareShareId} paid via Stripe`);
+        }
+      } else if (event.type === "checkout.session.completed") {
         const session = event.data.object as Stripe.Checkout.Session;
         const userId = session.metadata?.userId;
         const planId = (session.metadata?.planId || "essential") as
@@ -3036,6 +4527,7 @@ process.on("SIGINT", () => {
 
 db.init()
   .then(() => {
+    setInterval(sweepScheduledRideshares, 60 * 1000);
     app.listen(port, () => {
       console.log(
         `🚀 Proximiti API server running on http://localhost:${port}`,
@@ -8,6 +8,7 @@ import {
 } from "react";
 import { LoginPage } from "@/pages/LoginPage";
 import { BusinessFinder } from "@/pages/BusinessFinder";
+import { RedeemPage } from "@/pages/RedeemPage";
 import authApi, { type User } from "@/lib/authApi";
 
 type Theme = "light" | "dark";
@@ -182,6 +183,14 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/redeem"
+              element={
+                <ProtectedRoute>
+                  <RedeemPage />
+                </ProtectedRoute>
+              }
+            />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
         </BrowserRouter>
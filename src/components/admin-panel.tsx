@@ -2,7 +2,12 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/App";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import authApi, { type User } from "@/lib/authApi";
+import authApi, { type User, type UserRole } from "@/lib/authApi";
+import {
+  getBusinessClaims,
+  reviewBusinessClaim,
+  type BusinessClaim,
+} from "@/lib/businessOwnerApi";
 import {
   Users,
   Shield,
@@ -13,8 +18,17 @@ import {
   Crown,
   Trash2,
   BadgeX,
+  Store,
+  Check,
+  X,
+  BarChart3,
+  Flag,
+  Ban,
 } from "lucide-react";
 import { CouponManagement } from "@/components/coupon-management";
+import { CouponAnalytics } from "@/components/coupon-analytics";
+import { ReviewModeration } from "@/components/review-moderation";
+import { liftReviewBan } from "@/lib/reviewApi";
 import type { Business } from "@/lib/businesses";
 
 interface AdminPanelProps {
@@ -33,13 +47,37 @@ export function AdminPanel({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [showCouponManagement, setShowCouponManagement] = useState(false);
+  const [showCouponAnalytics, setShowCouponAnalytics] = useState(false);
+  const [claims, setClaims] = useState<BusinessClaim[]>([]);
 
   useEffect(() => {
     if (isOpen && user?.role === "admin") {
       fetchUsers();
+      fetchClaims();
     }
   }, [isOpen, user]);
 
+  const fetchClaims = async () => {
+    try {
+      setClaims(await getBusinessClaims("pending"));
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const handleReviewClaim = async (
+    claimId: string,
+    status: "approved" | "rejected",
+  ) => {
+    try {
+      await reviewBusinessClaim(claimId, status);
+      // Approval changes the claimant's role
+      await Promise.all([fetchClaims(), fetchUsers()]);
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
   const fetchUsers = async () => {
     try {
       setLoading(true);
@@ -97,9 +135,18 @@ export function AdminPanel({
     }
   };
 
+  const handleLiftReviewBan = async (userId: string) => {
+    try {
+      await liftReviewBan(userId);
+      await fetchUsers();
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
   const handleRoleChange = async (
     userId: string,
-    newRole: "user" | "admin",
+    newRole: UserRole,
   ) => {
     try {
       await authApi.updateUserRole(userId, newRole);
@@ -211,6 +258,15 @@ export function AdminPanel({
                               </div>
                             </>
                           )}
+                          {userData.reviewBannedAt && (
+                            <>
+                              <span className="text-gray-500">•</span>
+                              <div className="flex items-center gap-1 text-red-400 text-xs">
+                                <Ban className="w-3 h-3" />
+                                Banned from reviews
+                              </div>
+                            </>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -220,14 +276,27 @@ export function AdminPanel({
                         className={`px-3 py-1 rounded-full text-sm font-medium ${
                           userData.role === "admin"
                             ? "bg-purple-600/20 text-purple-400 border border-purple-600/50"
-                            : "bg-blue-600/20 text-blue-400 border border-blue-600/50"
+                            : userData.role === "business_owner"
+                              ? "bg-green-600/20 text-green-400 border border-green-600/50"
+                              : "bg-blue-600/20 text-blue-400 border border-blue-600/50"
                         }`}
                       >
-                        {userData.role}
+                        {userData.role.replace("_", " ")}
                       </span>
 
                       {userData.id !== user.id && (
                         <>
+                          {userData.reviewBannedAt && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleLiftReviewBan(userData.id)}
+                              className="text-gray-400 hover:text-white"
+                              title="Let this user post reviews again"
+                            >
+                              Unban
+                            </Button>
+                          )}
                           {userData.isPremium &&
                             userData.stripeSubscriptionId && (
                               <Button
@@ -291,6 +360,72 @@ export function AdminPanel({
             )}
           </div>
 
+          <div className="border-t border-gray-700 pt-6 mb-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Store className="w-5 h-5 text-green-400" />
+              <h3 className="text-lg font-semibold text-white">
+                Business Claims
+              </h3>
+            </div>
+            {claims.length === 0 ? (
+              <p className="text-gray-400 text-sm">
+                No ownership claims waiting for review.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {claims.map((claim) => (
+                  <div
+                    key={claim.id}
+                    className="flex items-start justify-between gap-4 p-4 bg-gray-700 rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-white font-medium">
+                        {claim.businessName ?? claim.businessId}
+                      </p>
+                      <p className="text-gray-400 text-sm">
+                        {claim.userName} ({claim.userEmail}) •{" "}
+                        {new Date(claim.createdAt).toLocaleDateString()}
+                      </p>
+                      <p className="text-gray-300 text-sm mt-1 whitespace-pre-line">
+                        {claim.message}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleReviewClaim(claim.id, "approved")}
+                        className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleReviewClaim(claim.id, "rejected")}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-gray-700 pt-6 mb-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Flag className="w-5 h-5 text-orange-400" />
+              <h3 className="text-lg font-semibold text-white">
+                Review Moderation
+              </h3>
+            </div>
+            <ReviewModeration onAuthorBanned={fetchUsers} onError={setError} />
+          </div>
+
           <div className="border-t border-gray-700 pt-6 mb-6">
             <div className="flex items-center gap-2 mb-4">
               <Tag className="w-5 h-5 text-green-400" />
@@ -301,13 +436,22 @@ export function AdminPanel({
             <p className="text-gray-400 text-sm mb-4">
               Create and manage promotional coupons for businesses.
             </p>
-            <Button
-              onClick={() => setShowCouponManagement(true)}
-              className="bg-cherry-rose hover:bg-green-600 text-white"
-            >
-              <Tag className="w-4 h-4 mr-2" />
-              Manage Coupons
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setShowCouponManagement(true)}
+                className="bg-cherry-rose hover:bg-green-600 text-white"
+              >
+                <Tag className="w-4 h-4 mr-2" />
+                Manage Coupons
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowCouponAnalytics(true)}
+              >
+                <BarChart3 className="w-4 h-4 mr-2" />
+                Analytics
+              </Button>
+            </div>
           </div>
 
           <div className="border-t border-gray-700 pt-6">
@@ -353,6 +497,11 @@ export function AdminPanel({
         onClose={() => setShowCouponManagement(false)}
         businesses={businesses}
       />
+
+      <CouponAnalytics
+        isOpen={showCouponAnalytics}
+        onClose={() => setShowCouponAnalytics(false)}
+      />
     </div>
   );
 }
@@ -79,26 +79,32 @@ export function BusinessCard({
           </div>
 
           {/* Rating row */}
-          <div className="flex items-center gap-1.5 mt-1.5">
-            <div className="flex items-center gap-0.5">
-              {[1, 2, 3, 4, 5].map((s) => (
-                <Star
-                  key={s}
-                  className={`w-3 h-3 ${
-                    s <= Math.round(business.rating)
-                      ? "fill-yellow-400 text-yellow-400"
-                      : "fill-gray-200 text-gray-200 dark:fill-gray-600 dark:text-gray-600"
-                  }`}
-                />
-              ))}
+          {business.rating === 0 ? (
+            <div className="mt-1.5 text-xs text-gray-400 dark:text-gray-500">
+              No ratings yet
             </div>
-            <span className="text-xs font-semibold text-gray-800 dark:text-gray-200">
-              {business.rating.toFixed(1)}
-            </span>
-            <span className="text-xs text-gray-400 dark:text-gray-500">
-              ({business.reviewCount.toLocaleString()})
-            </span>
-          </div>
+          ) : (
+            <div className="flex items-center gap-1.5 mt-1.5">
+              <div className="flex items-center gap-0.5">
+                {[1, 2, 3, 4, 5].map((s) => (
+                  <Star
+                    key={s}
+                    className={`w-3 h-3 ${
+                      s <= Math.round(business.rating)
+                        ? "fill-yellow-400 text-yellow-400"
+                        : "fill-gray-200 text-gray-200 dark:fill-gray-600 dark:text-gray-600"
+                    }`}
+                  />
+                ))}
+              </div>
+              <span className="text-xs font-semibold text-gray-800 dark:text-gray-200">
+                {business.rating.toFixed(1)}
+              </span>
+              <span className="text-xs text-gray-400 dark:text-gray-500">
+                ({business.reviewCount.toLocaleString()})
+              </span>
+            </div>
+          )}
 
           {/* Category badge */}
           <span className="inline-block mt-1.5 px-2 py-0.5 bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs rounded-full capitalize">
@@ -12,8 +12,26 @@ import {
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ReviewsSection } from "@/components/reviews/reviews-section";
+import { BusinessReviewPhotos } from "@/components/reviews/photo-gallery";
 import { DealsSection } from "@/components/deals-section";
+import { ClaimBusiness } from "@/components/claim-business";
 import { isBookmarked, toggleBookmark } from "@/lib/bookmarks";
+import {
+  aggregateRating,
+  emptyDistribution,
+  type RatingSummary,
+} from "@/lib/ratings";
+
+/** The server's summary, or one built from a bundled catalog entry. */
+function initialRating(business: Business): RatingSummary {
+  return (
+    business.ratingSummary ??
+    aggregateRating(emptyDistribution(), {
+      rating: business.rating,
+      count: business.reviewCount,
+    })
+  );
+}
 
 interface BusinessDetailProps {
   business: Business;
@@ -43,13 +61,12 @@ export function BusinessDetail({
     setIsBookmarkedState(!isBookmarkedState);
   };
 
-  const [liveGoogleRating, setLiveGoogleRating] = useState<number | null>(null);
-  const [liveGoogleTotal, setLiveGoogleTotal] = useState<number | null>(null);
+  // Refreshed by the reviews section, which also sees the user's own edits
+  const [rating, setRating] = useState(() => initialRating(business));
 
-  const handleGoogleData = (rating: number, totalRatings: number) => {
-    setLiveGoogleRating(rating);
-    setLiveGoogleTotal(totalRatings);
-  };
+  useEffect(() => {
+    setRating(initialRating(business));
+  }, [business.id]); // eslint-disable-line react-hooks/exhaustive-deps
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl overflow-hidden border border-gray-200 dark:border-gray-700 shadow-2xl flex flex-col">
       {/* Header image – uses the curated Unsplash category image (no API key required) */}
@@ -85,22 +102,20 @@ export function BusinessDetail({
           </span>
         </div>
 
-        {/* Rating */}
+        {/* Rating – our reviews blended with the provider's rating */}
         <div className="flex items-center gap-2 mt-2">
-          {liveGoogleRating !== null ? (
-            // Live Google rating
+          {rating.rating === null ? (
+            <span className="text-gray-500 dark:text-gray-400 text-sm">
+              No ratings yet
+            </span>
+          ) : (
             <>
-              <img
-                src="https://www.google.com/images/branding/googleg/1x/googleg_standard_color_128dp.png"
-                alt="Google"
-                className="w-5 h-5 object-contain"
-              />
               <div className="flex items-center gap-1">
                 {[1, 2, 3, 4, 5].map((s) => (
                   <Star
                     key={s}
                     className={`w-4 h-4 ${
-                      s <= Math.round(liveGoogleRating)
+                      s <= Math.round(rating.rating!)
                         ? "fill-yellow-400 text-yellow-400"
                         : "fill-gray-200 text-gray-200 dark:fill-gray-600 dark:text-gray-600"
                     }`}
@@ -108,27 +123,20 @@ export function BusinessDetail({
                 ))}
               </div>
               <span className="text-gray-900 dark:text-white font-semibold">
-                {liveGoogleRating.toFixed(1)}
+                {rating.rating.toFixed(1)}
+              </span>
+              <span
+                className="text-gray-500 dark:text-gray-400 text-sm"
+                title={`${rating.proximiti.count} Proximiti reviews, ${rating.external.count.toLocaleString()} ${business.id.startsWith("gp-") ? "Google" : "external"} ratings`}
+              >
+                ({rating.reviewCount.toLocaleString()} reviews)
               </span>
-              {liveGoogleTotal !== null && (
-                <span className="text-gray-500 dark:text-gray-400 text-sm">
-                  ({liveGoogleTotal.toLocaleString()} Google reviews)
+              {rating.confidence < 0.5 && (
+                <span className="text-xs text-gray-400 dark:text-gray-500 italic">
+                  few ratings so far
                 </span>
               )}
             </>
-          ) : (
-            // Static fallback while Google data is loading
-            <>
-              <div className="flex items-center gap-1">
-                <Star className="w-5 h-5 fill-green-500 dark:fill-green-400 text-green-500 dark:text-green-400" />
-                <span className="text-gray-900 dark:text-white font-semibold">
-                  {business.rating}
-                </span>
-              </div>
-              <span className="text-gray-500 dark:text-gray-400">
-                ({business.reviewCount} reviews)
-              </span>
-            </>
           )}
         </div>
 
@@ -161,17 +169,19 @@ export function BusinessDetail({
               </span>
             </div>
           </div>
-          <div className="flex items-start gap-3">
-            <Phone className="w-5 h-5 text-green-600 dark:text-green-400 shrink-0 mt-0.5" />
-            <div className="flex-1">
-              <div className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">
-                Phone
+          {business.phone && (
+            <div className="flex items-start gap-3">
+              <Phone className="w-5 h-5 text-green-600 dark:text-green-400 shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <div className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">
+                  Phone
+                </div>
+                <span className="text-gray-700 dark:text-gray-300 text-sm">
+                  {business.phone}
+                </span>
               </div>
-              <span className="text-gray-700 dark:text-gray-300 text-sm">
-                {business.phone}
-              </span>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Action buttons */}
@@ -215,8 +225,13 @@ export function BusinessDetail({
         {/* Deals section */}
         <div className="mt-6 border-t border-gray-100 dark:border-gray-700 pt-5">
           <DealsSection businessId={business.id} />
+          <div className="mt-4">
+            <ClaimBusiness key={business.id} businessId={business.id} />
+          </div>
         </div>
 
+        <BusinessReviewPhotos businessId={business.id} />
+
         {/* Reviews section */}
         <div className="mt-6 border-t border-gray-100 dark:border-gray-700 pt-5">
           <ReviewsSection
@@ -224,8 +239,8 @@ export function BusinessDetail({
             businessName={business.name}
             lat={business.lat}
             lng={business.lng}
-            rating={business.rating}
-            onGoogleData={handleGoogleData}
+            rating={rating.external.rating ?? undefined}
+            onRatingChange={setRating}
           />
         </div>
       </div>
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Store, CheckCircle, AlertCircle } from "lucide-react";
+import { useAuth } from "@/App";
+import { Button } from "@/components/ui/button";
+import { submitBusinessClaim } from "@/lib/businessOwnerApi";
+
+interface ClaimBusinessProps {
+  businessId: string;
+}
+
+/**
+ * "Own this business?" prompt on a listing. Submits an ownership claim that
+ * an admin verifies before the user can manage the listing's deals.
+ */
+export function ClaimBusiness({ businessId }: ClaimBusinessProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [message, setMessage] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only listings in our own catalog can be claimed, not live Google/OSM ones
+  if (!user || user.role === "admin" || /^(gp|osm)-/.test(businessId)) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      await submitBusinessClaim(businessId, message.trim());
+      setSubmitted(true);
+    } catch (err) {
+      setError((err as Error).message || "Failed to submit claim");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+        <CheckCircle className="w-4 h-4" />
+        Claim submitted – we'll let you know once it's verified.
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 hover:text-cherry-rose"
+      >
+        <Store className="w-4 h-4" />
+        Own this business? Claim it to manage its deals
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        How are you connected to this business?
+      </label>
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder="e.g. I'm the owner – reach me at the phone number listed"
+        rows={3}
+        maxLength={1000}
+        className="w-full px-3 py-2 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+      />
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {error}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          size="sm"
+          disabled={submitting || !message.trim()}
+          className="bg-cherry-rose hover:bg-green-600 text-white"
+        >
+          {submitting ? "Submitting..." : "Submit claim"}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => setOpen(false)}
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState, useEffect } from "react";
+import { BarChart3, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  getCouponAnalytics,
+  type AnalyticsBucket,
+  type CouponAnalytics as CouponAnalyticsData,
+  type CouponFunnel,
+} from "@/lib/couponApi";
+
+interface CouponAnalyticsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RANGES: {
+  label: string;
+  days: number;
+  bucket: AnalyticsBucket;
+}[] = [
+  { label: "24h", days: 1, bucket: "hour" },
+  { label: "7d", days: 7, bucket: "day" },
+  { label: "30d", days: 30, bucket: "day" },
+  { label: "6m", days: 182, bucket: "week" },
+];
+
+const SERIES = [
+  { key: "views", label: "Views", color: "#60a5fa" },
+  { key: "copies", label: "Copies", color: "#facc15" },
+  { key: "redemptions", label: "Redemptions", color: "#4ade80" },
+] as const;
+
+const CHART_HEIGHT = 160;
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "–" : `${(rate * 100).toFixed(1)}%`;
+}
+
+function FunnelCells({ funnel }: { funnel: CouponFunnel }) {
+  return (
+    <>
+      <td className="py-2 text-right">{funnel.views}</td>
+      <td className="py-2 text-right">{funnel.copies}</td>
+      <td className="py-2 text-right">{funnel.redemptions}</td>
+      <td className="py-2 text-right">{formatRate(funnel.copyRate)}</td>
+      <td className="py-2 text-right">{formatRate(funnel.redemptionRate)}</td>
+    </>
+  );
+}
+
+const FUNNEL_HEADERS = ["Views", "Copies", "Redeemed", "Copy %", "Redeem %"];
+
+/**
+ * Views, code copies and redemptions over time with per-coupon and
+ * per-business conversion. Admins see every business; owners their own.
+ */
+export function CouponAnalytics({ isOpen, onClose }: CouponAnalyticsProps) {
+  const [rangeIndex, setRangeIndex] = useState(2);
+  const [data, setData] = useState<CouponAnalyticsData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const range = RANGES[rangeIndex];
+    setLoading(true);
+    setError("");
+    getCouponAnalytics({
+      from: new Date(
+        Date.now() - range.days * 24 * 60 * 60 * 1000,
+      ).toISOString(),
+      bucket: range.bucket,
+    })
+      .then(setData)
+      .catch((err) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [isOpen, rangeIndex]);
+
+  if (!isOpen) return null;
+
+  const series = data?.series ?? [];
+  const max = Math.max(
+    1,
+    ...series.flatMap((p) => [p.views, p.copies, p.redemptions]),
+  );
+  const slot = series.length > 0 ? 100 / series.length : 100;
+  const barWidth = slot / (SERIES.length + 1);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <BarChart3 className="w-6 h-6 text-green-600 dark:text-green-400" />
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Coupon Analytics
+              </h2>
+            </div>
+            <div className="flex items-center gap-2">
+              {RANGES.map((range, i) => (
+                <Button
+                  key={range.label}
+                  size="sm"
+                  variant={i === rangeIndex ? "default" : "outline"}
+                  onClick={() => setRangeIndex(i)}
+                >
+                  {range.label}
+                </Button>
+              ))}
+              <Button variant="ghost" onClick={onClose}>
+                ✕
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 min-h-0 space-y-6 text-gray-900 dark:text-white">
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {loading && !data ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-400"></div>
+            </div>
+          ) : (
+            data && (
+              <>
+                {/* Headline funnel */}
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  {[
+                    ["Views", data.totals.views],
+                    ["Copies", data.totals.copies],
+                    ["Redemptions", data.totals.redemptions],
+                    ["Copy rate", formatRate(data.totals.copyRate)],
+                    ["Redeem rate", formatRate(data.totals.redemptionRate)],
+                  ].map(([label, value]) => (
+                    <div
+                      key={label}
+                      className="p-3 bg-gray-100 dark:bg-gray-700 rounded-lg"
+                    >
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {label}
+                      </div>
+                      <div className="text-lg font-semibold">{value}</div>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Time series */}
+                <div>
+                  <div className="flex items-center gap-4 mb-2 text-xs">
+                    {SERIES.map((s) => (
+                      <span key={s.key} className="flex items-center gap-1">
+                        <span
+                          className="inline-block w-3 h-3 rounded-sm"
+                          style={{ backgroundColor: s.color }}
+                        />
+                        {s.label}
+                      </span>
+                    ))}
+                  </div>
+                  <svg
+                    viewBox={`0 0 100 ${CHART_HEIGHT}`}
+                    preserveAspectRatio="none"
+                    className="w-full h-40 bg-gray-50 dark:bg-gray-900 rounded-lg"
+                  >
+                    {series.map((point, i) =>
+                      SERIES.map((s, j) => {
+                        const h = (point[s.key] / max) * (CHART_HEIGHT - 4);
+                        return (
+                          <rect
+                            key={`${point.bucket}-${s.key}`}
+                            x={i * slot + (j + 0.5) * barWidth}
+                            y={CHART_HEIGHT - h}
+                            width={barWidth}
+                            height={h}
+                            fill={s.color}
+                          >
+                            <title>
+                              {point.bucket}: {point[s.key]} {s.label}
+                            </title>
+                          </rect>
+                        );
+                      }),
+                    )}
+                  </svg>
+                  <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    <span>{series[0]?.bucket}</span>
+                    <span>{series[series.length - 1]?.bucket}</span>
+                  </div>
+                </div>
+
+                {/* Breakdowns */}
+                {[
+                  {
+                    title: "By business",
+                    rows: data.businesses.map((b) => ({
+                      key: b.businessId,
+                      name: b.businessName ?? b.businessId,
+                      funnel: b,
+                    })),
+                  },
+                  {
+                    title: "By coupon",
+                    rows: data.coupons.map((c) => ({
+                      key: c.couponId,
+                      name: `${c.title} (${c.couponCode})`,
+                      funnel: c,
+                    })),
+                  },
+                ].map((table) => (
+                  <div key={table.title}>
+                    <h3 className="font-semibold mb-2">{table.title}</h3>
+                    {table.rows.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        No activity in this period.
+                      </p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                            <th className="py-2 text-left font-medium">Name</th>
+                            {FUNNEL_HEADERS.map((h) => (
+                              <th
+                                key={h}
+                                className="py-2 text-right font-medium"
+                              >
+                                {h}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {table.rows.map((row) => (
+                            <tr
+                              key={row.key}
+                              className="border-b border-gray-100 dark:border-gray-700/50"
+                            >
+                              <td className="py-2 pr-4">{row.name}</td>
+                              <FunnelCells funnel={row.funnel} />
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                ))}
+              </>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
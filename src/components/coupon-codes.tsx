@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Ticket, Download, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toCsv } from "@/lib/csv";
+import {
+  generateCouponCodes,
+  getCouponCodes,
+  type Coupon,
+} from "@/lib/couponApi";
+
+interface CouponCodesProps {
+  coupon: Coupon | null;
+  onClose: () => void;
+  /** Called with the coupon's updated code counts */
+  onGenerated: (coupon: Coupon) => void;
+}
+
+/**
+ * Generate and download batches of single-use codes for one coupon, e.g. to
+ * print on flyers.
+ */
+export function CouponCodes({
+  coupon,
+  onClose,
+  onGenerated,
+}: CouponCodesProps) {
+  const [count, setCount] = useState(100);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!coupon) return null;
+
+  const download = async () => {
+    try {
+      setLoading(true);
+      setError("");
+      const codes = await getCouponCodes(coupon.id);
+      const blob = new Blob([toCsv(["code", "usedAt"], codes)], {
+        type: "text/csv",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${coupon.couponCode.toLowerCase()}-codes.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError((err as Error).message || "Failed to download codes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const generate = async () => {
+    try {
+      setLoading(true);
+      setError("");
+      const result = await generateCouponCodes(coupon.id, count);
+      onGenerated(result.coupon);
+    } catch (err) {
+      setError((err as Error).message || "Failed to generate codes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setError("");
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl w-full max-w-md p-6 space-y-4 text-gray-900 dark:text-white">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Ticket className="w-6 h-6 text-green-600 dark:text-green-400" />
+            <h2 className="text-xl font-bold">Single-use Codes</h2>
+          </div>
+          <Button variant="ghost" onClick={handleClose}>
+            ✕
+          </Button>
+        </div>
+
+        <div>
+          <div className="font-semibold">{coupon.title}</div>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {coupon.codesIssued} issued · {coupon.codesUsed} used
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Each code redeems once. Once any are issued, the shared code{" "}
+          <code className="font-mono">{coupon.couponCode}</code> no longer
+          works on its own.
+        </p>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor="codeCount">Codes to generate</Label>
+            <Input
+              id="codeCount"
+              type="number"
+              min="1"
+              max="5000"
+              value={count}
+              onChange={(e) => setCount(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <Button
+            onClick={generate}
+            disabled={loading || count < 1}
+            className="bg-cherry-rose hover:bg-green-600 text-white"
+          >
+            {loading ? "Working..." : "Generate"}
+          </Button>
+        </div>
+
+        {coupon.codesIssued > 0 && (
+          <Button
+            variant="outline"
+            onClick={download}
+            disabled={loading}
+            className="w-full"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download codes (CSV)
+          </Button>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400 text-sm">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
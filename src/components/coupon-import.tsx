@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { Upload, AlertCircle, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { importCouponsCsv, type CouponImportResult } from "@/lib/couponApi";
+
+interface CouponImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const REQUIRED_COLUMNS =
+  "businessId, title, description, discountType, discountValue, couponCode, startDate, endDate";
+const OPTIONAL_COLUMNS =
+  "discountDetails (JSON), schedule (JSON), usageLimit, perUserLimit, isPremiumOnly";
+
+/**
+ * Bulk-create coupons from a CSV file. The file is checked with a dry run
+ * first; the import itself is all-or-nothing.
+ */
+export function CouponImport({
+  isOpen,
+  onClose,
+  onImported,
+}: CouponImportProps) {
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [result, setResult] = useState<CouponImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!isOpen) return null;
+
+  const handleFile = async (file: File | undefined) => {
+    setResult(null);
+    setError("");
+    setFileName(file?.name ?? "");
+    setCsv(file ? await file.text() : "");
+  };
+
+  const run = async (dryRun: boolean) => {
+    try {
+      setLoading(true);
+      setError("");
+      const res = await importCouponsCsv(csv, dryRun);
+      setResult(res);
+      if (!dryRun && res.imported > 0) onImported();
+    } catch (err) {
+      setError((err as Error).message || "Failed to import coupons");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFileName("");
+    setCsv("");
+    setResult(null);
+    setError("");
+    onClose();
+  };
+
+  const validated = result?.dryRun && result.errors.length === 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Upload className="w-6 h-6 text-green-600 dark:text-green-400" />
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Import Coupons
+              </h2>
+            </div>
+            <Button variant="ghost" onClick={handleClose}>
+              ✕
+            </Button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 min-h-0 space-y-4 text-gray-900 dark:text-white">
+          <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+            <p>
+              <strong>Required columns:</strong> {REQUIRED_COLUMNS}
+            </p>
+            <p>
+              <strong>Optional:</strong> {OPTIONAL_COLUMNS}
+            </p>
+            <p>An export from Coupon Management can be edited and imported.</p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="cursor-pointer">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <span className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+                Choose CSV file
+              </span>
+            </label>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {fileName || "No file selected"}
+            </span>
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={() => run(true)}
+              disabled={loading || !csv}
+            >
+              {loading && !validated ? "Checking..." : "Validate"}
+            </Button>
+            <Button
+              onClick={() => run(false)}
+              disabled={loading || !validated}
+              className="bg-cherry-rose hover:bg-green-600 text-white"
+            >
+              {loading && validated
+                ? "Importing..."
+                : `Import ${validated ? result.valid : ""} coupons`}
+            </Button>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {result && result.errors.length === 0 && (
+            <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-700 dark:text-green-400">
+              <CheckCircle className="w-4 h-4 shrink-0" />
+              {result.dryRun
+                ? `All ${result.total} rows are valid – ready to import.`
+                : `Imported ${result.imported} coupons.`}
+            </div>
+          )}
+
+          {result && result.errors.length > 0 && (
+            <div>
+              <p className="text-sm text-red-600 dark:text-red-400 mb-2">
+                {result.errors.length} of {result.total} rows have errors. Fix
+                them and validate again.
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 text-left font-medium">Row</th>
+                    <th className="py-2 text-left font-medium">Code</th>
+                    <th className="py-2 text-left font-medium">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.errors.map((e) => (
+                    <tr
+                      key={e.row}
+                      className="border-b border-gray-100 dark:border-gray-700/50"
+                    >
+                      <td className="py-2 pr-4">{e.row}</td>
+                      <td className="py-2 pr-4 font-mono">
+                        {e.couponCode ?? "–"}
+                      </td>
+                      <td className="py-2">{e.error}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,38 @@
 import { useState, useEffect, useRef } from "react";
+import { useAuth } from "@/App";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { businesses as staticBusinesses } from "@/lib/businesses";
 import type { Business } from "@/lib/businesses";
+import { fetchCatalogBusinesses } from "@/lib/api";
+import { getOwnedBusinesses } from "@/lib/businessOwnerApi";
+import { CouponAnalytics } from "@/components/coupon-analytics";
+import { CouponImport } from "@/components/coupon-import";
+import { CouponCodes } from "@/components/coupon-codes";
 import {
   getAllCoupons,
+  getOwnerCoupons,
+  exportCouponsCsv,
   createCoupon,
   updateCoupon,
   deleteCoupon,
   formatDiscount,
+  formatSchedule,
   isCouponValid,
   isExpiringSoon,
   type Coupon,
+  type CouponSchedule,
   type CreateCouponData,
+  type DiscountDetails,
+  type DiscountType,
+  type ScheduleWindow,
 } from "@/lib/couponApi";
+import type {
+  BogoDetails,
+  FreeItemDetails,
+  MinSpendDetails,
+  TieredDetails,
+} from "@/lib/discounts";
 import {
   Tag,
   Plus,
@@ -24,8 +42,378 @@ import {
   AlertCircle,
   Search,
   X,
+  BarChart3,
+  Download,
+  Upload,
+  Ticket,
 } from "lucide-react";
 
+const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  percentage: "Percentage (%)",
+  fixed: "Fixed Amount ($)",
+  bogo: "Buy X, Get Y",
+  free_item: "Free Item",
+  min_spend: "Amount Off a Minimum Spend",
+  tiered: "Tiered Percentage",
+};
+
+// Tiered discounts derive their value from the tiers, so have no label
+const DISCOUNT_VALUE_LABELS: Record<DiscountType, string | null> = {
+  percentage: "Discount Value * (%)",
+  fixed: "Discount Value * ($)",
+  bogo: "Discount on the Free Items * (%, 100 = free)",
+  free_item: "Item Value * ($)",
+  min_spend: "Amount Off * ($)",
+  tiered: null,
+};
+
+const DEFAULT_DETAILS: Record<DiscountType, DiscountDetails | null> = {
+  percentage: null,
+  fixed: null,
+  bogo: { buyQuantity: 1, getQuantity: 1 },
+  free_item: { item: "" },
+  min_spend: { minSpend: 25 },
+  tiered: {
+    tiers: [
+      { minSpend: 25, percentOff: 10 },
+      { minSpend: 50, percentOff: 20 },
+    ],
+  },
+};
+
+/** Extra inputs for the structured discount types. */
+function DiscountDetailsFields({
+  type,
+  details,
+  onChange,
+}: {
+  type: DiscountType;
+  details: DiscountDetails | null | undefined;
+  onChange: (details: DiscountDetails) => void;
+}) {
+  const d = (details ?? {}) as Partial<
+    BogoDetails & FreeItemDetails & MinSpendDetails & TieredDetails
+  >;
+  const num = (value: string) => parseFloat(value) || 0;
+
+  switch (type) {
+    case "bogo":
+      return (
+        <div className="col-span-2 grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="buyQuantity">Buy *</Label>
+            <Input
+              id="buyQuantity"
+              type="number"
+              min="1"
+              step="1"
+              value={d.buyQuantity ?? 1}
+              onChange={(e) =>
+                onChange({
+                  ...d,
+                  buyQuantity: num(e.target.value),
+                } as BogoDetails)
+              }
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="getQuantity">Get *</Label>
+            <Input
+              id="getQuantity"
+              type="number"
+              min="1"
+              step="1"
+              value={d.getQuantity ?? 1}
+              onChange={(e) =>
+                onChange({
+                  ...d,
+                  getQuantity: num(e.target.value),
+                } as BogoDetails)
+              }
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="bogoItem">Item (optional)</Label>
+            <Input
+              id="bogoItem"
+              value={d.item ?? ""}
+              onChange={(e) =>
+                onChange({ ...d, item: e.target.value } as BogoDetails)
+              }
+              placeholder="e.g., footlong subs"
+            />
+          </div>
+        </div>
+      );
+
+    case "free_item":
+      return (
+        <div className="col-span-2 grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="freeItem">Free Item *</Label>
+            <Input
+              id="freeItem"
+              value={d.item ?? ""}
+              onChange={(e) =>
+                onChange({ ...d, item: e.target.value } as FreeItemDetails)
+              }
+              placeholder="e.g., dessert"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="freeItemMinSpend">Minimum Spend (optional, $)</Label>
+            <Input
+              id="freeItemMinSpend"
+              type="number"
+              min="0"
+              step="0.01"
+              value={d.minSpend ?? ""}
+              onChange={(e) =>
+                onChange({
+                  item: d.item ?? "",
+                  ...(e.target.value ? { minSpend: num(e.target.value) } : {}),
+                })
+              }
+            />
+          </div>
+        </div>
+      );
+
+    case "min_spend":
+      return (
+        <div className="col-span-2">
+          <Label htmlFor="minSpend">Minimum Spend * ($)</Label>
+          <Input
+            id="minSpend"
+            type="number"
+            min="0"
+            step="0.01"
+            value={d.minSpend ?? 0}
+            onChange={(e) => onChange({ minSpend: num(e.target.value) })}
+            required
+          />
+        </div>
+      );
+
+    case "tiered": {
+      const tiers = d.tiers ?? [];
+      const setTier = (i: number, key: "minSpend" | "percentOff", v: string) =>
+        onChange({
+          tiers: tiers.map((t, j) => (j === i ? { ...t, [key]: num(v) } : t)),
+        });
+      return (
+        <div className="col-span-2 space-y-2">
+          <Label>Tiers * (spend at least → percent off)</Label>
+          {tiers.map((tier, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={tier.minSpend}
+                onChange={(e) => setTier(i, "minSpend", e.target.value)}
+                aria-label={`Tier ${i + 1} minimum spend`}
+              />
+              <span className="text-gray-500">→</span>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                value={tier.percentOff}
+                onChange={(e) => setTier(i, "percentOff", e.target.value)}
+                aria-label={`Tier ${i + 1} percent off`}
+              />
+              <span className="text-gray-500">%</span>
+              {tiers.length > 2 && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    onChange({ tiers: tiers.filter((_, j) => j !== i) })
+                  }
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {tiers.length < 5 && (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                onChange({
+                  tiers: [...tiers, { minSpend: 0, percentOff: 0 }],
+                })
+              }
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add tier
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Monday-first, as the schedule editor shows them
+const WEEKDAY_OPTIONS = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+const DEFAULT_WINDOW: ScheduleWindow = {
+  days: [1, 2, 3, 4, 5],
+  start: "15:00",
+  end: "18:00",
+};
+
+/**
+ * Optional recurring hours (e.g. happy hour). Times are the business's local
+ * time, so the zone defaults to the browser's – the owner is usually there.
+ */
+function ScheduleFields({
+  schedule,
+  onChange,
+}: {
+  schedule: CouponSchedule | null | undefined;
+  onChange: (schedule: CouponSchedule | null) => void;
+}) {
+  const setWindow = (i: number, window: ScheduleWindow) =>
+    schedule &&
+    onChange({
+      ...schedule,
+      windows: schedule.windows.map((w, j) => (j === i ? window : w)),
+    });
+
+  return (
+    <div className="col-span-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="hasSchedule"
+          checked={!!schedule}
+          onChange={(e) =>
+            onChange(
+              e.target.checked
+                ? {
+                    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                    windows: [DEFAULT_WINDOW],
+                  }
+                : null,
+            )
+          }
+          className="w-4 h-4 rounded border-gray-300 dark:border-gray-600 text-cherry-rose focus:ring-cherry-rose"
+        />
+        <Label htmlFor="hasSchedule" className="cursor-pointer">
+          Only at certain times (e.g. happy hour)
+        </Label>
+      </div>
+
+      {schedule && (
+        <>
+          {schedule.windows.map((window, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2">
+              {WEEKDAY_OPTIONS.map(({ day, label }) => {
+                const on = window.days.includes(day);
+                return (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={on ? "default" : "outline"}
+                    onClick={() =>
+                      setWindow(i, {
+                        ...window,
+                        days: on
+                          ? window.days.filter((d) => d !== day)
+                          : [...window.days, day],
+                      })
+                    }
+                  >
+                    {label}
+                  </Button>
+                );
+              })}
+              <Input
+                type="time"
+                value={window.start}
+                onChange={(e) =>
+                  setWindow(i, { ...window, start: e.target.value })
+                }
+                aria-label={`Window ${i + 1} start`}
+                className="w-32"
+                required
+              />
+              <span className="text-gray-500">–</span>
+              <Input
+                type="time"
+                value={window.end}
+                onChange={(e) =>
+                  setWindow(i, { ...window, end: e.target.value })
+                }
+                aria-label={`Window ${i + 1} end`}
+                className="w-32"
+                required
+              />
+              {schedule.windows.length > 1 && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    onChange({
+                      ...schedule,
+                      windows: schedule.windows.filter((_, j) => j !== i),
+                    })
+                  }
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-4">
+            {schedule.windows.length < 7 && (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  onChange({
+                    ...schedule,
+                    windows: [...schedule.windows, DEFAULT_WINDOW],
+                  })
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add time window
+              </Button>
+            )}
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              Times in {schedule.timeZone}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 interface CouponManagementProps {
   isOpen: boolean;
   onClose: () => void;
@@ -37,11 +425,17 @@ export function CouponManagement({
   onClose,
   businesses = [],
 }: CouponManagementProps) {
+  const { user } = useAuth();
+  // Business owners only see and manage the listings they own
+  const isOwner = user?.role === "business_owner";
   const [coupons, setCoupons] = useState<Coupon[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [showForm, setShowForm] = useState(false);
   const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [codesCoupon, setCodesCoupon] = useState<Coupon | null>(null);
 
   // Filter bar – independent business selection (for listing coupons)
   const [filterBusinessId, setFilterBusinessId] = useState("");
@@ -57,8 +451,19 @@ export function CouponManagement({
   const [formBusinessName, setFormBusinessName] = useState("");
   const formRef = useRef<HTMLDivElement>(null);
 
-  // Derive filtered lists synchronously from the businesses prop
-  const filterResults = businesses.filter(
+  // Server catalog, so coupons can target businesses outside the nearby list
+  const [catalogBusinesses, setCatalogBusinesses] = useState<Business[]>([]);
+  const selectableBusinesses = isOwner
+    ? catalogBusinesses
+    : [
+        ...businesses,
+        ...catalogBusinesses.filter(
+          (c) => !businesses.some((b) => b.id === c.id),
+        ),
+      ];
+
+  // Derive filtered lists synchronously from the businesses prop + catalog
+  const filterResults = selectableBusinesses.filter(
     (b) =>
       !filterQuery.trim() ||
       b.name.toLowerCase().includes(filterQuery.trim().toLowerCase()) ||
@@ -67,7 +472,7 @@ export function CouponManagement({
         .includes(filterQuery.trim().toLowerCase()),
   );
 
-  const formBusinessResults = businesses.filter(
+  const formBusinessResults = selectableBusinesses.filter(
     (b) =>
       !formBusinessQuery.trim() ||
       b.name.toLowerCase().includes(formBusinessQuery.trim().toLowerCase()) ||
@@ -76,11 +481,9 @@ export function CouponManagement({
         .includes(formBusinessQuery.trim().toLowerCase()),
   );
 
-  // Name lookup for coupon list: passed businesses first, then static fallback
+  // Name lookup for coupon list: passed businesses first, then the catalog
   const getBusinessName = (id: string) =>
-    businesses.find((b) => b.id === id)?.name ||
-    staticBusinesses.find((b) => b.id === id)?.name ||
-    id;
+    selectableBusinesses.find((b) => b.id === id)?.name || id;
 
   // Form state
   const [formData, setFormData] = useState<CreateCouponData>({
@@ -94,6 +497,7 @@ export function CouponManagement({
       .toISOString()
       .split("T")[0],
     usageLimit: undefined,
+    perUserLimit: 1,
     isPremiumOnly: false,
   });
 
@@ -103,6 +507,19 @@ export function CouponManagement({
     }
   }, [isOpen, filterBusinessId]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    if (isOwner) {
+      getOwnedBusinesses()
+        .then(setCatalogBusinesses)
+        .catch((err) => setError(err.message));
+      return;
+    }
+    fetchCatalogBusinesses({ limit: 200 })
+      .then(({ businesses }) => setCatalogBusinesses(businesses))
+      .catch(() => {}); // names fall back to IDs
+  }, [isOpen, isOwner]);
+
   // Clear search state when modal closes
   useEffect(() => {
     if (!isOpen) {
@@ -169,7 +586,9 @@ export function CouponManagement({
     try {
       setLoading(true);
       setError("");
-      const data = await getAllCoupons(filterBusinessId || undefined);
+      const data = await (isOwner ? getOwnerCoupons : getAllCoupons)(
+        filterBusinessId || undefined,
+      );
       setCoupons(data);
     } catch (err: any) {
       setError(err.message || "Failed to fetch coupons");
@@ -216,15 +635,33 @@ export function CouponManagement({
       description: coupon.description,
       discountType: coupon.discountType,
       discountValue: coupon.discountValue,
+      discountDetails: coupon.discountDetails,
       couponCode: coupon.couponCode,
       startDate: coupon.startDate.split("T")[0],
       endDate: coupon.endDate.split("T")[0],
+      schedule: coupon.schedule,
       usageLimit: coupon.usageLimit ?? undefined,
+      perUserLimit: coupon.perUserLimit,
       isPremiumOnly: coupon.isPremiumOnly,
     });
     setShowForm(true);
   };
 
+  const handleExport = async () => {
+    try {
+      setError("");
+      const blob = await exportCouponsCsv(filterBusinessId || undefined);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `coupons-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError((err as Error).message || "Failed to export coupons");
+    }
+  };
+
   const handleDelete = async (couponId: string) => {
     if (!confirm("Are you sure you want to delete this coupon?")) return;
 
@@ -269,6 +706,7 @@ export function CouponManagement({
         .toISOString()
         .split("T")[0],
       usageLimit: undefined,
+      perUserLimit: 1,
       isPremiumOnly: false,
     });
   };
@@ -288,6 +726,27 @@ export function CouponManagement({
               </h2>
             </div>
             <div className="flex items-center gap-2">
+              {isOwner && (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowAnalytics(true)}
+                >
+                  <BarChart3 className="w-4 h-4 mr-2" />
+                  Analytics
+                </Button>
+              )}
+              {!isOwner && (
+                <>
+                  <Button variant="outline" onClick={handleExport}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Export CSV
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowImport(true)}>
+                    <Upload className="w-4 h-4 mr-2" />
+                    Import CSV
+                  </Button>
+                </>
+              )}
               {!showForm && (
                 <Button
                   onClick={() => {
@@ -505,42 +964,65 @@ export function CouponManagement({
                   <select
                     id="discountType"
                     value={formData.discountType}
-                    onChange={(e) =>
+                    onChange={(e) => {
+                      const discountType = e.target.value as DiscountType;
                       setFormData({
                         ...formData,
-                        discountType: e.target.value as "percentage" | "fixed",
-                      })
-                    }
+                        discountType,
+                        discountDetails: DEFAULT_DETAILS[discountType],
+                        discountValue:
+                          discountType === "bogo"
+                            ? 100
+                            : formData.discountValue,
+                      });
+                    }}
                     className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
                   >
-                    <option value="percentage">Percentage (%)</option>
-                    <option value="fixed">Fixed Amount ($)</option>
+                    {Object.entries(DISCOUNT_TYPE_LABELS).map(
+                      ([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ),
+                    )}
                   </select>
                 </div>
 
-                <div>
-                  <Label htmlFor="discountValue">
-                    Discount Value * (
-                    {formData.discountType === "percentage" ? "%" : "$"})
-                  </Label>
-                  <Input
-                    id="discountValue"
-                    type="number"
-                    min="0"
-                    max={
-                      formData.discountType === "percentage" ? "100" : undefined
-                    }
-                    step="0.01"
-                    value={formData.discountValue}
-                    onChange={(e) =>
-                      setFormData({
-                        ...formData,
-                        discountValue: parseFloat(e.target.value) || 0,
-                      })
-                    }
-                    required
-                  />
-                </div>
+                {DISCOUNT_VALUE_LABELS[formData.discountType] && (
+                  <div>
+                    <Label htmlFor="discountValue">
+                      {DISCOUNT_VALUE_LABELS[formData.discountType]}
+                    </Label>
+                    <Input
+                      id="discountValue"
+                      type="number"
+                      min="0"
+                      max={
+                        formData.discountType === "percentage" ||
+                        formData.discountType === "bogo"
+                          ? "100"
+                          : undefined
+                      }
+                      step="0.01"
+                      value={formData.discountValue}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          discountValue: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                      required
+                    />
+                  </div>
+                )}
+
+                <DiscountDetailsFields
+                  type={formData.discountType}
+                  details={formData.discountDetails}
+                  onChange={(discountDetails) =>
+                    setFormData({ ...formData, discountDetails })
+                  }
+                />
 
                 <div>
                   <Label htmlFor="couponCode">Coupon Code *</Label>
@@ -578,6 +1060,25 @@ export function CouponManagement({
                   />
                 </div>
 
+                <div>
+                  <Label htmlFor="perUserLimit">Uses Per Customer</Label>
+                  <Input
+                    id="perUserLimit"
+                    type="number"
+                    min="1"
+                    value={formData.perUserLimit ?? ""}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        perUserLimit: e.target.value
+                          ? parseInt(e.target.value)
+                          : null,
+                      })
+                    }
+                    placeholder="Unlimited"
+                  />
+                </div>
+
                 <div className="flex items-center gap-3">
                   <input
                     id="isPremiumOnly"
@@ -621,6 +1122,13 @@ export function CouponManagement({
                     required
                   />
                 </div>
+
+                <ScheduleFields
+                  schedule={formData.schedule}
+                  onChange={(schedule) =>
+                    setFormData({ ...formData, schedule })
+                  }
+                />
               </div>
 
               <div className="flex gap-3 pt-4">
@@ -716,6 +1224,18 @@ export function CouponManagement({
                               Expires:{" "}
                               {new Date(coupon.endDate).toLocaleDateString()}
                             </span>
+                            {coupon.schedule && (
+                              <span className="flex items-center gap-1">
+                                <Clock className="w-3 h-3" />
+                                {formatSchedule(coupon)}
+                              </span>
+                            )}
+                            {coupon.codesIssued > 0 && (
+                              <span>
+                                Codes: {coupon.codesUsed} /{" "}
+                                {coupon.codesIssued} used
+                              </span>
+                            )}
                           </div>
                         </div>
 
@@ -733,6 +1253,15 @@ export function CouponManagement({
                           >
                             {coupon.isActive ? "Deactivate" : "Activate"}
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setCodesCoupon(coupon)}
+                            disabled={loading}
+                            title="Single-use codes"
+                          >
+                            <Ticket className="w-4 h-4" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
@@ -760,6 +1289,24 @@ export function CouponManagement({
           )}
         </div>
       </div>
+
+      <CouponAnalytics
+        isOpen={showAnalytics}
+        onClose={() => setShowAnalytics(false)}
+      />
+      <CouponImport
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onImported={fetchCoupons}
+      />
+      <CouponCodes
+        coupon={codesCoupon}
+        onClose={() => setCodesCoupon(null)}
+        onGenerated={(coupon) => {
+          setCodesCoupon(coupon);
+          fetchCoupons();
+        }}
+      />
     </div>
   );
 }
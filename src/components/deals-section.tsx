@@ -1,10 +1,29 @@
-import { useState, useEffect } from "react";
-import { Tag, Copy, Check, Clock, Lock, Crown } from "lucide-react";
-import type { Coupon } from "@/lib/couponApi";
+import { useState, useEffect, useCallback } from "react";
 import {
+  Tag,
+  Copy,
+  Check,
+  Clock,
+  Lock,
+  Crown,
+  History,
+  CheckCircle,
+  QrCode,
+  X,
+} from "lucide-react";
+import type {
+  Coupon,
+  CouponClaim,
+  CouponRedemption,
+} from "@/lib/couponApi";
+import {
+  claimCoupon,
   getBusinessCoupons,
-  redeemCoupon,
+  getMyRedeemedCoupons,
+  trackCouponEvents,
   formatDiscount,
+  formatDiscountTerms,
+  formatSchedule,
   isCouponExpired,
   isCouponValid,
   isExpiringSoon,
@@ -18,6 +37,9 @@ interface DealsSectionProps {
   businessId: string;
 }
 
+// Coupons already counted as viewed this page session
+const viewedCoupons = new Set<string>();
+
 export function DealsSection({ businessId }: DealsSectionProps) {
   const { user } = useAuth();
   const [coupons, setCoupons] = useState<Coupon[]>([]);
@@ -26,10 +48,53 @@ export function DealsSection({ businessId }: DealsSectionProps) {
   const [redeemingCode, setRedeemingCode] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+  const [redemptions, setRedemptions] = useState<CouponRedemption[]>([]);
+  const [view, setView] = useState<"available" | "redeemed">("available");
+  const [activeClaim, setActiveClaim] = useState<CouponClaim | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  // Single-use codes typed in for campaigns that issue them, by coupon ID
+  const [enteredCodes, setEnteredCodes] = useState<Record<string, string>>(
+    {},
+  );
 
   useEffect(() => {
     loadCoupons();
-  }, [businessId]);
+  }, [businessId, user?.isPremium]);
+
+  const userId = user?.id;
+  const loadRedemptions = useCallback(async () => {
+    if (!userId) {
+      setRedemptions([]);
+      return;
+    }
+    try {
+      setRedemptions(await getMyRedeemedCoupons(businessId));
+    } catch (err) {
+      console.error("Failed to load redeemed coupons:", err);
+    }
+  }, [businessId, userId]);
+
+  useEffect(() => {
+    setView("available");
+    loadRedemptions();
+  }, [loadRedemptions]);
+
+  // Count down the QR code's lifetime while it is on screen
+  useEffect(() => {
+    if (!activeClaim) return;
+    const tick = () =>
+      setSecondsLeft(
+        Math.max(
+          0,
+          Math.round(
+            (new Date(activeClaim.expiresAt).getTime() - Date.now()) / 1000,
+          ),
+        ),
+      );
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [activeClaim]);
 
   const loadCoupons = async () => {
     try {
@@ -37,6 +102,12 @@ export function DealsSection({ businessId }: DealsSectionProps) {
       setError(null);
       const data = await getBusinessCoupons(businessId);
       setCoupons(data);
+
+      const unseen = data
+        .map((c) => c.id)
+        .filter((id) => !viewedCoupons.has(id));
+      unseen.forEach((id) => viewedCoupons.add(id));
+      trackCouponEvents(unseen, "view");
     } catch (err) {
       console.error("Failed to load coupons:", err);
       setError("Failed to load deals");
@@ -45,9 +116,11 @@ export function DealsSection({ businessId }: DealsSectionProps) {
     }
   };
 
-  const handleCopyCode = async (code: string) => {
+  const handleCopyCode = async (coupon: Coupon) => {
+    const code = coupon.couponCode;
     try {
       await navigator.clipboard.writeText(code);
+      trackCouponEvents([coupon.id], "copy");
       setCopiedCode(code);
       setTimeout(() => setCopiedCode(null), 2000);
     } catch (err) {
@@ -55,14 +128,17 @@ export function DealsSection({ businessId }: DealsSectionProps) {
     }
   };
 
+  // Redemption happens in store: show a single-use QR code for the
+  // merchant to scan
   const handleRedeem = async (code: string) => {
+    if (!user) {
+      setError("Please sign in to redeem deals");
+      return;
+    }
     try {
       setRedeemingCode(code);
       setError(null);
-      await redeemCoupon(code);
-      // Reload coupons to get updated usage count
-      await loadCoupons();
-      alert("Coupon redeemed successfully! 🎉");
+      setActiveClaim(await claimCoupon(code));
     } catch (err: any) {
       setError(err.message || "Failed to redeem coupon");
     } finally {
@@ -70,6 +146,12 @@ export function DealsSection({ businessId }: DealsSectionProps) {
     }
   };
 
+  const handleCloseClaim = async () => {
+    setActiveClaim(null);
+    // Reload coupons to pick up a redemption the merchant just verified
+    await Promise.all([loadCoupons(), loadRedemptions()]);
+  };
+
   if (loading) {
     return (
       <div className="text-center py-4">
@@ -80,10 +162,13 @@ export function DealsSection({ businessId }: DealsSectionProps) {
     );
   }
 
-  if (coupons.length === 0) {
+  if (coupons.length === 0 && redemptions.length === 0) {
     return null; // Don't show section if no deals
   }
 
+  const redeemedCount = (couponId: string) =>
+    redemptions.filter((r) => r.couponId === couponId).length;
+
   return (
     <div className="space-y-3">
       <div className="flex items-center gap-2">
@@ -94,6 +179,19 @@ export function DealsSection({ businessId }: DealsSectionProps) {
         <span className="px-2 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 text-xs font-medium rounded-full">
           {coupons.length}
         </span>
+        {redemptions.length > 0 && (
+          <button
+            onClick={() =>
+              setView(view === "available" ? "redeemed" : "available")
+            }
+            className="ml-auto flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+          >
+            <History className="w-3.5 h-3.5" />
+            {view === "available"
+              ? `My redeemed (${redemptions.length})`
+              : "Available deals"}
+          </button>
+        )}
       </div>
 
       {error && (
@@ -102,147 +200,271 @@ export function DealsSection({ businessId }: DealsSectionProps) {
         </div>
       )}
 
-      <div className="grid gap-3">
-        {coupons.map((coupon) => {
-          const expired = isCouponExpired(coupon);
-          const valid = isCouponValid(coupon);
-          const expiringSoon = isExpiringSoon(coupon);
-          const usageFull =
-            coupon.usageLimit !== null &&
-            coupon.usageCount >= coupon.usageLimit;
-          const isPremiumLocked = coupon.isPremiumOnly && !user?.isPremium;
-
-          return (
+      {view === "redeemed" ? (
+        <div className="grid gap-2">
+          {redemptions.map((redemption) => (
             <div
-              key={coupon.id}
-              className={`relative p-4 rounded-lg border overflow-hidden ${
-                expired || (usageFull && !isPremiumLocked)
-                  ? "bg-gray-50 dark:bg-gray-900/50 border-gray-200 dark:border-gray-700 opacity-60"
-                  : isPremiumLocked
-                    ? "bg-linear-to-br from-yellow-50 to-orange-50 dark:from-yellow-900/10 dark:to-orange-900/10 border-yellow-200 dark:border-yellow-800/50"
-                    : "bg-linear-to-br from-green-50 to-blue-50 dark:from-green-900/20 dark:to-blue-900/20 border-green-200 dark:border-green-800"
-              }`}
+              key={redemption.id}
+              className="flex items-center gap-3 p-3 rounded-lg border bg-gray-50 dark:bg-gray-900/50 border-gray-200 dark:border-gray-700"
             >
-              <div className="flex items-start justify-between gap-3">
-                <div className="flex-1">
-                  {/* Title and badges */}
-                  <div className="flex items-start gap-2 flex-wrap">
-                    <h4 className="font-semibold text-gray-900 dark:text-white">
-                      {coupon.title}
-                    </h4>
-                    {coupon.isPremiumOnly && (
-                      <span className="px-2 py-0.5 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400 text-xs font-medium rounded-full flex items-center gap-1">
-                        <Crown className="w-3 h-3" />
-                        Premium Only
+              <CheckCircle className="w-5 h-5 shrink-0 text-green-600 dark:text-green-400" />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-900 dark:text-white truncate">
+                  {redemption.coupon.title}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  <code className="font-mono">
+                    {redemption.coupon.couponCode}
+                  </code>{" "}
+                  · Redeemed {formatCouponDate(redemption.redeemedAt)}
+                </div>
+              </div>
+              <span className="px-2 py-0.5 bg-cherry-rose text-white text-xs font-bold rounded-md">
+                {formatDiscount(redemption.coupon)}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          {coupons.map((coupon) => {
+            const expired = isCouponExpired(coupon);
+            const valid = isCouponValid(coupon);
+            const expiringSoon = isExpiringSoon(coupon);
+            const usageFull =
+              coupon.usageLimit !== null &&
+              coupon.usageCount >= coupon.usageLimit;
+            const isPremiumLocked = coupon.isPremiumOnly && !user?.isPremium;
+            const userLimitReached =
+              coupon.perUserLimit !== null &&
+              redeemedCount(coupon.id) >= coupon.perUserLimit;
+            const needsOwnCode = coupon.codesIssued > 0;
+            const redeemCode = needsOwnCode
+              ? (enteredCodes[coupon.id] ?? "").trim()
+              : coupon.couponCode;
+
+            return (
+              <div
+                key={coupon.id}
+                className={`relative p-4 rounded-lg border overflow-hidden ${
+                  expired || (usageFull && !isPremiumLocked)
+                    ? "bg-gray-50 dark:bg-gray-900/50 border-gray-200 dark:border-gray-700 opacity-60"
+                    : isPremiumLocked
+                      ? "bg-linear-to-br from-yellow-50 to-orange-50 dark:from-yellow-900/10 dark:to-orange-900/10 border-yellow-200 dark:border-yellow-800/50"
+                      : "bg-linear-to-br from-green-50 to-blue-50 dark:from-green-900/20 dark:to-blue-900/20 border-green-200 dark:border-green-800"
+                }`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1">
+                    {/* Title and badges */}
+                    <div className="flex items-start gap-2 flex-wrap">
+                      <h4 className="font-semibold text-gray-900 dark:text-white">
+                        {coupon.title}
+                      </h4>
+                      {coupon.isPremiumOnly && (
+                        <span className="px-2 py-0.5 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400 text-xs font-medium rounded-full flex items-center gap-1">
+                          <Crown className="w-3 h-3" />
+                          Premium Only
+                        </span>
+                      )}
+                      {expiringSoon && valid && !isPremiumLocked && (
+                        <span className="px-2 py-0.5 bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 text-xs font-medium rounded-full flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          Limited Time
+                        </span>
+                      )}
+                      {expired && (
+                        <span className="px-2 py-0.5 bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400 text-xs font-medium rounded-full">
+                          Expired
+                        </span>
+                      )}
+                      {usageFull && !expired && (
+                        <span className="px-2 py-0.5 bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400 text-xs font-medium rounded-full">
+                          Sold Out
+                        </span>
+                      )}
+                    </div>
+
+                    {/* Description — blurred for locked */}
+                    <p
+                      className={`text-sm text-gray-600 dark:text-gray-400 mt-1 ${isPremiumLocked ? "blur-sm select-none" : ""}`}
+                    >
+                      {coupon.description}
+                    </p>
+
+                    {/* Discount badge — blurred for locked */}
+                    <div
+                      className={`mt-2 ${isPremiumLocked ? "blur-sm select-none" : ""}`}
+                    >
+                      <span className="inline-block px-3 py-1 bg-cherry-rose text-white font-bold text-lg rounded-md">
+                        {formatDiscount(coupon)}
                       </span>
-                    )}
-                    {expiringSoon && valid && !isPremiumLocked && (
-                      <span className="px-2 py-0.5 bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 text-xs font-medium rounded-full flex items-center gap-1">
+                      {formatDiscountTerms(coupon) && (
+                        <div className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+                          {formatDiscountTerms(coupon)}
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Recurring hours, then expiry date */}
+                    {formatSchedule(coupon) && (
+                      <div className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300 mt-2">
                         <Clock className="w-3 h-3" />
-                        Limited Time
-                      </span>
+                        {formatSchedule(coupon)}
+                      </div>
                     )}
-                    {expired && (
-                      <span className="px-2 py-0.5 bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400 text-xs font-medium rounded-full">
-                        Expired
-                      </span>
-                    )}
-                    {usageFull && !expired && (
-                      <span className="px-2 py-0.5 bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400 text-xs font-medium rounded-full">
-                        Sold Out
-                      </span>
-                    )}
-                  </div>
-
-                  {/* Description — blurred for locked */}
-                  <p
-                    className={`text-sm text-gray-600 dark:text-gray-400 mt-1 ${isPremiumLocked ? "blur-sm select-none" : ""}`}
-                  >
-                    {coupon.description}
-                  </p>
-
-                  {/* Discount badge — blurred for locked */}
-                  <div
-                    className={`mt-2 ${isPremiumLocked ? "blur-sm select-none" : ""}`}
-                  >
-                    <span className="inline-block px-3 py-1 bg-cherry-rose text-white font-bold text-lg rounded-md">
-                      {formatDiscount(coupon)}
-                    </span>
-                  </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                      Valid until {formatCouponDate(coupon.endDate)}
+                    </div>
 
-                  {/* Expiry date */}
-                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-                    Valid until {formatCouponDate(coupon.endDate)}
+                    {/* Usage info */}
+                    {coupon.usageLimit !== null && !isPremiumLocked && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {coupon.usageLimit - coupon.usageCount} uses remaining
+                      </div>
+                    )}
                   </div>
+                </div>
 
-                  {/* Usage info */}
-                  {coupon.usageLimit !== null && !isPremiumLocked && (
-                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                      {coupon.usageLimit - coupon.usageCount} uses remaining
+                {/* Action buttons */}
+                <div className="flex gap-2 mt-3">
+                  {/* Coupon code display, or an input for a single-use code */}
+                  {needsOwnCode ? (
+                    <input
+                      value={enteredCodes[coupon.id] ?? ""}
+                      onChange={(e) =>
+                        setEnteredCodes({
+                          ...enteredCodes,
+                          [coupon.id]: e.target.value.toUpperCase(),
+                        })
+                      }
+                      placeholder="Enter your code"
+                      aria-label="Your single-use code"
+                      disabled={expired || !valid || isPremiumLocked}
+                      className="flex-1 min-w-0 px-3 py-2 font-mono text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                    />
+                  ) : (
+                    <div className="flex-1 flex items-center gap-2 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg">
+                      <code
+                        className={`flex-1 font-mono text-sm font-semibold text-gray-900 dark:text-white ${isPremiumLocked ? "blur-sm select-none" : ""}`}
+                      >
+                        {isPremiumLocked
+                          ? coupon.couponCode
+                          : coupon.couponCode}
+                      </code>
+                      <button
+                        onClick={() => handleCopyCode(coupon)}
+                        disabled={expired || !valid || isPremiumLocked}
+                        className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={
+                          isPremiumLocked ? "Premium members only" : "Copy code"
+                        }
+                      >
+                        {isPremiumLocked ? (
+                          <Lock className="w-4 h-4 text-yellow-500" />
+                        ) : copiedCode === coupon.couponCode ? (
+                          <Check className="w-4 h-4 text-green-600 dark:text-green-400" />
+                        ) : (
+                          <Copy className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                        )}
+                      </button>
                     </div>
                   )}
-                </div>
-              </div>
 
-              {/* Action buttons */}
-              <div className="flex gap-2 mt-3">
-                {/* Coupon code display */}
-                <div className="flex-1 flex items-center gap-2 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg">
-                  <code
-                    className={`flex-1 font-mono text-sm font-semibold text-gray-900 dark:text-white ${isPremiumLocked ? "blur-sm select-none" : ""}`}
-                  >
-                    {isPremiumLocked ? coupon.couponCode : coupon.couponCode}
-                  </code>
-                  <button
-                    onClick={() => handleCopyCode(coupon.couponCode)}
-                    disabled={expired || !valid || isPremiumLocked}
-                    className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    title={
-                      isPremiumLocked ? "Premium members only" : "Copy code"
-                    }
-                  >
-                    {isPremiumLocked ? (
-                      <Lock className="w-4 h-4 text-yellow-500" />
-                    ) : copiedCode === coupon.couponCode ? (
-                      <Check className="w-4 h-4 text-green-600 dark:text-green-400" />
-                    ) : (
-                      <Copy className="w-4 h-4 text-gray-600 dark:text-gray-400" />
-                    )}
-                  </button>
+                  {/* Redeem / Upgrade button */}
+                  {isPremiumLocked ? (
+                    <Button
+                      onClick={() => setShowUpgradeModal(true)}
+                      className="bg-linear-to-r from-yellow-400 to-orange-500 hover:from-yellow-500 hover:to-orange-600 text-white font-semibold shadow"
+                    >
+                      <Crown className="w-4 h-4 mr-1" />
+                      Upgrade
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={() => handleRedeem(redeemCode)}
+                      disabled={
+                        expired ||
+                        !valid ||
+                        userLimitReached ||
+                        !redeemCode ||
+                        redeemingCode === redeemCode
+                      }
+                      className="bg-cherry-rose hover:bg-green-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {redeemCode && redeemingCode === redeemCode ? (
+                        "Loading..."
+                      ) : userLimitReached ? (
+                        "Redeemed"
+                      ) : (
+                        <>
+                          <QrCode className="w-4 h-4 mr-1" />
+                          Redeem
+                        </>
+                      )}
+                    </Button>
+                  )}
                 </div>
 
-                {/* Redeem / Upgrade button */}
-                {isPremiumLocked ? (
-                  <Button
-                    onClick={() => setShowUpgradeModal(true)}
-                    className="bg-linear-to-r from-yellow-400 to-orange-500 hover:from-yellow-500 hover:to-orange-600 text-white font-semibold shadow"
-                  >
-                    <Crown className="w-4 h-4 mr-1" />
-                    Upgrade
-                  </Button>
-                ) : (
-                  <Button
-                    onClick={() => handleRedeem(coupon.couponCode)}
-                    disabled={
-                      expired || !valid || redeemingCode === coupon.couponCode
-                    }
-                    className="bg-cherry-rose hover:bg-green-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {redeemingCode === coupon.couponCode
-                      ? "Redeeming..."
-                      : "Redeem"}
-                  </Button>
+                {/* Premium locked overlay banner */}
+                {isPremiumLocked && (
+                  <div className="absolute inset-x-0 bottom-0 h-1 bg-linear-to-r from-yellow-400 to-orange-500" />
                 )}
               </div>
+            );
+          })}
+        </div>
+      )}
 
-              {/* Premium locked overlay banner */}
-              {isPremiumLocked && (
-                <div className="absolute inset-x-0 bottom-0 h-1 bg-linear-to-r from-yellow-400 to-orange-500" />
-              )}
+      {/* In-store QR code */}
+      {activeClaim && (
+        <div
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+          role="dialog"
+          aria-modal="true"
+          aria-label="Redeem in store"
+        >
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl w-full max-w-sm p-6 text-center">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold text-gray-900 dark:text-white">
+                {activeClaim.coupon.title}
+              </h3>
+              <button
+                onClick={handleCloseClaim}
+                className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                aria-label="Close"
+              >
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
             </div>
-          );
-        })}
-      </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Show this code at the counter to redeem{" "}
+              <span className="font-semibold">
+                {formatDiscount(activeClaim.coupon)}
+              </span>
+            </p>
+            <img
+              src={activeClaim.qrCodeDataUrl}
+              alt="Coupon QR code"
+              className={`mx-auto w-56 h-56 rounded-lg bg-white p-2 ${secondsLeft === 0 ? "opacity-20" : ""}`}
+            />
+            {secondsLeft > 0 ? (
+              <p className="mt-3 text-sm text-gray-500 dark:text-gray-400 flex items-center justify-center gap-1">
+                <Clock className="w-4 h-4" />
+                Expires in {Math.floor(secondsLeft / 60)}:
+                {String(secondsLeft % 60).padStart(2, "0")}
+              </p>
+            ) : (
+              <Button
+                onClick={() => handleRedeem(activeClaim.coupon.couponCode)}
+                className="mt-3 bg-cherry-rose hover:bg-green-600 text-white"
+              >
+                Code expired – get a new one
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
 
       {/* Plans modal */}
       <PlansModal
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { StarRating } from "@/components/reviews/star-rating";
+import {
+  REPORT_REASON_LABELS,
+  SPAM_REASON_LABELS,
+  fetchModerationQueue,
+  moderateReview,
+  type ModerationAction,
+  type ModerationItem,
+} from "@/lib/reviewApi";
+import { Ban, Check, EyeOff, Flag, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type QueueStatus = "open" | "hidden";
+
+interface ReviewModerationProps {
+  /** Called after a ban, which changes the author's row in the user list */
+  onAuthorBanned?: () => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Admin queue of reported, spam-flagged and hidden reviews, rendered in
+ * AdminPanel.
+ */
+export function ReviewModeration({
+  onAuthorBanned,
+  onError,
+}: ReviewModerationProps) {
+  const [status, setStatus] = useState<QueueStatus>("open");
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      setItems(await fetchModerationQueue(status));
+    } catch (error) {
+      onError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [status, onError]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const handleAction = async (
+    item: ModerationItem,
+    action: ModerationAction,
+  ) => {
+    if (
+      action === "ban" &&
+      !confirm(
+        `Hide this review and ban "${item.review.userName}" from posting reviews?`,
+      )
+    )
+      return;
+    try {
+      await moderateReview(item.review.id, action);
+      await fetchItems();
+      if (action === "ban") onAuthorBanned?.();
+    } catch (error) {
+      onError((error as Error).message);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-4">
+        {(["open", "hidden"] as const).map((s) => (
+          <button
+            key={s}
+            onClick={() => setStatus(s)}
+            className={cn(
+              "px-3 py-1 rounded-full text-sm",
+              status === s
+                ? "bg-gray-600 text-white"
+                : "text-gray-400 hover:text-white",
+            )}
+          >
+            {s === "open" ? "Reported & flagged" : "Hidden"}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-400"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-gray-400 text-sm">
+          {status === "open"
+            ? "No reported or flagged reviews waiting for moderation."
+            : "No hidden reviews."}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <div key={item.review.id} className="p-4 bg-gray-700 rounded-lg">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-white font-medium">
+                      {item.review.userName}
+                    </p>
+                    <StarRating value={item.review.rating} size="sm" />
+                    {item.authorBanned && (
+                      <span className="text-xs text-red-400">banned</span>
+                    )}
+                    {item.spam?.flagged && (
+                      <span
+                        className="inline-flex items-center gap-1 text-xs text-yellow-400"
+                        title={`Spam score ${item.spam.score.toFixed(2)}`}
+                      >
+                        <Flag className="w-3 h-3" />
+                        auto-flagged
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-gray-400 text-sm">
+                    Business {item.review.businessId} •{" "}
+                    {new Date(item.review.createdAt).toLocaleDateString()}
+                  </p>
+                  <p className="text-gray-300 text-sm mt-1 whitespace-pre-line">
+                    {item.review.text}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {status === "open" ? (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleAction(item, "dismiss")}
+                        className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
+                        title="Keep the review, close its reports and clear any spam flag"
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Dismiss
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleAction(item, "hide")}
+                        className="text-orange-400 hover:text-orange-300 hover:bg-orange-900/20"
+                      >
+                        <EyeOff className="w-4 h-4 mr-1" />
+                        Hide
+                      </Button>
+                      {!item.authorBanned && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleAction(item, "ban")}
+                          className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                          title="Hide the review and ban its author from reviewing"
+                        >
+                          <Ban className="w-4 h-4 mr-1" />
+                          Ban Author
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleAction(item, "restore")}
+                      className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {item.spam && item.spam.reasons.length > 0 && (
+                <p className="mt-2 text-xs text-gray-400">
+                  Spam score {item.spam.score.toFixed(2)}:{" "}
+                  {item.spam.reasons
+                    .map((reason) => SPAM_REASON_LABELS[reason])
+                    .join(", ")}
+                </p>
+              )}
+
+              {item.reports.length > 0 && (
+                <ul className="mt-3 space-y-1 border-t border-gray-600 pt-3">
+                  {item.reports.map((report) => (
+                    <li key={report.id} className="text-sm text-gray-400">
+                      <span className="text-gray-200">
+                        {REPORT_REASON_LABELS[report.reason]}
+                      </span>{" "}
+                      – {report.userName}
+                      {report.details && `: “${report.details}”`}
+                      {report.resolution && (
+                        <span className="text-gray-500">
+                          {" "}
+                          ({report.resolution})
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
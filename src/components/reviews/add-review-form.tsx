@@ -1,31 +1,71 @@
 import { useState, useMemo, useRef } from "react";
 import { Filter } from "bad-words";
+import { ImagePlus, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { submitReview, type ProximitiReview } from "@/lib/reviewApi";
+import {
+  deleteReviewPhoto,
+  photoSrc,
+  submitReview,
+  updateReview,
+  uploadReviewPhoto,
+  type ProximitiReview,
+} from "@/lib/reviewApi";
+import {
+  MAX_REVIEW_PHOTOS,
+  PHOTO_MIME_TYPES,
+  photoUploadError,
+} from "@/lib/photos";
 import { useAuth } from "@/App";
 import { Captcha } from "@/components/ui/captcha";
 
 const profanityFilter = new Filter();
 
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
 interface AddReviewFormProps {
   businessId: string;
   onReviewSubmitted: (review: ProximitiReview) => void;
+  /** The user's existing review, to edit it instead of writing a new one */
+  review?: ProximitiReview;
+  onCancel?: () => void;
 }
 
-/** Form to submit a new Proximiti review. Requires login. */
+/**
+ * Form to submit a new Proximiti review, or edit your own. Requires login.
+ * Edits skip the CAPTCHA – the review already passed one. Photo changes are
+ * held until the review is saved, then uploaded one by one.
+ */
 export function AddReviewForm({
   businessId,
   onReviewSubmitted,
+  review,
+  onCancel,
 }: AddReviewFormProps) {
   const { isAuthenticated } = useAuth();
-  const [rating, setRating] = useState(0);
+  const isEditing = !!review;
+  const [rating, setRating] = useState(review?.rating ?? 0);
   const [hoverRating, setHoverRating] = useState(0);
-  const [text, setText] = useState("");
+  const [text, setText] = useState(review?.text ?? "");
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [captchaVerified, setCaptchaVerified] = useState(false);
   const [captchaReset, setCaptchaReset] = useState(0);
   const captchaResetRef = useRef(0);
+  // Data URLs of photos picked but not yet uploaded
+  const [newPhotos, setNewPhotos] = useState<string[]>([]);
+  const [removedPhotoIds, setRemovedPhotoIds] = useState<string[]>([]);
+
+  const keptPhotos = (review?.photos ?? []).filter(
+    (photo) => !removedPhotoIds.includes(photo.id),
+  );
+  const photoSlots = MAX_REVIEW_PHOTOS - keptPhotos.length - newPhotos.length;
 
   // Real-time profanity detection — mirrors the server-side check
   const hasProfanity = useMemo(() => {
@@ -50,11 +90,39 @@ export function AddReviewForm({
     );
   }
 
+  const handlePhotosPicked = async (files: FileList | null) => {
+    setError(null);
+    const picked = Array.from(files ?? []);
+    if (picked.length > photoSlots) {
+      setError(`You can attach up to ${MAX_REVIEW_PHOTOS} photos.`);
+    }
+    for (const file of picked.slice(0, photoSlots)) {
+      const problem = photoUploadError(file.type, file.size);
+      if (problem) {
+        setError(`${file.name}: ${problem}`);
+        continue;
+      }
+      const dataUrl = await readAsDataUrl(file);
+      setNewPhotos((prev) => [...prev, dataUrl]);
+    }
+  };
+
+  /** Apply pending photo removals and uploads to the saved review. */
+  const savePhotos = async (saved: ProximitiReview) => {
+    for (const photoId of removedPhotoIds) {
+      saved = (await deleteReviewPhoto(saved.id, photoId)).review;
+    }
+    for (const image of newPhotos) {
+      saved = (await uploadReviewPhoto(saved.id, image)).review;
+    }
+    return saved;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
-    if (!captchaVerified) {
+    if (!isEditing && !captchaVerified) {
       setError("Please complete the CAPTCHA.");
       return;
     }
@@ -73,16 +141,31 @@ export function AddReviewForm({
 
     setSubmitting(true);
     try {
-      const { review } = await submitReview(businessId, rating, text.trim());
-      onReviewSubmitted(review);
+      const { review: saved } = review
+        ? await updateReview(review.id, rating, text.trim())
+        : await submitReview(businessId, rating, text.trim());
+      try {
+        onReviewSubmitted(await savePhotos(saved));
+      } catch (err) {
+        // The review itself went through; show it without the failed photo
+        onReviewSubmitted(saved);
+        alert(
+          `Your review was saved, but not all photos were: ${(err as Error).message}`,
+        );
+      }
+      if (review) return;
       setRating(0);
       setText("");
+      setNewPhotos([]);
       // Reset CAPTCHA for the next review
       setCaptchaVerified(false);
       captchaResetRef.current += 1;
       setCaptchaReset(captchaResetRef.current);
     } catch (err: any) {
-      setError(err.message || "Failed to submit review. Please try again.");
+      setError(
+        err.message ||
+          `Failed to ${isEditing ? "update" : "submit"} review. Please try again.`,
+      );
     } finally {
       setSubmitting(false);
     }
@@ -101,7 +184,7 @@ export function AddReviewForm({
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200">
-        Write a Review
+        {isEditing ? "Edit Your Review" : "Write a Review"}
       </h3>
 
       {/* Star picker */}
@@ -169,6 +252,44 @@ export function AddReviewForm({
         )}
       </div>
 
+      {/* Photos */}
+      <div className="flex flex-wrap items-center gap-2">
+        {keptPhotos.map((photo) => (
+          <PhotoPreview
+            key={photo.id}
+            src={photoSrc(photo.thumbnailUrl)}
+            onRemove={() =>
+              setRemovedPhotoIds((prev) => [...prev, photo.id])
+            }
+          />
+        ))}
+        {newPhotos.map((dataUrl, i) => (
+          <PhotoPreview
+            key={i}
+            src={dataUrl}
+            onRemove={() =>
+              setNewPhotos((prev) => prev.filter((_, j) => j !== i))
+            }
+          />
+        ))}
+        {photoSlots > 0 && (
+          <label className="w-16 h-16 flex flex-col items-center justify-center gap-0.5 rounded-md border border-dashed border-gray-300 dark:border-gray-600 text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer">
+            <input
+              type="file"
+              accept={PHOTO_MIME_TYPES.join(",")}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handlePhotosPicked(e.target.files);
+                e.target.value = "";
+              }}
+            />
+            <ImagePlus className="w-5 h-5" />
+            <span className="text-[10px]">Add photo</span>
+          </label>
+        )}
+      </div>
+
       {/* Error message */}
       {error && (
         <p className="text-sm text-red-500 dark:text-red-400 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 px-3 py-2">
@@ -177,21 +298,68 @@ export function AddReviewForm({
       )}
 
       {/* CAPTCHA */}
-      <Captcha onVerified={setCaptchaVerified} reset={captchaReset} />
-
-      <Button
-        type="submit"
-        disabled={
-          submitting ||
-          rating === 0 ||
-          text.trim().length < 10 ||
-          hasProfanity ||
-          !captchaVerified
-        }
-        className="w-full bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
-      >
-        {submitting ? "Submitting…" : "Submit Review"}
-      </Button>
+      {!isEditing && (
+        <Captcha onVerified={setCaptchaVerified} reset={captchaReset} />
+      )}
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={submitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="submit"
+          disabled={
+            submitting ||
+            rating === 0 ||
+            text.trim().length < 10 ||
+            hasProfanity ||
+            (!isEditing && !captchaVerified)
+          }
+          className="flex-1 bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+        >
+          {submitting
+            ? isEditing
+              ? "Saving…"
+              : "Submitting…"
+            : isEditing
+              ? "Save Changes"
+              : "Submit Review"}
+        </Button>
+      </div>
     </form>
   );
 }
+
+function PhotoPreview({
+  src,
+  onRemove,
+}: {
+  src: string;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="relative w-16 h-16">
+      <img
+        src={src}
+        alt=""
+        className="w-full h-full object-cover rounded-md border border-gray-200 dark:border-gray-600"
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute -top-1.5 -right-1.5 rounded-full bg-gray-800 text-white p-0.5 hover:bg-red-600"
+        aria-label="Remove photo"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import {
+  fetchBusinessReviewPhotos,
+  photoSrc,
+  type ReviewPhoto,
+} from "@/lib/reviewApi";
+import { cn } from "@/lib/utils";
+
+interface PhotoGalleryProps {
+  photos: ReviewPhoto[];
+  /** Thumbnail size: "sm" inside a review card, "md" for a business */
+  size?: "sm" | "md";
+  className?: string;
+}
+
+/** Thumbnail strip of review photos; clicking one opens a lightbox. */
+export function PhotoGallery({
+  photos,
+  size = "sm",
+  className,
+}: PhotoGalleryProps) {
+  const [open, setOpen] = useState<number | null>(null);
+
+  // Move the lightbox by `offset` photos, wrapping around
+  const step = useCallback(
+    (offset: number) =>
+      setOpen((i) =>
+        i === null ? i : (i + offset + photos.length) % photos.length,
+      ),
+    [photos.length],
+  );
+
+  useEffect(() => {
+    if (open === null) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(null);
+      if (e.key === "ArrowLeft") step(-1);
+      if (e.key === "ArrowRight") step(1);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open, step]);
+
+  if (photos.length === 0) return null;
+  const current = open === null ? null : photos[open];
+
+  return (
+    <>
+      <div className={cn("flex flex-wrap gap-2", className)}>
+        {photos.map((photo, i) => (
+          <button
+            key={photo.id}
+            type="button"
+            onClick={() => setOpen(i)}
+            className={cn(
+              "overflow-hidden rounded-md border border-gray-200 dark:border-gray-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-green-500",
+              size === "sm" ? "w-16 h-16" : "w-24 h-24",
+            )}
+            aria-label={`View photo ${i + 1} of ${photos.length}`}
+          >
+            <img
+              src={photoSrc(photo.thumbnailUrl)}
+              alt=""
+              loading="lazy"
+              className="w-full h-full object-cover hover:opacity-90"
+            />
+          </button>
+        ))}
+      </div>
+
+      {current && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+          onClick={() => setOpen(null)}
+          role="dialog"
+          aria-modal="true"
+        >
+          <button
+            onClick={() => setOpen(null)}
+            className="absolute top-4 right-4 text-white/80 hover:text-white"
+            aria-label="Close"
+          >
+            <X className="w-6 h-6" />
+          </button>
+          {photos.length > 1 && (
+            <>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  step(-1);
+                }}
+                className="absolute left-4 text-white/80 hover:text-white"
+                aria-label="Previous photo"
+              >
+                <ChevronLeft className="w-8 h-8" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  step(1);
+                }}
+                className="absolute right-4 text-white/80 hover:text-white"
+                aria-label="Next photo"
+              >
+                <ChevronRight className="w-8 h-8" />
+              </button>
+            </>
+          )}
+          <img
+            src={photoSrc(current.url)}
+            alt=""
+            width={current.width}
+            height={current.height}
+            onClick={(e) => e.stopPropagation()}
+            className="max-h-[85vh] max-w-full w-auto h-auto rounded-lg object-contain"
+          />
+        </div>
+      )}
+    </>
+  );
+}
+
+/** "Photos from reviews" for a business; renders nothing until there are some. */
+export function BusinessReviewPhotos({ businessId }: { businessId: string }) {
+  const [photos, setPhotos] = useState<ReviewPhoto[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchBusinessReviewPhotos(businessId)
+      .then((result) => !cancelled && setPhotos(result))
+      .catch(() => !cancelled && setPhotos([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [businessId]);
+
+  if (photos.length === 0) return null;
+
+  return (
+    <div className="mt-6 border-t border-gray-100 dark:border-gray-700 pt-5">
+      <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200 mb-3">
+        Photos from reviews
+      </h3>
+      <PhotoGallery photos={photos} size="md" />
+    </div>
+  );
+}
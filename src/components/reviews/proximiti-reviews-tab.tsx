@@ -1,23 +1,35 @@
 import { useState, useEffect, useCallback } from "react";
 import { ReviewCard } from "./review-card";
 import { AddReviewForm } from "./add-review-form";
-import { StarRating } from "./star-rating";
 import { Button } from "@/components/ui/button";
 import {
+  REVIEW_SORT_LABELS,
   fetchProximitiReviews,
   type ProximitiReview,
+  type ReviewSort,
   type ReviewsResponse,
 } from "@/lib/reviewApi";
-import { Loader2, MessageSquare } from "lucide-react";
+import { adjustRating, type RatingSummary } from "@/lib/ratings";
+import { Loader2, MessageSquare, X } from "lucide-react";
 
 interface ProximitiReviewsTabProps {
   businessId: string;
+  /** Show only reviews with this many stars, chosen in the histogram */
+  stars?: number | null;
+  onClearStars?: () => void;
+  /** Called when the user's own review changes the business's rating */
+  onRatingChange?: (summary: RatingSummary) => void;
 }
 
 const PAGE_SIZE = 5;
 
 /** Tab showing Proximiti (our own) reviews + submission form. */
-export function ProximitiReviewsTab({ businessId }: ProximitiReviewsTabProps) {
+export function ProximitiReviewsTab({
+  businessId,
+  stars = null,
+  onClearStars,
+  onRatingChange,
+}: ProximitiReviewsTabProps) {
   const [data, setData] = useState<ReviewsResponse | null>(null);
   const [displayedReviews, setDisplayedReviews] = useState<ProximitiReview[]>(
     [],
@@ -28,12 +40,17 @@ export function ProximitiReviewsTab({ businessId }: ProximitiReviewsTabProps) {
   const [offset, setOffset] = useState(PAGE_SIZE);
   const [hasMore, setHasMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ProximitiReview | null>(null);
+  const [sort, setSort] = useState<ReviewSort>("helpful");
 
   const loadInitial = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetchProximitiReviews(businessId, PAGE_SIZE, 0);
+      const res = await fetchProximitiReviews(businessId, PAGE_SIZE, 0, {
+        sort,
+        stars,
+      });
       setData(res);
       setDisplayedReviews(res.reviews);
       setHasMore(res.hasMore);
@@ -43,7 +60,7 @@ export function ProximitiReviewsTab({ businessId }: ProximitiReviewsTabProps) {
     } finally {
       setLoading(false);
     }
-  }, [businessId]);
+  }, [businessId, sort, stars]);
 
   useEffect(() => {
     loadInitial();
@@ -54,7 +71,10 @@ export function ProximitiReviewsTab({ businessId }: ProximitiReviewsTabProps) {
     setLoadingMore(true);
     setCooldown(true);
     try {
-      const res = await fetchProximitiReviews(businessId, PAGE_SIZE, offset);
+      const res = await fetchProximitiReviews(businessId, PAGE_SIZE, offset, {
+        sort,
+        stars,
+      });
       setDisplayedReviews((prev) => [...prev, ...res.reviews]);
       setHasMore(res.hasMore);
       setOffset((prev) => prev + PAGE_SIZE);
@@ -66,7 +86,20 @@ export function ProximitiReviewsTab({ businessId }: ProximitiReviewsTabProps) {
     }
   };
 
+  // Update the rating locally rather than refetching it
+  const applyRatingChange = (change: { added?: number; removed?: number }) => {
+    if (!data) return;
+    const rating = adjustRating(data.rating, change);
+    setData((prev) => (prev ? { ...prev, rating } : prev));
+    onRatingChange?.(rating);
+  };
+
+  // Hidden reviews don't count towards the rating
+  const countedRating = (review: ProximitiReview | null | undefined) =>
+    review && !review.hiddenAt ? review.rating : undefined;
+
   const handleReviewSubmitted = (review: ProximitiReview) => {
+    applyRatingChange({ added: review.rating });
     setDisplayedReviews((prev) => [review, ...prev]);
     setData((prev) =>
       prev
@@ -80,12 +113,47 @@ export function ProximitiReviewsTab({ businessId }: ProximitiReviewsTabProps) {
     );
   };
 
-  // Compute aggregate rating
-  const avgRating =
-    displayedReviews.length > 0
-      ? displayedReviews.reduce((sum, r) => sum + r.rating, 0) /
-        displayedReviews.length
-      : 0;
+  const handleReviewChanged = (review: ProximitiReview) => {
+    setDisplayedReviews((prev) =>
+      prev.map((r) => (r.id === review.id ? review : r)),
+    );
+    setData((prev) =>
+      prev?.userReview?.id === review.id
+        ? { ...prev, userReview: review }
+        : prev,
+    );
+  };
+
+  const handleReviewUpdated = (review: ProximitiReview) => {
+    if (review.rating !== data?.userReview?.rating) {
+      applyRatingChange({
+        removed: countedRating(data?.userReview),
+        added: countedRating(review),
+      });
+    }
+    setEditing(null);
+    handleReviewChanged(review);
+  };
+
+  const handleReviewDeleted = (reviewId: string) => {
+    const deleted =
+      displayedReviews.find((r) => r.id === reviewId) ??
+      (data?.userReview?.id === reviewId ? data.userReview : null);
+    applyRatingChange({ removed: countedRating(deleted) });
+    setDisplayedReviews((prev) => prev.filter((r) => r.id !== reviewId));
+    setOffset((prev) => Math.max(prev - 1, 0));
+    setData((prev) =>
+      prev
+        ? {
+            ...prev,
+            total: prev.total - 1,
+            proximitiCount: prev.proximitiCount - 1,
+            userReview:
+              prev.userReview?.id === reviewId ? null : prev.userReview,
+          }
+        : prev,
+    );
+  };
 
   if (loading) {
     return (
@@ -101,47 +169,6 @@ export function ProximitiReviewsTab({ businessId }: ProximitiReviewsTabProps) {
 
   return (
     <div className="space-y-5">
-      {/* Overall rating summary */}
-      {data && data.total > 0 && (
-        <div className="flex items-center gap-4 bg-gray-50 dark:bg-gray-700/50 rounded-xl p-4">
-          <div className="text-center">
-            <div className="text-3xl font-bold text-gray-900 dark:text-white">
-              {avgRating.toFixed(1)}
-            </div>
-            <StarRating
-              value={avgRating}
-              size="sm"
-              className="mt-1 justify-center"
-            />
-            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-              {data.total} review{data.total !== 1 ? "s" : ""}
-            </div>
-          </div>
-          {/* Rating distribution bars */}
-          <div className="flex-1 space-y-1">
-            {[5, 4, 3, 2, 1].map((star) => {
-              const count = displayedReviews.filter(
-                (r) => r.rating === star,
-              ).length;
-              const pct = data.total > 0 ? (count / data.total) * 100 : 0;
-              return (
-                <div key={star} className="flex items-center gap-2 text-xs">
-                  <span className="w-3 text-gray-500 dark:text-gray-400 text-right">
-                    {star}
-                  </span>
-                  <div className="flex-1 h-1.5 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden">
-                    <div
-                      className="h-full rounded-full bg-yellow-400 transition-all"
-                      style={{ width: `${pct}%` }}
-                    />
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        </div>
-      )}
-
       {/* Add review form – only show if user hasn't reviewed yet */}
       {!data?.userReview && (
         <AddReviewForm
@@ -150,10 +177,60 @@ export function ProximitiReviewsTab({ businessId }: ProximitiReviewsTabProps) {
         />
       )}
 
-      {/* Already reviewed banner */}
-      {data?.userReview && (
-        <div className="rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20 px-4 py-3 text-sm text-green-700 dark:text-green-400">
-          You've already reviewed this business. Thank you!
+      {/* Already reviewed banner, or the form to edit that review */}
+      {data?.userReview &&
+        (editing ? (
+          <AddReviewForm
+            key={editing.id}
+            businessId={businessId}
+            review={editing}
+            onReviewSubmitted={handleReviewUpdated}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <div className="flex items-center justify-between gap-3 rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20 px-4 py-3 text-sm text-green-700 dark:text-green-400">
+            <span>
+              {data.userReview.hiddenAt
+                ? "Your review has been hidden by a moderator."
+                : data.userReview.reply && !data.userReview.reply.readAt
+                  ? "The owner has replied to your review."
+                  : "You've already reviewed this business. Thank you!"}
+            </span>
+            <button
+              onClick={() => setEditing(data.userReview)}
+              className="shrink-0 font-medium underline-offset-2 hover:underline"
+            >
+              Edit review
+            </button>
+          </div>
+        ))}
+
+      {/* Sort and star filter */}
+      {data && data.proximitiCount > 1 && (
+        <div className="flex items-center justify-between gap-2">
+          {stars ? (
+            <button
+              onClick={onClearStars}
+              className="flex items-center gap-1 text-xs rounded-full px-2.5 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 hover:bg-yellow-200 dark:hover:bg-yellow-900/50"
+            >
+              {stars}-star reviews ({data.total})
+              <X className="w-3 h-3" />
+            </button>
+          ) : (
+            <span />
+          )}
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ReviewSort)}
+            className="rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-xs text-gray-700 dark:text-gray-200 px-2 py-1"
+            aria-label="Sort reviews"
+          >
+            {Object.entries(REVIEW_SORT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
         </div>
       )}
 
@@ -161,12 +238,23 @@ export function ProximitiReviewsTab({ businessId }: ProximitiReviewsTabProps) {
       {displayedReviews.length === 0 ? (
         <div className="text-center py-8 text-gray-400 dark:text-gray-500">
           <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
-          <p className="text-sm">No Proximiti reviews yet. Be the first!</p>
+          <p className="text-sm">
+            {stars
+              ? `No ${stars}-star reviews.`
+              : "No Proximiti reviews yet. Be the first!"}
+          </p>
         </div>
       ) : (
         <div className="space-y-3">
           {displayedReviews.map((review) => (
-            <ReviewCard key={review.id} review={review} />
+            <ReviewCard
+              key={`${review.id}-${review.updatedAt ?? ""}`}
+              review={review}
+              onEdit={setEditing}
+              onDeleted={handleReviewDeleted}
+              canReply={!!data?.canReply}
+              onChanged={handleReviewChanged}
+            />
           ))}
         </div>
       )}
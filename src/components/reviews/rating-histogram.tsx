@@ -0,0 +1,72 @@
+import { StarRating } from "./star-rating";
+import type { RatingSummary } from "@/lib/ratings";
+import { cn } from "@/lib/utils";
+
+interface RatingHistogramProps {
+  summary: RatingSummary;
+  /** Star rating the reviews are filtered to, if any */
+  selected: number | null;
+  onSelect: (stars: number | null) => void;
+}
+
+/**
+ * Proximiti review average and star histogram. Each bar filters the reviews
+ * to that rating; clicking the selected bar again clears the filter.
+ */
+export function RatingHistogram({
+  summary,
+  selected,
+  onSelect,
+}: RatingHistogramProps) {
+  const { average, count } = summary.proximiti;
+  if (average === null) return null;
+
+  return (
+    <div className="flex items-center gap-4 bg-gray-50 dark:bg-gray-700/50 rounded-xl p-4">
+      <div className="text-center">
+        <div className="text-3xl font-bold text-gray-900 dark:text-white">
+          {average.toFixed(1)}
+        </div>
+        <StarRating value={average} size="sm" className="mt-1 justify-center" />
+        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          {count} review{count !== 1 ? "s" : ""}
+        </div>
+      </div>
+      <div className="flex-1 space-y-0.5">
+        {[5, 4, 3, 2, 1].map((star) => {
+          const starCount = summary.distribution[star - 1];
+          const pct = (starCount / count) * 100;
+          return (
+            <button
+              key={star}
+              onClick={() => onSelect(selected === star ? null : star)}
+              disabled={starCount === 0}
+              className={cn(
+                "w-full flex items-center gap-2 text-xs rounded px-1 py-0.5 transition-colors disabled:cursor-default",
+                selected === star
+                  ? "bg-yellow-100 dark:bg-yellow-900/30"
+                  : "enabled:hover:bg-gray-100 dark:enabled:hover:bg-gray-600/50",
+                selected !== null && selected !== star && "opacity-50",
+              )}
+              aria-pressed={selected === star}
+              title={`Show ${star}-star reviews`}
+            >
+              <span className="w-3 text-gray-500 dark:text-gray-400 text-right">
+                {star}
+              </span>
+              <div className="flex-1 h-1.5 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-yellow-400 transition-all"
+                  style={{ width: `${pct}%` }}
+                />
+              </div>
+              <span className="w-6 text-gray-400 dark:text-gray-500 text-right">
+                {starCount}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,22 @@
-import { ThumbsUp } from "lucide-react";
-import { useState } from "react";
+import { Flag, Pencil, ThumbsUp, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
 import { StarRating } from "./star-rating";
-import type { ProximitiReview } from "@/lib/reviewApi";
-import { toggleHelpful } from "@/lib/reviewApi";
+import { ReviewReplyThread } from "./review-reply";
+import { PhotoGallery } from "./photo-gallery";
+import type {
+  ProximitiReview,
+  ReviewReportReason,
+  ReviewRevision,
+} from "@/lib/reviewApi";
+import {
+  REPORT_REASON_LABELS,
+  deleteReview,
+  fetchReviewRevisions,
+  removeReview,
+  markReviewReplyRead,
+  reportReview,
+  toggleHelpful,
+} from "@/lib/reviewApi";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/App";
 
@@ -23,17 +37,63 @@ function avatarColour(name: string): string {
   return AVATAR_COLOURS[hash % AVATAR_COLOURS.length];
 }
 
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-CA", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
 interface ReviewCardProps {
   review: ProximitiReview;
   onHelpfulToggled?: (reviewId: string, isNowHelpful: boolean) => void;
+  /** Called when the author asks to edit their review */
+  onEdit?: (review: ProximitiReview) => void;
+  /** Called once the review has been deleted by its author or an admin */
+  onDeleted?: (reviewId: string) => void;
+  /** The current user owns the business and may reply to the review */
+  canReply?: boolean;
+  /** Called with the review after its owner reply changes */
+  onChanged?: (review: ProximitiReview) => void;
 }
 
-/** Display a single Proximiti review with a "Found this helpful?" button. */
-export function ReviewCard({ review, onHelpfulToggled }: ReviewCardProps) {
-  const { isAuthenticated } = useAuth();
+/**
+ * Display a single Proximiti review with a "Found this helpful?" button.
+ * Authors can edit or delete their own review, other users can report it for
+ * moderation, admins can remove any, and edited reviews can show their
+ * earlier versions. The business owner's reply is threaded beneath.
+ */
+export function ReviewCard({
+  review,
+  onHelpfulToggled,
+  onEdit,
+  onDeleted,
+  canReply = false,
+  onChanged,
+}: ReviewCardProps) {
+  const { isAuthenticated, user } = useAuth();
   const [helpfulCount, setHelpfulCount] = useState(review.helpfulCount);
   const [isHelpful, setIsHelpful] = useState(review.userFoundHelpful);
   const [toggling, setToggling] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [revisions, setRevisions] = useState<ReviewRevision[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const [reportReason, setReportReason] = useState<ReviewReportReason>("spam");
+  const [reportDetails, setReportDetails] = useState("");
+  const [reportStatus, setReportStatus] = useState<string | null>(null);
+
+  const isAuthor = user?.id === review.userId;
+  const isAdmin = user?.role === "admin";
+
+  // Keep the marker up while the author is looking; it is cleared server-side
+  const [unreadReply] = useState(
+    isAuthor && !!review.reply && !review.reply.readAt,
+  );
+  useEffect(() => {
+    if (unreadReply) markReviewReplyRead(review.id).catch(() => {});
+  }, [unreadReply, review.id]);
 
   const handleHelpful = async () => {
     if (!isAuthenticated || toggling) return;
@@ -50,6 +110,46 @@ export function ReviewCard({ review, onHelpfulToggled }: ReviewCardProps) {
     }
   };
 
+  const handleDelete = async () => {
+    const prompt = isAuthor
+      ? "Delete your review? This cannot be undone."
+      : `Remove this review by ${review.userName}? This cannot be undone.`;
+    if (deleting || !confirm(prompt)) return;
+    setDeleting(true);
+    try {
+      await (isAuthor ? deleteReview(review.id) : removeReview(review.id));
+      onDeleted?.(review.id);
+    } catch (err) {
+      alert((err as Error).message || "Failed to delete review");
+      setDeleting(false);
+    }
+  };
+
+  const handleReport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { message } = await reportReview(
+        review.id,
+        reportReason,
+        reportDetails.trim() || undefined,
+      );
+      setReportStatus(message);
+      setReporting(false);
+    } catch (err) {
+      setReportStatus((err as Error).message || "Failed to report review");
+    }
+  };
+
+  const toggleHistory = async () => {
+    setShowHistory((prev) => !prev);
+    if (revisions) return;
+    try {
+      setRevisions(await fetchReviewRevisions(review.id));
+    } catch {
+      setRevisions([]);
+    }
+  };
+
   const initials = review.userName
     .split(" ")
     .map((n) => n[0])
@@ -57,11 +157,7 @@ export function ReviewCard({ review, onHelpfulToggled }: ReviewCardProps) {
     .join("")
     .toUpperCase();
 
-  const formattedDate = new Date(review.createdAt).toLocaleDateString("en-CA", {
-    year: "numeric",
-    month: "short",
-    day: "numeric",
-  });
+  const formattedDate = formatDate(review.createdAt);
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-100 dark:border-gray-700 p-4 space-y-3">
@@ -75,11 +171,30 @@ export function ReviewCard({ review, onHelpfulToggled }: ReviewCardProps) {
         </div>
         <div className="flex-1 min-w-0">
           <div className="flex items-center justify-between gap-2 flex-wrap">
-            <span className="font-semibold text-gray-900 dark:text-white text-sm truncate">
-              {review.userName}
+            <span className="flex items-center gap-2 min-w-0">
+              <span className="font-semibold text-gray-900 dark:text-white text-sm truncate">
+                {review.userName}
+              </span>
+              {unreadReply && (
+                <span className="shrink-0 text-[10px] font-semibold uppercase rounded-full px-1.5 py-0.5 bg-green-100 dark:bg-green-800 text-green-700 dark:text-green-300">
+                  New reply
+                </span>
+              )}
             </span>
             <span className="text-xs text-gray-400 dark:text-gray-500 shrink-0">
               {formattedDate}
+              {review.updatedAt && (
+                <>
+                  {" · "}
+                  <button
+                    onClick={toggleHistory}
+                    className="italic underline-offset-2 hover:underline"
+                    title={`Edited ${formatDate(review.updatedAt)}`}
+                  >
+                    edited
+                  </button>
+                </>
+              )}
             </span>
           </div>
           <StarRating value={review.rating} size="sm" className="mt-0.5" />
@@ -91,6 +206,41 @@ export function ReviewCard({ review, onHelpfulToggled }: ReviewCardProps) {
         {review.text}
       </p>
 
+      <PhotoGallery photos={review.photos} />
+
+      {/* Edit history */}
+      {showHistory && (
+        <div className="border-l-2 border-gray-200 dark:border-gray-600 pl-3 space-y-2">
+          {revisions === null ? (
+            <p className="text-xs text-gray-400 dark:text-gray-500">Loading…</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              No earlier versions.
+            </p>
+          ) : (
+            revisions.map((revision) => (
+              <div key={revision.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <StarRating value={revision.rating} size="sm" />
+                  <span className="text-xs text-gray-400 dark:text-gray-500">
+                    {formatDate(revision.writtenAt)}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">
+                  {revision.text}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <ReviewReplyThread
+        review={review}
+        canReply={canReply}
+        onChanged={(updated) => onChanged?.(updated)}
+      />
+
       {/* Helpful button */}
       <div className="flex items-center gap-2 pt-1">
         <button
@@ -122,7 +272,88 @@ export function ReviewCard({ review, onHelpfulToggled }: ReviewCardProps) {
             Log in to vote
           </span>
         )}
+        <div className="ml-auto flex items-center gap-1">
+          {isAuthenticated && !isAuthor && !isAdmin && !reportStatus && (
+            <button
+              onClick={() => setReporting((prev) => !prev)}
+              className="flex items-center gap-1 text-xs rounded-full px-2.5 py-1 text-gray-400 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-gray-700"
+              title="Report this review"
+            >
+              <Flag className="w-3 h-3" />
+              Report
+            </button>
+          )}
+          {isAuthor && onEdit && (
+            <button
+              onClick={() => onEdit(review)}
+              className="flex items-center gap-1 text-xs rounded-full px-2.5 py-1 text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <Pencil className="w-3 h-3" />
+              Edit
+            </button>
+          )}
+          {(isAuthor || isAdmin) && (
+            <button
+              onClick={handleDelete}
+              disabled={deleting}
+              className="flex items-center gap-1 text-xs rounded-full px-2.5 py-1 text-red-500 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+            >
+              <Trash2 className="w-3 h-3" />
+              {isAuthor ? "Delete" : "Remove"}
+            </button>
+          )}
+        </div>
       </div>
+
+      {/* Report form */}
+      {reporting && (
+        <form
+          onSubmit={handleReport}
+          className="space-y-2 rounded-lg bg-gray-50 dark:bg-gray-700/50 p-3"
+        >
+          <select
+            value={reportReason}
+            onChange={(e) =>
+              setReportReason(e.target.value as ReviewReportReason)
+            }
+            className="w-full rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-gray-100 p-2"
+          >
+            {Object.entries(REPORT_REASON_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <textarea
+            value={reportDetails}
+            onChange={(e) => setReportDetails(e.target.value)}
+            placeholder="Anything a moderator should know? (optional)"
+            rows={2}
+            maxLength={500}
+            className="w-full rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-gray-100 p-2 resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setReporting(false)}
+              className="text-xs px-3 py-1 text-gray-500 dark:text-gray-400"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="text-xs rounded-full px-3 py-1 bg-red-500 hover:bg-red-600 text-white"
+            >
+              Send report
+            </button>
+          </div>
+        </form>
+      )}
+      {reportStatus && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 italic">
+          {reportStatus}
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { MessageSquareReply, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  deleteReviewReply,
+  saveReviewReply,
+  type ProximitiReview,
+} from "@/lib/reviewApi";
+
+interface ReviewReplyThreadProps {
+  review: ProximitiReview;
+  /** The current user owns the business and may post, edit or delete */
+  canReply: boolean;
+  onChanged: (review: ProximitiReview) => void;
+}
+
+/** The business owner's reply, threaded beneath a review. */
+export function ReviewReplyThread({
+  review,
+  canReply,
+  onChanged,
+}: ReviewReplyThreadProps) {
+  const { reply } = review;
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!reply && !canReply) return null;
+
+  const startEditing = () => {
+    setText(reply?.text ?? "");
+    setError(null);
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await saveReviewReply(review.id, text.trim(), !!reply);
+      onChanged(res.review);
+      setEditing(false);
+    } catch (err) {
+      setError((err as Error).message || "Failed to save reply");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm("Delete your reply to this review?")) return;
+    try {
+      await deleteReviewReply(review.id);
+      onChanged({ ...review, reply: null });
+    } catch (err) {
+      setError((err as Error).message || "Failed to delete reply");
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="ml-6 space-y-2">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Reply publicly as the business owner…"
+          rows={3}
+          maxLength={1000}
+          className="w-full rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 text-sm p-3 resize-none focus:outline-none focus:ring-2 focus:ring-green-500 dark:focus:ring-green-400"
+        />
+        {error && (
+          <p className="text-xs text-red-500 dark:text-red-400">{error}</p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setEditing(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={saving || !text.trim()}
+            className="bg-green-600 hover:bg-green-700 text-white"
+          >
+            {saving ? "Saving…" : reply ? "Save Reply" : "Post Reply"}
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!reply) {
+    return (
+      <button
+        onClick={startEditing}
+        className="ml-6 flex items-center gap-1.5 text-xs text-green-600 dark:text-green-400 hover:underline"
+      >
+        <MessageSquareReply className="w-3 h-3" />
+        Reply as owner
+      </button>
+    );
+  }
+
+  const date = new Date(reply.updatedAt ?? reply.createdAt).toLocaleDateString(
+    "en-CA",
+    { year: "numeric", month: "short", day: "numeric" },
+  );
+
+  return (
+    <div className="ml-6 rounded-lg border-l-2 border-green-400 dark:border-green-600 bg-gray-50 dark:bg-gray-700/50 px-3 py-2 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-gray-800 dark:text-gray-200">
+          Reply from the owner
+        </span>
+        <span className="text-xs text-gray-400 dark:text-gray-500">
+          {date}
+          {reply.updatedAt && " · edited"}
+        </span>
+      </div>
+      <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-line">
+        {reply.text}
+      </p>
+      {canReply && (
+        <div className="flex items-center gap-1 pt-1">
+          <button
+            onClick={startEditing}
+            className="flex items-center gap-1 text-xs rounded-full px-2 py-0.5 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-600"
+          >
+            <Pencil className="w-3 h-3" />
+            Edit
+          </button>
+          <button
+            onClick={handleDelete}
+            className="flex items-center gap-1 text-xs rounded-full px-2 py-0.5 text-red-500 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+          >
+            <Trash2 className="w-3 h-3" />
+            Delete
+          </button>
+          {error && (
+            <span className="text-xs text-red-500 dark:text-red-400">
+              {error}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from "react";
 import { GoogleReviewsTab } from "./google-reviews-tab";
 import { ProximitiReviewsTab } from "./proximiti-reviews-tab";
+import { RatingHistogram } from "./rating-histogram";
 import { fetchProximitiReviews } from "@/lib/reviewApi";
+import type { RatingSummary } from "@/lib/ratings";
 import { cn } from "@/lib/utils";
 
 interface ReviewsSectionProps {
@@ -9,21 +11,19 @@ interface ReviewsSectionProps {
   businessName: string;
   lat: number;
   lng: number;
-  /** Fallback star rating from business data */
+  /** The provider's own rating, shown on the Google tab while it loads */
   rating?: number;
-  /** Called once Google's live rating + total ratings count are known */
-  onGoogleData?: (rating: number, totalRatings: number) => void;
+  /** Called with the blended rating when it loads or a review changes it */
+  onRatingChange?: (summary: RatingSummary) => void;
 }
 
 type Tab = "google" | "proximiti";
 
-/** Phase-out threshold – must match server constant */
-const PROXIMITI_PHASE_OUT_THRESHOLD = 10;
-
 /**
- * Combined reviews section with Google and Proximiti tabs.
- * Once a business accumulates >= 10 Proximiti reviews the Google tab is
- * hidden entirely and Proximiti reviews are shown exclusively.
+ * Combined reviews section with Google and Proximiti tabs. Both always show;
+ * the blended rating weighs Proximiti reviews more as they accumulate, and
+ * the Proximiti tab opens first once there are any. Above the tabs, the
+ * Proximiti star histogram doubles as a filter for that tab.
  */
 export function ReviewsSection({
   businessId,
@@ -31,46 +31,53 @@ export function ReviewsSection({
   lat,
   lng,
   rating,
-  onGoogleData,
+  onRatingChange,
 }: ReviewsSectionProps) {
   const [activeTab, setActiveTab] = useState<Tab>("google");
-  const [proximitiCount, setProximitiCount] = useState<number | null>(null);
-  const [useProximitiOnly, setUseProximitiOnly] = useState(false);
+  const [summary, setSummary] = useState<RatingSummary | null>(null);
+  const [stars, setStars] = useState<number | null>(null);
+  const proximitiCount = summary?.proximiti.count ?? null;
+
+  const handleRatingChange = (next: RatingSummary) => {
+    setSummary(next);
+    onRatingChange?.(next);
+  };
+
+  const handleStarsSelected = (selected: number | null) => {
+    setStars(selected);
+    if (selected !== null) setActiveTab("proximiti");
+  };
 
-  // Fetch the Proximiti review count once so we know which tabs to show
+  // Fetch the rating summary once to pick the opening tab
   useEffect(() => {
+    setStars(null);
     fetchProximitiReviews(businessId, 1, 0)
       .then((res) => {
-        setProximitiCount(res.proximitiCount);
-        const phaseOut = res.proximitiCount >= PROXIMITI_PHASE_OUT_THRESHOLD;
-        setUseProximitiOnly(phaseOut);
-        if (phaseOut) setActiveTab("proximiti");
+        handleRatingChange(res.rating);
+        if (res.proximitiCount > 0) setActiveTab("proximiti");
       })
       .catch(() => {
         // silently ignore – both tabs will still render
       });
-  }, [businessId]);
+  }, [businessId]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  const tabs: { id: Tab; label: string; badge?: number | null }[] =
-    useProximitiOnly
-      ? [{ id: "proximiti", label: "Proximiti Reviews", badge: proximitiCount }]
-      : [
-          { id: "google", label: "Google Reviews" },
-          {
-            id: "proximiti",
-            label: "Proximiti Reviews",
-            badge: proximitiCount ?? undefined,
-          },
-        ];
+  const tabs: { id: Tab; label: string; badge?: number | null }[] = [
+    { id: "google", label: "Google Reviews" },
+    {
+      id: "proximiti",
+      label: "Proximiti Reviews",
+      badge: proximitiCount ?? undefined,
+    },
+  ];
 
   return (
     <div className="space-y-4">
-      {/* Phase-out notice */}
-      {useProximitiOnly && (
-        <div className="rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 px-4 py-3 text-sm text-green-700 dark:text-green-400">
-          🎉 This business has enough Proximiti reviews to stand on its own —
-          Google reviews are no longer shown.
-        </div>
+      {summary && (
+        <RatingHistogram
+          summary={summary}
+          selected={stars}
+          onSelect={handleStarsSelected}
+        />
       )}
 
       {/* Tab bar */}
@@ -104,17 +111,21 @@ export function ReviewsSection({
       </div>
 
       {/* Tab content */}
-      {activeTab === "google" && !useProximitiOnly && (
+      {activeTab === "google" && (
         <GoogleReviewsTab
           businessName={businessName}
           lat={lat}
           lng={lng}
           googleRating={rating}
-          onGoogleData={onGoogleData}
         />
       )}
       {activeTab === "proximiti" && (
-        <ProximitiReviewsTab businessId={businessId} />
+        <ProximitiReviewsTab
+          businessId={businessId}
+          stars={stars}
+          onClearStars={() => setStars(null)}
+          onRatingChange={handleRatingChange}
+        />
       )}
     </div>
   );
@@ -1,7 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useAuth } from "@/App";
 import rideshareApi, {
+  type FareBalance,
+  type FareShare,
   type Rideshare,
+  type RideshareMatch,
+  type RideshareMessage,
   type RidesharePassenger,
   type RideshareStatus,
 } from "@/lib/rideshareApi";
@@ -29,7 +33,23 @@ import {
   Copy,
   Search,
   Share2,
+  MessageCircle,
+  Send,
+  Bell,
+  CalendarClock,
+  Wallet,
+  DollarSign,
+  CreditCard,
 } from "lucide-react";
+import {
+  fareTotalCents,
+  formatCents,
+  splitFare,
+  MAX_PER_KM_FARE_CENTS,
+  MAX_TOTAL_FARE_CENTS,
+  MIN_CARD_PAYMENT_CENTS,
+  type FareType,
+} from "@/lib/rideFares";
 import {
   LocationSearchEngine,
   formatDistance,
@@ -548,12 +568,53 @@ function StatusBadge({ status }: { status: RideshareStatus }) {
 }
 
 
-type View = "list" | "create" | "detail";
+const timeFormat: Intl.DateTimeFormatOptions = {
+  hour: "numeric",
+  minute: "2-digit",
+};
+
+/** "Leaving now", "In 25 min", "Today, 3:15 PM", "Tomorrow, …" or a date */
+function formatDeparture(departureAt: string | null): string {
+  if (!departureAt) return "Leaving now";
+  const departure = new Date(departureAt);
+  const minutes = Math.round((departure.getTime() - Date.now()) / 60000);
+  if (minutes <= 1) return "Leaving now";
+  if (minutes < 60) return `In ${minutes} min`;
+
+  const time = departure.toLocaleTimeString([], timeFormat);
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  if (departure.toDateString() === new Date().toDateString())
+    return `Today, ${time}`;
+  if (departure.toDateString() === tomorrow.toDateString())
+    return `Tomorrow, ${time}`;
+  return departure.toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    ...timeFormat,
+  });
+}
+
+/** When a ride leaves; rides leaving right away count from their creation */
+function departureTime(ride: Rideshare): number {
+  return new Date(ride.departureAt ?? ride.createdAt).getTime();
+}
+
+/** A date as a datetime-local input value, in the browser's time zone */
+function toDateTimeLocal(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+type View = "list" | "create" | "detail" | "ledger";
 
 interface RidesharePanelProps {
   isOpen: boolean;
   onClose: () => void;
   userLocation: [number, number] | null;
+  /** View to show each time the panel opens, e.g. the ledger after paying */
+  initialView?: "list" | "ledger";
 }
 
 
@@ -561,24 +622,32 @@ export function RidesharePanel({
   isOpen,
   onClose,
   userLocation,
+  initialView,
 }: RidesharePanelProps) {
   const { user } = useAuth();
   const [view, setView] = useState<View>("list");
   const [rideshares, setRideshares] = useState<Rideshare[]>([]);
   const [selectedRide, setSelectedRide] = useState<Rideshare | null>(null);
   const [passengers, setPassengers] = useState<RidesharePassenger[]>([]);
+  const [messages, setMessages] = useState<RideshareMessage[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [actionLoading, setActionLoading] = useState(false);
-  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Rides with an unseen departure reminder; the first is shown
+  const [reminders, setReminders] = useState<Rideshare[]>([]);
+  const reminder = reminders[0] ?? null;
 
 
+  useEffect(() => {
+    if (isOpen && initialView) setView(initialView);
+  }, [isOpen, initialView]);
+
   const fetchRideshares = useCallback(async () => {
     try {
       const { rideshares: data } = await rideshareApi.getActiveRideshares();
       setRideshares(Array.isArray(data) ? data : []);
     } catch {
-      // Silently fail on poll – don't overwrite existing data
+      // Silently fail on refresh – don't overwrite existing data
     }
   }, []);
 
@@ -593,24 +662,103 @@ export function RidesharePanel({
     }
   }, []);
 
+  const fetchMessages = useCallback(async (id: string) => {
+    try {
+      const { messages: data } = await rideshareApi.getMessages(id);
+      setMessages(data);
+    } catch {
+      setMessages([]);
+    }
+  }, []);
+
+  const fetchReminders = useCallback(async () => {
+    try {
+      const { reminders: data } = await rideshareApi.getReminders();
+      setReminders(data);
+    } catch {
+      // Keep whatever reminders are showing
+    }
+  }, []);
+
+  const dismissReminder = (ride: Rideshare) => {
+    setReminders((prev) => prev.filter((r) => r.id !== ride.id));
+    rideshareApi.markReminderRead(ride.id).catch(() => {});
+  };
+
+  const addMessage = (message: RideshareMessage) =>
+    setMessages((prev) =>
+      prev.some((m) => m.id === message.id) ? prev : [...prev, message],
+    );
 
+
+  // Live lobby: keep the list in step with rides as they change
   useEffect(() => {
     if (!isOpen || !user) return;
 
-    fetchRideshares();
-
-    // Poll every 3 seconds
-    pollRef.current = setInterval(() => {
+    const refetch = () => {
       fetchRideshares();
-      if (selectedRide) {
-        fetchRideDetail(selectedRide.id);
-      }
-    }, 3000);
-
-    return () => {
-      if (pollRef.current) clearInterval(pollRef.current);
+      fetchReminders();
     };
-  }, [isOpen, user, fetchRideshares, fetchRideDetail, selectedRide]);
+    refetch();
+    return rideshareApi.subscribe(
+      ({ type, rideshare }) => {
+        if (type === "reminder") {
+          setReminders((prev) =>
+            prev.some((r) => r.id === rideshare.id)
+              ? prev
+              : [...prev, rideshare],
+          );
+        }
+        const active =
+          rideshare.status === "waiting" || rideshare.status === "accepted";
+        setRideshares((prev) => {
+          if (!active) return prev.filter((r) => r.id !== rideshare.id);
+          const next = prev.some((r) => r.id === rideshare.id)
+            ? prev.map((r) => (r.id === rideshare.id ? rideshare : r))
+            : [...prev, rideshare];
+          // Soonest departure first, as the server lists them
+          return next.sort((a, b) => departureTime(a) - departureTime(b));
+        });
+      },
+      { refetch },
+    );
+  }, [isOpen, user, fetchRideshares, fetchReminders]);
+
+  // Live detail for the ride being viewed, including its chat
+  const selectedRideId = selectedRide?.id;
+  useEffect(() => {
+    if (!isOpen || !user || !selectedRideId) return;
+
+    return rideshareApi.subscribe(
+      ({ rideshare, passengers: pax, message }) => {
+        setSelectedRide(rideshare);
+        if (pax) setPassengers(pax);
+        if (message) addMessage(message);
+      },
+      {
+        id: selectedRideId,
+        refetch: () => {
+          fetchRideDetail(selectedRideId);
+          fetchMessages(selectedRideId);
+        },
+      },
+    );
+  }, [isOpen, user, selectedRideId, fetchRideDetail, fetchMessages]);
+
+  // Only the creator, driver and passengers can read the chat
+  const isParticipant =
+    !!selectedRide &&
+    !!user &&
+    (selectedRide.creatorId === user.id ||
+      selectedRide.driverId === user.id ||
+      passengers.some((p) => p.userId === user.id));
+  useEffect(() => {
+    if (isOpen && selectedRideId && isParticipant) {
+      fetchMessages(selectedRideId);
+    } else {
+      setMessages([]);
+    }
+  }, [isOpen, selectedRideId, isParticipant, fetchMessages]);
 
 
   const handleAction = async (action: () => Promise<any>) => {
@@ -687,6 +835,7 @@ export function RidesharePanel({
               {view === "list" && "Rideshare Lobby"}
               {view === "create" && "Create Ride"}
               {view === "detail" && "Ride Details"}
+              {view === "ledger" && "My Balance"}
             </h2>
           </div>
           <button
@@ -708,21 +857,54 @@ export function RidesharePanel({
           </div>
         )}
 
+        {/* Departure reminder */}
+        {reminder && (
+          <div className="mx-5 mt-3 px-4 py-2 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 text-sm rounded-lg flex items-center gap-2">
+            <Bell className="w-4 h-4 shrink-0" />
+            <button
+              onClick={() => {
+                openDetail(reminder);
+                dismissReminder(reminder);
+              }}
+              className="text-left hover:underline"
+            >
+              Your ride to {reminder.destinationName} leaves at{" "}
+              {new Date(reminder.departureAt!).toLocaleTimeString(
+                [],
+                timeFormat,
+              )}
+            </button>
+            <button
+              onClick={() => dismissReminder(reminder)}
+              className="ml-auto"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+
         {/* Body */}
         <div className="flex-1 overflow-y-auto min-h-0 px-5 py-4">
           {view === "list" && (
             <RideList
               rideshares={rideshares}
               userId={user?.id}
+              userLocation={userLocation}
               onOpenDetail={openDetail}
               onCreateNew={() => {
                 setView("create");
                 setError("");
               }}
               onJoinByCode={joinByCode}
+              onOpenLedger={() => {
+                setView("ledger");
+                setError("");
+              }}
             />
           )}
 
+          {view === "ledger" && user && <FareLedger userId={user.id} />}
+
           {view === "create" && (
             <CreateRideForm
               userLocation={userLocation}
@@ -740,6 +922,7 @@ export function RidesharePanel({
             <RideDetail
               ride={selectedRide}
               passengers={passengers}
+              messages={messages}
               userId={user?.id ?? ""}
               loading={loading}
               actionLoading={actionLoading}
@@ -773,6 +956,16 @@ export function RidesharePanel({
                   setSelectedRide(null);
                 })
               }
+              onSetFare={(fare) =>
+                handleAction(() => rideshareApi.setFare(selectedRide.id, fare))
+              }
+              onSendMessage={async (text) => {
+                const { message } = await rideshareApi.postMessage(
+                  selectedRide.id,
+                  text,
+                );
+                addMessage(message);
+              }}
             />
           )}
         </div>
@@ -785,19 +978,24 @@ export function RidesharePanel({
 function RideList({
   rideshares,
   userId,
+  userLocation,
   onOpenDetail,
   onCreateNew,
   onJoinByCode,
+  onOpenLedger,
 }: {
   rideshares: Rideshare[];
   userId?: string;
+  userLocation: [number, number] | null;
   onOpenDetail: (r: Rideshare) => void;
   onCreateNew: () => void;
   onJoinByCode: (code: string) => void;
+  onOpenLedger: () => void;
 }) {
   const [joinCode, setJoinCode] = useState("");
   const [joinError, setJoinError] = useState("");
   const [joinLoading, setJoinLoading] = useState(false);
+  const [mode, setMode] = useState<"all" | "match">("all");
 
   const handleJoinByCode = async () => {
     const code = joinCode.trim().toUpperCase();
@@ -818,13 +1016,19 @@ function RideList({
 
   return (
     <div className="space-y-4">
-      <Button
-        onClick={onCreateNew}
-        className="w-full bg-green-600 hover:bg-green-700 text-white"
-      >
-        <Plus className="w-4 h-4 mr-2" />
-        Create a Ride
-      </Button>
+      <div className="flex gap-2">
+        <Button
+          onClick={onCreateNew}
+          className="flex-1 bg-green-600 hover:bg-green-700 text-white"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Create a Ride
+        </Button>
+        <Button variant="outline" onClick={onOpenLedger}>
+          <Wallet className="w-4 h-4 mr-2" />
+          My balance
+        </Button>
+      </div>
 
       {/* Join by share code */}
       <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
@@ -859,7 +1063,29 @@ function RideList({
         {joinError && <p className="text-xs text-red-500 mt-1">{joinError}</p>}
       </div>
 
-      {!Array.isArray(rideshares) || rideshares.length === 0 ? (
+      <div className="flex gap-2">
+        {(["all", "match"] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`px-3 py-1 rounded-full text-sm transition-colors ${
+              mode === m
+                ? "bg-green-600 text-white"
+                : "text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+            }`}
+          >
+            {m === "all" ? "All rides" : "Going my way"}
+          </button>
+        ))}
+      </div>
+
+      {mode === "match" ? (
+        <RideMatchSearch
+          userLocation={userLocation}
+          userId={userId}
+          onOpenDetail={onOpenDetail}
+        />
+      ) : !Array.isArray(rideshares) || rideshares.length === 0 ? (
         <div className="text-center py-10 text-gray-400 dark:text-gray-500">
           <Car className="w-12 h-12 mx-auto mb-3 opacity-40" />
           <p className="font-medium">No active rides</p>
@@ -867,66 +1093,246 @@ function RideList({
         </div>
       ) : (
         <div className="space-y-2">
-          {rideshares.map((ride) => {
-            const isInvolved =
-              ride.creatorId === userId || ride.driverId === userId;
-            return (
-              <button
-                key={ride.id}
-                onClick={() => onOpenDetail(ride)}
-                className={`w-full text-left p-4 rounded-xl border transition-all hover:shadow-md ${
-                  isInvolved
-                    ? "border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/20"
-                    : "border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50"
-                }`}
-              >
-                <div className="flex items-start justify-between mb-2">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="text-sm font-semibold text-gray-900 dark:text-white truncate">
-                        {ride.creatorName}'s Ride
-                      </span>
-                      {isInvolved && (
-                        <span className="text-xs bg-green-200 dark:bg-green-800 text-green-800 dark:text-green-200 px-1.5 py-0.5 rounded">
-                          You
-                        </span>
-                      )}
-                    </div>
-                    <StatusBadge status={ride.status} />
-                  </div>
-                  <ChevronRight className="w-5 h-5 text-gray-400 mt-1 shrink-0" />
-                </div>
+          {rideshares.map((ride) => (
+            <RideCard
+              key={ride.id}
+              ride={ride}
+              userId={userId}
+              onOpen={() => onOpenDetail(ride)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
 
-                {/* Route */}
-                <div className="mt-3 space-y-1.5">
-                  <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
-                    <div className="w-2.5 h-2.5 rounded-full bg-blue-500 shrink-0" />
-                    <span className="truncate">{ride.originName}</span>
-                  </div>
-                  <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
-                    <div className="w-2.5 h-2.5 rounded-full bg-red-500 shrink-0" />
-                    <span className="truncate">{ride.destinationName}</span>
-                  </div>
-                </div>
 
-                {/* Passengers */}
-                <div className="mt-3 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
-                  <span className="flex items-center gap-1">
-                    <Users className="w-3.5 h-3.5" />
-                    {ride.currentPassengers}/{ride.maxPassengers} passengers
-                  </span>
-                  {ride.driverName && (
-                    <span className="flex items-center gap-1">
-                      <Car className="w-3.5 h-3.5" />
-                      {ride.driverName}
-                    </span>
-                  )}
-                </div>
-              </button>
-            );
-          })}
+function RideCard({
+  ride,
+  userId,
+  onOpen,
+  match,
+}: {
+  ride: Rideshare;
+  userId?: string;
+  onOpen: () => void;
+  /** Set when the card is a "going my way" result */
+  match?: RideshareMatch;
+}) {
+  const isInvolved = ride.creatorId === userId || ride.driverId === userId;
+  return (
+    <button
+      onClick={onOpen}
+      className={`w-full text-left p-4 rounded-xl border transition-all hover:shadow-md ${
+        isInvolved
+          ? "border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/20"
+          : "border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50"
+      }`}
+    >
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+              {ride.creatorName}'s Ride
+            </span>
+            {isInvolved && (
+              <span className="text-xs bg-green-200 dark:bg-green-800 text-green-800 dark:text-green-200 px-1.5 py-0.5 rounded">
+                You
+              </span>
+            )}
+          </div>
+          <StatusBadge status={ride.status} />
+        </div>
+        <ChevronRight className="w-5 h-5 text-gray-400 mt-1 shrink-0" />
+      </div>
+
+      {/* Route */}
+      <div className="mt-3 space-y-1.5">
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <div className="w-2.5 h-2.5 rounded-full bg-blue-500 shrink-0" />
+          <span className="truncate">{ride.originName}</span>
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <div className="w-2.5 h-2.5 rounded-full bg-red-500 shrink-0" />
+          <span className="truncate">{ride.destinationName}</span>
+        </div>
+      </div>
+
+      {/* Departure + passengers */}
+      <div className="mt-3 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-1">
+          <Clock className="w-3.5 h-3.5" />
+          {formatDeparture(ride.departureAt)}
+        </span>
+        <span className="flex items-center gap-1">
+          <Users className="w-3.5 h-3.5" />
+          {ride.currentPassengers}/{ride.maxPassengers} passengers
+        </span>
+        {ride.driverName && (
+          <span className="flex items-center gap-1">
+            <Car className="w-3.5 h-3.5" />
+            {ride.driverName}
+          </span>
+        )}
+      </div>
+
+      {match && (
+        <div className="mt-2 flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400">
+          <Route className="w-3.5 h-3.5 shrink-0" />
+          Pick-up {formatDistance(match.pickupKm)} away · drop-off{" "}
+          {formatDistance(match.dropoffKm)} away ·{" "}
+          {Math.round(match.directionSimilarity * 100)}% same direction
         </div>
       )}
+    </button>
+  );
+}
+
+const DETOUR_OPTIONS_KM = [2, 5, 10, 20];
+
+/** Search for active rides matching the user's own trip. */
+function RideMatchSearch({
+  userLocation,
+  userId,
+  onOpenDetail,
+}: {
+  userLocation: [number, number] | null;
+  userId?: string;
+  onOpenDetail: (r: Rideshare) => void;
+}) {
+  const [origin, setOrigin] = useState<SelectedLocation | null>(
+    userLocation
+      ? {
+          lat: userLocation[0],
+          lng: userLocation[1],
+          name: "My Current Location",
+        }
+      : null,
+  );
+  const [dest, setDest] = useState<SelectedLocation | null>(null);
+  const [maxDetourKm, setMaxDetourKm] = useState(5);
+  const [matches, setMatches] = useState<RideshareMatch[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState("");
+
+  const pickLocation =
+    (set: (location: SelectedLocation | null) => void) =>
+    (lat: number, lng: number, name: string) => {
+      set(lat === 0 && lng === 0 ? null : { lat, lng, name });
+      setMatches(null);
+    };
+
+  const handleUseCurrentLocation = userLocation
+    ? () => {
+        setOrigin({
+          lat: userLocation[0],
+          lng: userLocation[1],
+          name: "My Current Location",
+        });
+        setMatches(null);
+      }
+    : undefined;
+
+  const handleSearch = async () => {
+    if (!origin || !dest) return;
+    setSearching(true);
+    setSearchError("");
+    try {
+      const { matches: data } = await rideshareApi.findMatchingRideshares({
+        originLat: origin.lat,
+        originLng: origin.lng,
+        destinationLat: dest.lat,
+        destinationLng: dest.lng,
+        maxDetourKm,
+      });
+      setMatches(data);
+    } catch (e) {
+      setSearchError((e as Error).message || "Search failed");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <LocationSearchInput
+        label="Where are you?"
+        dotColor="bg-blue-500"
+        value={origin?.name ?? ""}
+        onSelect={pickLocation(setOrigin)}
+        onUseCurrentLocation={handleUseCurrentLocation}
+        placeholder="Search for your starting point…"
+        userLocation={userLocation}
+      />
+      <LocationSearchInput
+        label="Where are you going?"
+        dotColor="bg-red-500"
+        value={dest?.name ?? ""}
+        onSelect={pickLocation(setDest)}
+        placeholder="Search for your destination…"
+        userLocation={userLocation}
+      />
+
+      <div className="flex items-center gap-2">
+        <label
+          htmlFor="max-detour"
+          className="text-sm text-gray-600 dark:text-gray-300"
+        >
+          Pick-up and drop-off within
+        </label>
+        <select
+          id="max-detour"
+          value={maxDetourKm}
+          onChange={(e) => {
+            setMaxDetourKm(Number(e.target.value));
+            setMatches(null);
+          }}
+          className="px-2 py-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+        >
+          {DETOUR_OPTIONS_KM.map((km) => (
+            <option key={km} value={km}>
+              {km} km
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Button
+        onClick={handleSearch}
+        disabled={!origin || !dest || searching}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+      >
+        {searching ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Route className="w-4 h-4 mr-2" />
+        )}
+        Find Rides Going My Way
+      </Button>
+      {searchError && <p className="text-xs text-red-500">{searchError}</p>}
+
+      {matches &&
+        (matches.length === 0 ? (
+          <div className="text-center py-6 text-gray-400 dark:text-gray-500">
+            <p className="font-medium">No rides going your way</p>
+            <p className="text-sm mt-1">
+              Try a larger distance, or create a ride yourself
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {matches.map((match) => (
+              <RideCard
+                key={match.rideshare.id}
+                ride={match.rideshare}
+                userId={userId}
+                onOpen={() => onOpenDetail(match.rideshare)}
+                match={match}
+              />
+            ))}
+          </div>
+        ))}
     </div>
   );
 }
@@ -956,6 +1362,9 @@ function CreateRideForm({
   const [dest, setDest] = useState<SelectedLocation | null>(null);
   const [destDisplay, setDestDisplay] = useState("");
   const [maxPax, setMaxPax] = useState(4);
+  // Empty for a ride leaving now, else a datetime-local value
+  const [departure, setDeparture] = useState("");
+  const [scheduled, setScheduled] = useState(false);
   const [note, setNote] = useState("");
   const [submitting, setSubmitting] = useState(false);
 
@@ -999,6 +1408,14 @@ function CreateRideForm({
     try {
       if (!origin) throw new Error("Pick-up location is required");
       if (!dest) throw new Error("Destination is required");
+      let departureAt: string | undefined;
+      if (scheduled) {
+        if (!departure) throw new Error("Pick a departure time");
+        const date = new Date(departure);
+        if (date.getTime() <= Date.now())
+          throw new Error("Departure time must be in the future");
+        departureAt = date.toISOString();
+      }
 
       const { rideshare } = await rideshareApi.createRideshare({
         originName: origin.name,
@@ -1009,6 +1426,7 @@ function CreateRideForm({
         destinationLng: dest.lng,
         maxPassengers: maxPax,
         note: note.trim() || undefined,
+        departureAt,
       });
 
       onCreated(rideshare);
@@ -1074,6 +1492,39 @@ function CreateRideForm({
         </div>
       </div>
 
+      {/* Departure */}
+      <div className="space-y-2">
+        <label className="text-sm font-semibold text-gray-700 dark:text-gray-200 flex items-center gap-2">
+          <CalendarClock className="w-4 h-4" />
+          Departure
+        </label>
+        <div className="flex gap-2">
+          {[false, true].map((s) => (
+            <button
+              key={String(s)}
+              type="button"
+              onClick={() => setScheduled(s)}
+              className={`flex-1 py-2.5 rounded-lg text-sm font-bold transition-colors ${
+                scheduled === s
+                  ? "bg-green-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              }`}
+            >
+              {s ? "Schedule" : "Leave now"}
+            </button>
+          ))}
+        </div>
+        {scheduled && (
+          <input
+            type="datetime-local"
+            value={departure}
+            min={toDateTimeLocal(new Date())}
+            onChange={(e) => setDeparture(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        )}
+      </div>
+
       {/* Note */}
       <div className="space-y-2">
         <label className="text-sm font-semibold text-gray-700 dark:text-gray-200">
@@ -1091,7 +1542,9 @@ function CreateRideForm({
 
       <Button
         type="submit"
-        disabled={submitting || !origin || !dest}
+        disabled={
+          submitting || !origin || !dest || (scheduled && !departure)
+        }
         className="w-full bg-green-600 hover:bg-green-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
       >
         {submitting ? (
@@ -1109,6 +1562,7 @@ function CreateRideForm({
 function RideDetail({
   ride,
   passengers,
+  messages,
   userId,
   loading,
   actionLoading,
@@ -1118,9 +1572,12 @@ function RideDetail({
   onStartTransport,
   onComplete,
   onCancel,
+  onSetFare,
+  onSendMessage,
 }: {
   ride: Rideshare;
   passengers: RidesharePassenger[];
+  messages: RideshareMessage[];
   userId: string;
   loading: boolean;
   actionLoading: boolean;
@@ -1130,6 +1587,8 @@ function RideDetail({
   onStartTransport: () => void;
   onComplete: () => void;
   onCancel: () => void;
+  onSetFare: (fare: { fareType: FareType; amount: number } | null) => void;
+  onSendMessage: (text: string) => Promise<void>;
 }) {
   const isCreator = ride.creatorId === userId;
   const isDriver = ride.driverId === userId;
@@ -1145,10 +1604,8 @@ function RideDetail({
     ride.status === "waiting" && !isCreator && !isDriver;
   const canStartTransport = isDriver && ride.status === "accepted";
   const canComplete = (isDriver || isCreator) && ride.status === "in_transit";
-  const canCancel =
-    (isCreator || isDriver) &&
-    ride.status !== "completed" &&
-    ride.status !== "cancelled";
+  const rideEnded = ride.status === "completed" || ride.status === "cancelled";
+  const canCancel = (isCreator || isDriver) && !rideEnded;
 
   if (loading) {
     return (
@@ -1169,6 +1626,21 @@ function RideDetail({
         </span>
       </div>
 
+      {/* Departure */}
+      {lobbyOpen && (
+        <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <Clock className="w-4 h-4 text-gray-400" />
+          <span className="font-medium">
+            {formatDeparture(ride.departureAt)}
+          </span>
+          {ride.status === "waiting" && ride.departureAt && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              · needs a driver by then
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Share code */}
       {ride.shareCode && (
         <div className="bg-linear-to-r from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 border border-green-200 dark:border-green-800 rounded-xl p-4">
@@ -1333,6 +1805,29 @@ function RideDetail({
         </div>
       </div>
 
+      {/* Fare */}
+      {(ride.fareType ||
+        (isDriver &&
+          (ride.status === "accepted" || ride.status === "in_transit"))) && (
+        <RideFare
+          ride={ride}
+          passengers={passengers}
+          isDriver={isDriver}
+          actionLoading={actionLoading}
+          onSetFare={onSetFare}
+        />
+      )}
+
+      {/* Chat */}
+      {(isCreator || isDriver || isPassenger) && (
+        <RideChat
+          messages={messages}
+          userId={userId}
+          readOnly={rideEnded}
+          onSend={onSendMessage}
+        />
+      )}
+
       {/* Action buttons */}
       <div className="space-y-2 pt-2">
         {canJoin && (
@@ -1431,4 +1926,454 @@ function RideDetail({
   );
 }
 
+/**
+ * The ride's fare and each passenger's estimated share. The driver can change
+ * it until the ride ends; the split is settled when the ride completes.
+ */
+function RideFare({
+  ride,
+  passengers,
+  isDriver,
+  actionLoading,
+  onSetFare,
+}: {
+  ride: Rideshare;
+  passengers: RidesharePassenger[];
+  isDriver: boolean;
+  actionLoading: boolean;
+  onSetFare: (fare: { fareType: FareType; amount: number } | null) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [fareType, setFareType] = useState<FareType>(
+    ride.fareType ?? "total",
+  );
+  const [amount, setAmount] = useState(
+    ride.fareCents != null ? (ride.fareCents / 100).toFixed(2) : "",
+  );
+  const canEdit =
+    isDriver && (ride.status === "accepted" || ride.status === "in_transit");
+  const totalCents = fareTotalCents(ride);
+  const payers = passengers.filter((p) => p.userId !== ride.driverId).length;
+  const shares = totalCents != null ? splitFare(totalCents, payers) : [];
+  const maxAmount =
+    (fareType === "total" ? MAX_TOTAL_FARE_CENTS : MAX_PER_KM_FARE_CENTS) /
+    100;
+  const parsedAmount = parseFloat(amount);
+  const amountValid = parsedAmount > 0 && parsedAmount <= maxAmount;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 flex items-center gap-2 mb-2">
+        <DollarSign className="w-4 h-4" />
+        Fare
+      </h3>
+
+      {editing ? (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={fareType}
+              onChange={(e) => setFareType(e.target.value as FareType)}
+              className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <option value="total">Total</option>
+              <option value="per_km">Per km</option>
+            </select>
+            <input
+              type="number"
+              min="0.01"
+              max={maxAmount}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Amount"
+              className="flex-1 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={!amountValid || actionLoading}
+              onClick={() => {
+                onSetFare({ fareType, amount: parsedAmount });
+                setEditing(false);
+              }}
+              className="bg-green-600 hover:bg-green-700 text-white"
+            >
+              Save
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setEditing(false)}
+            >
+              Cancel
+            </Button>
+            {ride.fareType && (
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={actionLoading}
+                onClick={() => {
+                  onSetFare(null);
+                  setEditing(false);
+                }}
+                className="ml-auto text-red-600 dark:text-red-400"
+              >
+                Remove fare
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : totalCents != null ? (
+        <div className="space-y-1">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {ride.fareType === "per_km"
+              ? `${formatCents(ride.fareCents!)}/km · ${formatCents(totalCents)} total`
+              : `${formatCents(totalCents)} total`}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {shares.length > 0
+              ? `About ${formatCents(shares[0])} each, split between ${shares.length} passenger${shares.length !== 1 ? "s" : ""} when the ride completes`
+              : "Split between the passengers when the ride completes"}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 italic">
+          No fare set — this ride is free
+        </p>
+      )}
+
+      {canEdit && !editing && (
+        <button
+          onClick={() => {
+            setFareType(ride.fareType ?? "total");
+            setAmount(
+              ride.fareCents != null ? (ride.fareCents / 100).toFixed(2) : "",
+            );
+            setEditing(true);
+          }}
+          className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {ride.fareType ? "Change fare" : "Set a fare"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The user's fare shares from completed rides, both ways, with what they owe
+ * and are owed. Payers can pay by card; drivers can mark a share paid.
+ */
+function FareLedger({ userId }: { userId: string }) {
+  const [entries, setEntries] = useState<FareShare[]>([]);
+  const [balance, setBalance] = useState<FareBalance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [ledgerError, setLedgerError] = useState("");
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      const data = await rideshareApi.getLedger();
+      setEntries(data.entries);
+      setBalance(data.balance);
+    } catch {
+      setLedgerError("Failed to load your balance");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  const handleShareAction = async (
+    shareId: string,
+    action: () => Promise<unknown>,
+  ) => {
+    setBusyId(shareId);
+    setLedgerError("");
+    try {
+      await action();
+      await fetchLedger();
+    } catch (e) {
+      setLedgerError((e as Error).message || "Action failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-green-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {balance && (
+        <div className="grid grid-cols-3 gap-2 text-center">
+          {[
+            { label: "You owe", cents: balance.owedCents },
+            { label: "Owed to you", cents: balance.owedToYouCents },
+            { label: "Net", cents: balance.netCents },
+          ].map(({ label, cents }) => (
+            <div
+              key={label}
+              className="bg-gray-50 dark:bg-gray-800 rounded-xl px-2 py-3"
+            >
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {label}
+              </p>
+              <p
+                className={`text-lg font-bold ${
+                  label === "Net" && cents < 0
+                    ? "text-red-600 dark:text-red-400"
+                    : label === "Net" && cents > 0
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-gray-900 dark:text-white"
+                }`}
+              >
+                {formatCents(cents)}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {ledgerError && <p className="text-sm text-red-500">{ledgerError}</p>}
+
+      {entries.length === 0 ? (
+        <div className="text-center py-10 text-gray-400 dark:text-gray-500">
+          <Wallet className="w-12 h-12 mx-auto mb-3 opacity-40" />
+          <p className="font-medium">Nothing owed yet</p>
+          <p className="text-sm mt-1">
+            Fares are split here when a ride completes
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((share) => {
+            const youPay = share.payerId === userId;
+            const owed = share.status === "owed";
+            const payableByCard = share.amountCents >= MIN_CARD_PAYMENT_CENTS;
+            return (
+              <div
+                key={share.id}
+                className="px-4 py-3 bg-gray-50 dark:bg-gray-800 rounded-xl"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {share.originName} → {share.destinationName}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {youPay
+                        ? `You owe ${share.payeeName ?? "a deleted account"}`
+                        : `${share.payerName} owes you`}{" "}
+                      · {new Date(share.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-sm font-bold text-gray-900 dark:text-white">
+                      {formatCents(share.amountCents)}
+                    </p>
+                    <span
+                      className={`text-xs px-1.5 py-0.5 rounded ${
+                        owed
+                          ? "text-yellow-700 dark:text-yellow-300 bg-yellow-100 dark:bg-yellow-900/30"
+                          : "text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/30"
+                      }`}
+                    >
+                      {owed ? "Owed" : "Paid"}
+                    </span>
+                  </div>
+                </div>
+
+                {owed && (
+                  <div className="flex justify-end mt-2">
+                    {youPay && payableByCard ? (
+                      <Button
+                        size="sm"
+                        disabled={busyId === share.id}
+                        onClick={() =>
+                          handleShareAction(share.id, () =>
+                            rideshareApi.startSharePayment(share.id),
+                          )
+                        }
+                        className="bg-blue-600 hover:bg-blue-700 text-white"
+                      >
+                        {busyId === share.id ? (
+                          <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />
+                        ) : (
+                          <CreditCard className="w-4 h-4 mr-1.5" />
+                        )}
+                        Pay with card
+                      </Button>
+                    ) : youPay ? (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        Too small to pay by card – settle up with the driver
+                      </span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === share.id}
+                        onClick={() =>
+                          handleShareAction(share.id, () =>
+                            rideshareApi.markSharePaid(share.id),
+                          )
+                        }
+                      >
+                        {busyId === share.id ? (
+                          <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />
+                        ) : (
+                          <CheckCircle className="w-4 h-4 mr-1.5" />
+                        )}
+                        Mark paid
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+
+/** Group chat for a ride's participants; read-only once the ride has ended. */
+function RideChat({
+  messages,
+  userId,
+  readOnly,
+  onSend,
+}: {
+  messages: RideshareMessage[];
+  userId: string;
+  readOnly: boolean;
+  onSend: (text: string) => Promise<void>;
+}) {
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState("");
+  const threadRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const thread = threadRef.current;
+    if (thread) thread.scrollTop = thread.scrollHeight;
+  }, [messages.length]);
+
+  const handleSend = async () => {
+    const text = draft.trim();
+    if (!text) return;
+    setSending(true);
+    setSendError("");
+    try {
+      await onSend(text);
+      setDraft("");
+    } catch (e) {
+      setSendError((e as Error).message || "Failed to send message");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 flex items-center gap-2 mb-3">
+        <MessageCircle className="w-4 h-4" />
+        Ride Chat
+      </h3>
+
+      <div ref={threadRef} className="max-h-60 overflow-y-auto space-y-2 mb-3">
+        {messages.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">
+            {readOnly
+              ? "No messages were sent on this ride"
+              : "No messages yet — say hi to your fellow riders"}
+          </p>
+        ) : (
+          messages.map((m) => {
+            const mine = m.userId === userId;
+            return (
+              <div
+                key={m.id}
+                className={`flex flex-col ${mine ? "items-end" : "items-start"}`}
+              >
+                <div
+                  className={`max-w-[80%] px-3 py-2 rounded-lg text-sm whitespace-pre-line wrap-break-word ${
+                    mine
+                      ? "bg-green-600 text-white"
+                      : "bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  }`}
+                >
+                  {m.text}
+                </div>
+                <span className="text-[11px] text-gray-400 mt-0.5">
+                  {mine ? "You" : m.userName} ·{" "}
+                  {new Date(m.createdAt).toLocaleTimeString([], {
+                    hour: "numeric",
+                    minute: "2-digit",
+                  })}
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {readOnly ? (
+        <p className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+          <Lock className="w-3.5 h-3.5" />
+          This ride has ended — the chat is read-only
+        </p>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => {
+                setDraft(e.target.value);
+                setSendError("");
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSend();
+              }}
+              placeholder="Message your ride…"
+              maxLength={MAX_MESSAGE_LENGTH}
+              className="flex-1 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <Button
+              onClick={handleSend}
+              disabled={!draft.trim() || sending}
+              className="bg-green-600 hover:bg-green-700 text-white px-4"
+              aria-label="Send message"
+            >
+              {sending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4" />
+              )}
+            </Button>
+          </div>
+          {sendError && (
+            <p className="text-xs text-red-500 mt-1">{sendError}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
 export default RidesharePanel;
@@ -1,22 +1,70 @@
 import jwt, { type VerifyOptions } from "jsonwebtoken";
 import type { Request, Response, NextFunction } from "express";
-import db, { type User } from "./database";
+import db, { type CouponClaim, type User, type UserRole } from "./database";
 import crypto from "crypto";
+import { EventEmitter } from "events";
 
 interface AuthenticatedRequest extends Request {
   user?: User;
   sessionId?: string;
 }
 
+interface CouponClaimPayload {
+  claimId: string;
+  couponId: string;
+  sub: string;
+  exp: number;
+}
+
+interface StreamTokenPayload {
+  /** The session the token was issued from */
+  sid: string;
+  sub: string;
+  jti: string;
+  exp: number;
+}
+
+/** A revoked session, or every session of a user. */
+interface SessionRevocation {
+  sessionId?: string;
+  userId?: string;
+}
+
 interface JWTPayload {
   userId: string;
   email: string;
-  role: "user" | "admin";
+  role: UserRole;
   jti: string;
   iat?: number;
   exp?: number;
 }
 
+// Only needs to outlive the gap between fetching it and connecting; an open
+// stream isn't cut off when its token expires
+const STREAM_TOKEN_TTL_SECONDS = 60;
+
+// Stream tokens that have opened a stream, by jti, with their expiry (ms).
+// Kept in this process, like the rideshare event subscribers they guard.
+const usedStreamTokens = new Map<string, number>();
+
+const sessionEvents = new EventEmitter();
+// One listener per open event stream
+sessionEvents.setMaxListeners(0);
+
+/**
+ * Listen for sessions revoked by logout, logout-all or a security change, so
+ * long-lived connections can be closed. Returns a function that removes the
+ * listener.
+ */
+function onSessionRevoked(
+  listener: (revocation: SessionRevocation) => void,
+): () => void {
+  sessionEvents.on("revoked", listener);
+  return () => {
+    sessionEvents.off("revoked", listener);
+  };
+}
+
 class AuthService {
   private static get jwtSecret(): string {
     const secret = process.env.JWT_SECRET;
@@ -121,10 +169,12 @@ class AuthService {
 
   static async revokeToken(jti: string) {
     await db.revokeSession(jti);
+    sessionEvents.emit("revoked", { sessionId: jti });
   }
 
   static async revokeAllUserTokens(userId: string) {
     await db.revokeAllUserSessions(userId);
+    sessionEvents.emit("revoked", { userId });
   }
 
   static async refreshToken(refreshToken: string) {
@@ -146,6 +196,85 @@ class AuthService {
       throw new Error("Invalid refresh token");
     }
   }
+
+  /**
+   * Sign the QR payload for a point-of-sale coupon claim. It expires with
+   * the claim and uses its own audience, so it is never accepted as a
+   * session token.
+   */
+  static signCouponClaim(claim: CouponClaim): string {
+    const expiresIn = Math.max(
+      1,
+      Math.round((new Date(claim.expiresAt).getTime() - Date.now()) / 1000),
+    );
+    return jwt.sign(
+      { claimId: claim.id, couponId: claim.couponId },
+      this.jwtSecret,
+      {
+        subject: claim.userId,
+        expiresIn,
+        issuer: "proximiti-app",
+        audience: "proximiti-coupon-claims",
+      },
+    );
+  }
+
+  static verifyCouponClaim(token: string): CouponClaimPayload {
+    try {
+      return jwt.verify(token, this.jwtSecret, {
+        issuer: "proximiti-app",
+        audience: "proximiti-coupon-claims",
+      }) as CouponClaimPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new Error("Claim has expired");
+      }
+      throw new Error("Invalid claim token");
+    }
+  }
+
+  /**
+   * Sign a short-lived token for opening an event stream. EventSource can't
+   * set headers, and the session cookie is `SameSite=Strict` and missing for
+   * clients that keep their access token in storage, so streams take this as
+   * a query parameter instead.
+   *
+   * Query strings end up in access logs, so a logged token must be useless:
+   * it has its own audience (never accepted as a session token), expires in
+   * a minute and opens one stream only. An open stream is closed when its
+   * session is revoked or expires (see `onSessionRevoked`).
+   */
+  static signStreamToken(userId: string, sessionId: string): string {
+    return jwt.sign({ sid: sessionId }, this.jwtSecret, {
+      subject: userId,
+      expiresIn: STREAM_TOKEN_TTL_SECONDS,
+      jwtid: crypto.randomUUID(),
+      issuer: "proximiti-app",
+      audience: "proximiti-streams",
+    });
+  }
+
+  static async verifyStreamToken(
+    token: string,
+  ): Promise<StreamTokenPayload | null> {
+    try {
+      const payload = jwt.verify(token, this.jwtSecret, {
+        issuer: "proximiti-app",
+        audience: "proximiti-streams",
+      }) as StreamTokenPayload;
+
+      const now = Date.now();
+      for (const [jti, expiresAt] of usedStreamTokens) {
+        if (expiresAt <= now) usedStreamTokens.delete(jti);
+      }
+      if (!payload.jti || usedStreamTokens.has(payload.jti)) return null;
+      usedStreamTokens.set(payload.jti, payload.exp * 1000);
+
+      return (await db.isSessionValid(payload.sid)) ? payload : null;
+    } catch {
+      return null;
+    }
+  }
 }
 
 const extractToken = (
@@ -225,6 +354,40 @@ const authenticate = async (
   }
 };
 
+/**
+ * Like `authenticate`, but also accepts a stream token in `?token=`, for
+ * EventSource connections that can't send the access token.
+ */
+const authenticateStream = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) => {
+  const token = req.query.token;
+  if (typeof token !== "string") return authenticate(req, res, next);
+
+  try {
+    const payload = await AuthService.verifyStreamToken(token);
+    const user = payload && (await db.getUserById(parseInt(payload.sub)));
+    if (!payload || !user || !user.isVerified) {
+      return res.status(401).json({
+        error: "Authentication failed",
+        message: "Invalid or expired stream token",
+      });
+    }
+
+    req.user = user;
+    req.sessionId = payload.sid;
+    next();
+  } catch (error) {
+    console.error("Stream authentication error:", error);
+    res.status(401).json({
+      error: "Authentication failed",
+      message: "Invalid stream token",
+    });
+  }
+};
+
 const optionalAuthenticate = async (
   req: AuthenticatedRequest,
   _res: Response,
@@ -259,8 +422,24 @@ const optionalAuthenticate = async (
   }
 };
 
-const requireRole = (roles: ("user" | "admin")[]) => {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+/**
+ * Resolves the business a request acts on, or null if the resource doesn't
+ * exist. Used by requireRole to check per-resource ownership.
+ */
+type BusinessResolver = (
+  req: AuthenticatedRequest,
+) => string | null | Promise<string | null>;
+
+/**
+ * Restrict a route to `roles`. With `ownedBusiness`, business owners must
+ * also own the business the request targets; admins always pass.
+ */
+const requireRole = (roles: UserRole[], ownedBusiness?: BusinessResolver) => {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ) => {
     if (!req.user) {
       return res.status(401).json({
         error: "Authentication required",
@@ -275,12 +454,30 @@ const requireRole = (roles: ("user" | "admin")[]) => {
       });
     }
 
+    if (ownedBusiness && req.user.role === "business_owner") {
+      try {
+        const businessId = await ownedBusiness(req);
+        if (!businessId) {
+          return res.status(404).json({ error: "Resource not found" });
+        }
+        if (!(await db.isBusinessOwner(req.user.id, businessId))) {
+          return res.status(403).json({
+            error: "Insufficient permissions",
+            message: "You can only manage businesses you own",
+          });
+        }
+      } catch (error) {
+        console.error("Ownership check error:", error);
+        return res.status(500).json({ error: "Failed to check ownership" });
+      }
+    }
+
     next();
   };
 };
 
 const requireAdmin = requireRole(["admin"]);
-const requireUser = requireRole(["user", "admin"]);
+const requireUser = requireRole(["user", "business_owner", "admin"]);
 
 const createRateLimiter = (windowMs: number, max: number) => {
   const requests = new Map<string, { count: number; resetTime: number }>();
@@ -336,6 +533,7 @@ const securityHeaders = (_req: Request, res: Response, next: NextFunction) => {
 export {
   AuthService,
   authenticate,
+  authenticateStream,
   optionalAuthenticate,
   requireRole,
   requireAdmin,
@@ -343,6 +541,10 @@ export {
   extractToken,
   createRateLimiter,
   securityHeaders,
+  onSessionRevoked,
   type AuthenticatedRequest,
+  type CouponClaimPayload,
   type JWTPayload,
+  type SessionRevocation,
+  type StreamTokenPayload,
 };
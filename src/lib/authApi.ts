@@ -1,14 +1,18 @@
+export type UserRole = "user" | "business_owner" | "admin";
+
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: "user" | "admin";
+  role: UserRole;
   isVerified: boolean;
   isPremium: boolean;
   planType: "basic" | "essential" | "enterprise";
   planExpiresAt: string | null;
   stripeSubscriptionId?: string | null;
   totpEnabled?: boolean;
+  /** Set when a moderator has banned the user from posting reviews */
+  reviewBannedAt?: string | null;
   createdAt?: string;
 }
 
@@ -238,7 +242,7 @@ class AuthApiService {
 
   async updateUserRole(
     userId: string,
-    role: "user" | "admin",
+    role: UserRole,
   ): Promise<{
     message: string;
     user: User;
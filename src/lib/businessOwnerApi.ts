@@ -0,0 +1,113 @@
+import authApi from "./authApi";
+import type { Business } from "./businesses";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
+
+function authHeaders(): Record<string, string> {
+  const token = authApi.getStoredToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+export type BusinessClaimStatus = "pending" | "approved" | "rejected";
+
+export interface BusinessClaim {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  businessId: string;
+  businessName: string | null;
+  message: string;
+  status: BusinessClaimStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export async function getOwnedBusinesses(): Promise<Business[]> {
+  const response = await fetch(`${API_URL}/owner/businesses`, {
+    credentials: "include",
+    headers: { ...authHeaders() },
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch your businesses");
+  }
+  const data = await response.json();
+  return data.businesses ?? [];
+}
+
+export async function submitBusinessClaim(
+  businessId: string,
+  message: string,
+): Promise<BusinessClaim> {
+  const response = await fetch(`${API_URL}/businesses/${businessId}/claims`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders(),
+    },
+    credentials: "include",
+    body: JSON.stringify({ message }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to submit claim");
+  }
+
+  return data.claim;
+}
+
+export async function getMyBusinessClaims(): Promise<BusinessClaim[]> {
+  const response = await fetch(`${API_URL}/business-claims/mine`, {
+    credentials: "include",
+    headers: { ...authHeaders() },
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch claims");
+  }
+  const data = await response.json();
+  return data.claims ?? [];
+}
+
+export async function getBusinessClaims(
+  status?: BusinessClaimStatus,
+): Promise<BusinessClaim[]> {
+  const url = status
+    ? `${API_URL}/admin/business-claims?status=${status}`
+    : `${API_URL}/admin/business-claims`;
+
+  const response = await fetch(url, {
+    credentials: "include",
+    headers: { ...authHeaders() },
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch claims");
+  }
+  const data = await response.json();
+  return data.claims ?? [];
+}
+
+export async function reviewBusinessClaim(
+  claimId: string,
+  status: "approved" | "rejected",
+): Promise<BusinessClaim> {
+  const response = await fetch(`${API_URL}/admin/business-claims/${claimId}`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders(),
+    },
+    credentials: "include",
+    body: JSON.stringify({ status }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to review claim");
+  }
+
+  return data.claim;
+}
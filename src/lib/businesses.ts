@@ -1,9 +1,14 @@
+import type { RatingSummary } from "./ratings";
+
 export interface Business {
   id: string;
   name: string;
   category: string;
+  /** 0 when unrated. From the server, the blended score in ratingSummary */
   rating: number;
   reviewCount: number;
+  /** Set by the server on catalog and place responses */
+  ratingSummary?: RatingSummary;
   address: string;
   hours: string;
   description: string;
@@ -25,7 +30,11 @@ export const categories = [
   { id: "entertainment", name: "Entertainment", icon: "🎬" },
 ];
 
-export const businesses: Business[] = [
+/**
+ * First-party catalog bundled with the app. Seeded into the `businesses`
+ * table on first start; the server catalog is the source of truth after that.
+ */
+export const seedBusinesses: Business[] = [
   {
     id: "1",
     name: "The Green Kitchen",
@@ -228,12 +237,13 @@ export function calculateDistance(
 }
 
 export function getNearestBusinesses(
+  list: Business[],
   userLat: number,
   userLng: number,
   limit: number = 25,
 ): Business[] {
   // Calculate distance for each business and add it to the object
-  const businessesWithDistance = businesses.map((business) => ({
+  const businessesWithDistance = list.map((business) => ({
     ...business,
     distance: calculateDistance(userLat, userLng, business.lat, business.lng),
   }));
@@ -1,4 +1,19 @@
 import authApi from "./authApi";
+import {
+  describeDiscount,
+  discountTerms,
+  type DiscountDetails,
+  type DiscountType,
+} from "./discounts";
+import {
+  describeSchedule,
+  isWithinSchedule,
+  minutesUntilWindowCloses,
+  type CouponSchedule,
+} from "./couponSchedule";
+
+export type { DiscountDetails, DiscountType } from "./discounts";
+export type { CouponSchedule, ScheduleWindow } from "./couponSchedule";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
 
@@ -12,39 +27,69 @@ export interface Coupon {
   businessId: string;
   title: string;
   description: string;
-  discountType: "percentage" | "fixed";
+  discountType: DiscountType;
   discountValue: number;
+  discountDetails: DiscountDetails | null;
   couponCode: string;
   startDate: string;
   endDate: string;
+  schedule: CouponSchedule | null;
   usageLimit: number | null;
   usageCount: number;
+  perUserLimit: number | null;
   isActive: boolean;
   isPremiumOnly: boolean;
+  /** Single-use codes generated for this campaign, and how many are used */
+  codesIssued: number;
+  codesUsed: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CouponCode {
+  id: string;
+  couponId: string;
+  code: string;
+  usedBy: string | null;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+export interface CouponRedemption {
+  id: string;
+  couponId: string;
+  userId: string;
+  businessId: string;
+  redeemedAt: string;
+  coupon: Coupon;
+}
+
 export interface CreateCouponData {
   title: string;
   description: string;
-  discountType: "percentage" | "fixed";
+  discountType: DiscountType;
   discountValue: number;
+  discountDetails?: DiscountDetails | null;
   couponCode: string;
   startDate: string;
   endDate: string;
+  schedule?: CouponSchedule | null;
   usageLimit?: number;
+  perUserLimit?: number | null;
   isPremiumOnly?: boolean;
 }
 
 export interface UpdateCouponData {
   title?: string;
   description?: string;
-  discountType?: "percentage" | "fixed";
+  discountType?: DiscountType;
   discountValue?: number;
+  discountDetails?: DiscountDetails | null;
   startDate?: string;
   endDate?: string;
+  schedule?: CouponSchedule | null;
   usageLimit?: number | null;
+  perUserLimit?: number | null;
   isActive?: boolean;
   isPremiumOnly?: boolean;
 }
@@ -52,7 +97,11 @@ export interface UpdateCouponData {
 export async function getBusinessCoupons(
   businessId: string,
 ): Promise<Coupon[]> {
-  const response = await fetch(`${API_URL}/businesses/${businessId}/coupons`);
+  // Signed-in premium members get unmasked premium coupon codes
+  const response = await fetch(`${API_URL}/businesses/${businessId}/coupons`, {
+    credentials: "include",
+    headers: { ...authHeaders() },
+  });
   if (!response.ok) {
     throw new Error("Failed to fetch coupons");
   }
@@ -89,6 +138,7 @@ export async function getBatchCouponCounts(
 export async function redeemCoupon(couponCode: string): Promise<{
   message: string;
   coupon: Coupon;
+  redemption: CouponRedemption;
 }> {
   const response = await fetch(`${API_URL}/coupons/redeem`, {
     method: "POST",
@@ -109,6 +159,165 @@ export async function redeemCoupon(couponCode: string): Promise<{
   return data;
 }
 
+export interface CouponClaim {
+  claimId: string;
+  expiresAt: string;
+  /** Signed payload encoded in the QR code */
+  token: string;
+  qrCodeDataUrl: string;
+  coupon: Coupon;
+}
+
+export interface ClaimVerification {
+  message: string;
+  coupon: Coupon;
+  redemption: CouponRedemption;
+  customer: { id: string; name: string };
+}
+
+/** Start a point-of-sale redemption: returns a short-lived QR to show the merchant. */
+export async function claimCoupon(couponCode: string): Promise<CouponClaim> {
+  const response = await fetch(`${API_URL}/coupons/claim`, {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ couponCode }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to claim coupon");
+  }
+
+  return data;
+}
+
+/** Merchant side: verify a scanned claim token, redeeming the coupon. */
+export async function verifyCouponClaim(
+  token: string,
+): Promise<ClaimVerification> {
+  const response = await fetch(`${API_URL}/coupons/claims/verify`, {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ token }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to verify claim");
+  }
+
+  return data;
+}
+
+export async function getMyRedeemedCoupons(
+  businessId?: string,
+): Promise<CouponRedemption[]> {
+  const url = businessId
+    ? `${API_URL}/coupons/redeemed?businessId=${encodeURIComponent(businessId)}`
+    : `${API_URL}/coupons/redeemed`;
+
+  const response = await fetch(url, {
+    credentials: "include",
+    headers: { ...authHeaders() },
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch redeemed coupons");
+  }
+
+  const data = await response.json();
+  return data.redemptions ?? [];
+}
+
+export type AnalyticsBucket = "hour" | "day" | "week";
+
+export interface CouponFunnel {
+  views: number;
+  copies: number;
+  redemptions: number;
+  copyRate: number | null;
+  redemptionRate: number | null;
+}
+
+export interface CouponAnalytics {
+  from: string;
+  to: string;
+  bucket: AnalyticsBucket;
+  totals: CouponFunnel;
+  series: {
+    bucket: string;
+    views: number;
+    copies: number;
+    redemptions: number;
+  }[];
+  coupons: (CouponFunnel & {
+    couponId: string;
+    businessId: string;
+    title: string;
+    couponCode: string;
+  })[];
+  businesses: (CouponFunnel & {
+    businessId: string;
+    businessName: string | null;
+  })[];
+}
+
+/** Fire-and-forget: analytics must never get in the way of the deals UI. */
+export function trackCouponEvents(
+  couponIds: string[],
+  type: "view" | "copy",
+): void {
+  if (couponIds.length === 0) return;
+  fetch(`${API_URL}/coupons/events`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders(),
+    },
+    credentials: "include",
+    body: JSON.stringify({ couponIds, type }),
+    keepalive: true,
+  }).catch(() => {});
+}
+
+export async function getCouponAnalytics(
+  params: {
+    from?: string;
+    to?: string;
+    bucket?: AnalyticsBucket;
+    businessId?: string;
+    couponId?: string;
+  } = {},
+): Promise<CouponAnalytics> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) query.set(key, value);
+  }
+
+  const response = await fetch(`${API_URL}/analytics/coupons?${query}`, {
+    credentials: "include",
+    headers: { ...authHeaders() },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to fetch coupon analytics");
+  }
+
+  return data;
+}
+
 export async function getAllCoupons(businessId?: string): Promise<Coupon[]> {
   const url = businessId
     ? `${API_URL}/admin/coupons?businessId=${businessId}`
@@ -127,6 +336,83 @@ export async function getAllCoupons(businessId?: string): Promise<Coupon[]> {
   return data.coupons ?? [];
 }
 
+/** All coupons (or one business's) as a CSV file, for admins. */
+export async function exportCouponsCsv(businessId?: string): Promise<Blob> {
+  const url = businessId
+    ? `${API_URL}/admin/coupons/export?businessId=${businessId}`
+    : `${API_URL}/admin/coupons/export`;
+
+  const response = await fetch(url, {
+    credentials: "include",
+    headers: { ...authHeaders() },
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to export coupons");
+  }
+
+  return response.blob();
+}
+
+export interface CouponImportError {
+  /** Spreadsheet row number; the header is row 1 */
+  row: number;
+  couponCode?: string;
+  error: string;
+}
+
+export interface CouponImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  errors: CouponImportError[];
+}
+
+/**
+ * Validate (dryRun) or import a CSV of coupons. Row errors come back in the
+ * result rather than as a thrown error, so they can be listed.
+ */
+export async function importCouponsCsv(
+  csv: string,
+  dryRun: boolean,
+): Promise<CouponImportResult> {
+  const response = await fetch(`${API_URL}/admin/coupons/import`, {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ csv, dryRun }),
+  });
+
+  const data = await response.json();
+  if (!response.ok && !Array.isArray(data.errors)) {
+    throw new Error(data.error || "Failed to import coupons");
+  }
+  return data;
+}
+
+/** Coupons for the businesses the signed-in owner manages. */
+export async function getOwnerCoupons(businessId?: string): Promise<Coupon[]> {
+  const url = businessId
+    ? `${API_URL}/owner/coupons?businessId=${businessId}`
+    : `${API_URL}/owner/coupons`;
+
+  const response = await fetch(url, {
+    credentials: "include",
+    headers: { ...authHeaders() },
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch coupons");
+  }
+
+  const data = await response.json();
+  return data.coupons ?? [];
+}
+
 export async function createCoupon(
   businessId: string,
   couponData: CreateCouponData,
@@ -186,12 +472,54 @@ export async function deleteCoupon(couponId: string): Promise<void> {
   }
 }
 
-export function formatDiscount(coupon: Coupon): string {
-  if (coupon.discountType === "percentage") {
-    return `${coupon.discountValue}% OFF`;
-  } else {
-    return `$${coupon.discountValue.toFixed(2)} OFF`;
+/** Generate a batch of single-use codes for a coupon (admin or owner). */
+export async function generateCouponCodes(
+  couponId: string,
+  count: number,
+): Promise<{ codes: string[]; coupon: Coupon }> {
+  const response = await fetch(`${API_URL}/coupons/${couponId}/codes`, {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ count }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to generate codes");
+  }
+  return data;
+}
+
+export async function getCouponCodes(couponId: string): Promise<CouponCode[]> {
+  const response = await fetch(`${API_URL}/coupons/${couponId}/codes`, {
+    credentials: "include",
+    headers: { ...authHeaders() },
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch codes");
   }
+
+  const data = await response.json();
+  return data.codes ?? [];
+}
+
+export function formatDiscount(coupon: Coupon): string {
+  return describeDiscount(coupon);
+}
+
+/** Conditions such as a minimum spend, or null if there are none. */
+export function formatDiscountTerms(coupon: Coupon): string | null {
+  return discountTerms(coupon);
+}
+
+/** When a recurring coupon can be used, e.g. "Mon–Fri 3pm–6pm". */
+export function formatSchedule(coupon: Coupon): string | null {
+  return coupon.schedule ? describeSchedule(coupon.schedule) : null;
 }
 
 export function isCouponExpired(coupon: Coupon): boolean {
@@ -207,15 +535,23 @@ export function isCouponValid(coupon: Coupon): boolean {
     coupon.isActive &&
     now >= start &&
     now <= end &&
+    (!coupon.schedule || isWithinSchedule(coupon.schedule, now)) &&
     (coupon.usageLimit === null || coupon.usageCount < coupon.usageLimit)
   );
 }
 
+/**
+ * True when the coupon ends within two days, or – for scheduled coupons –
+ * when the current window (say, happy hour) closes within the hour.
+ */
 export function isExpiringSoon(coupon: Coupon): boolean {
   const end = new Date(coupon.endDate);
   const now = new Date();
   const hoursRemaining = (end.getTime() - now.getTime()) / (1000 * 60 * 60);
-  return hoursRemaining > 0 && hoursRemaining <= 48;
+  if (hoursRemaining > 0 && hoursRemaining <= 48) return true;
+  if (!coupon.schedule || hoursRemaining <= 0) return false;
+  const minutesLeft = minutesUntilWindowCloses(coupon.schedule, now);
+  return minutesLeft !== null && minutesLeft <= 60;
 }
 
 export function formatCouponDate(dateString: string): string {
@@ -0,0 +1,181 @@
+/**
+ * Recurring validity windows for coupons, e.g. happy hour Mon–Fri 3–6pm.
+ * Shared by the API (validation, redemption) and the client (rendering).
+ *
+ * Windows are read as wall-clock times in the schedule's IANA time zone, so a
+ * business's hours don't shift with the viewer's (or the server's) zone. A
+ * window whose end is not after its start runs past midnight, and belongs to
+ * the day it starts on.
+ */
+
+export interface ScheduleWindow {
+  /** 0 = Sunday … 6 = Saturday, as with Date#getDay */
+  days: number[];
+  /** "HH:MM", 24-hour */
+  start: string;
+  end: string;
+}
+
+export interface CouponSchedule {
+  /** e.g. "America/New_York" */
+  timeZone: string;
+  windows: ScheduleWindow[];
+}
+
+const MAX_WINDOWS = 7;
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const toMinutes = (time: string) =>
+  parseInt(time.slice(0, 2)) * 60 + parseInt(time.slice(3, 5));
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a schedule and return it in canonical form (days sorted and
+ * deduplicated, unknown keys dropped), or null for "any time". Throws with a
+ * user-facing message when it is invalid.
+ */
+export function normalizeSchedule(schedule: unknown): CouponSchedule | null {
+  if (schedule === undefined || schedule === null) return null;
+  if (typeof schedule !== "object" || Array.isArray(schedule)) {
+    throw new Error("Schedule must be an object");
+  }
+  const s = schedule as Record<string, unknown>;
+  if (!isValidTimeZone(s.timeZone)) {
+    throw new Error("Schedule needs a valid time zone");
+  }
+  if (
+    !Array.isArray(s.windows) ||
+    s.windows.length === 0 ||
+    s.windows.length > MAX_WINDOWS
+  ) {
+    throw new Error(`Schedules need 1-${MAX_WINDOWS} time windows`);
+  }
+
+  const windows = (s.windows as Record<string, unknown>[]).map((w) => {
+    const days = Array.isArray(w?.days) ? w.days : [];
+    if (
+      days.length === 0 ||
+      !days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+    ) {
+      throw new Error("Each time window needs at least one day of the week");
+    }
+    if (
+      typeof w.start !== "string" ||
+      typeof w.end !== "string" ||
+      !TIME_PATTERN.test(w.start) ||
+      !TIME_PATTERN.test(w.end)
+    ) {
+      throw new Error("Window times must be HH:MM");
+    }
+    if (w.start === w.end) {
+      throw new Error("A time window cannot start and end at the same time");
+    }
+    return {
+      days: [...new Set(days as number[])].sort((a, b) => a - b),
+      start: w.start,
+      end: w.end,
+    };
+  });
+
+  return { timeZone: s.timeZone, windows };
+}
+
+/** Day of week and minutes past midnight of `date` in `timeZone`. */
+function localTime(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    day: WEEKDAYS.indexOf(part("weekday")),
+    minutes: parseInt(part("hour")) * 60 + parseInt(part("minute")),
+  };
+}
+
+/**
+ * Minutes until the window open at `date` closes, or null if none is open.
+ * If several overlap, the one that stays open longest wins.
+ */
+export function minutesUntilWindowCloses(
+  schedule: CouponSchedule,
+  date = new Date(),
+): number | null {
+  const { day, minutes } = localTime(date, schedule.timeZone);
+  const yesterday = (day + 6) % 7;
+  let remaining: number | null = null;
+
+  for (const window of schedule.windows) {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    const open =
+      start < end
+        ? window.days.includes(day) && minutes >= start && minutes < end
+        : (window.days.includes(day) && minutes >= start) ||
+          (window.days.includes(yesterday) && minutes < end);
+    if (open) {
+      const left = (end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+      remaining = Math.max(remaining ?? 0, left);
+    }
+  }
+  return remaining;
+}
+
+export function isWithinSchedule(
+  schedule: CouponSchedule,
+  date = new Date(),
+): boolean {
+  return minutesUntilWindowCloses(schedule, date) !== null;
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const suffix = hours < 12 ? "am" : "pm";
+  const hour = hours % 12 || 12;
+  return minutes === 0
+    ? `${hour}${suffix}`
+    : `${hour}:${String(minutes).padStart(2, "0")}${suffix}`;
+}
+
+/** "Mon–Fri", "Sat, Sun"-style ranges, with the week starting on Monday. */
+function formatDays(days: number[]): string {
+  if (days.length === 7) return "Daily";
+  const ordered = [1, 2, 3, 4, 5, 6, 0].filter((d) => days.includes(d));
+  const runs: number[][] = [];
+  for (const day of ordered) {
+    const run = runs[runs.length - 1];
+    if (run && (run[run.length - 1] + 1) % 7 === day) run.push(day);
+    else runs.push([day]);
+  }
+  return runs
+    .map((run) =>
+      run.length > 2
+        ? `${WEEKDAYS[run[0]]}–${WEEKDAYS[run[run.length - 1]]}`
+        : run.map((d) => WEEKDAYS[d]).join(", "),
+    )
+    .join(", ");
+}
+
+/** Human-readable windows, e.g. "Mon–Fri 3pm–6pm". */
+export function describeSchedule(schedule: CouponSchedule): string {
+  return schedule.windows
+    .map(
+      (w) => `${formatDays(w.days)} ${formatTime(w.start)}–${formatTime(w.end)}`,
+    )
+    .join(" · ");
+}
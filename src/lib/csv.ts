@@ -0,0 +1,98 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing – quoted fields, escaped quotes
+ * and newlines inside quotes. Shared by coupon import/export on both sides.
+ */
+
+// Spreadsheets run cells starting with these as formulas, so exported text
+// starting with one gets a leading ' (dropped again on import)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Parse CSV text into rows of fields. Blank lines are skipped. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  // Strip a UTF-8 byte order mark, which spreadsheet exports often add
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new Error("Unterminated quoted field");
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Parse CSV with a header row into objects keyed by column name, along with
+ * each record's 1-based row number (the header is row 1), as a spreadsheet
+ * would show it.
+ */
+export function parseCsvRecords(
+  text: string,
+): { row: number; record: Record<string, string> }[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((h) => h.trim());
+  return rows.map((fields, i) => ({
+    row: i + 2,
+    record: Object.fromEntries(
+      columns.map((column, j) => [column, unescapeFormula(fields[j] ?? "")]),
+    ),
+  }));
+}
+
+function unescapeFormula(field: string): string {
+  return field.startsWith("'") && FORMULA_PREFIX.test(field.slice(1))
+    ? field.slice(1)
+    : field;
+}
+
+function escapeField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (typeof value !== "number" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Serialize objects to CSV with the given columns; objects become JSON. */
+export function toCsv<T extends object>(
+  columns: (keyof T & string)[],
+  rows: T[],
+): string {
+  const lines = [
+    columns.join(","),
+    ...rows.map((row) => columns.map((c) => escapeField(row[c])).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
@@ -1,12 +1,33 @@
-import { createClient, type Client } from "@libsql/client";
+import { createClient, type Client, type InStatement } from "@libsql/client";
 import bcrypt from "bcrypt";
+import crypto from "crypto";
+import { seedBusinesses } from "./businesses";
+import {
+  normalizeDiscount,
+  type DiscountDetails,
+  type DiscountType,
+} from "./discounts";
+import {
+  isWithinSchedule,
+  normalizeSchedule,
+  type CouponSchedule,
+} from "./couponSchedule";
+import {
+  aggregateRating,
+  emptyDistribution,
+  type RatingDistribution,
+} from "./ratings";
+import type { SpamAssessment, SpamReason, SpamSignals } from "./reviewSpam";
+import { fareTotalCents, splitFare, type FareType } from "./rideFares";
+
+export type UserRole = "user" | "business_owner" | "admin";
 
 export interface User {
   id: string;
   email: string;
   name: string;
   googleId?: string;
-  role: "user" | "admin";
+  role: UserRole;
   hashedPassword?: string;
   isVerified: boolean;
   isPremium: boolean;
@@ -15,10 +36,59 @@ export interface User {
   stripeSubscriptionId?: string | null;
   totpSecret?: string | null;
   totpEnabled: boolean;
+  /** Set when a moderator has banned the user from posting reviews */
+  reviewBannedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BusinessSource = "proximiti" | "google" | "osm";
+
+export interface Business {
+  id: string;
+  name: string;
+  category: string;
+  /** The provider's (or seed data's) rating, before first-party reviews */
+  rating: number;
+  reviewCount: number;
+  address: string;
+  hours: string;
+  description: string;
+  image: string;
+  lat: number;
+  lng: number;
+  phone: string;
+  priceLevel: string;
+  website?: string;
+  source: BusinessSource;
   createdAt: string;
   updatedAt: string;
 }
 
+export type BusinessInput = Omit<
+  Business,
+  "id" | "source" | "createdAt" | "updatedAt"
+>;
+
+export interface BusinessFilter {
+  category?: string;
+  query?: string;
+  bbox?: { minLat: number; minLng: number; maxLat: number; maxLng: number };
+  limit?: number;
+  offset?: number;
+}
+
+export interface PlaceCacheEntry {
+  key: string;
+  kind: string;
+  provider: string | null;
+  hits: number;
+  sizeBytes: number;
+  cachedAt: string;
+  ageSeconds: number;
+  payload?: string;
+}
+
 export interface Review {
   id: string;
   businessId: string;
@@ -30,6 +100,110 @@ export interface Review {
   helpfulCount: number;
   userFoundHelpful?: boolean;
   createdAt: string;
+  /** Set when the author last edited the review */
+  updatedAt: string | null;
+  /** Set while a moderator has hidden the review from public listings */
+  hiddenAt: string | null;
+  /** The business's public reply, if an owner has posted one */
+  reply: ReviewReply | null;
+  photos: ReviewPhoto[];
+}
+
+export interface ReviewPhoto {
+  id: string;
+  reviewId: string;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+/** Where a processed photo was stored, as recorded alongside the review. */
+export interface ReviewPhotoInput {
+  imageKey: string;
+  thumbnailKey: string;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface ReviewReply {
+  id: string;
+  text: string;
+  createdAt: string;
+  updatedAt: string | null;
+  /** When the reviewer saw the reply (or its latest edit); null if unread */
+  readAt: string | null;
+}
+
+export type ReviewReportReason =
+  | "spam"
+  | "offensive"
+  | "off_topic"
+  | "fake"
+  | "other";
+
+export const REVIEW_REPORT_REASONS: ReviewReportReason[] = [
+  "spam",
+  "offensive",
+  "off_topic",
+  "fake",
+  "other",
+];
+
+export type ReviewSort = "helpful" | "newest" | "highest" | "lowest";
+
+export const REVIEW_SORTS: ReviewSort[] = [
+  "helpful",
+  "newest",
+  "highest",
+  "lowest",
+];
+
+export interface ReviewFilter {
+  sort?: ReviewSort;
+  /** Only reviews with exactly this many stars */
+  stars?: number;
+}
+
+export interface ReviewReport {
+  id: string;
+  reviewId: string;
+  userId: string;
+  userName: string;
+  reason: ReviewReportReason;
+  details: string | null;
+  /** How a moderator closed the report; null while it is open */
+  resolution: "hidden" | "dismissed" | "banned" | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+/** A reported or hidden review with its reports, for the moderation queue. */
+export interface ModerationItem {
+  review: Review;
+  reports: ReviewReport[];
+  openReports: number;
+  authorBanned: boolean;
+  /** The spam check run when the review was posted */
+  spam: { score: number; reasons: SpamReason[]; flagged: boolean } | null;
+}
+
+export type ModerationAction = "hide" | "restore" | "dismiss" | "ban";
+
+/** A previous version of a review, kept when its author edits it. */
+export interface ReviewRevision {
+  id: string;
+  reviewId: string;
+  rating: number;
+  text: string;
+  /** When this version was posted */
+  writtenAt: string;
+  /** When it was replaced by an edit */
+  replacedAt: string;
 }
 
 export type RideshareStatus =
@@ -56,6 +230,11 @@ export interface Rideshare {
   status: RideshareStatus;
   note: string | null;
   shareCode: string;
+  /** When the ride leaves (ISO 8601); null for rides leaving right away */
+  departureAt: string | null;
+  /** Set by the driver; cents in total or per km depending on the type */
+  fareType: FareType | null;
+  fareCents: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -68,24 +247,225 @@ export interface RidesharePassenger {
   joinedAt: string;
 }
 
+export type FareShareStatus = "owed" | "paid";
+
+/**
+ * One passenger's part of a completed ride's fare, owed to the driver. Keeps
+ * the route names since old rides are deleted after a day.
+ */
+export interface FareShare {
+  id: string;
+  rideshareId: string | null;
+  originName: string;
+  destinationName: string;
+  payerId: string;
+  payerName: string;
+  /** The driver; null if their account has been deleted */
+  payeeId: string | null;
+  payeeName: string | null;
+  amountCents: number;
+  status: FareShareStatus;
+  paidAt: string | null;
+  createdAt: string;
+}
+
+export interface FareBalance {
+  /** Unpaid shares the user owes */
+  owedCents: number;
+  /** Unpaid shares owed to the user */
+  owedToYouCents: number;
+  /** owedToYouCents minus owedCents */
+  netCents: number;
+}
+
+export interface RideshareMessage {
+  id: string;
+  rideshareId: string;
+  userId: string;
+  userName: string;
+  text: string;
+  createdAt: string;
+}
+
 export interface Coupon {
   id: string;
   businessId: string;
   title: string;
   description: string;
-  discountType: "percentage" | "fixed";
+  discountType: DiscountType;
   discountValue: number;
+  /** Structured parameters for the richer discount types */
+  discountDetails: DiscountDetails | null;
   couponCode: string;
   startDate: string;
   endDate: string;
+  /** Recurring windows within the date range; null means any time */
+  schedule: CouponSchedule | null;
   usageLimit: number | null;
   usageCount: number;
+  /** Redemptions allowed per user; null means unlimited */
+  perUserLimit: number | null;
   isActive: boolean;
   isPremiumOnly: boolean;
+  /**
+   * Single-use codes generated for this campaign, and how many are used.
+   * Once any are issued, the shared couponCode no longer redeems on its own.
+   */
+  codesIssued: number;
+  codesUsed: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CouponCode {
+  id: string;
+  couponId: string;
+  code: string;
+  usedBy: string | null;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+/** Fields for creating a coupon; usage and timestamps start fresh. */
+export interface CouponInput {
+  businessId: string;
+  title: string;
+  description: string;
+  discountType: DiscountType;
+  discountValue: number;
+  discountDetails?: DiscountDetails | null;
+  couponCode: string;
+  startDate: Date;
+  endDate: Date;
+  schedule?: CouponSchedule | null;
+  usageLimit?: number;
+  perUserLimit?: number | null;
+  isPremiumOnly?: boolean;
+}
+
+export type BusinessClaimStatus = "pending" | "approved" | "rejected";
+
+/** A user's request to be verified as the owner of a business. */
+export interface BusinessClaim {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  businessId: string;
+  businessName: string;
+  message: string;
+  status: BusinessClaimStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface CouponClaim {
+  id: string;
+  couponId: string;
+  userId: string;
+  expiresAt: string;
+  usedAt: string | null;
+  verifiedBy: string | null;
+  /** The single-use code the claim was made with, if any */
+  codeId: string | null;
+  createdAt: string;
+}
+
+export interface CouponRedemption {
+  id: string;
+  couponId: string;
+  userId: string;
+  businessId: string;
+  redeemedAt: string;
+  coupon: Coupon;
+}
+
+export type CouponEventType = "view" | "copy";
+export type AnalyticsBucket = "hour" | "day" | "week";
+
+export interface CouponFunnel {
+  views: number;
+  copies: number;
+  redemptions: number;
+  /** copies / views, or null before the first view */
+  copyRate: number | null;
+  /** redemptions / views, or null before the first view */
+  redemptionRate: number | null;
+}
+
+export interface CouponAnalyticsPoint {
+  bucket: string;
+  views: number;
+  copies: number;
+  redemptions: number;
+}
+
+export interface CouponAnalytics {
+  from: string;
+  to: string;
+  bucket: AnalyticsBucket;
+  totals: CouponFunnel;
+  series: CouponAnalyticsPoint[];
+  coupons: (CouponFunnel & {
+    couponId: string;
+    businessId: string;
+    title: string;
+    couponCode: string;
+  })[];
+  businesses: (CouponFunnel & {
+    businessId: string;
+    businessName: string | null;
+  })[];
+}
+
+// SQLite expressions grouping a UTC timestamp column into a bucket label
+const BUCKET_SQL: Record<AnalyticsBucket, (col: string) => string> = {
+  hour: (col) => `strftime('%Y-%m-%d %H:00', ${col})`,
+  day: (col) => `date(${col})`,
+  // Monday of the timestamp's week
+  week: (col) => `date(${col}, '-6 days', 'weekday 1')`,
+};
+
+function toFunnel(row: Record<string, unknown>): CouponFunnel {
+  const views = toNum(row.views);
+  const copies = toNum(row.copies);
+  const redemptions = toNum(row.redemptions);
+  return {
+    views,
+    copies,
+    redemptions,
+    copyRate: views > 0 ? copies / views : null,
+    redemptionRate: views > 0 ? redemptions / views : null,
+  };
+}
+
+/** Every bucket label between two dates, so quiet periods chart as zero. */
+function bucketLabels(
+  from: Date,
+  to: Date,
+  bucket: AnalyticsBucket,
+): string[] {
+  const start = new Date(from);
+  start.setUTCMinutes(0, 0, 0);
+  if (bucket !== "hour") start.setUTCHours(0);
+  if (bucket === "week") {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  const stepMs = { hour: 1, day: 24, week: 7 * 24 }[bucket] * 60 * 60 * 1000;
+
+  const labels: string[] = [];
+  for (let t = start.getTime(); t < to.getTime(); t += stepMs) {
+    const iso = new Date(t).toISOString();
+    labels.push(
+      bucket === "hour"
+        ? `${iso.slice(0, 10)} ${iso.slice(11, 13)}:00`
+        : iso.slice(0, 10),
+    );
+  }
+  return labels;
+}
+
 function toBool(v: unknown): boolean {
   return v === 1 || v === 1n || v === true || v === "1";
 }
@@ -100,7 +480,7 @@ function mapUser(row: Record<string, unknown>): User {
     email: row.email as string,
     name: row.name as string,
     googleId: row.googleId as string | undefined,
-    role: row.role as "user" | "admin",
+    role: row.role as UserRole,
     hashedPassword: row.hashedPassword as string | undefined,
     isVerified: toBool(row.isVerified),
     isPremium: toBool(row.isPremium),
@@ -112,31 +492,234 @@ function mapUser(row: Record<string, unknown>): User {
     stripeSubscriptionId: (row.stripeSubscriptionId as string | null) ?? null,
     totpSecret: (row.totpSecret as string | null) ?? null,
     totpEnabled: toBool(row.totpEnabled),
+    reviewBannedAt: (row.reviewBannedAt as string | null) ?? null,
     createdAt: row.createdAt as string,
     updatedAt: row.updatedAt as string,
   };
 }
 
+const REVIEW_COLUMNS = `r.id, r.business_id, r.user_id, u.name as user_name,
+  u.email as user_email, r.rating, r.text, r.helpful_count, r.created_at,
+  r.updated_at, r.hidden_at, rp.id as reply_id, rp.text as reply_text,
+  rp.created_at as reply_created_at, rp.updated_at as reply_updated_at,
+  rp.read_at as reply_read_at`;
+
+const REVIEW_TABLES = `reviews r JOIN users u ON u.id = r.user_id
+  LEFT JOIN review_replies rp ON rp.review_id = r.id`;
+
+// The id tie-break keeps pages stable among reviews written the same second
+const REVIEW_ORDER: Record<ReviewSort, string> = {
+  // Votes on flagged reviews don't count until a moderator clears them
+  helpful: `CASE WHEN r.flagged_at IS NULL THEN r.helpful_count ELSE 0 END DESC,
+    r.created_at DESC, r.id DESC`,
+  newest: "r.created_at DESC, r.id DESC",
+  highest: "r.rating DESC, r.created_at DESC, r.id DESC",
+  lowest: "r.rating ASC, r.created_at DESC, r.id DESC",
+};
+
+function mapReview(
+  row: Record<string, unknown>,
+  userFoundHelpful: boolean,
+): Review {
+  return {
+    id: String(row.id),
+    businessId: row.business_id as string,
+    userId: String(row.user_id),
+    userName: row.user_name as string,
+    userEmail: row.user_email as string,
+    rating: toNum(row.rating),
+    text: row.text as string,
+    helpfulCount: toNum(row.helpful_count),
+    userFoundHelpful,
+    createdAt: row.created_at as string,
+    updatedAt: (row.updated_at as string | null) ?? null,
+    hiddenAt: (row.hidden_at as string | null) ?? null,
+    reply:
+      row.reply_id != null
+        ? {
+            id: String(row.reply_id),
+            text: row.reply_text as string,
+            createdAt: row.reply_created_at as string,
+            updatedAt: (row.reply_updated_at as string | null) ?? null,
+            readAt: (row.reply_read_at as string | null) ?? null,
+          }
+        : null,
+    photos: [],
+  };
+}
+
+function mapReviewPhoto(row: Record<string, unknown>): ReviewPhoto {
+  return {
+    id: String(row.id),
+    reviewId: String(row.review_id),
+    url: row.url as string,
+    thumbnailUrl: row.thumbnail_url as string,
+    width: toNum(row.width),
+    height: toNum(row.height),
+    createdAt: row.created_at as string,
+  };
+}
+
 function mapCoupon(row: Record<string, unknown>): Coupon {
   return {
     id: String(row.id),
     businessId: row.businessId as string,
     title: row.title as string,
     description: row.description as string,
-    discountType: row.discountType as "percentage" | "fixed",
+    discountType: row.discountType as DiscountType,
     discountValue: toNum(row.discountValue),
+    discountDetails: row.discountDetails
+      ? (JSON.parse(row.discountDetails as string) as DiscountDetails)
+      : null,
     couponCode: row.couponCode as string,
     startDate: row.startDate as string,
     endDate: row.endDate as string,
+    schedule: row.schedule
+      ? (JSON.parse(row.schedule as string) as CouponSchedule)
+      : null,
     usageLimit: row.usageLimit != null ? toNum(row.usageLimit) : null,
     usageCount: toNum(row.usageCount),
+    perUserLimit: row.perUserLimit != null ? toNum(row.perUserLimit) : null,
     isActive: toBool(row.isActive),
     isPremiumOnly: toBool(row.isPremiumOnly),
+    codesIssued: toNum(row.codesIssued),
+    codesUsed: toNum(row.codesUsed),
     createdAt: row.createdAt as string,
     updatedAt: row.updatedAt as string,
   };
 }
 
+function mapBusinessClaim(row: Record<string, unknown>): BusinessClaim {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    userName: (row.user_name as string) ?? "",
+    userEmail: (row.user_email as string) ?? "",
+    businessId: row.business_id as string,
+    businessName: (row.business_name as string) ?? (row.business_id as string),
+    message: (row.message as string) ?? "",
+    status: row.status as BusinessClaimStatus,
+    reviewedBy: row.reviewed_by != null ? String(row.reviewed_by) : null,
+    reviewedAt: (row.reviewed_at as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function mapCouponClaim(row: Record<string, unknown>): CouponClaim {
+  return {
+    id: row.id as string,
+    couponId: String(row.coupon_id),
+    userId: String(row.user_id),
+    expiresAt: row.expires_at as string,
+    usedAt: (row.used_at as string | null) ?? null,
+    verifiedBy: row.verified_by != null ? String(row.verified_by) : null,
+    codeId: row.code_id != null ? String(row.code_id) : null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function mapCouponCode(row: Record<string, unknown>): CouponCode {
+  return {
+    id: String(row.id),
+    couponId: String(row.coupon_id),
+    code: row.code as string,
+    usedBy: row.used_by != null ? String(row.used_by) : null,
+    usedAt: (row.used_at as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+// Single-use code suffixes skip look-alike characters (0/O, 1/I/L)
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_SUFFIX_LENGTH = 8;
+const CODE_INSERT_CHUNK = 200;
+const MAX_CODES_PER_COUPON = 10000;
+
+// Column list for coupon queries, aliased to match mapCoupon
+const COUPON_COLUMNS = `id, business_id as businessId, title, description,
+  discount_type as discountType, discount_value as discountValue,
+  discount_details as discountDetails,
+  coupon_code as couponCode, start_date as startDate, end_date as endDate,
+  schedule,
+  usage_limit as usageLimit, usage_count as usageCount,
+  per_user_limit as perUserLimit, is_active as isActive,
+  is_premium_only as isPremiumOnly,
+  (SELECT COUNT(*) FROM coupon_codes cc
+   WHERE cc.coupon_id = coupons.id) as codesIssued,
+  (SELECT COUNT(*) FROM coupon_codes cc
+   WHERE cc.coupon_id = coupons.id AND cc.used_at IS NOT NULL) as codesUsed,
+  created_at as createdAt, updated_at as updatedAt`;
+
+// Tables that migrations may rebuild take their name as a parameter
+const usersTableSql = (name: string) => `
+  CREATE TABLE IF NOT EXISTS ${name} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    email TEXT UNIQUE NOT NULL,
+    name TEXT NOT NULL,
+    google_id TEXT UNIQUE,
+    role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'business_owner', 'admin')),
+    hashed_password TEXT,
+    is_verified BOOLEAN DEFAULT FALSE,
+    is_premium BOOLEAN DEFAULT 0,
+    plan_type TEXT DEFAULT 'basic',
+    plan_expires_at DATETIME DEFAULT NULL,
+    stripe_subscription_id TEXT DEFAULT NULL,
+    totp_secret TEXT DEFAULT NULL,
+    totp_enabled BOOLEAN DEFAULT 0,
+    review_banned_at DATETIME DEFAULT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+const couponsTableSql = (name: string) => `
+  CREATE TABLE IF NOT EXISTS ${name} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    business_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'bogo', 'free_item', 'min_spend', 'tiered')),
+    discount_value REAL NOT NULL CHECK (discount_value > 0),
+    discount_details TEXT DEFAULT NULL,
+    coupon_code TEXT NOT NULL UNIQUE,
+    start_date DATETIME NOT NULL,
+    end_date DATETIME NOT NULL,
+    schedule TEXT DEFAULT NULL,
+    usage_limit INTEGER,
+    usage_count INTEGER DEFAULT 0,
+    per_user_limit INTEGER DEFAULT 1,
+    is_active BOOLEAN DEFAULT 1,
+    is_premium_only BOOLEAN DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+function mapBusiness(row: Record<string, unknown>): Business {
+  return {
+    id: String(row.id),
+    name: row.name as string,
+    category: row.category as string,
+    rating: toNum(row.rating),
+    reviewCount: toNum(row.review_count),
+    address: (row.address as string) ?? "",
+    hours: (row.hours as string) ?? "",
+    description: (row.description as string) ?? "",
+    image: (row.image as string) ?? "",
+    lat: toNum(row.lat),
+    lng: toNum(row.lng),
+    phone: (row.phone as string) ?? "",
+    priceLevel: (row.price_level as string) || "$$",
+    website: (row.website as string | null) ?? undefined,
+    source: row.source as BusinessSource,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+// How long an ended ride with a chat is kept so its thread can be re-read
+const RIDESHARE_CHAT_ARCHIVE_DAYS = 30;
+
 function mapRideshareRow(row: Record<string, unknown>): Rideshare {
   return {
     id: String(row.id),
@@ -155,11 +738,44 @@ function mapRideshareRow(row: Record<string, unknown>): Rideshare {
     status: row.status as RideshareStatus,
     note: (row.note as string) ?? null,
     shareCode: (row.share_code as string) ?? "",
+    departureAt: (row.departure_at as string | null) ?? null,
+    fareType: (row.fare_type as FareType | null) ?? null,
+    fareCents: row.fare_cents != null ? toNum(row.fare_cents) : null,
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
   };
 }
 
+function mapFareShareRow(row: Record<string, unknown>): FareShare {
+  return {
+    id: String(row.id),
+    rideshareId: row.rideshare_id != null ? String(row.rideshare_id) : null,
+    originName: row.origin_name as string,
+    destinationName: row.destination_name as string,
+    payerId: String(row.payer_id),
+    payerName: row.payer_name as string,
+    payeeId: row.payee_id != null ? String(row.payee_id) : null,
+    payeeName: (row.payee_name as string) ?? null,
+    amountCents: toNum(row.amount_cents),
+    status: row.status as FareShareStatus,
+    paidAt: (row.paid_at as string) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function mapRideshareMessageRow(
+  row: Record<string, unknown>,
+): RideshareMessage {
+  return {
+    id: String(row.id),
+    rideshareId: String(row.rideshare_id),
+    userId: String(row.user_id),
+    userName: row.user_name as string,
+    text: row.text as string,
+    createdAt: row.created_at as string,
+  };
+}
+
 class DatabaseManager {
   private client: Client;
   private initialized = false;
@@ -189,26 +805,11 @@ class DatabaseManager {
 
   private async initializeTables(): Promise<void> {
     await this.client.execute("PRAGMA foreign_keys = ON");
+    // Wait for locks held by other connections (scripts, other processes)
+    // instead of failing straight away with SQLITE_BUSY
+    await this.client.execute("PRAGMA busy_timeout = 5000");
 
-    await this.exec(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        email TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        google_id TEXT UNIQUE,
-        role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin')),
-        hashed_password TEXT,
-        is_verified BOOLEAN DEFAULT FALSE,
-        is_premium BOOLEAN DEFAULT 0,
-        plan_type TEXT DEFAULT 'basic',
-        plan_expires_at DATETIME DEFAULT NULL,
-        stripe_subscription_id TEXT DEFAULT NULL,
-        totp_secret TEXT DEFAULT NULL,
-        totp_enabled BOOLEAN DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
+    await this.exec(usersTableSql("users"));
 
     // Migrate: add TOTP columns if they don't exist yet (for existing databases)
     try {
@@ -225,6 +826,14 @@ class DatabaseManager {
     } catch {
       /* already exists */
     }
+    try {
+      await this.client.execute(
+        "ALTER TABLE users ADD COLUMN review_banned_at DATETIME DEFAULT NULL",
+      );
+    } catch {
+      /* already exists */
+    }
+    await this.rebuildTable("users", "business_owner", usersTableSql);
 
     await this.exec(`
       CREATE TABLE IF NOT EXISTS sessions (
@@ -246,11 +855,106 @@ class DatabaseManager {
         text TEXT NOT NULL,
         helpful_count INTEGER DEFAULT 0,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT NULL,
+        hidden_at DATETIME DEFAULT NULL,
+        spam_score REAL DEFAULT NULL,
+        spam_reasons TEXT DEFAULT NULL,
+        flagged_at DATETIME DEFAULT NULL,
         FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
         UNIQUE (business_id, user_id)
       )
     `);
 
+    // Migrate: edit and moderation timestamps (for existing databases)
+    try {
+      await this.client.execute(
+        "ALTER TABLE reviews ADD COLUMN updated_at DATETIME DEFAULT NULL",
+      );
+    } catch {
+      /* already exists */
+    }
+    try {
+      await this.client.execute(
+        "ALTER TABLE reviews ADD COLUMN hidden_at DATETIME DEFAULT NULL",
+      );
+    } catch {
+      /* already exists */
+    }
+    // Migrate: spam scoring. flagged_at is cleared once a moderator acts
+    for (const column of [
+      "spam_score REAL DEFAULT NULL",
+      "spam_reasons TEXT DEFAULT NULL",
+      "flagged_at DATETIME DEFAULT NULL",
+    ]) {
+      try {
+        await this.client.execute(`ALTER TABLE reviews ADD COLUMN ${column}`);
+      } catch {
+        /* already exists */
+      }
+    }
+
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS review_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        review_id INTEGER NOT NULL,
+        rating INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        written_at DATETIME NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (review_id) REFERENCES reviews (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Keys locate the files in storage (for deletion); URLs are what clients load
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS review_photos (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        review_id INTEGER NOT NULL,
+        image_key TEXT NOT NULL,
+        thumbnail_key TEXT NOT NULL,
+        url TEXT NOT NULL,
+        thumbnail_url TEXT NOT NULL,
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (review_id) REFERENCES reviews (id) ON DELETE CASCADE
+      )
+    `);
+
+    // One reply per review, on behalf of the business. It outlives the owner
+    // account that wrote it.
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS review_replies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        review_id INTEGER NOT NULL UNIQUE,
+        user_id INTEGER DEFAULT NULL,
+        text TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT NULL,
+        read_at DATETIME DEFAULT NULL,
+        FOREIGN KEY (review_id) REFERENCES reviews (id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE SET NULL
+      )
+    `);
+
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS review_reports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        review_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'off_topic', 'fake', 'other')),
+        details TEXT DEFAULT NULL,
+        resolution TEXT DEFAULT NULL CHECK (resolution IN ('hidden', 'dismissed', 'banned')),
+        resolved_by INTEGER DEFAULT NULL,
+        resolved_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (review_id) REFERENCES reviews (id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (resolved_by) REFERENCES users (id) ON DELETE SET NULL,
+        UNIQUE (review_id, user_id)
+      )
+    `);
+
     await this.exec(`
       CREATE TABLE IF NOT EXISTS review_helpful (
         review_id INTEGER NOT NULL,
@@ -280,48 +984,231 @@ class DatabaseManager {
     await this.exec(
       `CREATE INDEX IF NOT EXISTS idx_reviews_user ON reviews(user_id)`,
     );
-
-    await this.exec(`
-      CREATE TABLE IF NOT EXISTS coupons (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        business_id TEXT NOT NULL,
-        title TEXT NOT NULL,
-        description TEXT NOT NULL,
-        discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
-        discount_value REAL NOT NULL CHECK (discount_value > 0),
-        coupon_code TEXT NOT NULL UNIQUE,
-        start_date DATETIME NOT NULL,
-        end_date DATETIME NOT NULL,
-        usage_limit INTEGER,
-        usage_count INTEGER DEFAULT 0,
-        is_active BOOLEAN DEFAULT 1,
-        is_premium_only BOOLEAN DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    await this.exec(
-      `CREATE INDEX IF NOT EXISTS idx_coupons_code ON coupons(coupon_code)`,
-    );
     await this.exec(
-      `CREATE INDEX IF NOT EXISTS idx_coupons_business ON coupons(business_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_review_revisions_review ON review_revisions(review_id)`,
     );
     await this.exec(
-      `CREATE INDEX IF NOT EXISTS idx_coupons_end_date ON coupons(end_date)`,
+      `CREATE INDEX IF NOT EXISTS idx_review_photos_review ON review_photos(review_id)`,
     );
     await this.exec(
-      `CREATE INDEX IF NOT EXISTS idx_coupons_active ON coupons(is_active)`,
+      `CREATE INDEX IF NOT EXISTS idx_review_reports_open ON review_reports(resolved_at, review_id)`,
     );
 
-    await this.exec(`
-      CREATE TABLE IF NOT EXISTS business_photos (
-        cache_key TEXT PRIMARY KEY,
-        photo_url TEXT NOT NULL,
-        cached_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
+    await this.exec(couponsTableSql("coupons"));
+
+    // Migrate: per-user redemption limit, structured discount parameters and
+    // recurring schedules (for existing databases)
+    try {
+      await this.client.execute(
+        "ALTER TABLE coupons ADD COLUMN per_user_limit INTEGER DEFAULT 1",
+      );
+    } catch {
+      /* already exists */
+    }
+    try {
+      await this.client.execute(
+        "ALTER TABLE coupons ADD COLUMN discount_details TEXT DEFAULT NULL",
+      );
+    } catch {
+      /* already exists */
+    }
+    try {
+      await this.client.execute(
+        "ALTER TABLE coupons ADD COLUMN schedule TEXT DEFAULT NULL",
+      );
+    } catch {
+      /* already exists */
+    }
+    await this.rebuildTable("coupons", "free_item", couponsTableSql);
+
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupons_code ON coupons(coupon_code)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupons_business ON coupons(business_id)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupons_end_date ON coupons(end_date)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupons_active ON coupons(is_active)`,
+    );
+
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS business_owners (
+        user_id INTEGER NOT NULL,
+        business_id TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, business_id),
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS business_claims (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        business_id TEXT NOT NULL,
+        message TEXT NOT NULL DEFAULT '',
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+        reviewed_by INTEGER DEFAULT NULL,
+        reviewed_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_business_owners_business ON business_owners(business_id)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_business_claims_status ON business_claims(status, created_at)`,
+    );
+
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS coupon_redemptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        coupon_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        business_id TEXT NOT NULL,
+        redeemed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (coupon_id) REFERENCES coupons (id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_user ON coupon_redemptions(coupon_id, user_id)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_user ON coupon_redemptions(user_id, redeemed_at)`,
+    );
+
+    // Single-use point-of-sale claims behind the signed QR tokens
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS coupon_claims (
+        id TEXT PRIMARY KEY,
+        coupon_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME DEFAULT NULL,
+        verified_by INTEGER DEFAULT NULL,
+        code_id INTEGER DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (coupon_id) REFERENCES coupons (id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupon_claims_expires ON coupon_claims(expires_at)`,
+    );
+
+    // Single-use codes generated in batches under a coupon (the campaign)
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS coupon_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        coupon_id INTEGER NOT NULL,
+        code TEXT NOT NULL UNIQUE,
+        used_by INTEGER DEFAULT NULL,
+        used_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (coupon_id) REFERENCES coupons (id) ON DELETE CASCADE,
+        FOREIGN KEY (used_by) REFERENCES users (id) ON DELETE SET NULL
+      )
+    `);
+
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupon_codes_coupon ON coupon_codes(coupon_id, used_at)`,
+    );
+
+    // Migrate: claims made with a single-use code (for existing databases)
+    try {
+      await this.client.execute(
+        "ALTER TABLE coupon_claims ADD COLUMN code_id INTEGER DEFAULT NULL",
+      );
+    } catch {
+      /* already exists */
+    }
+
+    // Deal impressions and code copies; redemptions come from coupon_redemptions
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS coupon_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        coupon_id INTEGER NOT NULL,
+        business_id TEXT NOT NULL,
+        user_id INTEGER DEFAULT NULL,
+        event_type TEXT NOT NULL CHECK (event_type IN ('view', 'copy')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (coupon_id) REFERENCES coupons (id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE SET NULL
+      )
+    `);
+
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupon_events_coupon ON coupon_events(coupon_id, created_at)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_coupon_events_business ON coupon_events(business_id, created_at)`,
+    );
+
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS businesses (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        category TEXT NOT NULL,
+        rating REAL NOT NULL DEFAULT 0,
+        review_count INTEGER NOT NULL DEFAULT 0,
+        address TEXT NOT NULL DEFAULT '',
+        hours TEXT NOT NULL DEFAULT '',
+        description TEXT NOT NULL DEFAULT '',
+        image TEXT NOT NULL DEFAULT '',
+        lat REAL NOT NULL,
+        lng REAL NOT NULL,
+        phone TEXT NOT NULL DEFAULT '',
+        price_level TEXT NOT NULL DEFAULT '$$',
+        website TEXT,
+        source TEXT NOT NULL DEFAULT 'proximiti' CHECK (source IN ('proximiti', 'google', 'osm')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_businesses_category ON businesses(category)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_businesses_location ON businesses(lat, lng)`,
+    );
+    // OSM places used to be stored with random placeholder ratings
+    await this.exec(
+      `UPDATE businesses SET rating = 0, review_count = 0
+       WHERE source = 'osm' AND review_count > 0`,
+    );
+
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS business_photos (
+        cache_key TEXT PRIMARY KEY,
+        photo_url TEXT NOT NULL,
+        cached_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS place_cache (
+        cache_key TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        provider TEXT,
+        payload TEXT NOT NULL,
+        hits INTEGER NOT NULL DEFAULT 0,
+        cached_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
     `);
 
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_place_cache_kind ON place_cache(kind)`,
+    );
+
     await this.exec(`
       CREATE TABLE IF NOT EXISTS rideshares (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -337,6 +1224,10 @@ class DatabaseManager {
         status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'accepted', 'in_transit', 'completed', 'cancelled')),
         note TEXT,
         share_code TEXT,
+        departure_at DATETIME DEFAULT NULL,
+        reminder_sent_at DATETIME DEFAULT NULL,
+        fare_type TEXT DEFAULT NULL CHECK (fare_type IN ('total', 'per_km')),
+        fare_cents INTEGER DEFAULT NULL,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (creator_id) REFERENCES users (id) ON DELETE CASCADE,
@@ -344,6 +1235,40 @@ class DatabaseManager {
       )
     `);
 
+    // Migrate: scheduled departures. Rides leaving right away, including those
+    // from before then, have no departure time
+    for (const column of [
+      "departure_at DATETIME DEFAULT NULL",
+      "reminder_sent_at DATETIME DEFAULT NULL",
+    ]) {
+      try {
+        await this.client.execute(
+          `ALTER TABLE rideshares ADD COLUMN ${column}`,
+        );
+      } catch {
+        /* already exists */
+      }
+    }
+    // Undo an earlier backfill that gave those rides their creation time,
+    // which had them cancelled as overdue 15 minutes later
+    await this.client.execute(
+      `UPDATE rideshares SET departure_at = NULL
+       WHERE ABS(julianday(departure_at) - julianday(created_at)) * 86400 < 5`,
+    );
+    // Migrate: fares
+    for (const column of [
+      "fare_type TEXT DEFAULT NULL CHECK (fare_type IN ('total', 'per_km'))",
+      "fare_cents INTEGER DEFAULT NULL",
+    ]) {
+      try {
+        await this.client.execute(
+          `ALTER TABLE rideshares ADD COLUMN ${column}`,
+        );
+      } catch {
+        /* already exists */
+      }
+    }
+
     await this.exec(`
       CREATE TABLE IF NOT EXISTS rideshare_passengers (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -356,12 +1281,62 @@ class DatabaseManager {
       )
     `);
 
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS rideshare_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rideshare_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (rideshare_id) REFERENCES rideshares (id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Departure reminders, kept until each participant has seen theirs
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS rideshare_reminders (
+        rideshare_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        read_at DATETIME DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (rideshare_id, user_id),
+        FOREIGN KEY (rideshare_id) REFERENCES rideshares (id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Outlives its ride, which is deleted a day after it ends (or after the
+    // chat archive window, if it has messages)
+    await this.exec(`
+      CREATE TABLE IF NOT EXISTS rideshare_fare_shares (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rideshare_id INTEGER,
+        origin_name TEXT NOT NULL,
+        destination_name TEXT NOT NULL,
+        payer_id INTEGER NOT NULL,
+        payee_id INTEGER,
+        amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+        status TEXT NOT NULL DEFAULT 'owed' CHECK (status IN ('owed', 'paid')),
+        paid_at DATETIME DEFAULT NULL,
+        stripe_session_id TEXT DEFAULT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (rideshare_id) REFERENCES rideshares (id) ON DELETE SET NULL,
+        FOREIGN KEY (payer_id) REFERENCES users (id) ON DELETE CASCADE,
+        FOREIGN KEY (payee_id) REFERENCES users (id) ON DELETE SET NULL,
+        UNIQUE (rideshare_id, payer_id)
+      )
+    `);
+
     await this.exec(
       `CREATE INDEX IF NOT EXISTS idx_rideshares_status ON rideshares(status)`,
     );
     await this.exec(
       `CREATE INDEX IF NOT EXISTS idx_rideshares_creator ON rideshares(creator_id)`,
     );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_rideshares_departure ON rideshares(status, departure_at)`,
+    );
     await this.exec(
       `CREATE UNIQUE INDEX IF NOT EXISTS idx_rideshares_share_code ON rideshares(share_code)`,
     );
@@ -371,12 +1346,104 @@ class DatabaseManager {
     await this.exec(
       `CREATE INDEX IF NOT EXISTS idx_rideshare_passengers_user ON rideshare_passengers(user_id)`,
     );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_rideshare_messages_rideshare ON rideshare_messages(rideshare_id, id)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_rideshare_reminders_user ON rideshare_reminders(user_id, read_at)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_fare_shares_payer ON rideshare_fare_shares(payer_id)`,
+    );
+    await this.exec(
+      `CREATE INDEX IF NOT EXISTS idx_fare_shares_payee ON rideshare_fare_shares(payee_id)`,
+    );
 
     await this.client.execute(
       "UPDATE users SET is_verified = 1 WHERE hashed_password IS NOT NULL AND is_verified = 0",
     );
 
     await this.createDefaultAdmin();
+    await this.seedBusinessCatalog();
+  }
+
+  /**
+   * SQLite can't alter a CHECK constraint, so a table created before one
+   * changed (its DDL lacks `marker`) is rebuilt once from `createSql`,
+   * keeping the columns both versions share. Foreign keys are switched off
+   * meanwhile so the DROP doesn't cascade into dependent tables.
+   */
+  private async rebuildTable(
+    table: string,
+    marker: string,
+    createSql: (name: string) => string,
+  ): Promise<void> {
+    const result = await this.client.execute({
+      sql: "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?",
+      args: [table],
+    });
+    const ddl = (result.rows[0]?.sql as string | undefined) ?? "";
+    if (ddl.includes(marker)) return;
+
+    console.log(`Rebuilding ${table} table for an updated constraint...`);
+    const columnsOf = async (name: string) =>
+      (await this.client.execute(`PRAGMA table_info(${name})`)).rows.map(
+        (r) => r.name as string,
+      );
+
+    await this.client.execute("PRAGMA foreign_keys = OFF");
+    try {
+      await this.client.execute(`DROP TABLE IF EXISTS ${table}_new`);
+      await this.client.execute(createSql(`${table}_new`));
+      const existing = await columnsOf(table);
+      const columns = (await columnsOf(`${table}_new`))
+        .filter((c) => existing.includes(c))
+        .join(", ");
+      await this.client.batch(
+        [
+          `INSERT INTO ${table}_new (${columns}) SELECT ${columns} FROM ${table}`,
+          `DROP TABLE ${table}`,
+          `ALTER TABLE ${table}_new RENAME TO ${table}`,
+        ],
+        "write",
+      );
+    } finally {
+      await this.client.execute("PRAGMA foreign_keys = ON");
+    }
+  }
+
+  /** Load the bundled first-party catalog into an empty businesses table. */
+  private async seedBusinessCatalog(): Promise<void> {
+    const result = await this.client.execute(
+      "SELECT COUNT(*) as count FROM businesses WHERE source = 'proximiti'",
+    );
+    if (toNum(result.rows[0].count) > 0) return;
+    await this.client.batch(
+      seedBusinesses.map((b) => ({
+        sql: `INSERT OR IGNORE INTO businesses (
+                id, name, category, rating, review_count, address, hours,
+                description, image, lat, lng, phone, price_level, website, source
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'proximiti')`,
+        args: [
+          b.id,
+          b.name,
+          b.category,
+          b.rating,
+          b.reviewCount,
+          b.address,
+          b.hours,
+          b.description,
+          b.image,
+          b.lat,
+          b.lng,
+          b.phone,
+          b.priceLevel,
+          b.website ?? null,
+        ],
+      })),
+      "write",
+    );
+    console.log(`Seeded ${seedBusinesses.length} catalog businesses`);
   }
 
   private async createDefaultAdmin(): Promise<void> {
@@ -412,7 +1479,7 @@ class DatabaseManager {
   async createUser(userData: {
     email: string;
     name: string;
-    role?: "user" | "admin";
+    role?: UserRole;
     password?: string;
     googleId?: string;
     isVerified?: boolean;
@@ -460,6 +1527,7 @@ class DatabaseManager {
                    plan_expires_at as planExpiresAt,
                    stripe_subscription_id as stripeSubscriptionId,
                    totp_secret as totpSecret, totp_enabled as totpEnabled,
+                   review_banned_at as reviewBannedAt,
                    created_at as createdAt, updated_at as updatedAt
             FROM users WHERE id = ?`,
       args: [id],
@@ -476,6 +1544,7 @@ class DatabaseManager {
                    plan_expires_at as planExpiresAt,
                    stripe_subscription_id as stripeSubscriptionId,
                    totp_secret as totpSecret, totp_enabled as totpEnabled,
+                   review_banned_at as reviewBannedAt,
                    created_at as createdAt, updated_at as updatedAt
             FROM users WHERE email = ?`,
       args: [email],
@@ -492,6 +1561,7 @@ class DatabaseManager {
                    plan_expires_at as planExpiresAt,
                    stripe_subscription_id as stripeSubscriptionId,
                    totp_secret as totpSecret, totp_enabled as totpEnabled,
+                   review_banned_at as reviewBannedAt,
                    created_at as createdAt, updated_at as updatedAt
             FROM users WHERE google_id = ?`,
       args: [googleId],
@@ -508,6 +1578,7 @@ class DatabaseManager {
                    plan_expires_at as planExpiresAt,
                    stripe_subscription_id as stripeSubscriptionId,
                    totp_secret as totpSecret, totp_enabled as totpEnabled,
+                   review_banned_at as reviewBannedAt,
                    created_at as createdAt, updated_at as updatedAt
             FROM users ORDER BY created_at DESC LIMIT ? OFFSET ?`,
       args: [limit, offset],
@@ -644,11 +1715,22 @@ class DatabaseManager {
     userId: string,
     rating: number,
     text: string,
+    spam?: SpamAssessment,
   ): Promise<Review> {
     try {
       const result = await this.client.execute({
-        sql: "INSERT INTO reviews (business_id, user_id, rating, text) VALUES (?, ?, ?, ?)",
-        args: [businessId, userId, rating, text],
+        sql: `INSERT INTO reviews
+                (business_id, user_id, rating, text, spam_score, spam_reasons, flagged_at)
+              VALUES (?, ?, ?, ?, ?, ?, CASE WHEN ? THEN CURRENT_TIMESTAMP END)`,
+        args: [
+          businessId,
+          userId,
+          rating,
+          text,
+          spam?.score ?? null,
+          spam ? JSON.stringify(spam.reasons) : null,
+          spam?.flagged ? 1 : 0,
+        ],
       });
       return this.getReviewById(toNum(result.lastInsertRowid));
     } catch (error: any) {
@@ -661,9 +1743,8 @@ class DatabaseManager {
 
   async getReviewById(id: number, requestingUserId?: string): Promise<Review> {
     const result = await this.client.execute({
-      sql: `SELECT r.id, r.business_id, r.user_id, u.name as user_name, u.email as user_email,
-                   r.rating, r.text, r.helpful_count, r.created_at
-            FROM reviews r JOIN users u ON u.id = r.user_id WHERE r.id = ?`,
+      sql: `SELECT ${REVIEW_COLUMNS}
+            FROM ${REVIEW_TABLES} WHERE r.id = ?`,
       args: [id],
     });
     const row = result.rows[0] as any;
@@ -676,40 +1757,57 @@ class DatabaseManager {
       });
       userFoundHelpful = h.rows.length > 0;
     }
-    return {
-      id: String(row.id),
-      businessId: row.business_id as string,
-      userId: String(row.user_id),
-      userName: row.user_name as string,
-      userEmail: row.user_email as string,
-      rating: toNum(row.rating),
-      text: row.text as string,
-      helpfulCount: toNum(row.helpful_count),
-      userFoundHelpful,
-      createdAt: row.created_at as string,
-    };
+    const [review] = await this.withPhotos([mapReview(row, userFoundHelpful)]);
+    return review;
+  }
+
+  /** Fill in `photos` on reviews loaded without them. */
+  private async withPhotos(reviews: Review[]): Promise<Review[]> {
+    if (reviews.length === 0) return reviews;
+    const result = await this.client.execute({
+      sql: `SELECT id, review_id, url, thumbnail_url, width, height, created_at
+            FROM review_photos
+            WHERE review_id IN (${reviews.map(() => "?").join(",")})
+            ORDER BY id`,
+      args: reviews.map((r) => r.id),
+    });
+    const photos = (
+      result.rows as unknown as Record<string, unknown>[]
+    ).map(mapReviewPhoto);
+    return reviews.map((review) => ({
+      ...review,
+      photos: photos.filter((p) => p.reviewId === review.id),
+    }));
   }
 
+  /** Visible reviews of a business; `total` counts those matching `filter`. */
   async getReviewsForBusiness(
     businessId: string,
     limit = 10,
     offset = 0,
     requestingUserId?: string,
+    filter: ReviewFilter = {},
   ): Promise<{ reviews: Review[]; total: number }> {
+    let where = "r.business_id = ? AND r.hidden_at IS NULL";
+    const args: (string | number)[] = [businessId];
+    if (filter.stars) {
+      where += " AND r.rating = ?";
+      args.push(filter.stars);
+    }
+
     const countResult = await this.client.execute({
-      sql: "SELECT COUNT(*) as count FROM reviews WHERE business_id = ?",
-      args: [businessId],
+      sql: `SELECT COUNT(*) as count FROM reviews r WHERE ${where}`,
+      args,
     });
-    const total = toNum((countResult.rows[0] as any).count);
+    const total = toNum(countResult.rows[0].count);
 
     const rowsResult = await this.client.execute({
-      sql: `SELECT r.id, r.business_id, r.user_id, u.name as user_name, u.email as user_email,
-                   r.rating, r.text, r.helpful_count, r.created_at
-            FROM reviews r JOIN users u ON u.id = r.user_id
-            WHERE r.business_id = ?
-            ORDER BY r.helpful_count DESC, r.created_at DESC
+      sql: `SELECT ${REVIEW_COLUMNS}
+            FROM ${REVIEW_TABLES}
+            WHERE ${where}
+            ORDER BY ${REVIEW_ORDER[filter.sort ?? "helpful"]}
             LIMIT ? OFFSET ?`,
-      args: [businessId, limit, offset],
+      args: [...args, limit, offset],
     });
     const rows = rowsResult.rows as any[];
 
@@ -726,18 +1824,9 @@ class DatabaseManager {
       );
     }
 
-    const reviews: Review[] = rows.map((row) => ({
-      id: String(row.id),
-      businessId: row.business_id as string,
-      userId: String(row.user_id),
-      userName: row.user_name as string,
-      userEmail: row.user_email as string,
-      rating: toNum(row.rating),
-      text: row.text as string,
-      helpfulCount: toNum(row.helpful_count),
-      userFoundHelpful: helpfulSet.has(toNum(row.id)),
-      createdAt: row.created_at as string,
-    }));
+    const reviews = await this.withPhotos(
+      rows.map((row) => mapReview(row, helpfulSet.has(toNum(row.id)))),
+    );
 
     return { reviews, total };
   }
@@ -747,46 +1836,501 @@ class DatabaseManager {
     userId: string,
   ): Promise<Review | null> {
     const result = await this.client.execute({
-      sql: `SELECT r.id, r.business_id, r.user_id, u.name as user_name, u.email as user_email,
-                   r.rating, r.text, r.helpful_count, r.created_at
-            FROM reviews r JOIN users u ON u.id = r.user_id
+      sql: `SELECT ${REVIEW_COLUMNS}
+            FROM ${REVIEW_TABLES}
             WHERE r.business_id = ? AND r.user_id = ?`,
       args: [businessId, userId],
     });
     const row = result.rows[0] as any;
     if (!row) return null;
-    return {
-      id: String(row.id),
-      businessId: row.business_id as string,
-      userId: String(row.user_id),
-      userName: row.user_name as string,
-      userEmail: row.user_email as string,
-      rating: toNum(row.rating),
-      text: row.text as string,
-      helpfulCount: toNum(row.helpful_count),
-      userFoundHelpful: false,
-      createdAt: row.created_at as string,
-    };
-  }
-
-  async getProximitiReviewCount(businessId: string): Promise<number> {
-    const result = await this.client.execute({
-      sql: "SELECT COUNT(*) as count FROM reviews WHERE business_id = ?",
-      args: [businessId],
-    });
-    return toNum((result.rows[0] as any).count);
+    const [review] = await this.withPhotos([mapReview(row, false)]);
+    return review;
   }
 
-  async toggleHelpful(reviewId: string, userId: string): Promise<boolean> {
-    const existing = await this.client.execute({
-      sql: "SELECT 1 FROM review_helpful WHERE review_id = ? AND user_id = ?",
-      args: [reviewId, userId],
-    });
-    if (existing.rows.length > 0) {
+  /**
+   * Replace a review's rating and text, keeping the previous version as a
+   * revision. An edit that changes nothing is not recorded.
+   */
+  async updateReview(
+    reviewId: string,
+    rating: number,
+    text: string,
+    requestingUserId?: string,
+  ): Promise<Review> {
+    const id = parseInt(reviewId);
+    const current = await this.getReviewById(id);
+    if (current.rating !== rating || current.text !== text) {
       await this.client.batch(
         [
           {
-            sql: "DELETE FROM review_helpful WHERE review_id = ? AND user_id = ?",
+            sql: `INSERT INTO review_revisions (review_id, rating, text, written_at)
+                  SELECT id, rating, text, COALESCE(updated_at, created_at)
+                  FROM reviews WHERE id = ?`,
+            args: [id],
+          },
+          {
+            sql: `UPDATE reviews SET rating = ?, text = ?, updated_at = CURRENT_TIMESTAMP
+                  WHERE id = ?`,
+            args: [rating, text, id],
+          },
+        ],
+        "write",
+      );
+    }
+    return this.getReviewById(id, requestingUserId);
+  }
+
+  /**
+   * Delete a review; its revisions, helpful votes and photo records go with
+   * it. Returns the storage keys of its photos, for the caller to remove.
+   */
+  async deleteReview(reviewId: string): Promise<string[]> {
+    const photos = await this.client.execute({
+      sql: "SELECT image_key, thumbnail_key FROM review_photos WHERE review_id = ?",
+      args: [reviewId],
+    });
+    const result = await this.client.execute({
+      sql: "DELETE FROM reviews WHERE id = ?",
+      args: [reviewId],
+    });
+    if (result.rowsAffected === 0) throw new Error("Review not found");
+    return photos.rows.flatMap((p) => [
+      p.image_key as string,
+      p.thumbnail_key as string,
+    ]);
+  }
+
+  /**
+   * Record a stored photo against a review, unless it already has `max`
+   * photos (checked in the same statement, so parallel uploads can't
+   * overshoot).
+   */
+  async addReviewPhoto(
+    reviewId: string,
+    photo: ReviewPhotoInput,
+    max: number,
+  ): Promise<Review> {
+    const result = await this.client.execute({
+      sql: `INSERT INTO review_photos
+              (review_id, image_key, thumbnail_key, url, thumbnail_url, width, height)
+            SELECT ?, ?, ?, ?, ?, ?, ?
+            WHERE (SELECT COUNT(*) FROM review_photos WHERE review_id = ?) < ?`,
+      args: [
+        reviewId,
+        photo.imageKey,
+        photo.thumbnailKey,
+        photo.url,
+        photo.thumbnailUrl,
+        photo.width,
+        photo.height,
+        reviewId,
+        max,
+      ],
+    });
+    if (result.rowsAffected === 0) {
+      throw new Error(`A review can have at most ${max} photos`);
+    }
+    return this.getReviewById(parseInt(reviewId));
+  }
+
+  /** Remove a photo record; returns its storage keys for the caller to delete. */
+  async deleteReviewPhoto(
+    reviewId: string,
+    photoId: string,
+  ): Promise<string[]> {
+    const result = await this.client.execute({
+      sql: `DELETE FROM review_photos WHERE id = ? AND review_id = ?
+            RETURNING image_key, thumbnail_key`,
+      args: [photoId, reviewId],
+    });
+    const row = result.rows[0];
+    if (!row) throw new Error("Photo not found");
+    return [row.image_key as string, row.thumbnail_key as string];
+  }
+
+  /** Photos from a business's visible reviews, newest first. */
+  async getBusinessReviewPhotos(
+    businessId: string,
+    limit = 12,
+  ): Promise<ReviewPhoto[]> {
+    const result = await this.client.execute({
+      sql: `SELECT p.id, p.review_id, p.url, p.thumbnail_url, p.width, p.height,
+                   p.created_at
+            FROM review_photos p JOIN reviews r ON r.id = p.review_id
+            WHERE r.business_id = ? AND r.hidden_at IS NULL
+            ORDER BY p.id DESC
+            LIMIT ?`,
+      args: [businessId, limit],
+    });
+    return (result.rows as unknown as Record<string, unknown>[]).map(
+      mapReviewPhoto,
+    );
+  }
+
+  /** Previous versions of a review, newest first. */
+  /**
+   * A review's earlier versions, newest first. Hidden reviews' history is
+   * only for admins and the author, like the review itself; anyone else
+   * gets "Review not found".
+   */
+  async getReviewRevisions(
+    reviewId: string,
+    viewer?: { id: string; role: UserRole },
+  ): Promise<ReviewRevision[]> {
+    const review = await this.client.execute({
+      sql: "SELECT user_id, hidden_at FROM reviews WHERE id = ?",
+      args: [reviewId],
+    });
+    const row = review.rows[0];
+    if (
+      !row ||
+      (row.hidden_at != null &&
+        viewer?.role !== "admin" &&
+        String(row.user_id) !== viewer?.id)
+    ) {
+      throw new Error("Review not found");
+    }
+
+    const result = await this.client.execute({
+      sql: `SELECT id, review_id, rating, text, written_at, created_at
+            FROM review_revisions WHERE review_id = ?
+            ORDER BY id DESC`,
+      args: [reviewId],
+    });
+    return (result.rows as unknown as Record<string, unknown>[]).map((row) => ({
+      id: String(row.id),
+      reviewId: String(row.review_id),
+      rating: toNum(row.rating),
+      text: row.text as string,
+      writtenAt: row.written_at as string,
+      replacedAt: row.created_at as string,
+    }));
+  }
+
+  async createReviewReply(
+    reviewId: string,
+    userId: string,
+    text: string,
+  ): Promise<Review> {
+    try {
+      await this.client.execute({
+        sql: "INSERT INTO review_replies (review_id, user_id, text) VALUES (?, ?, ?)",
+        args: [reviewId, userId, text],
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message.includes("UNIQUE constraint failed")
+      ) {
+        throw new Error("This review already has a reply");
+      }
+      throw error;
+    }
+    return this.getReviewById(parseInt(reviewId));
+  }
+
+  /** Edit a reply; the reviewer sees the new text as unread. */
+  async updateReviewReply(reviewId: string, text: string): Promise<Review> {
+    const result = await this.client.execute({
+      sql: `UPDATE review_replies
+            SET text = ?, updated_at = CURRENT_TIMESTAMP, read_at = NULL
+            WHERE review_id = ?`,
+      args: [text, reviewId],
+    });
+    if (result.rowsAffected === 0) throw new Error("Reply not found");
+    return this.getReviewById(parseInt(reviewId));
+  }
+
+  async deleteReviewReply(reviewId: string): Promise<void> {
+    const result = await this.client.execute({
+      sql: "DELETE FROM review_replies WHERE review_id = ?",
+      args: [reviewId],
+    });
+    if (result.rowsAffected === 0) throw new Error("Reply not found");
+  }
+
+  /** Mark the reply to a review as seen, if `userId` wrote the review. */
+  async markReviewReplyRead(reviewId: string, userId: string): Promise<void> {
+    await this.client.execute({
+      sql: `UPDATE review_replies SET read_at = CURRENT_TIMESTAMP
+            WHERE review_id = ? AND read_at IS NULL
+              AND EXISTS (SELECT 1 FROM reviews WHERE id = ? AND user_id = ?)`,
+      args: [reviewId, reviewId, userId],
+    });
+  }
+
+  /** Visible reviews only – hidden ones don't count towards phase-out. */
+  async getProximitiReviewCount(businessId: string): Promise<number> {
+    const result = await this.client.execute({
+      sql: "SELECT COUNT(*) as count FROM reviews WHERE business_id = ? AND hidden_at IS NULL",
+      args: [businessId],
+    });
+    return toNum((result.rows[0] as any).count);
+  }
+
+  /** The inputs to assessReview for a review about to be posted. */
+  async getReviewSpamSignals(
+    userId: string,
+    businessId: string,
+  ): Promise<SpamSignals> {
+    const [counts, texts, business, distributions] = await Promise.all([
+      this.client.execute({
+        sql: `SELECT
+                (julianday('now') - julianday(u.created_at)) * 24 as age_hours,
+                (SELECT COUNT(*) FROM reviews WHERE user_id = u.id
+                 AND created_at > datetime('now', '-1 day')) as user_day,
+                (SELECT COUNT(*) FROM reviews WHERE business_id = ?
+                 AND created_at > datetime('now', '-1 hour')) as business_hour
+              FROM users u WHERE u.id = ?`,
+        args: [businessId, userId],
+      }),
+      this.client.execute({
+        sql: `SELECT text FROM reviews
+              WHERE created_at > datetime('now', '-30 days')
+              ORDER BY id DESC LIMIT 200`,
+        args: [],
+      }),
+      this.getBusinessById(businessId),
+      this.getRatingDistributions([businessId]),
+    ]);
+    const row = counts.rows[0] as Record<string, unknown> | undefined;
+    const rating = aggregateRating(
+      distributions.get(businessId) ?? emptyDistribution(),
+      business
+        ? { rating: business.rating, count: business.reviewCount }
+        : undefined,
+    );
+    return {
+      accountAgeHours: toNum(row?.age_hours),
+      userReviewsLastDay: toNum(row?.user_day),
+      businessReviewsLastHour: toNum(row?.business_hour),
+      recentTexts: texts.rows.map((r) => r.text as string),
+      businessRating: rating.rating,
+      businessRatingConfidence: rating.confidence,
+    };
+  }
+
+  /** Star counts of the visible reviews of each business, for ratings. */
+  async getRatingDistributions(
+    businessIds: string[],
+  ): Promise<Map<string, RatingDistribution>> {
+    const distributions = new Map<string, RatingDistribution>();
+    if (businessIds.length === 0) return distributions;
+    const result = await this.client.execute({
+      sql: `SELECT business_id, rating, COUNT(*) as count FROM reviews
+            WHERE hidden_at IS NULL
+              AND business_id IN (${businessIds.map(() => "?").join(",")})
+            GROUP BY business_id, rating`,
+      args: businessIds,
+    });
+    for (const row of result.rows as unknown as Record<string, unknown>[]) {
+      const id = String(row.business_id);
+      const distribution = distributions.get(id) ?? emptyDistribution();
+      distribution[toNum(row.rating) - 1] = toNum(row.count);
+      distributions.set(id, distribution);
+    }
+    return distributions;
+  }
+
+  async reportReview(
+    reviewId: string,
+    userId: string,
+    reason: ReviewReportReason,
+    details: string | null,
+  ): Promise<{ success: boolean; error?: string }> {
+    const result = await this.client.execute({
+      sql: "SELECT user_id FROM reviews WHERE id = ?",
+      args: [reviewId],
+    });
+    const row = result.rows[0];
+    if (!row) return { success: false, error: "Review not found" };
+    if (String(row.user_id) === userId) {
+      return { success: false, error: "You cannot report your own review" };
+    }
+    try {
+      await this.client.execute({
+        sql: "INSERT INTO review_reports (review_id, user_id, reason, details) VALUES (?, ?, ?, ?)",
+        args: [reviewId, userId, reason, details],
+      });
+      return { success: true };
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message.includes("UNIQUE constraint failed")
+      ) {
+        return {
+          success: false,
+          error: "You have already reported this review",
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reviews waiting for a moderator ("open": with unresolved reports or a
+   * spam flag, most reported then most spam-like first) or currently hidden
+   * ("hidden": newest first), each with every report filed against it.
+   */
+  async getModerationQueue(
+    status: "open" | "hidden",
+    limit = 50,
+  ): Promise<ModerationItem[]> {
+    const reviewsResult = await this.client.execute({
+      sql: `SELECT ${REVIEW_COLUMNS}, u.review_banned_at,
+                   r.spam_score, r.spam_reasons, r.flagged_at,
+                   (SELECT COUNT(*) FROM review_reports rr
+                    WHERE rr.review_id = r.id AND rr.resolved_at IS NULL) as open_reports
+            FROM ${REVIEW_TABLES}
+            WHERE ${status === "open" ? "(open_reports > 0 OR r.flagged_at IS NOT NULL)" : "r.hidden_at IS NOT NULL"}
+            ORDER BY ${status === "open" ? "open_reports DESC, r.spam_score DESC, r.id" : "r.hidden_at DESC"}
+            LIMIT ?`,
+      args: [limit],
+    });
+    const rows = reviewsResult.rows as unknown as Record<string, unknown>[];
+    if (rows.length === 0) return [];
+
+    const ids = rows.map((r) => r.id as number | bigint);
+    const reportsResult = await this.client.execute({
+      sql: `SELECT rr.id, rr.review_id, rr.user_id, u.name as user_name,
+                   rr.reason, rr.details, rr.resolution, rr.resolved_by,
+                   rr.resolved_at, rr.created_at
+            FROM review_reports rr JOIN users u ON u.id = rr.user_id
+            WHERE rr.review_id IN (${ids.map(() => "?").join(",")})
+            ORDER BY rr.created_at DESC`,
+      args: ids,
+    });
+    const reports = reportsResult.rows.map((row): ReviewReport => ({
+      id: String(row.id),
+      reviewId: String(row.review_id),
+      userId: String(row.user_id),
+      userName: row.user_name as string,
+      reason: row.reason as ReviewReportReason,
+      details: (row.details as string | null) ?? null,
+      resolution: (row.resolution as ReviewReport["resolution"]) ?? null,
+      resolvedBy: row.resolved_by != null ? String(row.resolved_by) : null,
+      resolvedAt: (row.resolved_at as string | null) ?? null,
+      createdAt: row.created_at as string,
+    }));
+
+    const reviews = await this.withPhotos(
+      rows.map((row) => mapReview(row, false)),
+    );
+    return rows.map((row, i) => ({
+      review: reviews[i],
+      reports: reports.filter((r) => r.reviewId === String(row.id)),
+      openReports: toNum(row.open_reports),
+      authorBanned: row.review_banned_at != null,
+      spam:
+        row.spam_score != null
+          ? {
+              score: toNum(row.spam_score),
+              reasons: JSON.parse(row.spam_reasons as string),
+              flagged: row.flagged_at != null,
+            }
+          : null,
+    }));
+  }
+
+  /**
+   * Act on a review in the moderation queue. Hiding, dismissing and banning
+   * close its open reports and clear its spam flag; banning also hides the
+   * review and stops its author posting reviews or reports.
+   */
+  async moderateReview(
+    reviewId: string,
+    action: ModerationAction,
+    moderatorId: string,
+  ): Promise<{ success: boolean; error?: string }> {
+    const result = await this.client.execute({
+      sql: `SELECT r.user_id, r.hidden_at, r.flagged_at,
+                   (SELECT COUNT(*) FROM review_reports rr
+                    WHERE rr.review_id = r.id AND rr.resolved_at IS NULL) as open_reports
+            FROM reviews r WHERE r.id = ?`,
+      args: [reviewId],
+    });
+    const review = result.rows[0];
+    if (!review) return { success: false, error: "Review not found" };
+
+    const resolve = (resolution: string): InStatement[] => [
+      {
+        sql: `UPDATE review_reports
+              SET resolution = ?, resolved_by = ?, resolved_at = CURRENT_TIMESTAMP
+              WHERE review_id = ? AND resolved_at IS NULL`,
+        args: [resolution, moderatorId, reviewId],
+      },
+      {
+        sql: "UPDATE reviews SET flagged_at = NULL WHERE id = ?",
+        args: [reviewId],
+      },
+    ];
+    const hide: InStatement = {
+      sql: "UPDATE reviews SET hidden_at = COALESCE(hidden_at, CURRENT_TIMESTAMP) WHERE id = ?",
+      args: [reviewId],
+    };
+
+    switch (action) {
+      case "hide":
+        await this.client.batch([hide, ...resolve("hidden")], "write");
+        break;
+      case "restore":
+        if (review.hidden_at == null) {
+          return { success: false, error: "Review is not hidden" };
+        }
+        await this.client.execute({
+          sql: "UPDATE reviews SET hidden_at = NULL WHERE id = ?",
+          args: [reviewId],
+        });
+        break;
+      case "dismiss":
+        if (toNum(review.open_reports) === 0 && review.flagged_at == null) {
+          return {
+            success: false,
+            error: "Review has no open reports or spam flag",
+          };
+        }
+        await this.client.batch(resolve("dismissed"), "write");
+        break;
+      case "ban":
+        await this.client.batch(
+          [
+            hide,
+            ...resolve("banned"),
+            {
+              sql: `UPDATE users
+                    SET review_banned_at = COALESCE(review_banned_at, CURRENT_TIMESTAMP),
+                        updated_at = CURRENT_TIMESTAMP
+                    WHERE id = ?`,
+              args: [review.user_id],
+            },
+          ],
+          "write",
+        );
+        break;
+    }
+    return { success: true };
+  }
+
+  /** Lift a review ban. Reviews hidden along with it stay hidden. */
+  async liftReviewBan(userId: string): Promise<boolean> {
+    const result = await this.client.execute({
+      sql: `UPDATE users SET review_banned_at = NULL, updated_at = CURRENT_TIMESTAMP
+            WHERE id = ? AND review_banned_at IS NOT NULL`,
+      args: [userId],
+    });
+    return result.rowsAffected > 0;
+  }
+
+  async toggleHelpful(reviewId: string, userId: string): Promise<boolean> {
+    const existing = await this.client.execute({
+      sql: "SELECT 1 FROM review_helpful WHERE review_id = ? AND user_id = ?",
+      args: [reviewId, userId],
+    });
+    if (existing.rows.length > 0) {
+      await this.client.batch(
+        [
+          {
+            sql: "DELETE FROM review_helpful WHERE review_id = ? AND user_id = ?",
             args: [reviewId, userId],
           },
           {
@@ -815,6 +2359,378 @@ class DatabaseManager {
     }
   }
 
+  async createBusiness(data: BusinessInput): Promise<Business> {
+    const id = `biz-${crypto.randomBytes(6).toString("hex")}`;
+    await this.client.execute({
+      sql: `INSERT INTO businesses (
+              id, name, category, rating, review_count, address, hours,
+              description, image, lat, lng, phone, price_level, website, source
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'proximiti')`,
+      args: [
+        id,
+        data.name,
+        data.category,
+        data.rating,
+        data.reviewCount,
+        data.address,
+        data.hours,
+        data.description,
+        data.image,
+        data.lat,
+        data.lng,
+        data.phone,
+        data.priceLevel,
+        data.website ?? null,
+      ],
+    });
+    return (await this.getBusinessById(id))!;
+  }
+
+  /**
+   * Record snapshots of businesses returned by an external provider so that
+   * coupons and reviews can reference their IDs. First-party rows are never
+   * overwritten by external data.
+   */
+  async upsertExternalBusinesses(
+    list: (BusinessInput & { id: string })[],
+    source: Exclude<BusinessSource, "proximiti">,
+  ): Promise<void> {
+    if (list.length === 0) return;
+    await this.client.batch(
+      list.map((b) => ({
+        sql: `INSERT INTO businesses (
+                id, name, category, rating, review_count, address, hours,
+                description, image, lat, lng, phone, price_level, website, source
+              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT(id) DO UPDATE SET
+                name = excluded.name, category = excluded.category,
+                rating = excluded.rating, review_count = excluded.review_count,
+                address = excluded.address, hours = excluded.hours,
+                description = excluded.description, image = excluded.image,
+                lat = excluded.lat, lng = excluded.lng, phone = excluded.phone,
+                price_level = excluded.price_level, website = excluded.website,
+                updated_at = CURRENT_TIMESTAMP
+              WHERE businesses.source != 'proximiti'`,
+        args: [
+          b.id,
+          b.name,
+          b.category,
+          b.rating,
+          b.reviewCount,
+          b.address,
+          b.hours,
+          b.description,
+          b.image,
+          b.lat,
+          b.lng,
+          b.phone,
+          b.priceLevel,
+          b.website ?? null,
+          source,
+        ],
+      })),
+      "write",
+    );
+  }
+
+  async getBusinessById(id: string): Promise<Business | null> {
+    const result = await this.client.execute({
+      sql: "SELECT * FROM businesses WHERE id = ?",
+      args: [id],
+    });
+    if (!result.rows[0]) return null;
+    return mapBusiness(result.rows[0] as Record<string, unknown>);
+  }
+
+  async businessExists(id: string): Promise<boolean> {
+    const result = await this.client.execute({
+      sql: "SELECT 1 FROM businesses WHERE id = ?",
+      args: [id],
+    });
+    return result.rows.length > 0;
+  }
+
+  async getBusinesses(
+    filter: BusinessFilter = {},
+  ): Promise<{ businesses: Business[]; total: number }> {
+    const where: string[] = [];
+    const args: (string | number)[] = [];
+    if (filter.category) {
+      where.push("category = ?");
+      args.push(filter.category);
+    }
+    if (filter.query) {
+      const like = `%${filter.query.toLowerCase()}%`;
+      where.push(
+        "(LOWER(name) LIKE ? OR LOWER(description) LIKE ? OR LOWER(address) LIKE ?)",
+      );
+      args.push(like, like, like);
+    }
+    if (filter.bbox) {
+      where.push("lat BETWEEN ? AND ? AND lng BETWEEN ? AND ?");
+      args.push(
+        filter.bbox.minLat,
+        filter.bbox.maxLat,
+        filter.bbox.minLng,
+        filter.bbox.maxLng,
+      );
+    }
+    const whereSql = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
+
+    const countResult = await this.client.execute({
+      sql: `SELECT COUNT(*) as count FROM businesses ${whereSql}`,
+      args,
+    });
+    const total = toNum(countResult.rows[0].count);
+
+    const rowsResult = await this.client.execute({
+      sql: `SELECT * FROM businesses ${whereSql}
+            ORDER BY name COLLATE NOCASE ASC LIMIT ? OFFSET ?`,
+      args: [...args, filter.limit ?? 50, filter.offset ?? 0],
+    });
+    return {
+      businesses: (rowsResult.rows as unknown as Record<string, unknown>[]).map(
+        mapBusiness,
+      ),
+      total,
+    };
+  }
+
+  async updateBusiness(
+    id: string,
+    updates: Partial<BusinessInput>,
+  ): Promise<Business> {
+    const fields: string[] = [];
+    const values: (string | number | null)[] = [];
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value !== undefined) {
+        const dbKey = key.replace(/([A-Z])/g, "_$1").toLowerCase();
+        fields.push(`${dbKey} = ?`);
+        values.push(value as string | number | null);
+      }
+    });
+    if (fields.length === 0) throw new Error("No valid fields to update");
+    fields.push("updated_at = CURRENT_TIMESTAMP");
+    values.push(id);
+    const result = await this.client.execute({
+      sql: `UPDATE businesses SET ${fields.join(", ")} WHERE id = ?`,
+      args: values,
+    });
+    if (result.rowsAffected === 0) throw new Error("Business not found");
+    return (await this.getBusinessById(id))!;
+  }
+
+  /**
+   * Delete a business with its coupons, reviews, owners and claims, which
+   * only reference it by ID, demoting owners who have no other business. Returns the stored review photo keys to delete,
+   * or null if there was no such business.
+   */
+  async deleteBusiness(id: string): Promise<string[] | null> {
+    if (!(await this.getBusinessById(id))) return null;
+    const photos = await this.client.execute({
+      sql: `SELECT p.image_key, p.thumbnail_key FROM review_photos p
+            JOIN reviews r ON r.id = p.review_id
+            WHERE r.business_id = ?`,
+      args: [id],
+    });
+    // Coupon and review children go with them via ON DELETE CASCADE
+    await this.client.batch(
+      [
+        // Owners left with no business lose the role, as in removeBusinessOwner
+        {
+          sql: `UPDATE users SET role = 'user', updated_at = CURRENT_TIMESTAMP
+                WHERE role = 'business_owner'
+                  AND id IN (SELECT user_id FROM business_owners WHERE business_id = ?)
+                  AND NOT EXISTS (
+                    SELECT 1 FROM business_owners bo
+                    WHERE bo.user_id = users.id AND bo.business_id != ?
+                  )`,
+          args: [id, id],
+        },
+        { sql: "DELETE FROM coupons WHERE business_id = ?", args: [id] },
+        { sql: "DELETE FROM reviews WHERE business_id = ?", args: [id] },
+        {
+          sql: "DELETE FROM business_owners WHERE business_id = ?",
+          args: [id],
+        },
+        {
+          sql: "DELETE FROM business_claims WHERE business_id = ?",
+          args: [id],
+        },
+        { sql: "DELETE FROM businesses WHERE id = ?", args: [id] },
+      ],
+      "write",
+    );
+    return (photos.rows as unknown as Record<string, unknown>[]).flatMap(
+      (p) => [p.image_key as string, p.thumbnail_key as string],
+    );
+  }
+
+  async getOwnedBusinessIds(userId: string): Promise<string[]> {
+    const result = await this.client.execute({
+      sql: "SELECT business_id FROM business_owners WHERE user_id = ? ORDER BY created_at",
+      args: [userId],
+    });
+    return result.rows.map((r) => r.business_id as string);
+  }
+
+  async getOwnedBusinesses(userId: string): Promise<Business[]> {
+    const result = await this.client.execute({
+      sql: `SELECT b.* FROM businesses b
+            JOIN business_owners bo ON bo.business_id = b.id
+            WHERE bo.user_id = ?
+            ORDER BY b.name COLLATE NOCASE ASC`,
+      args: [userId],
+    });
+    return (result.rows as unknown as Record<string, unknown>[]).map(
+      mapBusiness,
+    );
+  }
+
+  async isBusinessOwner(userId: string, businessId: string): Promise<boolean> {
+    const result = await this.client.execute({
+      sql: "SELECT 1 FROM business_owners WHERE user_id = ? AND business_id = ?",
+      args: [userId, businessId],
+    });
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Link a user to a business they own, making them a business_owner
+   * unless they are already an admin.
+   */
+  async addBusinessOwner(userId: string, businessId: string): Promise<void> {
+    await this.client.batch(
+      [
+        {
+          sql: "INSERT OR IGNORE INTO business_owners (user_id, business_id) VALUES (?, ?)",
+          args: [userId, businessId],
+        },
+        {
+          sql: "UPDATE users SET role = 'business_owner', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND role = 'user'",
+          args: [userId],
+        },
+      ],
+      "write",
+    );
+  }
+
+  /** Unlink an owner; users left with no businesses revert to 'user'. */
+  async removeBusinessOwner(
+    userId: string,
+    businessId: string,
+  ): Promise<boolean> {
+    const [removed] = await this.client.batch(
+      [
+        {
+          sql: "DELETE FROM business_owners WHERE user_id = ? AND business_id = ?",
+          args: [userId, businessId],
+        },
+        {
+          sql: `UPDATE users SET role = 'user', updated_at = CURRENT_TIMESTAMP
+                WHERE id = ? AND role = 'business_owner'
+                  AND NOT EXISTS (SELECT 1 FROM business_owners WHERE user_id = ?)`,
+          args: [userId, userId],
+        },
+      ],
+      "write",
+    );
+    return removed.rowsAffected > 0;
+  }
+
+  async createBusinessClaim(
+    userId: string,
+    businessId: string,
+    message: string,
+  ): Promise<{ success: boolean; claim?: BusinessClaim; error?: string }> {
+    if (await this.isBusinessOwner(userId, businessId)) {
+      return { success: false, error: "You already own this business" };
+    }
+    const pending = await this.client.execute({
+      sql: "SELECT 1 FROM business_claims WHERE user_id = ? AND business_id = ? AND status = 'pending'",
+      args: [userId, businessId],
+    });
+    if (pending.rows.length > 0) {
+      return {
+        success: false,
+        error: "A claim for this business is already pending",
+      };
+    }
+    const result = await this.client.execute({
+      sql: "INSERT INTO business_claims (user_id, business_id, message) VALUES (?, ?, ?)",
+      args: [userId, businessId, message],
+    });
+    const claim = await this.getBusinessClaimById(
+      String(result.lastInsertRowid),
+    );
+    return { success: true, claim: claim! };
+  }
+
+  private businessClaimQuery(where: string): string {
+    return `SELECT bc.*, u.name as user_name, u.email as user_email,
+                   b.name as business_name
+            FROM business_claims bc
+            JOIN users u ON u.id = bc.user_id
+            LEFT JOIN businesses b ON b.id = bc.business_id
+            WHERE ${where}
+            ORDER BY bc.created_at DESC, bc.id DESC`;
+  }
+
+  async getBusinessClaimById(id: string): Promise<BusinessClaim | null> {
+    const result = await this.client.execute({
+      sql: this.businessClaimQuery("bc.id = ?"),
+      args: [id],
+    });
+    if (!result.rows[0]) return null;
+    return mapBusinessClaim(result.rows[0] as Record<string, unknown>);
+  }
+
+  async getBusinessClaims(
+    filter: { status?: BusinessClaimStatus; userId?: string } = {},
+  ): Promise<BusinessClaim[]> {
+    const where = ["1 = 1"];
+    const args: string[] = [];
+    if (filter.status) {
+      where.push("bc.status = ?");
+      args.push(filter.status);
+    }
+    if (filter.userId) {
+      where.push("bc.user_id = ?");
+      args.push(filter.userId);
+    }
+    const result = await this.client.execute({
+      sql: this.businessClaimQuery(where.join(" AND ")),
+      args,
+    });
+    return (result.rows as unknown as Record<string, unknown>[]).map(
+      mapBusinessClaim,
+    );
+  }
+
+  /** Approve or reject a pending claim; approval grants ownership. */
+  async reviewBusinessClaim(
+    id: string,
+    reviewerId: string,
+    status: "approved" | "rejected",
+  ): Promise<BusinessClaim> {
+    const claim = await this.getBusinessClaimById(id);
+    if (!claim) throw new Error("Claim not found");
+    if (claim.status !== "pending") {
+      throw new Error("Claim has already been reviewed");
+    }
+
+    await this.client.execute({
+      sql: `UPDATE business_claims
+            SET status = ?, reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP
+            WHERE id = ?`,
+      args: [status, reviewerId, id],
+    });
+    if (status === "approved") {
+      await this.addBusinessOwner(claim.userId, claim.businessId);
+    }
+    return (await this.getBusinessClaimById(id))!;
+  }
+
   async cachePhoto(key: string, photoUrl: string): Promise<void> {
     await this.client.execute({
       sql: "INSERT OR REPLACE INTO business_photos (cache_key, photo_url) VALUES (?, ?)",
@@ -832,54 +2748,163 @@ class DatabaseManager {
       : null;
   }
 
-  async createCoupon(couponData: {
-    businessId: string;
-    title: string;
-    description: string;
-    discountType: "percentage" | "fixed";
-    discountValue: number;
-    couponCode: string;
-    startDate: Date;
-    endDate: Date;
-    usageLimit?: number;
-    isPremiumOnly?: boolean;
-  }): Promise<Coupon> {
+  async getPlaceCacheEntry(key: string): Promise<PlaceCacheEntry | null> {
+    const result = await this.client.execute({
+      sql: `SELECT cache_key, kind, provider, payload, hits, cached_at,
+                   LENGTH(payload) as size_bytes,
+                   (julianday('now') - julianday(cached_at)) * 86400 as age_seconds
+            FROM place_cache WHERE cache_key = ?`,
+      args: [key],
+    });
+    if (!result.rows[0]) return null;
+    const row = result.rows[0];
+    return {
+      key: row.cache_key as string,
+      kind: row.kind as string,
+      provider: (row.provider as string | null) ?? null,
+      hits: toNum(row.hits),
+      sizeBytes: toNum(row.size_bytes),
+      cachedAt: row.cached_at as string,
+      ageSeconds: toNum(row.age_seconds),
+      payload: row.payload as string,
+    };
+  }
+
+  async recordPlaceCacheHit(key: string): Promise<void> {
+    await this.client.execute({
+      sql: "UPDATE place_cache SET hits = hits + 1 WHERE cache_key = ?",
+      args: [key],
+    });
+  }
+
+  async setPlaceCacheEntry(
+    key: string,
+    kind: string,
+    provider: string | null,
+    payload: string,
+  ): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT INTO place_cache (cache_key, kind, provider, payload)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT(cache_key) DO UPDATE SET
+              provider = excluded.provider, payload = excluded.payload,
+              cached_at = CURRENT_TIMESTAMP`,
+      args: [key, kind, provider, payload],
+    });
+  }
+
+  async listPlaceCacheEntries(
+    kind?: string,
+    limit = 50,
+    offset = 0,
+  ): Promise<{ entries: PlaceCacheEntry[]; total: number }> {
+    const where = kind ? "WHERE kind = ?" : "";
+    const args = kind ? [kind] : [];
+
+    const countResult = await this.client.execute({
+      sql: `SELECT COUNT(*) as count FROM place_cache ${where}`,
+      args,
+    });
+    const total = toNum(countResult.rows[0].count);
+
+    const result = await this.client.execute({
+      sql: `SELECT cache_key, kind, provider, hits, cached_at,
+                   LENGTH(payload) as size_bytes,
+                   (julianday('now') - julianday(cached_at)) * 86400 as age_seconds
+            FROM place_cache ${where}
+            ORDER BY cached_at DESC LIMIT ? OFFSET ?`,
+      args: [...args, limit, offset],
+    });
+    return {
+      entries: result.rows.map((row) => ({
+        key: row.cache_key as string,
+        kind: row.kind as string,
+        provider: (row.provider as string | null) ?? null,
+        hits: toNum(row.hits),
+        sizeBytes: toNum(row.size_bytes),
+        cachedAt: row.cached_at as string,
+        ageSeconds: toNum(row.age_seconds),
+      })),
+      total,
+    };
+  }
+
+  /** Delete cache entries matching every given filter; no filters purges all. */
+  async deletePlaceCacheEntries(filter: {
+    key?: string;
+    kind?: string;
+    olderThanSeconds?: number;
+  }): Promise<number> {
+    const where: string[] = [];
+    const args: (string | number)[] = [];
+    if (filter.key) {
+      where.push("cache_key = ?");
+      args.push(filter.key);
+    }
+    if (filter.kind) {
+      where.push("kind = ?");
+      args.push(filter.kind);
+    }
+    if (filter.olderThanSeconds !== undefined) {
+      where.push("cached_at < datetime('now', ?)");
+      args.push(`-${Math.floor(filter.olderThanSeconds)} seconds`);
+    }
+    const result = await this.client.execute({
+      sql: `DELETE FROM place_cache ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}`,
+      args,
+    });
+    return result.rowsAffected;
+  }
+
+  /** Validate a new coupon and build its INSERT. */
+  private couponInsert(couponData: CouponInput): InStatement {
     const {
       businessId,
       title,
       description,
-      discountType,
-      discountValue,
       couponCode,
       startDate,
       endDate,
       usageLimit,
+      perUserLimit = 1,
       isPremiumOnly,
     } = couponData;
     if (endDate <= startDate)
       throw new Error("End date must be after start date");
-    if (discountValue <= 0) throw new Error("Discount value must be positive");
-    if (discountType === "percentage" && discountValue > 100)
-      throw new Error("Percentage discount cannot exceed 100%");
+    const discount = normalizeDiscount(
+      couponData.discountType,
+      couponData.discountValue,
+      couponData.discountDetails,
+    );
+    const schedule = normalizeSchedule(couponData.schedule);
+    return {
+      sql: `INSERT INTO coupons (
+              business_id, title, description, discount_type, discount_value,
+              discount_details, coupon_code, start_date, end_date, schedule,
+              usage_limit, per_user_limit, is_premium_only
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        businessId,
+        title,
+        description,
+        discount.discountType,
+        discount.discountValue,
+        discount.discountDetails && JSON.stringify(discount.discountDetails),
+        couponCode.toUpperCase(),
+        startDate.toISOString(),
+        endDate.toISOString(),
+        schedule && JSON.stringify(schedule),
+        usageLimit ?? null,
+        perUserLimit,
+        isPremiumOnly ? 1 : 0,
+      ],
+    };
+  }
+
+  async createCoupon(couponData: CouponInput): Promise<Coupon> {
+    const insert = this.couponInsert(couponData);
     try {
-      const result = await this.client.execute({
-        sql: `INSERT INTO coupons (
-                business_id, title, description, discount_type, discount_value,
-                coupon_code, start_date, end_date, usage_limit, is_premium_only
-              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        args: [
-          businessId,
-          title,
-          description,
-          discountType,
-          discountValue,
-          couponCode.toUpperCase(),
-          startDate.toISOString(),
-          endDate.toISOString(),
-          usageLimit ?? null,
-          isPremiumOnly ? 1 : 0,
-        ],
-      });
+      const result = await this.client.execute(insert);
       return this.getCouponById(toNum(result.lastInsertRowid));
     } catch (error: any) {
       if (error.message?.includes("UNIQUE constraint failed"))
@@ -888,16 +2913,33 @@ class DatabaseManager {
     }
   }
 
+  /** Create several coupons in one transaction – all of them or none. */
+  async createCoupons(coupons: CouponInput[]): Promise<Coupon[]> {
+    if (coupons.length === 0) return [];
+    const inserts = coupons.map((c) => this.couponInsert(c));
+    let results;
+    try {
+      results = await this.client.batch(inserts, "write");
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message.includes("UNIQUE constraint failed")
+      )
+        throw new Error("Coupon code already exists");
+      throw error;
+    }
+    const ids = results.map((r) => toNum(r.lastInsertRowid));
+    const result = await this.client.execute({
+      sql: `SELECT ${COUPON_COLUMNS} FROM coupons
+            WHERE id IN (${ids.map(() => "?").join(", ")}) ORDER BY id`,
+      args: ids,
+    });
+    return (result.rows as unknown as Record<string, unknown>[]).map(mapCoupon);
+  }
+
   async getCouponById(id: number): Promise<Coupon> {
     const result = await this.client.execute({
-      sql: `SELECT id, business_id as businessId, title, description,
-                   discount_type as discountType, discount_value as discountValue,
-                   coupon_code as couponCode, start_date as startDate,
-                   end_date as endDate, usage_limit as usageLimit,
-                   usage_count as usageCount, is_active as isActive,
-                   is_premium_only as isPremiumOnly,
-                   created_at as createdAt, updated_at as updatedAt
-            FROM coupons WHERE id = ?`,
+      sql: `SELECT ${COUPON_COLUMNS} FROM coupons WHERE id = ?`,
       args: [id],
     });
     if (!result.rows[0]) throw new Error("Coupon not found");
@@ -906,49 +2948,32 @@ class DatabaseManager {
 
   async getCouponByCode(couponCode: string): Promise<Coupon | null> {
     const result = await this.client.execute({
-      sql: `SELECT id, business_id as businessId, title, description,
-                   discount_type as discountType, discount_value as discountValue,
-                   coupon_code as couponCode, start_date as startDate,
-                   end_date as endDate, usage_limit as usageLimit,
-                   usage_count as usageCount, is_active as isActive,
-                   is_premium_only as isPremiumOnly,
-                   created_at as createdAt, updated_at as updatedAt
-            FROM coupons WHERE coupon_code = ?`,
+      sql: `SELECT ${COUPON_COLUMNS} FROM coupons WHERE coupon_code = ?`,
       args: [couponCode.toUpperCase()],
     });
     if (!result.rows[0]) return null;
     return mapCoupon(result.rows[0] as Record<string, unknown>);
   }
 
+  /** Coupons redeemable right now, including their schedule windows. */
   async getActiveCouponsForBusiness(businessId: string): Promise<Coupon[]> {
     const result = await this.client.execute({
-      sql: `SELECT id, business_id as businessId, title, description,
-                   discount_type as discountType, discount_value as discountValue,
-                   coupon_code as couponCode, start_date as startDate,
-                   end_date as endDate, usage_limit as usageLimit,
-                   usage_count as usageCount, is_active as isActive,
-                   is_premium_only as isPremiumOnly,
-                   created_at as createdAt, updated_at as updatedAt
-            FROM coupons
+      sql: `SELECT ${COUPON_COLUMNS} FROM coupons
             WHERE business_id = ? AND is_active = 1
               AND datetime(start_date) <= datetime('now')
               AND datetime(end_date) >= datetime('now')
             ORDER BY end_date ASC`,
       args: [businessId],
     });
-    return (result.rows as unknown as Record<string, unknown>[]).map(mapCoupon);
+    const now = new Date();
+    return (result.rows as unknown as Record<string, unknown>[])
+      .map(mapCoupon)
+      .filter((c) => !c.schedule || isWithinSchedule(c.schedule, now));
   }
 
   async getAllCouponsForBusiness(businessId: string): Promise<Coupon[]> {
     const result = await this.client.execute({
-      sql: `SELECT id, business_id as businessId, title, description,
-                   discount_type as discountType, discount_value as discountValue,
-                   coupon_code as couponCode, start_date as startDate,
-                   end_date as endDate, usage_limit as usageLimit,
-                   usage_count as usageCount, is_active as isActive,
-                   is_premium_only as isPremiumOnly,
-                   created_at as createdAt, updated_at as updatedAt
-            FROM coupons WHERE business_id = ? ORDER BY created_at DESC`,
+      sql: `SELECT ${COUPON_COLUMNS} FROM coupons WHERE business_id = ? ORDER BY created_at DESC`,
       args: [businessId],
     });
     return (result.rows as unknown as Record<string, unknown>[]).map(mapCoupon);
@@ -956,14 +2981,7 @@ class DatabaseManager {
 
   async getAllCoupons(): Promise<Coupon[]> {
     const result = await this.client.execute({
-      sql: `SELECT id, business_id as businessId, title, description,
-                   discount_type as discountType, discount_value as discountValue,
-                   coupon_code as couponCode, start_date as startDate,
-                   end_date as endDate, usage_limit as usageLimit,
-                   usage_count as usageCount, is_active as isActive,
-                   is_premium_only as isPremiumOnly,
-                   created_at as createdAt, updated_at as updatedAt
-            FROM coupons ORDER BY created_at DESC`,
+      sql: `SELECT ${COUPON_COLUMNS} FROM coupons ORDER BY created_at DESC`,
       args: [],
     });
     return (result.rows as unknown as Record<string, unknown>[]).map(mapCoupon);
@@ -986,9 +3004,12 @@ class DatabaseManager {
         if (key === "startDate" || key === "endDate") {
           fields.push(`${dbKey} = ?`);
           values.push(new Date(value as string).toISOString());
+        } else if (key === "discountDetails" || key === "schedule") {
+          fields.push(`${dbKey} = ?`);
+          values.push(value === null ? null : JSON.stringify(value));
         } else {
           fields.push(`${dbKey} = ?`);
-          values.push(value);
+          values.push(value as string | number | boolean | null);
         }
       }
     });
@@ -1010,57 +3031,555 @@ class DatabaseManager {
     return result.rowsAffected > 0;
   }
 
-  async redeemCoupon(
+  /**
+   * Generate `count` unique single-use codes for a coupon, each its shared
+   * code plus a random suffix (e.g. FLYER24-7KQ2MXPA). Collisions are
+   * dropped by the UNIQUE index and topped up on the next pass.
+   */
+  async generateCouponCodes(
+    couponId: string,
+    count: number,
+  ): Promise<string[]> {
+    const coupon = await this.getCouponById(parseInt(couponId));
+    if (coupon.codesIssued + count > MAX_CODES_PER_COUPON) {
+      throw new Error(
+        `A coupon can have at most ${MAX_CODES_PER_COUPON} codes (${coupon.codesIssued} issued)`,
+      );
+    }
+
+    const created: string[] = [];
+    for (let attempt = 0; attempt < 5 && created.length < count; attempt++) {
+      const candidates = new Set<string>();
+      while (candidates.size < count - created.length) {
+        const suffix = Array.from(
+          crypto.randomBytes(CODE_SUFFIX_LENGTH),
+          (b) => CODE_ALPHABET[b % CODE_ALPHABET.length],
+        ).join("");
+        candidates.add(`${coupon.couponCode}-${suffix}`);
+      }
+
+      const statements: InStatement[] = [];
+      const codes = [...candidates];
+      for (let i = 0; i < codes.length; i += CODE_INSERT_CHUNK) {
+        const chunk = codes.slice(i, i + CODE_INSERT_CHUNK);
+        statements.push({
+          sql: `INSERT OR IGNORE INTO coupon_codes (coupon_id, code)
+                VALUES ${chunk.map(() => "(?, ?)").join(", ")}
+                RETURNING code`,
+          args: chunk.flatMap((code) => [coupon.id, code]),
+        });
+      }
+      const results = await this.client.batch(statements, "write");
+      for (const result of results) {
+        created.push(...result.rows.map((row) => row.code as string));
+      }
+    }
+    if (created.length < count) throw new Error("Failed to generate codes");
+    return created;
+  }
+
+  /** A coupon's single-use codes, oldest first. */
+  async getCouponCodes(couponId: string): Promise<CouponCode[]> {
+    const result = await this.client.execute({
+      sql: `SELECT id, coupon_id, code, used_by, used_at, created_at
+            FROM coupon_codes WHERE coupon_id = ? ORDER BY id`,
+      args: [couponId],
+    });
+    return (result.rows as unknown as Record<string, unknown>[]).map(
+      mapCouponCode,
+    );
+  }
+
+  async getCouponCode(id: string): Promise<CouponCode | null> {
+    const result = await this.client.execute({
+      sql: `SELECT id, coupon_id, code, used_by, used_at, created_at
+            FROM coupon_codes WHERE id = ?`,
+      args: [id],
+    });
+    if (!result.rows[0]) return null;
+    return mapCouponCode(result.rows[0] as Record<string, unknown>);
+  }
+
+  /**
+   * Find the coupon a code belongs to: either a coupon's shared code or one
+   * of its generated single-use codes (returned as `code`).
+   */
+  private async resolveCouponCode(
     couponCode: string,
-  ): Promise<{ success: boolean; coupon?: Coupon; error?: string }> {
+  ): Promise<{ coupon: Coupon; code: CouponCode | null } | null> {
     const coupon = await this.getCouponByCode(couponCode);
-    if (!coupon) return { success: false, error: "Coupon not found" };
-    if (!coupon.isActive)
-      return { success: false, error: "Coupon is not active" };
+    if (coupon) return { coupon, code: null };
+
+    const result = await this.client.execute({
+      sql: `SELECT id, coupon_id, code, used_by, used_at, created_at
+            FROM coupon_codes WHERE code = ?`,
+      args: [couponCode.toUpperCase()],
+    });
+    if (!result.rows[0]) return null;
+    const code = mapCouponCode(result.rows[0] as Record<string, unknown>);
+    return { coupon: await this.getCouponById(parseInt(code.couponId)), code };
+  }
+
+  /** Why `user` cannot redeem `coupon` right now, or null if they can. */
+  private async redeemBlocker(
+    coupon: Coupon,
+    user: Pick<User, "id" | "isPremium">,
+    code: CouponCode | null = null,
+  ): Promise<string | null> {
+    if (!coupon.isActive) return "Coupon is not active";
+    if (coupon.codesIssued > 0 && !code)
+      return "This deal needs one of its single-use codes";
+    if (code?.usedAt) return "This code has already been used";
+    if (coupon.isPremiumOnly && !user.isPremium)
+      return "Premium membership required";
     const now = new Date();
-    if (now < new Date(coupon.startDate))
-      return { success: false, error: "Coupon is not yet valid" };
-    if (now > new Date(coupon.endDate))
-      return { success: false, error: "Coupon has expired" };
-    if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
-      return { success: false, error: "Coupon usage limit reached" };
+    if (now < new Date(coupon.startDate)) return "Coupon is not yet valid";
+    if (now > new Date(coupon.endDate)) return "Coupon has expired";
+    if (coupon.schedule && !isWithinSchedule(coupon.schedule, now))
+      return "Coupon is only valid during its scheduled hours";
+    if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit)
+      return "Coupon usage limit reached";
+    if (coupon.perUserLimit !== null) {
+      const used = await this.client.execute({
+        sql: "SELECT COUNT(*) as count FROM coupon_redemptions WHERE coupon_id = ? AND user_id = ?",
+        args: [coupon.id, user.id],
+      });
+      if (toNum(used.rows[0]?.count) >= coupon.perUserLimit)
+        return "You have already redeemed this coupon";
+    }
+    return null;
+  }
+
+  /**
+   * The write half of a redemption. The limits are checked inside the UPDATE
+   * itself so concurrent requests can never push usage_count past
+   * usage_limit (or a user past their per-user limit); the redemption row is
+   * only inserted if the UPDATE matched. A single-use code must still be
+   * unused for the UPDATE to match, and is marked used last. Run them all in
+   * one transaction.
+   */
+  private redemptionStatements(
+    coupon: Coupon,
+    userId: string,
+    codeId: string | null = null,
+  ): InStatement[] {
+    const statements: InStatement[] = [
+      {
+        sql: `UPDATE coupons
+              SET usage_count = usage_count + 1,
+                  updated_at = CURRENT_TIMESTAMP
+              WHERE id = ? AND is_active = 1
+                AND (usage_limit IS NULL OR usage_count < usage_limit)
+                AND (per_user_limit IS NULL OR per_user_limit > (
+                  SELECT COUNT(*) FROM coupon_redemptions
+                  WHERE coupon_id = ? AND user_id = ?
+                ))
+                AND (? IS NULL OR EXISTS (
+                  SELECT 1 FROM coupon_codes
+                  WHERE id = ? AND coupon_id = coupons.id AND used_at IS NULL
+                ))`,
+        args: [coupon.id, coupon.id, userId, codeId, codeId],
+      },
+      {
+        sql: `INSERT INTO coupon_redemptions (coupon_id, user_id, business_id)
+              SELECT ?, ?, ? WHERE changes() = 1`,
+        args: [coupon.id, userId, coupon.businessId],
+      },
+    ];
+    if (codeId) {
+      statements.push({
+        sql: `UPDATE coupon_codes
+              SET used_at = CURRENT_TIMESTAMP, used_by = ?
+              WHERE id = ? AND used_at IS NULL AND changes() = 1`,
+        args: [userId, codeId],
+      });
+    }
+    return statements;
+  }
+
+  /** Error for a redemption whose conditional UPDATE matched no row. */
+  private async lostRedemptionError(
+    coupon: Coupon,
+    codeId: string | null = null,
+  ): Promise<string> {
+    if (codeId) {
+      const code = await this.client.execute({
+        sql: "SELECT used_at FROM coupon_codes WHERE id = ?",
+        args: [codeId],
+      });
+      if (code.rows[0]?.used_at) return "This code has already been used";
+    }
+    const current = await this.getCouponById(parseInt(coupon.id));
+    if (!current.isActive) return "Coupon is not active";
+    if (current.usageLimit !== null && current.usageCount >= current.usageLimit)
+      return "Coupon usage limit reached";
+    return "You have already redeemed this coupon";
+  }
+
+  async redeemCoupon(
+    couponCode: string,
+    user: Pick<User, "id" | "isPremium">,
+  ): Promise<{
+    success: boolean;
+    coupon?: Coupon;
+    redemption?: CouponRedemption;
+    error?: string;
+  }> {
+    const resolved = await this.resolveCouponCode(couponCode);
+    if (!resolved) return { success: false, error: "Coupon not found" };
+    const { coupon, code } = resolved;
+    const blocker = await this.redeemBlocker(coupon, user, code);
+    if (blocker) return { success: false, error: blocker };
+
+    const [claimed, inserted] = await this.client.batch(
+      this.redemptionStatements(coupon, user.id, code?.id),
+      "write",
+    );
+    if (claimed.rowsAffected === 0) {
+      return {
+        success: false,
+        error: await this.lostRedemptionError(coupon, code?.id),
+      };
     }
+
+    const updatedCoupon = await this.getCouponById(parseInt(coupon.id));
+    const [redemption] = await this.getUserRedemptions(user.id, {
+      redemptionId: String(inserted.lastInsertRowid),
+    });
+    return { success: true, coupon: updatedCoupon, redemption };
+  }
+
+  /**
+   * Reserve a single-use, short-lived claim that a merchant later verifies
+   * at the point of sale. Eligibility is checked now and again on verify.
+   */
+  async createCouponClaim(
+    couponCode: string,
+    user: Pick<User, "id" | "isPremium">,
+    ttlSeconds: number,
+  ): Promise<{
+    success: boolean;
+    claim?: CouponClaim;
+    coupon?: Coupon;
+    error?: string;
+  }> {
+    const resolved = await this.resolveCouponCode(couponCode);
+    if (!resolved) return { success: false, error: "Coupon not found" };
+    const { coupon, code } = resolved;
+    const blocker = await this.redeemBlocker(coupon, user, code);
+    if (blocker) return { success: false, error: blocker };
+
+    const id = crypto.randomBytes(16).toString("hex");
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
     await this.client.execute({
-      sql: "UPDATE coupons SET usage_count = usage_count + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
-      args: [coupon.id],
+      sql: "INSERT INTO coupon_claims (id, coupon_id, user_id, expires_at, code_id) VALUES (?, ?, ?, ?, ?)",
+      args: [id, coupon.id, user.id, expiresAt.toISOString(), code?.id ?? null],
     });
-    const updatedCoupon = await this.getCouponById(parseInt(coupon.id));
-    return { success: true, coupon: updatedCoupon };
+    return { success: true, claim: (await this.getCouponClaim(id))!, coupon };
   }
 
-  async getActiveCouponCount(businessId: string): Promise<number> {
+  async getCouponClaim(id: string): Promise<CouponClaim | null> {
     const result = await this.client.execute({
-      sql: `SELECT COUNT(*) as count FROM coupons
-            WHERE business_id = ? AND is_active = 1
-              AND datetime(start_date) <= datetime('now')
-              AND datetime(end_date) >= datetime('now')`,
-      args: [businessId],
+      sql: `SELECT id, coupon_id, user_id, expires_at, used_at, verified_by,
+                   code_id, created_at
+            FROM coupon_claims WHERE id = ?`,
+      args: [id],
     });
-    return toNum((result.rows[0] as any).count);
+    if (!result.rows[0]) return null;
+    return mapCouponClaim(result.rows[0] as Record<string, unknown>);
+  }
+
+  /**
+   * Mark a claim used and redeem its coupon for the shopper who made it, in
+   * one transaction – a replayed or expired claim redeems nothing, and a
+   * claim is only consumed if the redemption succeeds.
+   */
+  async redeemCouponClaim(
+    claimId: string,
+    verifiedBy: string,
+  ): Promise<{
+    success: boolean;
+    coupon?: Coupon;
+    redemption?: CouponRedemption;
+    customer?: Pick<User, "id" | "name">;
+    error?: string;
+  }> {
+    const claim = await this.getCouponClaim(claimId);
+    if (!claim) return { success: false, error: "Claim not found" };
+    if (claim.usedAt)
+      return { success: false, error: "Claim has already been used" };
+    if (new Date(claim.expiresAt) <= new Date())
+      return { success: false, error: "Claim has expired" };
+
+    const coupon = await this.getCouponById(parseInt(claim.couponId));
+    const customer = await this.getUserById(parseInt(claim.userId));
+    const code = claim.codeId ? await this.getCouponCode(claim.codeId) : null;
+    const blocker = await this.redeemBlocker(coupon, customer, code);
+    if (blocker) return { success: false, error: blocker };
+
+    const tx = await this.client.transaction("write");
+    let redemptionId: string;
+    try {
+      const used = await tx.execute({
+        sql: `UPDATE coupon_claims SET used_at = CURRENT_TIMESTAMP, verified_by = ?
+              WHERE id = ? AND used_at IS NULL
+                AND datetime(expires_at) > datetime('now')`,
+        args: [verifiedBy, claimId],
+      });
+      if (used.rowsAffected === 0) {
+        await tx.rollback();
+        const current = await this.getCouponClaim(claimId);
+        return {
+          success: false,
+          error: current?.usedAt
+            ? "Claim has already been used"
+            : "Claim has expired",
+        };
+      }
+
+      const [redeemStmt, insertStmt, ...rest] = this.redemptionStatements(
+        coupon,
+        claim.userId,
+        claim.codeId,
+      );
+      const redeemed = await tx.execute(redeemStmt);
+      if (redeemed.rowsAffected === 0) {
+        await tx.rollback();
+        return {
+          success: false,
+          error: await this.lostRedemptionError(coupon, claim.codeId),
+        };
+      }
+      const inserted = await tx.execute(insertStmt);
+      redemptionId = String(inserted.lastInsertRowid);
+      for (const statement of rest) await tx.execute(statement);
+      await tx.commit();
+    } finally {
+      tx.close();
+    }
+
+    const [redemption] = await this.getUserRedemptions(claim.userId, {
+      redemptionId,
+    });
+    return {
+      success: true,
+      coupon: await this.getCouponById(parseInt(coupon.id)),
+      redemption,
+      customer: { id: customer.id, name: customer.name },
+    };
+  }
+
+  /** Drop claims that expired over a day ago without being used. */
+  async cleanupExpiredCouponClaims(): Promise<void> {
+    await this.client.execute(
+      "DELETE FROM coupon_claims WHERE used_at IS NULL AND datetime(expires_at) < datetime('now', '-1 day')",
+    );
+  }
+
+  /** A user's coupon redemptions, newest first. */
+  async getUserRedemptions(
+    userId: string,
+    filter: { businessId?: string; redemptionId?: string } = {},
+  ): Promise<CouponRedemption[]> {
+    const where = ["r.user_id = ?"];
+    const args: string[] = [userId];
+    if (filter.businessId) {
+      where.push("r.business_id = ?");
+      args.push(filter.businessId);
+    }
+    if (filter.redemptionId) {
+      where.push("r.id = ?");
+      args.push(filter.redemptionId);
+    }
+    const result = await this.client.execute({
+      sql: `SELECT r.id as redemptionId, r.user_id as redemptionUserId,
+                   r.business_id as redemptionBusinessId,
+                   r.redeemed_at as redeemedAt, c.*
+            FROM coupon_redemptions r
+            JOIN (SELECT ${COUPON_COLUMNS} FROM coupons) c ON c.id = r.coupon_id
+            WHERE ${where.join(" AND ")}
+            ORDER BY r.redeemed_at DESC, r.id DESC`,
+      args,
+    });
+    return (result.rows as unknown as Record<string, unknown>[]).map(
+      (row) => ({
+        id: String(row.redemptionId),
+        couponId: String(row.id),
+        userId: String(row.redemptionUserId),
+        businessId: row.redemptionBusinessId as string,
+        redeemedAt: row.redeemedAt as string,
+        coupon: mapCoupon(row),
+      }),
+    );
+  }
+
+  /** Log a view or copy for each coupon; unknown IDs are ignored. */
+  async recordCouponEvents(
+    couponIds: string[],
+    type: CouponEventType,
+    userId: string | null,
+  ): Promise<number> {
+    if (couponIds.length === 0) return 0;
+    const placeholders = couponIds.map(() => "?").join(", ");
+    const result = await this.client.execute({
+      sql: `INSERT INTO coupon_events (coupon_id, business_id, user_id, event_type)
+            SELECT id, business_id, ?, ? FROM coupons WHERE id IN (${placeholders})`,
+      args: [userId, type, ...couponIds],
+    });
+    return result.rowsAffected;
+  }
+
+  /**
+   * Views, copies and redemptions between `from` and `to`, as a time series
+   * plus per-coupon and per-business funnels. `businessIds` restricts the
+   * scope (an owner's listings); omit it for every business.
+   */
+  async getCouponAnalytics(options: {
+    from: Date;
+    to: Date;
+    bucket: AnalyticsBucket;
+    businessIds?: string[];
+    couponId?: string;
+  }): Promise<CouponAnalytics> {
+    const where = [
+      "datetime(e.at) >= datetime(?)",
+      "datetime(e.at) < datetime(?)",
+    ];
+    const args: (string | number)[] = [
+      options.from.toISOString(),
+      options.to.toISOString(),
+    ];
+    if (options.businessIds) {
+      // An owner with no businesses sees nothing rather than everything
+      where.push(
+        options.businessIds.length > 0
+          ? `e.business_id IN (${options.businessIds.map(() => "?").join(", ")})`
+          : "0",
+      );
+      args.push(...options.businessIds);
+    }
+    if (options.couponId) {
+      where.push("e.coupon_id = ?");
+      args.push(options.couponId);
+    }
+
+    const events = `(
+      SELECT coupon_id, business_id, event_type, created_at AS at
+      FROM coupon_events
+      UNION ALL
+      SELECT coupon_id, business_id, 'redeem', redeemed_at FROM coupon_redemptions
+    ) e`;
+    const counts = `SUM(e.event_type = 'view') as views,
+                    SUM(e.event_type = 'copy') as copies,
+                    SUM(e.event_type = 'redeem') as redemptions`;
+    const whereSql = where.join(" AND ");
+
+    const [series, coupons, businesses] = await this.client.batch(
+      [
+        {
+          sql: `SELECT ${BUCKET_SQL[options.bucket]("e.at")} as bucket, ${counts}
+                FROM ${events} WHERE ${whereSql}
+                GROUP BY bucket`,
+          args,
+        },
+        {
+          sql: `SELECT e.coupon_id, c.business_id, c.title, c.coupon_code, ${counts}
+                FROM ${events} JOIN coupons c ON c.id = e.coupon_id
+                WHERE ${whereSql}
+                GROUP BY e.coupon_id
+                ORDER BY views DESC, redemptions DESC`,
+          args,
+        },
+        {
+          sql: `SELECT e.business_id, b.name as business_name, ${counts}
+                FROM ${events} LEFT JOIN businesses b ON b.id = e.business_id
+                WHERE ${whereSql}
+                GROUP BY e.business_id
+                ORDER BY views DESC, redemptions DESC`,
+          args,
+        },
+      ],
+      "read",
+    );
+
+    const byBucket = new Map(
+      (series.rows as unknown as Record<string, unknown>[]).map((row) => [
+        row.bucket as string,
+        row,
+      ]),
+    );
+    const points = bucketLabels(options.from, options.to, options.bucket).map(
+      (bucket) => {
+        const row = byBucket.get(bucket);
+        return {
+          bucket,
+          views: toNum(row?.views),
+          copies: toNum(row?.copies),
+          redemptions: toNum(row?.redemptions),
+        };
+      },
+    );
+
+    return {
+      from: options.from.toISOString(),
+      to: options.to.toISOString(),
+      bucket: options.bucket,
+      totals: toFunnel({
+        views: points.reduce((sum, p) => sum + p.views, 0),
+        copies: points.reduce((sum, p) => sum + p.copies, 0),
+        redemptions: points.reduce((sum, p) => sum + p.redemptions, 0),
+      }),
+      series: points,
+      coupons: (coupons.rows as unknown as Record<string, unknown>[]).map(
+        (row) => ({
+          couponId: String(row.coupon_id),
+          businessId: row.business_id as string,
+          title: row.title as string,
+          couponCode: row.coupon_code as string,
+          ...toFunnel(row),
+        }),
+      ),
+      businesses: (businesses.rows as unknown as Record<string, unknown>[]).map(
+        (row) => ({
+          businessId: row.business_id as string,
+          businessName: (row.business_name as string | null) ?? null,
+          ...toFunnel(row),
+        }),
+      ),
+    };
+  }
+
+  async getActiveCouponCount(businessId: string): Promise<number> {
+    const counts = await this.getActiveCouponCounts([businessId]);
+    return counts[businessId] ?? 0;
   }
 
-  /** Fetch active coupon counts for multiple businesses in a single query. */
+  /**
+   * Fetch active coupon counts for multiple businesses in a single query.
+   * Schedules depend on each one's time zone, so they're checked here rather
+   * than in SQL.
+   */
   async getActiveCouponCounts(
     businessIds: string[],
   ): Promise<Record<string, number>> {
     if (businessIds.length === 0) return {};
     const placeholders = businessIds.map(() => "?").join(", ");
     const result = await this.client.execute({
-      sql: `SELECT business_id, COUNT(*) as count FROM coupons
+      sql: `SELECT business_id, schedule FROM coupons
             WHERE business_id IN (${placeholders}) AND is_active = 1
               AND datetime(start_date) <= datetime('now')
-              AND datetime(end_date) >= datetime('now')
-            GROUP BY business_id`,
+              AND datetime(end_date) >= datetime('now')`,
       args: businessIds,
     });
+    const now = new Date();
     const counts: Record<string, number> = {};
     for (const row of result.rows as unknown as Record<string, unknown>[]) {
-      counts[row.business_id as string] = toNum(row.count);
+      const schedule = row.schedule
+        ? (JSON.parse(row.schedule as string) as CouponSchedule)
+        : null;
+      if (schedule && !isWithinSchedule(schedule, now)) continue;
+      const id = row.business_id as string;
+      counts[id] = (counts[id] ?? 0) + 1;
     }
     return counts;
   }
@@ -1084,6 +3603,8 @@ class DatabaseManager {
     destinationLng: number;
     maxPassengers: number;
     note?: string;
+    /** Omitted for rides leaving right away */
+    departureAt?: Date;
   }): Promise<Rideshare> {
     const {
       creatorId,
@@ -1095,6 +3616,7 @@ class DatabaseManager {
       destinationLng,
       maxPassengers,
       note,
+      departureAt,
     } = data;
     if (maxPassengers < 1 || maxPassengers > 4)
       throw new Error("Max passengers must be between 1 and 4");
@@ -1119,8 +3641,8 @@ class DatabaseManager {
       sql: `INSERT INTO rideshares (
               creator_id, origin_name, origin_lat, origin_lng,
               destination_name, destination_lat, destination_lng,
-              max_passengers, note, share_code
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              max_passengers, note, share_code, departure_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       args: [
         creatorId,
         originName,
@@ -1132,6 +3654,7 @@ class DatabaseManager {
         maxPassengers,
         note ?? null,
         shareCode,
+        departureAt?.toISOString() ?? null,
       ],
     });
     const rideshareId = toNum(result.lastInsertRowid);
@@ -1178,7 +3701,7 @@ class DatabaseManager {
             JOIN users u1 ON u1.id = r.creator_id
             LEFT JOIN users u2 ON u2.id = r.driver_id
             WHERE r.status IN ('waiting', 'accepted')
-            ORDER BY r.created_at DESC`,
+            ORDER BY datetime(COALESCE(r.departure_at, r.created_at)) ASC, r.id ASC`,
       args: [],
     });
     return (result.rows as unknown as Record<string, unknown>[]).map(
@@ -1367,9 +3890,61 @@ class DatabaseManager {
         success: false,
         error: "Can only complete a ride that is in transit",
       };
+
+    // Split the fare across the passengers, who owe it to the driver
+    const statements: InStatement[] = [
+      {
+        sql: "UPDATE rideshares SET status = 'completed', updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        args: [rideshareId],
+      },
+    ];
+    const totalCents = fareTotalCents(rideshare);
+    if (totalCents && rideshare.driverId) {
+      const payers = (await this.getRidesharePassengers(rideshareId)).filter(
+        (p) => p.userId !== rideshare.driverId,
+      );
+      splitFare(totalCents, payers.length).forEach((amountCents, i) => {
+        // A fare of fewer cents than passengers leaves some owing nothing
+        if (amountCents === 0) return;
+        statements.push({
+          sql: `INSERT OR IGNORE INTO rideshare_fare_shares
+                  (rideshare_id, origin_name, destination_name, payer_id, payee_id, amount_cents)
+                VALUES (?, ?, ?, ?, ?, ?)`,
+          args: [
+            rideshareId,
+            rideshare.originName,
+            rideshare.destinationName,
+            payers[i].userId,
+            rideshare.driverId,
+            amountCents,
+          ],
+        });
+      });
+    }
+    await this.client.batch(statements, "write");
+    return { success: true };
+  }
+
+  /**
+   * Set or clear (`fare` null) a ride's fare. Only its driver may, and only
+   * until the ride ends.
+   */
+  async setRideshareFare(
+    rideshareId: string,
+    driverId: string,
+    fare: { type: FareType; cents: number } | null,
+  ): Promise<{ success: boolean; error?: string }> {
+    const rideshare = await this.getRideshareById(parseInt(rideshareId));
+    if (rideshare.driverId !== driverId)
+      return { success: false, error: "Only the driver can set the fare" };
+    if (rideshare.status !== "accepted" && rideshare.status !== "in_transit")
+      return {
+        success: false,
+        error: "The fare can only be changed before the ride ends",
+      };
     await this.client.execute({
-      sql: "UPDATE rideshares SET status = 'completed', updated_at = CURRENT_TIMESTAMP WHERE id = ?",
-      args: [rideshareId],
+      sql: "UPDATE rideshares SET fare_type = ?, fare_cents = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+      args: [fare?.type ?? null, fare?.cents ?? null, rideshareId],
     });
     return { success: true };
   }
@@ -1390,11 +3965,255 @@ class DatabaseManager {
     return { success: true };
   }
 
-  async cleanupOldRideshares(): Promise<number> {
-    const result = await this.client.execute(
-      `DELETE FROM rideshares WHERE status IN ('completed', 'cancelled')
-       AND datetime(updated_at) < datetime('now', '-24 hours')`,
+  /** Whether the user is the ride's creator, its driver or a passenger. */
+  async isRideshareParticipant(
+    rideshareId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const result = await this.client.execute({
+      sql: `SELECT 1 FROM rideshares r
+            WHERE r.id = ? AND (r.creator_id = ? OR r.driver_id = ? OR EXISTS (
+              SELECT 1 FROM rideshare_passengers rp
+              WHERE rp.rideshare_id = r.id AND rp.user_id = ?))`,
+      args: [rideshareId, userId, userId, userId],
+    });
+    return result.rows.length > 0;
+  }
+
+  /** A ride's chat thread, oldest first, up to the latest 200 messages. */
+  async getRideshareMessages(
+    rideshareId: string,
+  ): Promise<RideshareMessage[]> {
+    const result = await this.client.execute({
+      sql: `SELECT * FROM (
+              SELECT m.*, u.name as user_name FROM rideshare_messages m
+              JOIN users u ON u.id = m.user_id
+              WHERE m.rideshare_id = ? ORDER BY m.id DESC LIMIT 200
+            ) ORDER BY id ASC`,
+      args: [rideshareId],
+    });
+    return (result.rows as unknown as Record<string, unknown>[]).map(
+      mapRideshareMessageRow,
+    );
+  }
+
+  /**
+   * Post to a ride's chat. The caller checks that the user is a participant;
+   * once the ride has ended the thread is kept, read-only, until cleanup.
+   */
+  async createRideshareMessage(
+    rideshareId: string,
+    userId: string,
+    text: string,
+  ): Promise<{
+    success: boolean;
+    error?: string;
+    message?: RideshareMessage;
+  }> {
+    const rideshare = await this.getRideshareById(parseInt(rideshareId));
+    if (rideshare.status === "completed" || rideshare.status === "cancelled")
+      return {
+        success: false,
+        error: "This ride has ended — its chat is read-only",
+      };
+    const insert = await this.client.execute({
+      sql: "INSERT INTO rideshare_messages (rideshare_id, user_id, text) VALUES (?, ?, ?)",
+      args: [rideshareId, userId, text],
+    });
+    const result = await this.client.execute({
+      sql: `SELECT m.*, u.name as user_name FROM rideshare_messages m
+            JOIN users u ON u.id = m.user_id WHERE m.id = ?`,
+      args: [toNum(insert.lastInsertRowid)],
+    });
+    return {
+      success: true,
+      message: mapRideshareMessageRow(
+        result.rows[0] as unknown as Record<string, unknown>,
+      ),
+    };
+  }
+
+  /**
+   * Cancel rides still waiting for a driver `graceMinutes` after their
+   * departure time. Returns the ids of the rides cancelled.
+   */
+  async cancelOverdueRideshares(graceMinutes: number): Promise<string[]> {
+    const result = await this.client.execute({
+      sql: `UPDATE rideshares SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+            WHERE status = 'waiting'
+              AND datetime(departure_at) < datetime('now', ?)
+            RETURNING id`,
+      args: [`-${graceMinutes} minutes`],
+    });
+    return result.rows.map((row) => String(row.id));
+  }
+
+  /**
+   * Store a reminder for every participant of each active ride departing
+   * within `leadMinutes`, once per ride, so those without a live stream see
+   * it later. Returns the ids of the rides reminded.
+   */
+  async claimDueRideshareReminders(leadMinutes: number): Promise<string[]> {
+    const due = `reminder_sent_at IS NULL
+              AND status IN ('waiting', 'accepted')
+              AND datetime(departure_at) > datetime('now')
+              AND datetime(departure_at) <= datetime('now', ?)`;
+    const window = `+${leadMinutes} minutes`;
+    const [, claimed] = await this.client.batch(
+      [
+        {
+          sql: `INSERT OR IGNORE INTO rideshare_reminders (rideshare_id, user_id)
+                SELECT id, creator_id FROM rideshares WHERE ${due}
+                UNION
+                SELECT id, driver_id FROM rideshares
+                WHERE driver_id IS NOT NULL AND ${due}
+                UNION
+                SELECT rp.rideshare_id, rp.user_id FROM rideshare_passengers rp
+                WHERE rp.rideshare_id IN (SELECT id FROM rideshares WHERE ${due})`,
+          args: [window, window, window],
+        },
+        {
+          sql: `UPDATE rideshares SET reminder_sent_at = CURRENT_TIMESTAMP
+                WHERE ${due}
+                RETURNING id`,
+          args: [window],
+        },
+      ],
+      "write",
+    );
+    return claimed.rows.map((row) => String(row.id));
+  }
+
+  /** Rides the user has an unseen departure reminder for, soonest first. */
+  async getUnreadRideshareReminders(userId: string): Promise<Rideshare[]> {
+    const result = await this.client.execute({
+      sql: `SELECT r.*, u1.name as creator_name, u2.name as driver_name,
+                   (SELECT COUNT(*) FROM rideshare_passengers WHERE rideshare_id = r.id) as current_passengers
+            FROM rideshare_reminders rr
+            JOIN rideshares r ON r.id = rr.rideshare_id
+            JOIN users u1 ON u1.id = r.creator_id
+            LEFT JOIN users u2 ON u2.id = r.driver_id
+            WHERE rr.user_id = ? AND rr.read_at IS NULL
+              AND r.status IN ('waiting', 'accepted')
+            ORDER BY datetime(r.departure_at) ASC, r.id ASC`,
+      args: [userId],
+    });
+    return (result.rows as unknown as Record<string, unknown>[]).map(
+      mapRideshareRow,
+    );
+  }
+
+  async markRideshareReminderRead(
+    rideshareId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.client.execute({
+      sql: `UPDATE rideshare_reminders SET read_at = CURRENT_TIMESTAMP
+            WHERE rideshare_id = ? AND user_id = ? AND read_at IS NULL`,
+      args: [rideshareId, userId],
+    });
+  }
+
+  async getFareShareById(id: string): Promise<FareShare | null> {
+    const result = await this.client.execute({
+      sql: `SELECT s.*, payer.name as payer_name, payee.name as payee_name
+            FROM rideshare_fare_shares s
+            JOIN users payer ON payer.id = s.payer_id
+            LEFT JOIN users payee ON payee.id = s.payee_id
+            WHERE s.id = ?`,
+      args: [id],
+    });
+    const row = result.rows[0];
+    return row
+      ? mapFareShareRow(row as unknown as Record<string, unknown>)
+      : null;
+  }
+
+  /** Every fare share the user owes or is owed, newest first, with totals. */
+  async getFareLedger(
+    userId: string,
+  ): Promise<{ entries: FareShare[]; balance: FareBalance }> {
+    const result = await this.client.execute({
+      sql: `SELECT s.*, payer.name as payer_name, payee.name as payee_name
+            FROM rideshare_fare_shares s
+            JOIN users payer ON payer.id = s.payer_id
+            LEFT JOIN users payee ON payee.id = s.payee_id
+            WHERE s.payer_id = ? OR s.payee_id = ?
+            ORDER BY s.created_at DESC, s.id DESC`,
+      args: [userId, userId],
+    });
+    const entries = (result.rows as unknown as Record<string, unknown>[]).map(
+      mapFareShareRow,
     );
+    const unpaid = entries.filter((e) => e.status === "owed");
+    const sum = (shares: FareShare[]) =>
+      shares.reduce((total, e) => total + e.amountCents, 0);
+    const owedCents = sum(unpaid.filter((e) => e.payerId === userId));
+    const owedToYouCents = sum(unpaid.filter((e) => e.payeeId === userId));
+    return {
+      entries,
+      balance: {
+        owedCents,
+        owedToYouCents,
+        netCents: owedToYouCents - owedCents,
+      },
+    };
+  }
+
+  /** The driver confirms they were paid, e.g. in cash. */
+  async markFareSharePaid(
+    shareId: string,
+    userId: string,
+  ): Promise<{ success: boolean; error?: string }> {
+    const share = await this.getFareShareById(shareId);
+    if (!share) return { success: false, error: "Fare share not found" };
+    if (share.payeeId !== userId)
+      return {
+        success: false,
+        error: "Only the driver who is owed can mark this paid",
+      };
+    if (share.status === "paid")
+      return { success: false, error: "This share is already paid" };
+    await this.client.execute({
+      sql: "UPDATE rideshare_fare_shares SET status = 'paid', paid_at = CURRENT_TIMESTAMP WHERE id = ?",
+      args: [shareId],
+    });
+    return { success: true };
+  }
+
+  /**
+   * Record a share as paid through Stripe. Idempotent, since both the
+   * checkout redirect and the webhook report the same payment; returns
+   * whether this call changed it.
+   */
+  async settleFareShare(
+    shareId: string,
+    stripeSessionId: string,
+  ): Promise<boolean> {
+    const result = await this.client.execute({
+      sql: `UPDATE rideshare_fare_shares
+            SET status = 'paid', paid_at = CURRENT_TIMESTAMP, stripe_session_id = ?
+            WHERE id = ? AND status = 'owed'`,
+      args: [stripeSessionId, shareId],
+    });
+    return result.rowsAffected > 0;
+  }
+
+  /**
+   * Delete rides a day after they end. Rides with a chat are kept, with
+   * their passengers, for `RIDESHARE_CHAT_ARCHIVE_DAYS` so the thread stays
+   * readable for a while.
+   */
+  async cleanupOldRideshares(): Promise<number> {
+    const result = await this.client.execute({
+      sql: `DELETE FROM rideshares WHERE status IN ('completed', 'cancelled')
+            AND datetime(updated_at) < datetime('now',
+              CASE WHEN EXISTS (
+                SELECT 1 FROM rideshare_messages m
+                WHERE m.rideshare_id = rideshares.id
+              ) THEN ? ELSE '-24 hours' END)`,
+      args: [`-${RIDESHARE_CHAT_ARCHIVE_DAYS} days`],
+    });
     if (result.rowsAffected > 0)
       console.log(`Cleaned up ${result.rowsAffected} old rideshares`);
     return result.rowsAffected;
@@ -1425,5 +4244,11 @@ setInterval(
   },
   60 * 60 * 1000,
 );
+setInterval(
+  async () => {
+    await db.cleanupExpiredCouponClaims();
+  },
+  60 * 60 * 1000,
+);
 
 export default db;
@@ -0,0 +1,256 @@
+/**
+ * Coupon discount types and their structured parameters. Shared by the API
+ * (validation) and the client (rendering).
+ *
+ * `discountValue` is the headline number for each type:
+ * - percentage: percent off the bill
+ * - fixed: amount off the bill
+ * - bogo: percent off the "get" items (100 = free)
+ * - free_item: retail value of the free item
+ * - min_spend: amount off once `minSpend` is reached
+ * - tiered: the best tier's percent off (derived from the tiers)
+ */
+
+export type DiscountType =
+  | "percentage"
+  | "fixed"
+  | "bogo"
+  | "free_item"
+  | "min_spend"
+  | "tiered";
+
+export const DISCOUNT_TYPES: DiscountType[] = [
+  "percentage",
+  "fixed",
+  "bogo",
+  "free_item",
+  "min_spend",
+  "tiered",
+];
+
+export interface BogoDetails {
+  buyQuantity: number;
+  getQuantity: number;
+  /** What the deal applies to, e.g. "footlong subs"; any item if omitted */
+  item?: string;
+}
+
+export interface FreeItemDetails {
+  item: string;
+  /** Spend needed to qualify; no minimum if omitted */
+  minSpend?: number;
+}
+
+export interface MinSpendDetails {
+  minSpend: number;
+}
+
+export interface DiscountTier {
+  minSpend: number;
+  percentOff: number;
+}
+
+export interface TieredDetails {
+  /** Sorted by minSpend, ascending */
+  tiers: DiscountTier[];
+}
+
+export type DiscountDetails =
+  | BogoDetails
+  | FreeItemDetails
+  | MinSpendDetails
+  | TieredDetails;
+
+export interface Discount {
+  discountType: DiscountType;
+  discountValue: number;
+  discountDetails: DiscountDetails | null;
+}
+
+const MAX_TIERS = 5;
+const MAX_ITEM_LENGTH = 100;
+
+const isPositive = (n: unknown): n is number =>
+  typeof n === "number" && Number.isFinite(n) && n > 0;
+
+const isPositiveInt = (n: unknown): n is number =>
+  Number.isInteger(n) && (n as number) > 0;
+
+function optionalItem(item: unknown): string | undefined | Error {
+  if (item === undefined || item === null || item === "") return undefined;
+  if (typeof item !== "string" || item.trim().length > MAX_ITEM_LENGTH) {
+    return new Error(`Item must be at most ${MAX_ITEM_LENGTH} characters`);
+  }
+  return item.trim();
+}
+
+/**
+ * Check a discount's type, value and details together and return them in
+ * canonical form (trimmed, tiers sorted, unknown keys dropped). Throws with a
+ * user-facing message when the combination is invalid.
+ */
+export function normalizeDiscount(
+  discountType: unknown,
+  discountValue: unknown,
+  details: unknown,
+): Discount {
+  if (!DISCOUNT_TYPES.includes(discountType as DiscountType)) {
+    throw new Error(
+      `Discount type must be one of: ${DISCOUNT_TYPES.join(", ")}`,
+    );
+  }
+  const type = discountType as DiscountType;
+  const d = (details ?? {}) as Record<string, unknown>;
+  if (typeof d !== "object" || Array.isArray(d)) {
+    throw new Error("Discount details must be an object");
+  }
+
+  if (type === "tiered") {
+    if (
+      !Array.isArray(d.tiers) ||
+      d.tiers.length < 2 ||
+      d.tiers.length > MAX_TIERS
+    ) {
+      throw new Error(`Tiered discounts need 2-${MAX_TIERS} tiers`);
+    }
+    const tiers = (d.tiers as Record<string, unknown>[])
+      .map((t) => ({ minSpend: t?.minSpend, percentOff: t?.percentOff }))
+      .sort((a, b) => Number(a.minSpend) - Number(b.minSpend));
+    for (const [i, tier] of tiers.entries()) {
+      if (!isPositive(tier.minSpend)) {
+        throw new Error("Each tier needs a positive minimum spend");
+      }
+      if (!isPositive(tier.percentOff) || tier.percentOff > 100) {
+        throw new Error("Each tier's percent off must be between 0 and 100");
+      }
+      if (i > 0 && tier.minSpend === tiers[i - 1].minSpend) {
+        throw new Error("Tiers must have different minimum spends");
+      }
+      if (i > 0 && tier.percentOff <= (tiers[i - 1].percentOff as number)) {
+        throw new Error("Higher tiers must give a bigger discount");
+      }
+    }
+    return {
+      discountType: type,
+      discountValue: tiers[tiers.length - 1].percentOff as number,
+      discountDetails: { tiers: tiers as DiscountTier[] },
+    };
+  }
+
+  if (!isPositive(discountValue)) {
+    throw new Error("Discount value must be positive");
+  }
+  if (
+    (type === "percentage" || type === "bogo") &&
+    (discountValue as number) > 100
+  ) {
+    throw new Error("Percentage discount cannot exceed 100%");
+  }
+
+  switch (type) {
+    case "percentage":
+    case "fixed":
+      return { discountType: type, discountValue, discountDetails: null };
+
+    case "bogo": {
+      if (!isPositiveInt(d.buyQuantity) || !isPositiveInt(d.getQuantity)) {
+        throw new Error("Buy and get quantities must be positive integers");
+      }
+      const item = optionalItem(d.item);
+      if (item instanceof Error) throw item;
+      return {
+        discountType: type,
+        discountValue,
+        discountDetails: {
+          buyQuantity: d.buyQuantity as number,
+          getQuantity: d.getQuantity as number,
+          ...(item ? { item } : {}),
+        },
+      };
+    }
+
+    case "free_item": {
+      const item = optionalItem(d.item);
+      if (item instanceof Error) throw item;
+      if (!item) throw new Error("Free item deals must name the item");
+      if (d.minSpend !== undefined && d.minSpend !== null) {
+        if (!isPositive(d.minSpend)) {
+          throw new Error("Minimum spend must be positive");
+        }
+      }
+      return {
+        discountType: type,
+        discountValue,
+        discountDetails: {
+          item,
+          ...(isPositive(d.minSpend) ? { minSpend: d.minSpend } : {}),
+        },
+      };
+    }
+
+    case "min_spend":
+      if (!isPositive(d.minSpend)) {
+        throw new Error("Minimum spend must be positive");
+      }
+      if ((discountValue as number) >= d.minSpend) {
+        throw new Error("Discount must be less than the minimum spend");
+      }
+      return {
+        discountType: type,
+        discountValue,
+        discountDetails: { minSpend: d.minSpend },
+      };
+  }
+}
+
+const money = (n: number) =>
+  Number.isInteger(n) ? `$${n}` : `$${n.toFixed(2)}`;
+
+/** Short badge text for a discount, e.g. "BUY 2 GET 1 FREE". */
+export function describeDiscount(discount: Discount): string {
+  const { discountType, discountValue } = discount;
+  const details = (discount.discountDetails ?? {}) as Partial<
+    BogoDetails & FreeItemDetails & MinSpendDetails & TieredDetails
+  >;
+
+  switch (discountType) {
+    case "percentage":
+      return `${discountValue}% OFF`;
+    case "fixed":
+      return `$${discountValue.toFixed(2)} OFF`;
+    case "bogo": {
+      const get = discountValue >= 100 ? "FREE" : `${discountValue}% OFF`;
+      return `BUY ${details.buyQuantity ?? 1} GET ${details.getQuantity ?? 1} ${get}`;
+    }
+    case "free_item":
+      return `FREE ${(details.item ?? "ITEM").toUpperCase()}`;
+    case "min_spend":
+      return `${money(discountValue)} OFF ${money(details.minSpend ?? 0)}+`;
+    case "tiered":
+      return `UP TO ${discountValue}% OFF`;
+  }
+}
+
+/** The fine print for a discount, or null when the badge says it all. */
+export function discountTerms(discount: Discount): string | null {
+  const details = (discount.discountDetails ?? {}) as Partial<
+    BogoDetails & FreeItemDetails & MinSpendDetails & TieredDetails
+  >;
+
+  switch (discount.discountType) {
+    case "bogo":
+      return details.item ? `Applies to ${details.item}` : null;
+    case "free_item":
+      return details.minSpend
+        ? `With a purchase of ${money(details.minSpend)} or more`
+        : null;
+    case "min_spend":
+      return `On orders of ${money(details.minSpend ?? 0)} or more`;
+    case "tiered":
+      return (details.tiers ?? [])
+        .map((t) => `${t.percentOff}% off ${money(t.minSpend)}+`)
+        .join(" · ");
+    default:
+      return null;
+  }
+}
@@ -1,4 +1,4 @@
-import { businesses as appBusinesses, calculateDistance } from "./businesses";
+import { calculateDistance, type Business } from "./businesses";
 
 const API_BASE =
   (import.meta as any).env?.VITE_API_URL ?? "http://localhost:3001/api";
@@ -124,16 +124,14 @@ export class LocationSearchEngine {
     const q = query.trim();
     if (q.length < 2) return [];
 
-    // 1) Instant: filter local app businesses
-    const localResults = this.searchLocalBusinesses(q);
-
-    // 2) Parallel network searches
-    const [osmResults, nominatimResults] = await Promise.all([
+    // 1) App catalog + parallel network searches
+    const [localResults, osmResults, nominatimResults] = await Promise.all([
+      this.searchLocalBusinesses(q, signal),
       q.length >= 3 ? this.searchOSM(q, signal) : Promise.resolve([]),
       q.length >= 3 ? this.searchNominatim(q, signal) : Promise.resolve([]),
     ]);
 
-    // 3) Combine, dedupe, sort by distance
+    // 2) Combine, dedupe, sort by distance
     const all = dedupeResults([
       ...localResults,
       ...osmResults,
@@ -152,15 +150,19 @@ export class LocationSearchEngine {
     return all.slice(0, 15);
   }
 
-  searchLocalBusinesses(query: string): LocationResult[] {
-    const q = query.toLowerCase();
-    const matches = appBusinesses.filter(
-      (b) =>
-        b.name.toLowerCase().includes(q) ||
-        b.address.toLowerCase().includes(q) ||
-        b.category.toLowerCase().includes(q) ||
-        b.description.toLowerCase().includes(q),
-    );
+  async searchLocalBusinesses(
+    query: string,
+    signal: AbortSignal,
+  ): Promise<LocationResult[]> {
+    let matches: Business[];
+    try {
+      const params = new URLSearchParams({ q: query, limit: "10" });
+      const resp = await fetch(`${API_BASE}/businesses?${params}`, { signal });
+      if (!resp.ok) return [];
+      matches = ((await resp.json()).businesses ?? []) as Business[];
+    } catch {
+      return [];
+    }
 
     return matches.map((b) => ({
       id: `app-${b.id}`,
@@ -194,16 +196,16 @@ export class LocationSearchEngine {
       const resp = await fetch(`${API_BASE}/osm/search?${params}`, { signal });
       if (!resp.ok) return [];
       const data = await resp.json();
-      return (data.results ?? []).map((r: any) => ({
-        id: `osm-${r.name}-${r.lat.toFixed(4)}`,
-        name: r.name,
-        address: r.address || "",
-        lat: r.lat,
-        lng: r.lng,
-        distanceKm: r.distance ?? null,
+      return ((data.businesses ?? []) as Business[]).map((b) => ({
+        id: b.id,
+        name: b.name,
+        address: b.address,
+        lat: b.lat,
+        lng: b.lng,
+        distanceKm: distanceKm(lat, lng, b.lat, b.lng),
         source: "osm" as const,
-        icon: getEmoji(r.type),
-        type: r.type,
+        icon: getEmoji(undefined, b.category),
+        type: b.category,
       }));
     } catch {
       return [];
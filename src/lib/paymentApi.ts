@@ -1,4 +1,4 @@
-import authApi from "./authApi";
+import authApi, { type UserRole } from "./authApi";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
 
@@ -34,7 +34,7 @@ export async function verifyCheckoutSession(sessionId: string): Promise<{
   id: string;
   email: string;
   name: string;
-  role: "user" | "admin";
+  role: UserRole;
   isVerified: boolean;
   isPremium: boolean;
   planType: string;
@@ -60,7 +60,7 @@ export async function demoUpgrade(
   id: string;
   email: string;
   name: string;
-  role: "user" | "admin";
+  role: UserRole;
   isVerified: boolean;
   isPremium: boolean;
   planType: string;
@@ -86,7 +86,7 @@ export async function cancelSubscription(): Promise<{
   id: string;
   email: string;
   name: string;
-  role: "user" | "admin";
+  role: UserRole;
   isVerified: boolean;
   isPremium: boolean;
   planType: string;
@@ -0,0 +1,87 @@
+import sharp from "sharp";
+import { photoUploadError } from "./photos";
+
+/**
+ * Server-side handling of uploaded review photos: decoding, checking that the
+ * bytes really are the image type claimed, and re-encoding them.
+ */
+
+const MAX_DIMENSION = 1600;
+const THUMBNAIL_SIZE = 320;
+// Refuse images that would decode to more pixels than this (decompression bombs)
+const MAX_INPUT_PIXELS = 40_000_000;
+
+const SHARP_FORMATS: Record<string, string> = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+export interface ProcessedPhoto {
+  image: Buffer;
+  thumbnail: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decode a `data:image/...;base64,` URL as sent by the client. Throws with a
+ * user-facing message if it isn't an accepted type or is too large.
+ */
+export function decodePhotoDataUrl(dataUrl: unknown): {
+  type: string;
+  data: Buffer;
+} {
+  const match =
+    typeof dataUrl === "string"
+      ? /^data:([\w/+.-]+);base64,(.*)$/s.exec(dataUrl)
+      : null;
+  if (!match) throw new Error("Photo must be a base64 data URL");
+  const [, type, base64] = match;
+  const data = Buffer.from(base64, "base64");
+  const error = photoUploadError(type, data.length);
+  if (error) throw new Error(error);
+  return { type, data };
+}
+
+/**
+ * Re-encode a photo as JPEG, rotated upright and with all metadata – EXIF,
+ * GPS, camera details – dropped (sharp only keeps it when asked), scaled to
+ * fit MAX_DIMENSION, plus a square thumbnail. Throws if the bytes don't
+ * decode as `type`.
+ */
+export async function processPhoto(
+  data: Buffer,
+  type: string,
+): Promise<ProcessedPhoto> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data, {
+      limitInputPixels: MAX_INPUT_PIXELS,
+    }).metadata();
+  } catch {
+    throw new Error("Photo could not be read as an image");
+  }
+  if (metadata.format !== SHARP_FORMATS[type]) {
+    throw new Error("Photo contents don't match its file type");
+  }
+
+  const base = () =>
+    sharp(data, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .flatten({ background: "#ffffff" });
+
+  const { data: image, info } = await base()
+    .resize(MAX_DIMENSION, MAX_DIMENSION, {
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .jpeg({ quality: 82, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+  const thumbnail = await base()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+    .jpeg({ quality: 75, mozjpeg: true })
+    .toBuffer();
+
+  return { image, thumbnail, width: info.width, height: info.height };
+}
@@ -0,0 +1,19 @@
+/**
+ * Limits for photos attached to reviews. Shared so the client can reject a
+ * file before uploading it; the server re-checks the decoded bytes.
+ */
+
+export const MAX_REVIEW_PHOTOS = 4;
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+export const PHOTO_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+/** A user-facing reason the file can't be uploaded, or null if it can. */
+export function photoUploadError(type: string, size: number): string | null {
+  if (!PHOTO_MIME_TYPES.includes(type)) {
+    return "Photos must be JPEG, PNG or WebP images";
+  }
+  if (size > MAX_PHOTO_BYTES) {
+    return `Photos must be under ${MAX_PHOTO_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
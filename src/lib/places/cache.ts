@@ -0,0 +1,132 @@
+import db from "../database";
+
+/**
+ * Response cache for external place lookups, stored in the `place_cache`
+ * table. Entries are keyed by a rounded lat/lng tile, the radius and the
+ * query, so nearby requests from the same neighbourhood share one upstream
+ * call. Within the TTL an entry is served as-is; for a further stale window
+ * it is still served but refreshed in the background.
+ */
+
+export type PlaceCacheKind = "nearby" | "search" | "osm-nearby";
+export type PlaceCacheStatus = "hit" | "stale" | "miss";
+
+export interface PlaceCacheParams {
+  lat: number;
+  lng: number;
+  radius: number;
+  query?: string;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? "");
+  return isNaN(value) ? fallback : value;
+}
+
+export function getPlaceCacheConfig() {
+  return {
+    /** Seconds an entry is served without revalidation (0 disables the cache) */
+    ttlSeconds: envNumber("PLACE_CACHE_TTL_SECONDS", 60 * 60),
+    /** Extra seconds an expired entry may be served while it refreshes */
+    staleSeconds: envNumber("PLACE_CACHE_STALE_SECONDS", 24 * 60 * 60),
+    /** Tile size in degrees used to round coordinates (0.01° ≈ 1.1 km) */
+    tileDegrees: envNumber("PLACE_CACHE_TILE_DEGREES", 0.01),
+  };
+}
+
+function roundToTile(value: number, tile: number): string {
+  const decimals = Math.max(0, Math.ceil(-Math.log10(tile)));
+  return (Math.round(value / tile) * tile).toFixed(decimals);
+}
+
+export function placeCacheKey(
+  kind: PlaceCacheKind,
+  params: PlaceCacheParams,
+): string {
+  const { tileDegrees } = getPlaceCacheConfig();
+  const tile = `${roundToTile(params.lat, tileDegrees)},${roundToTile(params.lng, tileDegrees)}`;
+  const query = params.query?.trim().toLowerCase() ?? "";
+  return `${kind}:${tile}:r${Math.round(params.radius)}:${query}`;
+}
+
+/** Freshness of an entry of the given age under the current config. */
+export function placeCacheState(
+  ageSeconds: number,
+): "fresh" | "stale" | "expired" {
+  const { ttlSeconds, staleSeconds } = getPlaceCacheConfig();
+  if (ageSeconds < ttlSeconds) return "fresh";
+  if (ageSeconds < ttlSeconds + staleSeconds) return "stale";
+  return "expired";
+}
+
+// In-flight refreshes, so concurrent misses on one key share a single fetch
+const refreshing = new Map<string, Promise<unknown>>();
+
+function refresh<T>(
+  key: string,
+  kind: PlaceCacheKind,
+  fetcher: () => Promise<{ value: T; provider?: string }>,
+): Promise<T> {
+  const pending = refreshing.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const promise = (async () => {
+    const { value, provider } = await fetcher();
+    await db
+      .setPlaceCacheEntry(key, kind, provider ?? null, JSON.stringify(value))
+      .catch((err) => console.warn("Failed to write place cache:", err));
+    return value;
+  })().finally(() => refreshing.delete(key));
+
+  refreshing.set(key, promise);
+  return promise;
+}
+
+/**
+ * Serve `fetcher`'s result through the cache. Fetch errors propagate on a
+ * miss; failed background refreshes are logged and the stale entry kept.
+ */
+export async function cachedPlaceLookup<T>(
+  kind: PlaceCacheKind,
+  params: PlaceCacheParams,
+  fetcher: () => Promise<{ value: T; provider?: string }>,
+): Promise<{ value: T; status: PlaceCacheStatus }> {
+  if (getPlaceCacheConfig().ttlSeconds <= 0) {
+    return { value: (await fetcher()).value, status: "miss" };
+  }
+
+  const key = placeCacheKey(kind, params);
+  const entry = await db.getPlaceCacheEntry(key).catch((err) => {
+    console.warn("Failed to read place cache:", err);
+    return null;
+  });
+
+  if (entry) {
+    const state = placeCacheState(entry.ageSeconds);
+    if (state !== "expired") {
+      db.recordPlaceCacheHit(key).catch(() => {});
+      if (state === "stale") {
+        refresh(key, kind, fetcher).catch((err) =>
+          console.warn(`Background refresh of ${key} failed:`, err),
+        );
+      }
+      return {
+        value: JSON.parse(entry.payload!) as T,
+        status: state === "fresh" ? "hit" : "stale",
+      };
+    }
+  }
+
+  return { value: await refresh(key, kind, fetcher), status: "miss" };
+}
+
+// Drop entries too old to be served even as stale
+setInterval(
+  () => {
+    const { ttlSeconds, staleSeconds } = getPlaceCacheConfig();
+    db
+      .deletePlaceCacheEntries({ olderThanSeconds: ttlSeconds + staleSeconds })
+      .catch((err) => console.warn("Failed to purge place cache:", err));
+  },
+  60 * 60 * 1000,
+);
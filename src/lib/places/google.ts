@@ -0,0 +1,274 @@
+import {
+  PRICE_LEVEL_MAP,
+  categoryFromPlaceTypes,
+  categoryImage,
+} from "./normalize";
+import type {
+  NearbyQuery,
+  PlaceBusiness,
+  PlaceLookup,
+  PlaceProvider,
+  PlaceReviewsPage,
+  PlaceReviewsQuery,
+  TextSearchQuery,
+} from "./types";
+
+const PLACES_API = "https://places.googleapis.com/v1";
+const LEGACY_API = "https://maps.googleapis.com/maps/api/place";
+
+const PLACE_FIELDS = [
+  "id",
+  "displayName",
+  "formattedAddress",
+  "location",
+  "types",
+  "rating",
+  "userRatingCount",
+  "priceLevel",
+  "regularOpeningHours",
+  "internationalPhoneNumber",
+  "websiteUri",
+];
+
+/** A place from the Places API (New), limited to `PLACE_FIELDS`. */
+interface GooglePlace {
+  id: string;
+  displayName?: { text?: string };
+  formattedAddress?: string;
+  location?: { latitude: number; longitude: number };
+  types?: string[];
+  rating?: number;
+  userRatingCount?: number;
+  priceLevel?: string;
+  regularOpeningHours?: { weekdayDescriptions?: string[] };
+  internationalPhoneNumber?: string;
+  websiteUri?: string;
+}
+
+/** A legacy Places API response (Find Place or Place Details). */
+interface LegacyPlacesResponse {
+  status?: string;
+  error_message?: string;
+  next_page_token?: string;
+  candidates?: LegacyPlaceCandidate[];
+  result?: {
+    rating?: number;
+    user_ratings_total?: number;
+    photos?: { photo_reference?: string }[];
+    reviews?: LegacyPlaceReview[];
+  };
+}
+
+interface LegacyPlaceCandidate {
+  place_id?: string;
+  rating?: number;
+  user_ratings_total?: number;
+}
+
+interface LegacyPlaceReview {
+  author_name?: string;
+  author_url?: string;
+  profile_photo_url?: string;
+  rating?: number;
+  text?: string;
+  time?: number;
+  relative_time_description?: string;
+}
+
+function toBusiness(place: GooglePlace): PlaceBusiness {
+  const name = place.displayName?.text ?? "Unknown";
+  const types = place.types ?? [];
+  const category = categoryFromPlaceTypes(types);
+  return {
+    id: `gp-${place.id}`,
+    name,
+    category,
+    rating: place.rating ?? 0,
+    reviewCount: place.userRatingCount ?? 0,
+    address: place.formattedAddress ?? "",
+    hours: place.regularOpeningHours?.weekdayDescriptions?.join("\n") ?? "",
+    description: `${name} – ${(types[0] ?? "business").replace(/_/g, " ")}`,
+    image: categoryImage(category, name),
+    lat: place.location?.latitude ?? 0,
+    lng: place.location?.longitude ?? 0,
+    phone: place.internationalPhoneNumber ?? "",
+    priceLevel: PRICE_LEVEL_MAP[place.priceLevel ?? ""] ?? "$$",
+    website: place.websiteUri ?? undefined,
+    source: "google",
+    types,
+  };
+}
+
+/**
+ * Google Places API (New) for search and details; the legacy Places API for
+ * photos and reviews.
+ */
+export class GooglePlacesProvider implements PlaceProvider {
+  readonly name = "google" as const;
+
+  private get apiKey(): string | undefined {
+    return process.env.GOOGLE_PLACES_API_KEY;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private async searchPlaces(
+    endpoint: "searchNearby" | "searchText",
+    body: Record<string, unknown>,
+  ): Promise<PlaceBusiness[]> {
+    const res = await fetch(`${PLACES_API}/places:${endpoint}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Api-Key": this.apiKey!,
+        "X-Goog-FieldMask": PLACE_FIELDS.map((f) => `places.${f}`).join(","),
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(15000),
+    });
+    if (!res.ok) {
+      const errText = await res.text();
+      throw new Error(
+        `Google Places ${endpoint} error (${res.status}): ${errText}`,
+      );
+    }
+    const data = (await res.json()) as { places?: GooglePlace[] };
+    return (data.places ?? []).map(toBusiness);
+  }
+
+  async nearby(query: NearbyQuery): Promise<PlaceBusiness[]> {
+    return this.searchPlaces("searchNearby", {
+      maxResultCount: Math.min(query.limit ?? 20, 20),
+      locationRestriction: {
+        circle: {
+          center: { latitude: query.lat, longitude: query.lng },
+          radius: query.radius,
+        },
+      },
+    });
+  }
+
+  async textSearch(query: TextSearchQuery): Promise<PlaceBusiness[]> {
+    return this.searchPlaces("searchText", {
+      textQuery: query.query,
+      maxResultCount: Math.min(query.limit ?? 20, 20),
+      locationBias: {
+        circle: {
+          center: { latitude: query.lat, longitude: query.lng },
+          radius: query.radius,
+        },
+      },
+    });
+  }
+
+  async details(id: string): Promise<PlaceBusiness | null> {
+    if (!id.startsWith("gp-")) return null;
+    const res = await fetch(
+      `${PLACES_API}/places/${encodeURIComponent(id.slice(3))}`,
+      {
+        headers: {
+          "X-Goog-Api-Key": this.apiKey!,
+          "X-Goog-FieldMask": PLACE_FIELDS.join(","),
+        },
+        signal: AbortSignal.timeout(15000),
+      },
+    );
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`Google Places details error (${res.status})`);
+    }
+    return toBusiness((await res.json()) as GooglePlace);
+  }
+
+  private async findPlaceId(
+    lookup: PlaceLookup,
+    fields: string,
+  ): Promise<LegacyPlaceCandidate | null> {
+    const findUrl = `${LEGACY_API}/findplacefromtext/json?input=${encodeURIComponent(lookup.name)}&inputtype=textquery&locationbias=point:${lookup.lat},${lookup.lng}&fields=${fields}&key=${this.apiKey}`;
+    const findData = (await (
+      await fetch(findUrl, { signal: AbortSignal.timeout(15000) })
+    ).json()) as LegacyPlacesResponse;
+    return findData.candidates?.[0] ?? null;
+  }
+
+  async photo(lookup: PlaceLookup): Promise<string | null> {
+    const candidate = await this.findPlaceId(lookup, "place_id");
+    if (!candidate?.place_id) return null;
+
+    const detailsUrl = `${LEGACY_API}/details/json?place_id=${candidate.place_id}&fields=photos&key=${this.apiKey}`;
+    const detailsData = (await (
+      await fetch(detailsUrl, { signal: AbortSignal.timeout(15000) })
+    ).json()) as LegacyPlacesResponse;
+    const photoRef = detailsData.result?.photos?.[0]?.photo_reference;
+    if (!photoRef) return null;
+
+    // The browser fetches this URL directly via redirect
+    return `${LEGACY_API}/photo?maxwidth=800&photoreference=${photoRef}&key=${this.apiKey}`;
+  }
+
+  /** Place Details reviews – Google caps these at 5 per place. */
+  async reviews(query: PlaceReviewsQuery): Promise<PlaceReviewsPage> {
+    let placeId = query.placeId ?? null;
+
+    if (!placeId) {
+      const candidate = await this.findPlaceId(
+        query as PlaceLookup,
+        "place_id,rating,user_ratings_total",
+      );
+      if (!candidate?.place_id) {
+        return {
+          placeId: null,
+          reviews: [],
+          rating: null,
+          totalRatings: null,
+          nextPageToken: null,
+        };
+      }
+      placeId = candidate.place_id;
+    }
+
+    // Google requires a delay before a next_page_token becomes valid, and the
+    // free tier is heavily rate-limited (429 errors are common)
+    if (query.pageToken) {
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+    }
+
+    const fields = "reviews,rating,user_ratings_total,next_page_token";
+    const detailsUrl = query.pageToken
+      ? `${LEGACY_API}/details/json?pagetoken=${query.pageToken}&fields=${fields}&key=${this.apiKey}`
+      : `${LEGACY_API}/details/json?place_id=${placeId}&fields=${fields}&key=${this.apiKey}`;
+    const detailsData = (await (
+      await fetch(detailsUrl, { signal: AbortSignal.timeout(30000) })
+    ).json()) as LegacyPlacesResponse;
+
+    if (
+      detailsData.error_message?.includes("quota") ||
+      detailsData.error_message?.includes("rate")
+    ) {
+      throw new Error(
+        `Google Places rate limited: ${detailsData.error_message}`,
+      );
+    }
+    if (detailsData.status && detailsData.status !== "OK") {
+      throw new Error(`Google API error: ${detailsData.status}`);
+    }
+
+    return {
+      placeId,
+      reviews: (detailsData.result?.reviews ?? []).map((r) => ({
+        author_name: r.author_name ?? "Anonymous",
+        author_url: r.author_url ?? null,
+        profile_photo_url: r.profile_photo_url ?? null,
+        rating: r.rating ?? 0,
+        text: r.text ?? "",
+        time: r.time ?? Math.floor(Date.now() / 1000),
+        relative_time_description: r.relative_time_description ?? "",
+      })),
+      rating: detailsData.result?.rating ?? null,
+      totalRatings: detailsData.result?.user_ratings_total ?? null,
+      nextPageToken: detailsData.next_page_token ?? null,
+    };
+  }
+}
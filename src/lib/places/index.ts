@@ -0,0 +1,173 @@
+import { GooglePlacesProvider } from "./google";
+import { OverpassProvider } from "./overpass";
+import { overpassPool } from "./overpassPool";
+import { SerpApiProvider } from "./serpapi";
+import type {
+  NearbyQuery,
+  PlaceBusiness,
+  PlaceCapability,
+  PlaceLookup,
+  PlaceProvider,
+  PlaceProviderName,
+  PlaceReviewsPage,
+  PlaceReviewsQuery,
+  TextSearchQuery,
+} from "./types";
+
+export * from "./types";
+export { categoryImage } from "./normalize";
+export type { OverpassMirrorStatus } from "./overpassPool";
+
+const providers: Record<PlaceProviderName, PlaceProvider> = {
+  google: new GooglePlacesProvider(),
+  serpapi: new SerpApiProvider(),
+  overpass: new OverpassProvider(),
+};
+
+// SerpAPI comes first for reviews: it paginates past Google's 5-review cap
+const DEFAULT_ORDER: Record<PlaceCapability, PlaceProviderName[]> = {
+  nearby: ["google", "serpapi", "overpass"],
+  textSearch: ["google", "serpapi", "overpass"],
+  details: ["google", "serpapi", "overpass"],
+  photo: ["google", "serpapi"],
+  reviews: ["serpapi", "google"],
+};
+
+function parseOrder(value: string | undefined): PlaceProviderName[] | null {
+  if (!value) return null;
+  const names = value
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is PlaceProviderName => s in providers);
+  return names.length > 0 ? names : null;
+}
+
+export function getPlaceProvider(name: PlaceProviderName): PlaceProvider {
+  return providers[name];
+}
+
+/** Circuit and latency state of each Overpass mirror. */
+export function getOverpassPoolStatus() {
+  return overpassPool.status();
+}
+
+/**
+ * Configured providers supporting `capability`, in fallback order.
+ * PLACE_PROVIDERS_<CAPABILITY> overrides PLACE_PROVIDERS, which overrides
+ * the defaults above.
+ */
+export function getProviderOrder(capability: PlaceCapability): PlaceProvider[] {
+  const order =
+    parseOrder(process.env[`PLACE_PROVIDERS_${capability.toUpperCase()}`]) ??
+    parseOrder(process.env.PLACE_PROVIDERS) ??
+    DEFAULT_ORDER[capability];
+  return order
+    .map((name) => providers[name])
+    .filter((p) => p.isConfigured() && typeof p[capability] === "function");
+}
+
+/**
+ * Try each provider in order until one returns a non-empty result. Errors
+ * fall through to the next provider; the last error is rethrown if every
+ * provider fails.
+ */
+async function withFallback<T>(
+  capability: PlaceCapability,
+  call: (provider: PlaceProvider) => Promise<T>,
+  isEmpty: (result: T) => boolean,
+): Promise<{ result: T; provider: PlaceProviderName }> {
+  const candidates = getProviderOrder(capability);
+  if (candidates.length === 0) {
+    throw new Error(`No place provider configured for ${capability}`);
+  }
+
+  let lastError: unknown = null;
+  let emptyResult: { result: T; provider: PlaceProviderName } | null = null;
+  for (const provider of candidates) {
+    try {
+      const result = await call(provider);
+      if (!isEmpty(result)) return { result, provider: provider.name };
+      emptyResult ??= { result, provider: provider.name };
+    } catch (err) {
+      console.warn(`[Places] ${provider.name} ${capability} failed:`, err);
+      lastError = err;
+    }
+  }
+  if (emptyResult) return emptyResult;
+  throw lastError;
+}
+
+export async function searchNearby(
+  query: NearbyQuery,
+): Promise<{ businesses: PlaceBusiness[]; provider: PlaceProviderName }> {
+  const { result, provider } = await withFallback(
+    "nearby",
+    (p) => p.nearby!(query),
+    (r) => r.length === 0,
+  );
+  return { businesses: result, provider };
+}
+
+export async function searchText(
+  query: TextSearchQuery,
+): Promise<{ businesses: PlaceBusiness[]; provider: PlaceProviderName }> {
+  const { result, provider } = await withFallback(
+    "textSearch",
+    (p) => p.textSearch!(query),
+    (r) => r.length === 0,
+  );
+  return { businesses: result, provider };
+}
+
+export async function getPlaceDetails(
+  id: string,
+): Promise<PlaceBusiness | null> {
+  const { result } = await withFallback(
+    "details",
+    (p) => p.details!(id),
+    (r) => r === null,
+  );
+  return result;
+}
+
+export async function getPlacePhoto(
+  lookup: PlaceLookup,
+): Promise<string | null> {
+  const { result } = await withFallback(
+    "photo",
+    (p) => p.photo!(lookup),
+    (r) => r === null,
+  );
+  return result;
+}
+
+/**
+ * Reviews paginate with provider-specific place references, so the returned
+ * `placeId` is prefixed with the provider name and later pages are pinned to
+ * the provider that served the first one.
+ */
+export async function getPlaceReviews(
+  query: PlaceReviewsQuery,
+): Promise<PlaceReviewsPage> {
+  const [pinned, ref] = (query.placeId ?? "").split(/:(.*)/s);
+  if (ref) {
+    const provider = Object.hasOwn(providers, pinned)
+      ? providers[pinned as PlaceProviderName]
+      : null;
+    if (!provider?.reviews || !provider.isConfigured()) {
+      throw new Error(`Invalid placeId: ${pinned} can't serve reviews`);
+    }
+    const page = await provider.reviews({ ...query, placeId: ref });
+    return { ...page, placeId: page.placeId && `${pinned}:${page.placeId}` };
+  }
+
+  const { result, provider } = await withFallback(
+    "reviews",
+    (p) => p.reviews!({ ...query, placeId: undefined }),
+    (r) => r.placeId === null,
+  );
+  return {
+    ...result,
+    placeId: result.placeId && `${provider}:${result.placeId}`,
+  };
+}
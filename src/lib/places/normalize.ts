@@ -0,0 +1,295 @@
+/**
+ * Shared helpers for turning provider payloads into the app's `Business`
+ * shape: category mapping, deterministic placeholder images and formatting.
+ */
+
+/** Google Places (New) `types` → app category. */
+export const PLACES_TYPE_CATEGORY: Record<string, string> = {
+  // Food
+  restaurant: "food",
+  fast_food_restaurant: "food",
+  meal_delivery: "food",
+  meal_takeaway: "food",
+  bar: "food",
+  pub: "food",
+  night_club: "food",
+  bakery: "food",
+  dessert_shop: "food",
+  sandwich_shop: "food",
+  pizza_restaurant: "food",
+  hamburger_restaurant: "food",
+  sushi_restaurant: "food",
+  seafood_restaurant: "food",
+  steak_house: "food",
+  // Coffee
+  cafe: "coffee",
+  coffee_shop: "coffee",
+  tea_house: "coffee",
+  juice_bar: "coffee",
+  ice_cream_shop: "coffee",
+  // Retail
+  grocery_store: "retail",
+  supermarket: "retail",
+  convenience_store: "retail",
+  clothing_store: "retail",
+  electronics_store: "retail",
+  shopping_mall: "retail",
+  book_store: "retail",
+  jewelry_store: "retail",
+  shoe_store: "retail",
+  hardware_store: "retail",
+  furniture_store: "retail",
+  department_store: "retail",
+  florist: "retail",
+  pet_store: "retail",
+  bicycle_store: "retail",
+  sporting_goods_store: "retail",
+  home_goods_store: "retail",
+  gift_shop: "retail",
+  drugstore: "retail",
+  discount_store: "retail",
+  market: "retail",
+  // Health
+  gym: "health",
+  fitness_center: "health",
+  sports_club: "health",
+  pharmacy: "health",
+  doctor: "health",
+  dentist: "health",
+  hospital: "health",
+  physiotherapist: "health",
+  beauty_salon: "health",
+  spa: "health",
+  hair_salon: "health",
+  nail_salon: "health",
+  barbershop: "health",
+  massage_therapist: "health",
+  veterinary_care: "health",
+  // Entertainment
+  movie_theater: "entertainment",
+  bowling_alley: "entertainment",
+  casino: "entertainment",
+  amusement_park: "entertainment",
+  zoo: "entertainment",
+  aquarium: "entertainment",
+  museum: "entertainment",
+  art_gallery: "entertainment",
+  performing_arts_theater: "entertainment",
+  stadium: "entertainment",
+  // Services
+  bank: "services",
+  atm: "services",
+  car_repair: "services",
+  car_wash: "services",
+  laundry: "services",
+  gas_station: "services",
+  hotel: "services",
+  lodging: "services",
+  travel_agency: "services",
+  car_rental: "services",
+  insurance_agency: "services",
+  real_estate_agency: "services",
+  post_office: "services",
+};
+
+/** OpenStreetMap `amenity` / `shop` / `leisure` values → app category. */
+export const OSM_TAG_CATEGORY: Record<string, string> = {
+  // Food & Drink
+  restaurant: "food",
+  cafe: "coffee",
+  fast_food: "food",
+  bar: "food",
+  pub: "food",
+  food_court: "food",
+  biergarten: "food",
+  ice_cream: "food",
+  bakery: "food",
+  pizza: "food",
+  sushi: "food",
+  bbq: "food",
+  deli: "food",
+  food_truck: "food",
+  juice_bar: "food",
+  bubble_tea: "coffee",
+  coffee_shop: "coffee",
+  tea_house: "coffee",
+  // Retail / Shopping
+  shop: "retail",
+  supermarket: "retail",
+  convenience: "retail",
+  clothes: "retail",
+  bookshop: "retail",
+  books: "retail",
+  electronics: "retail",
+  mobile_phone: "retail",
+  department_store: "retail",
+  mall: "retail",
+  marketplace: "retail",
+  hardware: "retail",
+  furniture: "retail",
+  sports: "retail",
+  toys: "retail",
+  jewelry: "retail",
+  gift: "retail",
+  florist: "retail",
+  pet: "retail",
+  bicycle: "retail",
+  outdoor: "retail",
+  variety_store: "retail",
+  discount: "retail",
+  second_hand: "retail",
+  cosmetics: "retail",
+  optician: "retail",
+  shoes: "retail",
+  bags: "retail",
+  stationery: "retail",
+  copyshop: "retail",
+  art: "retail",
+  antiques: "retail",
+  music: "retail",
+  video_games: "retail",
+  car: "retail",
+  car_parts: "retail",
+  tyres: "retail",
+  alcohol: "retail",
+  wine: "retail",
+  cheese: "retail",
+  greengrocer: "retail",
+  butcher: "retail",
+  seafood: "retail",
+  confectionery: "retail",
+  chocolate: "retail",
+  health_food: "retail",
+  farm: "retail",
+  // Health & Wellness
+  gym: "health",
+  fitness_centre: "health",
+  doctors: "health",
+  dentist: "health",
+  pharmacy: "health",
+  spa: "health",
+  clinic: "health",
+  hospital: "health",
+  physiotherapist: "health",
+  psychologist: "health",
+  chiropractor: "health",
+  optometrist: "health",
+  veterinary: "health",
+  massage: "health",
+  yoga: "health",
+  pilates: "health",
+  swimming_pool: "health",
+  sports_centre: "health",
+  // Entertainment
+  cinema: "entertainment",
+  theatre: "entertainment",
+  nightclub: "entertainment",
+  bowling_alley: "entertainment",
+  arcade: "entertainment",
+  escape_game: "entertainment",
+  amusement_park: "entertainment",
+  miniature_golf: "entertainment",
+  golf_course: "entertainment",
+  sports_hall: "entertainment",
+  stadium: "entertainment",
+  museum: "entertainment",
+  art_gallery: "entertainment",
+  casino: "entertainment",
+  karaoke_box: "entertainment",
+  laser_game: "entertainment",
+  // Services
+  car_repair: "services",
+  mechanic: "services",
+  car_wash: "services",
+  hairdresser: "services",
+  beauty: "services",
+  nail_salon: "services",
+  barber: "services",
+  laundry: "services",
+  dry_cleaning: "services",
+  bank: "services",
+  atm: "services",
+  post_office: "services",
+  travel_agency: "services",
+  real_estate: "services",
+  insurance: "services",
+  accountant: "services",
+  lawyer: "services",
+  notary: "services",
+  tailor: "services",
+  photo: "services",
+  printing: "services",
+  fuel: "services",
+  charging_station: "services",
+  car_rental: "services",
+  hotel: "services",
+  hostel: "services",
+  motel: "services",
+  guest_house: "services",
+};
+
+export const CATEGORY_IMAGE_POOLS: Record<string, string[]> = {
+  food: [
+    "https://images.unsplash.com/photo-1414235077428-338989a2e8c0?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1498837167922-ddd27525d352?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1555396273-367ea4eb4db5?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1504674900247-0877df9cc836?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?w=400&h=300&fit=crop",
+  ],
+  coffee: [
+    "https://images.unsplash.com/photo-1495474472287-4d71bcdd2085?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1501339847302-ac426a4a7cbb?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1556679343-c7306c1976bc?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1442512595331-e89e73853f31?w=400&h=300&fit=crop",
+  ],
+  retail: [
+    "https://images.unsplash.com/photo-1567401893414-76b7b1e5a7a5?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1518770660439-4636190af475?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1607082348824-0a96f2a4b9da?w=400&h=300&fit=crop",
+  ],
+  health: [
+    "https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1540555700478-4be289fbecef?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1534438327276-14e5300c3a48?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1544161515-4ab6ce6db874?w=400&h=300&fit=crop",
+  ],
+  entertainment: [
+    "https://images.unsplash.com/photo-1536440136628-849c177e76a1?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1489599849927-2ee91cede3ba?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1507924538820-ede94a04019d?w=400&h=300&fit=crop",
+  ],
+  services: [
+    "https://images.unsplash.com/photo-1492144534655-ae79c964c9d7?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1487754180451-c456f719a1fc?w=400&h=300&fit=crop",
+    "https://images.unsplash.com/photo-1621905251189-08b45d6a269e?w=400&h=300&fit=crop",
+  ],
+};
+
+/** Google Places (New) `priceLevel` enum → "$" notation. */
+export const PRICE_LEVEL_MAP: Record<string, string> = {
+  PRICE_LEVEL_FREE: "$",
+  PRICE_LEVEL_INEXPENSIVE: "$",
+  PRICE_LEVEL_MODERATE: "$$",
+  PRICE_LEVEL_EXPENSIVE: "$$$",
+  PRICE_LEVEL_VERY_EXPENSIVE: "$$$$",
+};
+
+/** Simple djb2-style string hash, used for stable image selection. */
+export function djb2(s: string): number {
+  return s.split("").reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 0);
+}
+
+/**
+ * Pick a consistent, category-appropriate image from a curated Unsplash pool.
+ * Hashing the name means the same place always gets the same image.
+ */
+export function categoryImage(category: string, name: string): string {
+  const pool = CATEGORY_IMAGE_POOLS[category] ?? CATEGORY_IMAGE_POOLS.food;
+  return pool[djb2(name) % pool.length];
+}
+
+/** Map a list of Google place types to the first matching app category. */
+export function categoryFromPlaceTypes(types: string[]): string {
+  return types.map((t) => PLACES_TYPE_CATEGORY[t]).find(Boolean) ?? "services";
+}
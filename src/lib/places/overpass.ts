@@ -0,0 +1,208 @@
+import { calculateDistance } from "../businesses";
+import { OSM_TAG_CATEGORY, categoryImage } from "./normalize";
+import { overpassPool } from "./overpassPool";
+import type {
+  NearbyQuery,
+  PlaceBusiness,
+  PlaceProvider,
+  TextSearchQuery,
+} from "./types";
+
+interface OSMElement {
+  type: string;
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string | undefined>;
+}
+
+// Realistic default hours by business type when OSM has no opening_hours tag
+const DEFAULT_HOURS_BY_TYPE: Record<string, string> = {
+  restaurant:
+    "Mon-Thu: 11:00 AM - 10:00 PM\nFri-Sat: 11:00 AM - 11:00 PM\nSun: Closed",
+  cafe: "Mon-Fri: 7:00 AM - 6:00 PM\nSat-Sun: 8:00 AM - 5:00 PM",
+  fast_food: "Mon-Sun: 10:00 AM - 11:00 PM",
+  bar: "Mon-Thu: 5:00 PM - 12:00 AM\nFri-Sat: 5:00 PM - 2:00 AM\nSun: Closed",
+  pub: "Mon-Sun: 11:00 AM - 12:00 AM",
+  gym: "Mon-Fri: 6:00 AM - 10:00 PM\nSat-Sun: 8:00 AM - 8:00 PM",
+  fitness_centre: "Mon-Fri: 6:00 AM - 10:00 PM\nSat-Sun: 8:00 AM - 8:00 PM",
+  cinema: "Mon-Sun: 10:00 AM - 11:00 PM",
+  supermarket: "Mon-Sun: 8:00 AM - 10:00 PM",
+  convenience: "Mon-Sun: 7:00 AM - 11:00 PM",
+  pharmacy:
+    "Mon-Fri: 9:00 AM - 9:00 PM\nSat: 9:00 AM - 6:00 PM\nSun: 10:00 AM - 4:00 PM",
+  doctors: "Mon-Fri: 9:00 AM - 5:00 PM\nSat-Sun: Closed",
+};
+
+function formatAddress(
+  tags: Record<string, string | undefined>,
+  lat: number,
+  lng: number,
+): string {
+  const parts = [
+    tags["addr:housenumber"],
+    tags["addr:street"],
+    tags["addr:city"],
+  ].filter(Boolean) as string[];
+  if (parts.length > 0) return parts.join(", ");
+  // No address tags at all – use suburb/neighbourhood if available
+  return (
+    tags["addr:suburb"] ||
+    tags["addr:neighbourhood"] ||
+    `${lat.toFixed(4)}, ${lng.toFixed(4)}`
+  );
+}
+
+function formatHours(raw: string | undefined, type: string): string {
+  if (!raw) {
+    return (
+      DEFAULT_HOURS_BY_TYPE[type] ||
+      "Mon-Fri: 9:00 AM - 6:00 PM\nSat-Sun: Closed"
+    );
+  }
+  if (raw === "24/7") return "Open 24 hours";
+  return raw
+    .replace(/Mo-Fr/g, "Mon-Fri")
+    .replace(/Mo-Su/g, "Mon-Sun")
+    .replace(/Sa-Su/g, "Sat-Sun")
+    .replace(/Mo/g, "Mon")
+    .replace(/Tu/g, "Tue")
+    .replace(/We/g, "Wed")
+    .replace(/Th/g, "Thu")
+    .replace(/Fr/g, "Fri")
+    .replace(/Sa/g, "Sat")
+    .replace(/Su/g, "Sun")
+    .replace(/off/g, "Closed")
+    .split(";")
+    .map((p) => p.trim())
+    .join("\n");
+}
+
+/** The tagged phone number, or "" when OSM has none. */
+function formatPhone(tags: Record<string, string | undefined>): string {
+  return tags.phone || tags["contact:phone"] || tags["phone:mobile"] || "";
+}
+
+function toBusiness(element: OSMElement): PlaceBusiness | null {
+  const tags = element.tags ?? {};
+  const name = tags.name;
+  const type = tags.amenity || tags.shop || tags.tourism || tags.leisure;
+  const lat = element.lat ?? element.center?.lat;
+  const lng = element.lon ?? element.center?.lon;
+  if (!name || !type || lat == null || lng == null) return null;
+
+  const category = OSM_TAG_CATEGORY[type] || "services";
+  return {
+    id: `osm-${element.type}-${element.id}`,
+    name,
+    category,
+    // OSM has no ratings; the score comes from first-party reviews alone
+    rating: 0,
+    reviewCount: 0,
+    address: formatAddress(tags, lat, lng),
+    hours: formatHours(tags.opening_hours, type),
+    description: `${name} - ${type.replace(/_/g, " ")}`,
+    image: categoryImage(category, name),
+    lat,
+    lng,
+    phone: formatPhone(tags),
+    priceLevel: "$$",
+    website: tags.website || tags["contact:website"] || undefined,
+    source: "osm",
+    types: [type],
+  };
+}
+
+/** Normalise elements, dropping repeats of the same name within ~50 m. */
+function toBusinesses(elements: OSMElement[]): PlaceBusiness[] {
+  const businesses: PlaceBusiness[] = [];
+  const seenIds = new Set<string>();
+  const seenNames = new Map<string, { lat: number; lng: number }>();
+
+  for (const element of elements) {
+    const business = toBusiness(element);
+    if (!business || seenIds.has(business.id)) continue;
+    seenIds.add(business.id);
+
+    const normalizedName = business.name.toLowerCase().trim();
+    const existing = seenNames.get(normalizedName);
+    // Same name within ~50 m is the same business mapped twice
+    if (
+      existing &&
+      calculateDistance(
+        existing.lat,
+        existing.lng,
+        business.lat,
+        business.lng,
+      ) < 0.05
+    ) {
+      continue;
+    }
+    seenNames.set(normalizedName, { lat: business.lat, lng: business.lng });
+    businesses.push(business);
+  }
+  return businesses;
+}
+
+/** OpenStreetMap via public Overpass mirrors – free, no API key needed. */
+export class OverpassProvider implements PlaceProvider {
+  readonly name = "overpass" as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private async query(ql: string): Promise<OSMElement[]> {
+    const data = await overpassPool.query<{ elements?: OSMElement[] }>(ql);
+    return data.elements ?? [];
+  }
+
+  async nearby(query: NearbyQuery): Promise<PlaceBusiness[]> {
+    const { lat, lng, radius } = query;
+    const elements = await this.query(`
+[out:json][timeout:25];
+(
+  node["amenity"]["name"](around:${radius},${lat},${lng});
+  node["shop"]["name"](around:${radius},${lat},${lng});
+  way["amenity"]["name"](around:${radius},${lat},${lng});
+  way["shop"]["name"](around:${radius},${lat},${lng});
+);
+out center body;
+`);
+    return toBusinesses(elements).slice(0, query.limit ?? 50);
+  }
+
+  /** Named POIs matching `query` (case-insensitive), nearest first. */
+  async textSearch(query: TextSearchQuery): Promise<PlaceBusiness[]> {
+    const { lat, lng } = query;
+    const r = Math.min(query.radius, 50000); // cap at 50 km
+    const name = query.query.replace(/["\\]/g, "");
+    const elements = await this.query(`
+[out:json][timeout:20];
+(
+  node["name"~"${name}", i]["amenity"](around:${r},${lat},${lng});
+  node["name"~"${name}", i]["shop"](around:${r},${lat},${lng});
+  node["name"~"${name}", i]["tourism"](around:${r},${lat},${lng});
+  node["name"~"${name}", i]["leisure"](around:${r},${lat},${lng});
+  way["name"~"${name}", i]["amenity"](around:${r},${lat},${lng});
+  way["name"~"${name}", i]["shop"](around:${r},${lat},${lng});
+);
+out center body 30;
+`);
+    return toBusinesses(elements)
+      .map((b) => ({ b, d: calculateDistance(lat, lng, b.lat, b.lng) }))
+      .sort((x, y) => x.d - y.d)
+      .map(({ b }) => b)
+      .slice(0, query.limit ?? 20);
+  }
+
+  async details(id: string): Promise<PlaceBusiness | null> {
+    const match = /^osm-(node|way|relation)-(\d+)$/.exec(id);
+    if (!match) return null;
+    const elements = await this.query(
+      `[out:json][timeout:10];${match[1]}(${match[2]});out center body;`,
+    );
+    return elements.length > 0 ? toBusiness(elements[0]) : null;
+  }
+}
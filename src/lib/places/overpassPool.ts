@@ -0,0 +1,217 @@
+/**
+ * Shared pool of public Overpass mirrors. Each mirror's success rate and
+ * latency are tracked; a mirror that keeps failing has its circuit opened
+ * and is skipped until a cooldown passes, after which one trial request is
+ * let through (half-open). Queries race the two healthiest mirrors and take
+ * whichever answers first.
+ */
+
+const OVERPASS_ENDPOINTS = [
+  "https://overpass-api.de/api/interpreter",
+  "https://overpass.kumi.systems/api/interpreter",
+  "https://overpass.openstreetmap.ru/api/interpreter",
+  "https://overpass.private.coffee/api/interpreter",
+  "https://maps.mail.ru/osm/tools/overpass/api/interpreter",
+  "https://overpass.terrametrics.com/api/interpreter",
+];
+
+const PER_ENDPOINT_TIMEOUT = 8000; // 8 s per mirror attempt
+const RACE_WIDTH = 2; // mirrors queried in parallel per round
+const MAX_ROUNDS = 2; // rounds before giving up (worst case ≈ 16 s)
+const FAILURE_THRESHOLD = 2; // consecutive failures that open the circuit
+const BASE_COOLDOWN = 30 * 1000;
+const MAX_COOLDOWN = 10 * 60 * 1000;
+const LATENCY_SMOOTHING = 0.3; // weight of the newest sample in the average
+const UNKNOWN_LATENCY = 2000; // assumed latency for untried mirrors
+
+type CircuitState = "closed" | "open" | "half-open";
+
+interface MirrorStats {
+  url: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  /** While set and in the future, the circuit is open */
+  openUntil: number | null;
+  /** A half-open trial request is in flight */
+  probing: boolean;
+}
+
+export interface OverpassMirrorStatus {
+  url: string;
+  state: CircuitState;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  retryAt: string | null;
+}
+
+class OverpassMirrorPool {
+  private mirrors: MirrorStats[];
+
+  constructor(urls: string[]) {
+    this.mirrors = urls.map((url) => ({
+      url,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      avgLatencyMs: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      openUntil: null,
+      probing: false,
+    }));
+  }
+
+  private state(mirror: MirrorStats, now = Date.now()): CircuitState {
+    if (mirror.openUntil === null) return "closed";
+    return mirror.openUntil > now ? "open" : "half-open";
+  }
+
+  /** Available mirrors, healthiest first. */
+  private ranked(): MirrorStats[] {
+    const now = Date.now();
+    const score = (m: MirrorStats) =>
+      m.consecutiveFailures * PER_ENDPOINT_TIMEOUT +
+      (m.avgLatencyMs ?? UNKNOWN_LATENCY);
+
+    const available = this.mirrors.filter((m) => {
+      const state = this.state(m, now);
+      return state === "closed" || (state === "half-open" && !m.probing);
+    });
+    if (available.length > 0) {
+      return available.sort((a, b) => score(a) - score(b));
+    }
+
+    // Every circuit is open – try the one due to recover soonest rather
+    // than failing without a request
+    return [...this.mirrors]
+      .sort((a, b) => (a.openUntil ?? 0) - (b.openUntil ?? 0))
+      .slice(0, 1);
+  }
+
+  private recordSuccess(mirror: MirrorStats, latencyMs: number): void {
+    mirror.successes++;
+    mirror.consecutiveFailures = 0;
+    mirror.lastSuccessAt = Date.now();
+    mirror.openUntil = null;
+    mirror.avgLatencyMs =
+      mirror.avgLatencyMs === null
+        ? latencyMs
+        : Math.round(
+            LATENCY_SMOOTHING * latencyMs +
+              (1 - LATENCY_SMOOTHING) * mirror.avgLatencyMs,
+          );
+  }
+
+  private recordFailure(mirror: MirrorStats, error: string): void {
+    mirror.failures++;
+    mirror.consecutiveFailures++;
+    mirror.lastFailureAt = Date.now();
+    mirror.lastError = error;
+    if (mirror.consecutiveFailures >= FAILURE_THRESHOLD) {
+      // Back off exponentially while the mirror keeps failing its trials
+      const cooldown = Math.min(
+        BASE_COOLDOWN *
+          2 ** (mirror.consecutiveFailures - FAILURE_THRESHOLD),
+        MAX_COOLDOWN,
+      );
+      mirror.openUntil = Date.now() + cooldown;
+      console.warn(
+        `Overpass ${mirror.url} circuit opened for ${cooldown / 1000}s`,
+      );
+    }
+  }
+
+  private async attempt<T>(
+    mirror: MirrorStats,
+    ql: string,
+    cancel: AbortSignal,
+  ): Promise<T> {
+    const halfOpen = this.state(mirror) === "half-open";
+    if (halfOpen) mirror.probing = true;
+    const started = Date.now();
+
+    try {
+      const res = await fetch(mirror.url, {
+        method: "POST",
+        body: ql,
+        headers: { "Content-Type": "text/plain" },
+        signal: AbortSignal.any([
+          cancel,
+          AbortSignal.timeout(PER_ENDPOINT_TIMEOUT),
+        ]),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = (await res.json()) as T;
+      this.recordSuccess(mirror, Date.now() - started);
+      return data;
+    } catch (err) {
+      // Losing a race is not the mirror's fault
+      if (!cancel.aborted) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`Overpass ${mirror.url} failed: ${message}`);
+        this.recordFailure(mirror, message);
+      }
+      throw err;
+    } finally {
+      if (halfOpen) mirror.probing = false;
+    }
+  }
+
+  /**
+   * Run an Overpass QL query, racing the healthiest mirrors in rounds of
+   * RACE_WIDTH. The first successful response wins and cancels the rest.
+   */
+  async query<T>(ql: string): Promise<T> {
+    const tried = new Set<MirrorStats>();
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      const batch = this.ranked()
+        .filter((m) => !tried.has(m))
+        .slice(0, RACE_WIDTH);
+      if (batch.length === 0) break;
+      batch.forEach((m) => tried.add(m));
+
+      const controller = new AbortController();
+      try {
+        return await Promise.any(
+          batch.map((m) => this.attempt<T>(m, ql, controller.signal)),
+        );
+      } catch {
+        // Every mirror in this round failed – move on to the next ones
+      } finally {
+        controller.abort();
+      }
+    }
+    throw new Error("All Overpass endpoints failed");
+  }
+
+  status(): OverpassMirrorStatus[] {
+    const now = Date.now();
+    const iso = (t: number | null) => (t ? new Date(t).toISOString() : null);
+    return this.mirrors.map((m) => ({
+      url: m.url,
+      state: this.state(m, now),
+      successes: m.successes,
+      failures: m.failures,
+      consecutiveFailures: m.consecutiveFailures,
+      avgLatencyMs: m.avgLatencyMs,
+      lastSuccessAt: iso(m.lastSuccessAt),
+      lastFailureAt: iso(m.lastFailureAt),
+      lastError: m.lastError,
+      retryAt: m.openUntil && m.openUntil > now ? iso(m.openUntil) : null,
+    }));
+  }
+}
+
+export const overpassPool = new OverpassMirrorPool(OVERPASS_ENDPOINTS);
@@ -0,0 +1,227 @@
+import { categoryFromPlaceTypes, categoryImage } from "./normalize";
+import type {
+  NearbyQuery,
+  PlaceBusiness,
+  PlaceLookup,
+  PlaceProvider,
+  PlaceReviewsPage,
+  PlaceReviewsQuery,
+  TextSearchQuery,
+} from "./types";
+
+const SERPAPI_URL = "https://serpapi.com/search.json";
+
+/** Google Maps zoom level that roughly covers `radius` metres (2 km ≈ 14z). */
+function zoomForRadius(radius: number): number {
+  const zoom = Math.round(14 - Math.log2(Math.max(radius, 100) / 2000));
+  return Math.min(21, Math.max(3, zoom));
+}
+
+/** A `local_results` or `place_results` entry from the google_maps engine. */
+interface SerpApiPlace {
+  place_id?: string;
+  data_id?: string;
+  title?: string;
+  type?: string;
+  types?: string[];
+  gps_coordinates?: { latitude: number; longitude: number };
+  rating?: number;
+  /** Total number of reviews */
+  reviews?: number;
+  address?: string;
+  operating_hours?: Record<string, string>;
+  hours?: string;
+  thumbnail?: string;
+  phone?: string;
+  price?: string;
+  website?: string;
+}
+
+interface SerpApiReview {
+  user?: { name?: string; link?: string; thumbnail?: string };
+  rating?: number;
+  snippet?: string;
+  iso_date?: string;
+  date?: string;
+}
+
+interface SerpApiResponse {
+  error?: string;
+  local_results?: SerpApiPlace[];
+  place_results?: SerpApiPlace;
+  reviews?: SerpApiReview[];
+  serpapi_pagination?: { next_page_token?: string };
+}
+
+function toBusiness(place: SerpApiPlace): PlaceBusiness | null {
+  if (!place.place_id || !place.gps_coordinates) return null;
+  const name = place.title ?? "Unknown";
+  const types = (place.types ?? [place.type ?? ""])
+    .filter(Boolean)
+    .map((t) => t.toLowerCase().replace(/\s+/g, "_"));
+  const category = categoryFromPlaceTypes(types);
+  const hours = place.operating_hours
+    ? Object.entries(place.operating_hours)
+        .map(([day, h]) => `${day[0].toUpperCase()}${day.slice(1)}: ${h}`)
+        .join("\n")
+    : (place.hours ?? "");
+  return {
+    id: `gp-${place.place_id}`,
+    name,
+    category,
+    rating: place.rating ?? 0,
+    reviewCount: place.reviews ?? 0,
+    address: place.address ?? "",
+    hours,
+    description: `${name} – ${place.type ?? "business"}`,
+    image: place.thumbnail ?? categoryImage(category, name),
+    lat: place.gps_coordinates.latitude,
+    lng: place.gps_coordinates.longitude,
+    phone: place.phone ?? "",
+    priceLevel: place.price ?? "$$",
+    website: place.website ?? undefined,
+    source: "google",
+    types,
+  };
+}
+
+/** SerpAPI's google_maps engines – paginated reviews without Places quota. */
+export class SerpApiProvider implements PlaceProvider {
+  readonly name = "serpapi" as const;
+
+  private get apiKey(): string | undefined {
+    return process.env.SERPAPI_KEY;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private async search(
+    params: Record<string, string>,
+  ): Promise<SerpApiResponse> {
+    const url = new URL(SERPAPI_URL);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    url.searchParams.set("hl", "en");
+    url.searchParams.set("api_key", this.apiKey!);
+
+    const res = await fetch(url.toString(), {
+      signal: AbortSignal.timeout(30000),
+    });
+    const data = (await res.json()) as SerpApiResponse;
+    if (data.error) throw new Error(`SerpAPI error: ${data.error}`);
+    return data;
+  }
+
+  private async mapsSearch(
+    q: string,
+    lat: number,
+    lng: number,
+    zoom = 14,
+  ): Promise<SerpApiPlace[]> {
+    const data = await this.search({
+      engine: "google_maps",
+      type: "search",
+      q,
+      ll: `@${lat},${lng},${zoom}z`,
+    });
+    return data.local_results ?? [];
+  }
+
+  async nearby(query: NearbyQuery): Promise<PlaceBusiness[]> {
+    const results = await this.mapsSearch(
+      "local businesses",
+      query.lat,
+      query.lng,
+      zoomForRadius(query.radius),
+    );
+    return results
+      .map(toBusiness)
+      .filter((b): b is PlaceBusiness => b !== null)
+      .slice(0, query.limit ?? 20);
+  }
+
+  async textSearch(query: TextSearchQuery): Promise<PlaceBusiness[]> {
+    const results = await this.mapsSearch(
+      query.query,
+      query.lat,
+      query.lng,
+      zoomForRadius(query.radius),
+    );
+    return results
+      .map(toBusiness)
+      .filter((b): b is PlaceBusiness => b !== null)
+      .slice(0, query.limit ?? 20);
+  }
+
+  async details(id: string): Promise<PlaceBusiness | null> {
+    if (!id.startsWith("gp-")) return null;
+    const data = await this.search({
+      engine: "google_maps",
+      type: "place",
+      place_id: id.slice(3),
+    });
+    return data.place_results
+      ? toBusiness({ place_id: id.slice(3), ...data.place_results })
+      : null;
+  }
+
+  async photo(lookup: PlaceLookup): Promise<string | null> {
+    const [place] = await this.mapsSearch(lookup.name, lookup.lat, lookup.lng);
+    return place?.thumbnail ?? null;
+  }
+
+  async reviews(query: PlaceReviewsQuery): Promise<PlaceReviewsPage> {
+    let dataId = query.placeId ?? null;
+    let rating: number | null = null;
+    let totalRatings: number | null = null;
+
+    // First page only: find the place to get its data_id and rating
+    if (!dataId) {
+      const [place] = await this.mapsSearch(
+        query.name!,
+        query.lat!,
+        query.lng!,
+      );
+      if (!place?.data_id) {
+        return {
+          placeId: null,
+          reviews: [],
+          rating: null,
+          totalRatings: null,
+          nextPageToken: null,
+        };
+      }
+      dataId = place.data_id;
+      rating = place.rating ?? null;
+      totalRatings = place.reviews ?? null; // "reviews" field = total count integer
+    }
+
+    const params: Record<string, string> = {
+      engine: "google_maps_reviews",
+      data_id: dataId,
+    };
+    if (query.pageToken) params.next_page_token = query.pageToken;
+    const data = await this.search(params);
+
+    return {
+      placeId: dataId,
+      reviews: (data.reviews ?? []).map((r) => ({
+        author_name: r.user?.name || "Anonymous",
+        author_url: r.user?.link || null,
+        profile_photo_url: r.user?.thumbnail || null,
+        rating: r.rating ?? 0,
+        text: r.snippet ?? "",
+        time: r.iso_date
+          ? Math.floor(new Date(r.iso_date).getTime() / 1000)
+          : Math.floor(Date.now() / 1000),
+        relative_time_description: r.date ?? "",
+      })),
+      rating,
+      totalRatings,
+      nextPageToken: data.serpapi_pagination?.next_page_token ?? null,
+    };
+  }
+}
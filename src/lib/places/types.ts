@@ -0,0 +1,79 @@
+import type { Business } from "../businesses";
+
+export type PlaceProviderName = "google" | "serpapi" | "overpass";
+
+export type PlaceCapability =
+  | "nearby"
+  | "textSearch"
+  | "details"
+  | "photo"
+  | "reviews";
+
+/**
+ * A business as returned by any provider. `source` is the catalog namespace
+ * the ID belongs to (`gp-…` for Google place IDs, `osm-…` for OSM elements);
+ * `types` keeps the raw provider tags for ranking.
+ */
+export interface PlaceBusiness extends Business {
+  source: "google" | "osm";
+  types: string[];
+}
+
+export interface NearbyQuery {
+  lat: number;
+  lng: number;
+  /** Radius in metres */
+  radius: number;
+  limit?: number;
+}
+
+export interface TextSearchQuery extends NearbyQuery {
+  query: string;
+}
+
+/** Identifies a place by name and position when no provider ID is known. */
+export interface PlaceLookup {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export interface PlaceReview {
+  author_name: string;
+  author_url: string | null;
+  profile_photo_url: string | null;
+  rating: number;
+  text: string;
+  time: number;
+  relative_time_description: string;
+}
+
+export interface PlaceReviewsQuery extends Partial<PlaceLookup> {
+  /** Provider-specific place reference returned by a previous page */
+  placeId?: string;
+  pageToken?: string;
+}
+
+export interface PlaceReviewsPage {
+  placeId: string | null;
+  reviews: PlaceReview[];
+  rating: number | null;
+  totalRatings: number | null;
+  nextPageToken: string | null;
+}
+
+/**
+ * A source of place data. Providers implement only the capabilities their
+ * upstream API supports; the registry skips the rest when falling back.
+ */
+export interface PlaceProvider {
+  readonly name: PlaceProviderName;
+  isConfigured(): boolean;
+  nearby?(query: NearbyQuery): Promise<PlaceBusiness[]>;
+  textSearch?(query: TextSearchQuery): Promise<PlaceBusiness[]>;
+  /** Resolve a catalog ID (`gp-…`, `osm-…`); null if the ID isn't this provider's */
+  details?(id: string): Promise<PlaceBusiness | null>;
+  /** URL of a representative photo, or null when none exists */
+  photo?(lookup: PlaceLookup): Promise<string | null>;
+  reviews?(query: PlaceReviewsQuery): Promise<PlaceReviewsPage>;
+}
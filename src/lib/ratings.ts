@@ -0,0 +1,94 @@
+/**
+ * Blended business ratings. First-party reviews and the rating reported by
+ * the place provider (Google, or the catalog's seed data) are combined as a
+ * Bayesian average, so a handful of reviews doesn't swing a score and a
+ * business with no data at all isn't shown as rated. Shared so the client
+ * can update a summary in place after the user writes or deletes a review.
+ */
+
+/** First-party review counts by star, index 0 being one star. */
+export type RatingDistribution = [number, number, number, number, number];
+
+export interface RatingSummary {
+  /** Blended score rounded to one decimal; null when nothing is known */
+  rating: number | null;
+  /** First-party reviews plus the external rating count */
+  reviewCount: number;
+  /** 0–1: how far the score rests on real ratings rather than the prior */
+  confidence: number;
+  /** First-party only – external sources report just an average */
+  distribution: RatingDistribution;
+  proximiti: { count: number; average: number | null };
+  external: { count: number; rating: number | null };
+}
+
+/** Where a score with little evidence is pulled towards */
+export const RATING_PRIOR_MEAN = 3.5;
+/** How many reviews' worth of weight the prior carries */
+export const RATING_PRIOR_WEIGHT = 5;
+// An external rating counts for half a first-party review each, and for no
+// more than 50 reviews in total, so our own reviews take over as they grow
+const EXTERNAL_REVIEW_WEIGHT = 0.5;
+const MAX_EXTERNAL_WEIGHT = 50;
+
+export function emptyDistribution(): RatingDistribution {
+  return [0, 0, 0, 0, 0];
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Summarise a business's rating. `external` is ignored unless it has a
+ * positive count, which is how providers report "no rating".
+ */
+export function aggregateRating(
+  distribution: RatingDistribution,
+  external?: { rating: number | null; count: number },
+): RatingSummary {
+  const count = distribution.reduce((sum, n) => sum + n, 0);
+  const sum = distribution.reduce((s, n, i) => s + n * (i + 1), 0);
+  const hasExternal =
+    !!external && external.count > 0 && (external.rating ?? 0) > 0;
+  const externalCount = hasExternal ? external.count : 0;
+  const externalRating = hasExternal ? external.rating! : null;
+
+  const externalWeight = Math.min(
+    externalCount * EXTERNAL_REVIEW_WEIGHT,
+    MAX_EXTERNAL_WEIGHT,
+  );
+  const evidence = count + externalWeight;
+  const blended =
+    (RATING_PRIOR_MEAN * RATING_PRIOR_WEIGHT +
+      sum +
+      (externalRating ?? 0) * externalWeight) /
+    (RATING_PRIOR_WEIGHT + evidence);
+
+  return {
+    rating: evidence > 0 ? round1(blended) : null,
+    reviewCount: count + externalCount,
+    confidence:
+      Math.round((evidence / (evidence + RATING_PRIOR_WEIGHT)) * 100) / 100,
+    distribution: [...distribution] as RatingDistribution,
+    proximiti: { count, average: count > 0 ? round1(sum / count) : null },
+    external: { count: externalCount, rating: externalRating },
+  };
+}
+
+/**
+ * The summary after a first-party review changes: pass `added` for a new
+ * rating, `removed` for a deleted one, or both for an edit.
+ */
+export function adjustRating(
+  summary: RatingSummary,
+  change: { added?: number; removed?: number },
+): RatingSummary {
+  const distribution = [...summary.distribution] as RatingDistribution;
+  if (change.removed) {
+    distribution[change.removed - 1] = Math.max(
+      0,
+      distribution[change.removed - 1] - 1,
+    );
+  }
+  if (change.added) distribution[change.added - 1] += 1;
+  return aggregateRating(distribution, summary.external);
+}
@@ -1,4 +1,6 @@
 import authApi from "./authApi";
+import type { RatingSummary } from "./ratings";
+import type { SpamReason } from "./reviewSpam";
 
 const BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
 
@@ -32,14 +34,109 @@ export interface ProximitiReview {
   helpfulCount: number;
   userFoundHelpful: boolean;
   createdAt: string;
+  /** Set when the author has edited the review */
+  updatedAt: string | null;
+  /** Set while a moderator has hidden the review */
+  hiddenAt: string | null;
+  /** The business owner's public reply */
+  reply: ReviewReply | null;
+  photos: ReviewPhoto[];
 }
 
+export interface ReviewPhoto {
+  id: string;
+  reviewId: string;
+  /** Server-relative unless the storage serves from elsewhere; see photoSrc */
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+export interface ReviewReply {
+  id: string;
+  text: string;
+  createdAt: string;
+  updatedAt: string | null;
+  /** When the reviewer saw the reply; null while unread */
+  readAt: string | null;
+}
+
+export interface ReviewRevision {
+  id: string;
+  reviewId: string;
+  rating: number;
+  text: string;
+  writtenAt: string;
+  replacedAt: string;
+}
+
+export type ReviewReportReason =
+  | "spam"
+  | "offensive"
+  | "off_topic"
+  | "fake"
+  | "other";
+
+export const REPORT_REASON_LABELS: Record<ReviewReportReason, string> = {
+  spam: "Spam or advertising",
+  offensive: "Offensive or abusive",
+  off_topic: "Not about this business",
+  fake: "Fake or misleading",
+  other: "Something else",
+};
+
+export interface ReviewReport {
+  id: string;
+  reviewId: string;
+  userId: string;
+  userName: string;
+  reason: ReviewReportReason;
+  details: string | null;
+  resolution: "hidden" | "dismissed" | "banned" | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+export interface ModerationItem {
+  review: ProximitiReview;
+  reports: ReviewReport[];
+  openReports: number;
+  authorBanned: boolean;
+  /** The spam check run when the review was posted */
+  spam: { score: number; reasons: SpamReason[]; flagged: boolean } | null;
+}
+
+export const SPAM_REASON_LABELS: Record<SpamReason, string> = {
+  new_account: "New account",
+  user_velocity: "Many reviews in a day",
+  business_velocity: "Burst of reviews for this business",
+  duplicate_text: "Text matches other reviews",
+  rating_outlier: "Far from the business's usual rating",
+};
+
+export type ModerationAction = "hide" | "restore" | "dismiss" | "ban";
+
+export type ReviewSort = "helpful" | "newest" | "highest" | "lowest";
+
+export const REVIEW_SORT_LABELS: Record<ReviewSort, string> = {
+  helpful: "Most helpful",
+  newest: "Newest",
+  highest: "Highest rated",
+  lowest: "Lowest rated",
+};
+
 export interface ReviewsResponse {
   reviews: ProximitiReview[];
   total: number;
   proximitiCount: number;
-  useProximitiOnly: boolean;
+  /** Proximiti reviews blended with the business's external rating */
+  rating: RatingSummary;
   userReview: ProximitiReview | null;
+  /** True when the current user owns the business and may reply */
+  canReply: boolean;
   hasMore: boolean;
 }
 
@@ -65,9 +162,16 @@ export async function fetchProximitiReviews(
   businessId: string,
   limit = 5,
   offset = 0,
+  filter: { sort?: ReviewSort; stars?: number | null } = {},
 ): Promise<ReviewsResponse> {
+  const params = new URLSearchParams({
+    limit: String(limit),
+    offset: String(offset),
+  });
+  if (filter.sort) params.set("sort", filter.sort);
+  if (filter.stars) params.set("stars", String(filter.stars));
   return request<ReviewsResponse>(
-    `/reviews/${encodeURIComponent(businessId)}?limit=${limit}&offset=${offset}`,
+    `/reviews/${encodeURIComponent(businessId)}?${params}`,
   );
 }
 
@@ -82,6 +186,140 @@ export async function submitReview(
   });
 }
 
+export async function updateReview(
+  reviewId: string,
+  rating: number,
+  text: string,
+): Promise<{ message: string; review: ProximitiReview }> {
+  return request(`/reviews/${reviewId}`, {
+    method: "PUT",
+    body: JSON.stringify({ rating, text }),
+  });
+}
+
+export async function deleteReview(
+  reviewId: string,
+): Promise<{ message: string }> {
+  return request(`/reviews/${reviewId}`, { method: "DELETE" });
+}
+
+/** Admin only: remove someone else's review. */
+export async function removeReview(
+  reviewId: string,
+): Promise<{ message: string }> {
+  return request(`/admin/reviews/${reviewId}`, { method: "DELETE" });
+}
+
+/** Owners only: post, replace or remove the business's reply to a review. */
+export async function saveReviewReply(
+  reviewId: string,
+  text: string,
+  isEdit: boolean,
+): Promise<{ message: string; review: ProximitiReview }> {
+  return request(`/reviews/${reviewId}/reply`, {
+    method: isEdit ? "PUT" : "POST",
+    body: JSON.stringify({ text }),
+  });
+}
+
+export async function deleteReviewReply(
+  reviewId: string,
+): Promise<{ message: string }> {
+  return request(`/reviews/${reviewId}/reply`, { method: "DELETE" });
+}
+
+/** Reviewers: clear the unread marker on the reply to their review. */
+export async function markReviewReplyRead(
+  reviewId: string,
+): Promise<{ message: string }> {
+  return request(`/reviews/${reviewId}/reply/read`, { method: "POST" });
+}
+
+export async function reportReview(
+  reviewId: string,
+  reason: ReviewReportReason,
+  details?: string,
+): Promise<{ message: string }> {
+  return request(`/reviews/${reviewId}/report`, {
+    method: "POST",
+    body: JSON.stringify({ reason, details }),
+  });
+}
+
+/** Admin only: reported ("open") or hidden reviews. */
+export async function fetchModerationQueue(
+  status: "open" | "hidden",
+): Promise<ModerationItem[]> {
+  const { items } = await request<{ items: ModerationItem[] }>(
+    `/admin/review-reports?status=${status}`,
+  );
+  return items;
+}
+
+/** Admin only. */
+export async function moderateReview(
+  reviewId: string,
+  action: ModerationAction,
+): Promise<{ message: string }> {
+  return request(`/admin/reviews/${reviewId}/moderate`, {
+    method: "POST",
+    body: JSON.stringify({ action }),
+  });
+}
+
+/** Admin only: let a banned user post reviews again. */
+export async function liftReviewBan(
+  userId: string,
+): Promise<{ message: string }> {
+  return request(`/admin/users/${userId}/review-ban`, { method: "DELETE" });
+}
+
+export async function fetchReviewRevisions(
+  reviewId: string,
+): Promise<ReviewRevision[]> {
+  const { revisions } = await request<{ revisions: ReviewRevision[] }>(
+    `/reviews/${reviewId}/revisions`,
+  );
+  return revisions;
+}
+
+/** Resolve a stored photo URL against the API server's origin. */
+export function photoSrc(url: string): string {
+  return /^https?:\/\//.test(url)
+    ? url
+    : `${BASE_URL.replace(/\/api\/?$/, "")}${url}`;
+}
+
+/** Authors only: `image` is a data URL, re-encoded by the server. */
+export async function uploadReviewPhoto(
+  reviewId: string,
+  image: string,
+): Promise<{ message: string; review: ProximitiReview }> {
+  return request(`/reviews/${reviewId}/photos`, {
+    method: "POST",
+    body: JSON.stringify({ image }),
+  });
+}
+
+export async function deleteReviewPhoto(
+  reviewId: string,
+  photoId: string,
+): Promise<{ message: string; review: ProximitiReview }> {
+  return request(`/reviews/${reviewId}/photos/${photoId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function fetchBusinessReviewPhotos(
+  businessId: string,
+  limit = 12,
+): Promise<ReviewPhoto[]> {
+  const { photos } = await request<{ photos: ReviewPhoto[] }>(
+    `/businesses/${businessId}/review-photos?limit=${limit}`,
+  );
+  return photos;
+}
+
 export async function toggleHelpful(
   reviewId: string,
 ): Promise<{ helpful: boolean }> {
@@ -0,0 +1,114 @@
+/**
+ * Heuristic spam and fake-review scoring, run when a review is posted.
+ * Each signal adds to a 0–1 score; reviews at or above the threshold are
+ * flagged for the moderation queue rather than rejected, since any one
+ * signal on its own is often innocent.
+ */
+
+export type SpamReason =
+  | "new_account"
+  | "user_velocity"
+  | "business_velocity"
+  | "duplicate_text"
+  | "rating_outlier";
+
+/** What the database knows about the author and business at posting time */
+export interface SpamSignals {
+  accountAgeHours: number;
+  /** The author's reviews in the last 24 hours, not counting this one */
+  userReviewsLastDay: number;
+  /** Reviews of the business in the last hour, not counting this one */
+  businessReviewsLastHour: number;
+  /** Recent review texts to compare against, the author's own included */
+  recentTexts: string[];
+  /** The business's rating before this review, and how sure it is */
+  businessRating: number | null;
+  businessRatingConfidence: number;
+}
+
+export interface SpamAssessment {
+  score: number;
+  reasons: SpamReason[];
+  flagged: boolean;
+}
+
+const DEFAULT_THRESHOLD = 0.5;
+// Shorter texts ("Great place!") are too common to count as copies
+export const MIN_DUPLICATE_CHECK_WORDS = 5;
+
+/** REVIEW_SPAM_THRESHOLD overrides the default of 0.5 */
+export function spamThreshold(): number {
+  const value = parseFloat(process.env.REVIEW_SPAM_THRESHOLD ?? "");
+  return value > 0 && value <= 1 ? value : DEFAULT_THRESHOLD;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function shingles(text: string): Set<string> {
+  const words = tokenize(text);
+  if (words.length < 3) return new Set([words.join(" ")]);
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - 3; i++) {
+    result.add(words.slice(i, i + 3).join(" "));
+  }
+  return result;
+}
+
+/** Jaccard similarity of the texts' word 3-grams, 0–1. */
+export function textSimilarity(a: string, b: string): number {
+  const sa = shingles(a);
+  const sb = shingles(b);
+  let shared = 0;
+  for (const s of sa) if (sb.has(s)) shared++;
+  const union = sa.size + sb.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+export function assessReview(
+  review: { rating: number; text: string },
+  signals: SpamSignals,
+): SpamAssessment {
+  let score = 0;
+  const reasons: SpamReason[] = [];
+  const add = (reason: SpamReason, weight: number) => {
+    score += weight;
+    reasons.push(reason);
+  };
+
+  if (signals.accountAgeHours < 24) add("new_account", 0.3);
+  else if (signals.accountAgeHours < 24 * 7) add("new_account", 0.15);
+
+  if (signals.userReviewsLastDay >= 6) add("user_velocity", 0.4);
+  else if (signals.userReviewsLastDay >= 3) add("user_velocity", 0.25);
+
+  if (signals.businessReviewsLastHour >= 5) add("business_velocity", 0.2);
+
+  const similarity =
+    tokenize(review.text).length < MIN_DUPLICATE_CHECK_WORDS
+      ? 0
+      : Math.max(
+          0,
+          ...signals.recentTexts.map((t) => textSimilarity(review.text, t)),
+        );
+  if (similarity >= 0.8) add("duplicate_text", 0.4);
+  else if (similarity >= 0.5) add("duplicate_text", 0.2);
+
+  // Far from an established rating, at either extreme
+  if (
+    signals.businessRating !== null &&
+    signals.businessRatingConfidence >= 0.5 &&
+    Math.abs(review.rating - signals.businessRating) >= 2 &&
+    (review.rating === 1 || review.rating === 5)
+  ) {
+    add("rating_outlier", 0.15);
+  }
+
+  score = Math.min(1, Math.round(score * 100) / 100);
+  return { score, reasons, flagged: score >= spamThreshold() };
+}
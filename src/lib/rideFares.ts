@@ -0,0 +1,58 @@
+import { calculateDistance } from "./businesses";
+
+/**
+ * Rideshare fares. The driver sets either a total or a per-km rate, and when
+ * the ride completes the total is split evenly across the passengers, to the
+ * cent. Shared so the client can show each passenger's share up front.
+ */
+
+export type FareType = "total" | "per_km";
+
+export const FARE_CURRENCY = "usd";
+export const MAX_TOTAL_FARE_CENTS = 500_00;
+export const MAX_PER_KM_FARE_CENTS = 10_00;
+/** Stripe's smallest charge in USD; smaller shares are settled in person */
+export const MIN_CARD_PAYMENT_CENTS = 50;
+
+/**
+ * The whole fare in cents, or null if none is set. Per-km fares use the
+ * straight-line distance between pick-up and destination.
+ */
+export function fareTotalCents(ride: {
+  fareType: FareType | null;
+  fareCents: number | null;
+  originLat: number;
+  originLng: number;
+  destinationLat: number;
+  destinationLng: number;
+}): number | null {
+  if (!ride.fareType || ride.fareCents == null) return null;
+  if (ride.fareType === "total") return ride.fareCents;
+  const km = calculateDistance(
+    ride.originLat,
+    ride.originLng,
+    ride.destinationLat,
+    ride.destinationLng,
+  );
+  return Math.round(ride.fareCents * km);
+}
+
+/**
+ * Split `totalCents` evenly between `people`; the first shares take one
+ * cent each of any remainder so the shares always add up to the total.
+ */
+export function splitFare(totalCents: number, people: number): number[] {
+  if (people <= 0) return [];
+  const base = Math.floor(totalCents / people);
+  const remainder = totalCents - base * people;
+  return Array.from({ length: people }, (_, i) =>
+    i < remainder ? base + 1 : base,
+  );
+}
+
+export function formatCents(cents: number): string {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: FARE_CURRENCY,
+  }).format(cents / 100);
+}
@@ -0,0 +1,101 @@
+import { calculateDistance } from "./businesses";
+
+/**
+ * Matching rideshares to a trip. A ride fits when its pick-up is near the
+ * rider's origin and its destination near theirs, so the combined distance
+ * between the two ends is the detour, and it should head the same way.
+ */
+
+export interface TripQuery {
+  originLat: number;
+  originLng: number;
+  destinationLat: number;
+  destinationLng: number;
+  /** Largest pick-up plus drop-off distance to accept, in km */
+  maxDetourKm: number;
+}
+
+export interface RideMatch {
+  /** From the ride's pick-up to the rider's origin, in km */
+  pickupKm: number;
+  /** From the rider's destination to the ride's, in km */
+  dropoffKm: number;
+  detourKm: number;
+  /** Cosine of the angle between the two headings: 1 same way, -1 opposite */
+  directionSimilarity: number;
+  /** 0–1, higher is better */
+  score: number;
+}
+
+export const DEFAULT_MAX_DETOUR_KM = 5;
+export const MAX_DETOUR_LIMIT_KM = 50;
+// Rides heading more than 90° away from the trip aren't going the rider's way
+const MIN_DIRECTION_SIMILARITY = 0;
+// How much of the score the detour carries; direction makes up the rest
+const DETOUR_WEIGHT = 0.6;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+/** Initial compass bearing from one point to another, in radians. */
+function bearing(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const dLng = toRadians(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(toRadians(lat2));
+  const x =
+    Math.cos(toRadians(lat1)) * Math.sin(toRadians(lat2)) -
+    Math.sin(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.cos(dLng);
+  return Math.atan2(y, x);
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** How well a ride fits the trip, or null if it's too far out of the way. */
+export function matchRide(
+  ride: {
+    originLat: number;
+    originLng: number;
+    destinationLat: number;
+    destinationLng: number;
+  },
+  trip: TripQuery,
+): RideMatch | null {
+  const pickupKm = calculateDistance(
+    ride.originLat,
+    ride.originLng,
+    trip.originLat,
+    trip.originLng,
+  );
+  const dropoffKm = calculateDistance(
+    trip.destinationLat,
+    trip.destinationLng,
+    ride.destinationLat,
+    ride.destinationLng,
+  );
+  const detourKm = pickupKm + dropoffKm;
+  if (detourKm > trip.maxDetourKm) return null;
+
+  const rideHeading = bearing(
+    ride.originLat,
+    ride.originLng,
+    ride.destinationLat,
+    ride.destinationLng,
+  );
+  const tripHeading = bearing(
+    trip.originLat,
+    trip.originLng,
+    trip.destinationLat,
+    trip.destinationLng,
+  );
+  const directionSimilarity = Math.cos(rideHeading - tripHeading);
+  if (directionSimilarity < MIN_DIRECTION_SIMILARITY) return null;
+
+  const score =
+    DETOUR_WEIGHT * (1 - detourKm / trip.maxDetourKm) +
+    (1 - DETOUR_WEIGHT) * directionSimilarity;
+  return {
+    pickupKm: round2(pickupKm),
+    dropoffKm: round2(dropoffKm),
+    detourKm: round2(detourKm),
+    directionSimilarity: round2(directionSimilarity),
+    score: round2(score),
+  };
+}
@@ -1,4 +1,5 @@
 import authApi from "./authApi";
+import type { FareType } from "./rideFares";
 
 export type RideshareStatus =
   | "waiting"
@@ -24,6 +25,11 @@ export interface Rideshare {
   status: RideshareStatus;
   note: string | null;
   shareCode: string;
+  /** ISO 8601; null for rides leaving right away */
+  departureAt: string | null;
+  /** Set by the driver; cents in total or per km depending on the type */
+  fareType: FareType | null;
+  fareCents: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -36,6 +42,77 @@ export interface RidesharePassenger {
   joinedAt: string;
 }
 
+/** A ride found for the user's trip, with how well it fits */
+export interface RideshareMatch {
+  rideshare: Rideshare;
+  /** From the ride's pick-up to the user's origin, in km */
+  pickupKm: number;
+  /** From the user's destination to the ride's, in km */
+  dropoffKm: number;
+  detourKm: number;
+  /** 1 heading the same way, 0 at right angles */
+  directionSimilarity: number;
+  /** 0–1, higher is better */
+  score: number;
+}
+
+export interface RideshareMessage {
+  id: string;
+  rideshareId: string;
+  userId: string;
+  userName: string;
+  text: string;
+  createdAt: string;
+}
+
+/** A passenger's part of a completed ride's fare, owed to the driver */
+export interface FareShare {
+  id: string;
+  /** Null once the ride itself has been cleaned up */
+  rideshareId: string | null;
+  originName: string;
+  destinationName: string;
+  payerId: string;
+  payerName: string;
+  payeeId: string | null;
+  payeeName: string | null;
+  amountCents: number;
+  status: "owed" | "paid";
+  paidAt: string | null;
+  createdAt: string;
+}
+
+export interface FareBalance {
+  owedCents: number;
+  owedToYouCents: number;
+  netCents: number;
+}
+
+export type RideshareEventType =
+  | "created"
+  | "joined"
+  | "left"
+  | "accepted"
+  | "started"
+  | "completed"
+  | "cancelled"
+  | "message"
+  | "reminder"
+  | "fare_set";
+
+export interface RideshareEvent {
+  type: RideshareEventType;
+  rideshare: Rideshare;
+  /** Only sent when subscribed to a single rideshare */
+  passengers?: RidesharePassenger[];
+  /** The chat message posted, for "message" events */
+  message?: RideshareMessage;
+}
+
+// While a live stream is down, how often to refetch and to try reconnecting
+const STREAM_POLL_INTERVAL_MS = 3000;
+const STREAM_RETRY_MS = 5000;
+
 class RideshareApiService {
   private readonly baseUrl =
     import.meta.env.VITE_API_URL || "http://localhost:3001/api";
@@ -77,6 +154,20 @@ class RideshareApiService {
     return this.request("/rideshares?mine=true");
   }
 
+  /** Active rides going the user's way, best match first */
+  async findMatchingRideshares(trip: {
+    originLat: number;
+    originLng: number;
+    destinationLat: number;
+    destinationLng: number;
+    maxDetourKm: number;
+  }): Promise<{ matches: RideshareMatch[] }> {
+    const params = new URLSearchParams(
+      Object.entries(trip).map(([key, value]) => [key, String(value)]),
+    );
+    return this.request(`/rideshares/match?${params}`);
+  }
+
   /** Get a single rideshare with its passengers */
   async getRideshare(
     id: string,
@@ -93,7 +184,7 @@ class RideshareApiService {
     );
   }
 
-  /** Create a new rideshare lobby */
+  /** Create a new rideshare lobby, leaving now unless `departureAt` is set */
   async createRideshare(data: {
     originName: string;
     originLat: number;
@@ -103,6 +194,8 @@ class RideshareApiService {
     destinationLng: number;
     maxPassengers: number;
     note?: string;
+    /** ISO 8601, in the future */
+    departureAt?: string;
   }): Promise<{ message: string; rideshare: Rideshare }> {
     return this.request("/rideshares", {
       method: "POST",
@@ -153,6 +246,155 @@ class RideshareApiService {
   ): Promise<{ message: string; rideshare: Rideshare }> {
     return this.request(`/rideshares/${id}/cancel`, { method: "POST" });
   }
+
+  /** A ride's chat thread – participants only */
+  async getMessages(id: string): Promise<{ messages: RideshareMessage[] }> {
+    return this.request(`/rideshares/${id}/messages`);
+  }
+
+  /** Post to a ride's chat while it is still active */
+  async postMessage(
+    id: string,
+    text: string,
+  ): Promise<{ message: RideshareMessage }> {
+    return this.request(`/rideshares/${id}/messages`, {
+      method: "POST",
+      body: JSON.stringify({ text }),
+    });
+  }
+
+  /** Rides the user has an unseen departure reminder for */
+  async getReminders(): Promise<{ reminders: Rideshare[] }> {
+    return this.request("/rideshares/reminders");
+  }
+
+  async markReminderRead(id: string): Promise<{ message: string }> {
+    return this.request(`/rideshares/${id}/reminder/read`, { method: "POST" });
+  }
+
+  /** Set the fare in dollars, total or per km – driver only; null clears it */
+  async setFare(
+    id: string,
+    fare: { fareType: FareType; amount: number } | null,
+  ): Promise<{ message: string; rideshare: Rideshare }> {
+    return this.request(`/rideshares/${id}/fare`, {
+      method: "PUT",
+      body: JSON.stringify(fare ?? { fareType: null }),
+    });
+  }
+
+  /** Fare shares the user owes or is owed, with running totals */
+  async getLedger(): Promise<{ entries: FareShare[]; balance: FareBalance }> {
+    return this.request("/rideshares/ledger");
+  }
+
+  /** The driver records a share as paid, e.g. in cash */
+  async markSharePaid(
+    shareId: string,
+  ): Promise<{ message: string; share: FareShare }> {
+    return this.request(`/rideshares/ledger/${shareId}/paid`, {
+      method: "POST",
+    });
+  }
+
+  /** Pay a share by card – redirects to Stripe Checkout */
+  async startSharePayment(shareId: string): Promise<void> {
+    const { url } = await this.request<{ url: string | null }>(
+      `/rideshares/ledger/${shareId}/checkout`,
+      { method: "POST" },
+    );
+    if (!url) throw new Error("No checkout URL returned from server");
+    window.location.href = url;
+  }
+
+  /** Settle a share after returning from Stripe Checkout */
+  async verifySharePayment(sessionId: string): Promise<{ share: FareShare }> {
+    return this.request("/rideshares/ledger/verify-payment", {
+      method: "POST",
+      body: JSON.stringify({ sessionId }),
+    });
+  }
+
+  /**
+   * Stream live changes to every rideshare, or to one (with its passengers)
+   * when `id` is given. `refetch` runs whenever events may have been missed:
+   * after a reconnect, and every few seconds while the stream is down, so a
+   * broken stream degrades to polling rather than a stale view. Returns a
+   * function that closes the stream.
+   */
+  subscribe(
+    onEvent: (event: RideshareEvent) => void,
+    { id, refetch }: { id?: string; refetch?: () => void } = {},
+  ): () => void {
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let connected = false;
+    let closed = false;
+
+    const startPolling = () => {
+      if (!pollTimer && refetch) {
+        pollTimer = setInterval(refetch, STREAM_POLL_INTERVAL_MS);
+      }
+    };
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+    const retry = () => {
+      startPolling();
+      retryTimer = setTimeout(open, STREAM_RETRY_MS);
+    };
+
+    // EventSource can't set headers, so each connection authenticates with a
+    // fresh single-use stream token (see AuthService.signStreamToken)
+    const open = async () => {
+      let token: string;
+      try {
+        ({ token } = await this.request<{ token: string }>(
+          "/rideshares/events/token",
+          { method: "POST" },
+        ));
+      } catch {
+        if (!closed) retry();
+        return;
+      }
+      if (closed) return;
+
+      source = new EventSource(
+        `${this.baseUrl}/rideshares${id ? `/${id}` : ""}/events?token=${encodeURIComponent(token)}`,
+      );
+      source.onopen = () => {
+        stopPolling();
+        if (connected) refetch?.();
+        connected = true;
+      };
+      source.onmessage = (e) => onEvent(JSON.parse(e.data));
+      // Sent when the session is logged out or revoked: stop for good
+      source.addEventListener("session_ended", () => {
+        closed = true;
+        source?.close();
+        stopPolling();
+      });
+      source.onerror = () => {
+        startPolling();
+        // The browser retries dropped connections by itself, but gives up on
+        // an HTTP error such as a spent token; reconnect with a new one
+        if (source?.readyState === EventSource.CLOSED) {
+          source.close();
+          retry();
+        }
+      };
+    };
+
+    open();
+    return () => {
+      closed = true;
+      source?.close();
+      stopPolling();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }
 }
 
 const rideshareApi = new RideshareApiService();
@@ -0,0 +1,59 @@
+import { EventEmitter } from "events";
+import type {
+  Rideshare,
+  RideshareMessage,
+  RidesharePassenger,
+} from "./database";
+
+/**
+ * In-process pub/sub for rideshare changes, streamed to clients as
+ * server-sent events. Subscribers live in this process, so running more than
+ * one API instance would need a shared broker (e.g. Redis pub/sub) here.
+ */
+
+export type RideshareEventType =
+  | "created"
+  | "joined"
+  | "left"
+  | "accepted"
+  | "started"
+  | "completed"
+  | "cancelled"
+  | "message"
+  | "reminder"
+  | "fare_set";
+
+export interface RideshareEvent {
+  type: RideshareEventType;
+  rideshare: Rideshare;
+  passengers: RidesharePassenger[];
+  /** The user whose action caused the event; null for automatic changes */
+  actorId: string | null;
+  /** The chat message posted, for "message" events */
+  message?: RideshareMessage;
+}
+
+const emitter = new EventEmitter();
+// One listener per open stream; the default cap of 10 is meant to catch leaks
+emitter.setMaxListeners(0);
+
+export function publishRideshareEvent(event: RideshareEvent): void {
+  emitter.emit("event", event);
+}
+
+/**
+ * Listen for changes to every rideshare, or just one when `rideshareId` is
+ * given. Returns a function that removes the listener.
+ */
+export function subscribeToRideshares(
+  listener: (event: RideshareEvent) => void,
+  rideshareId?: string,
+): () => void {
+  const handler = (event: RideshareEvent) => {
+    if (!rideshareId || event.rideshare.id === rideshareId) listener(event);
+  };
+  emitter.on("event", handler);
+  return () => {
+    emitter.off("event", handler);
+  };
+}
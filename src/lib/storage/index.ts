@@ -0,0 +1,20 @@
+import { LocalFileStorage } from "./local";
+import type { FileStorage } from "./types";
+
+export * from "./types";
+export { LocalFileStorage } from "./local";
+
+let storage: FileStorage | null = null;
+
+/**
+ * The storage backend for uploads, created on first use so .env is loaded
+ * by then. Only local disk (UPLOAD_DIR, default ./uploads) exists today; an
+ * object-storage backend would implement FileStorage and be chosen here.
+ */
+export function getFileStorage(): FileStorage {
+  storage ??= new LocalFileStorage(
+    process.env.UPLOAD_DIR || "uploads",
+    "/api/uploads",
+  );
+  return storage;
+}
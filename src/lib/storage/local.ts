@@ -0,0 +1,44 @@
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import type { FileStorage } from "./types";
+
+/**
+ * Files on the server's disk under `root`. server.ts serves the directory at
+ * `publicPath`, so this only suits single-instance deployments with a
+ * persistent disk.
+ */
+export class LocalFileStorage implements FileStorage {
+  readonly root: string;
+  readonly publicPath: string;
+
+  constructor(root: string, publicPath: string) {
+    this.root = path.resolve(root);
+    this.publicPath = publicPath;
+  }
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+
+  url(key: string): string {
+    return `${this.publicPath}/${key}`;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Where uploaded files (review photos) live. Keys are relative paths such as
+ * "reviews/1a2b.jpg"; the backend decides how they map to bytes and URLs.
+ */
+export interface FileStorage {
+  /** Store `data` under `key`, replacing anything already there */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Remove `key`; missing files are not an error */
+  delete(key: string): Promise<void>;
+  /** URL the browser loads `key` from – absolute, or relative to the API */
+  url(key: string): string;
+}
@@ -7,10 +7,16 @@ import { BusinessDetail } from "@/components/business-detail";
 import { SearchBar } from "@/components/search-bar";
 import { CategoryFilter } from "@/components/category-filter";
 import { AdminPanel } from "@/components/admin-panel";
+import { CouponManagement } from "@/components/coupon-management";
 import { AskAIPanel, type AIResult } from "@/components/ask-ai-panel";
 import { RidesharePanel } from "@/components/rideshare-panel";
-import { businesses, calculateDistance } from "@/lib/businesses";
-import { fetchNearbyBusinesses, searchBusinesses } from "@/lib/api";
+import rideshareApi from "@/lib/rideshareApi";
+import { calculateDistance, getNearestBusinesses } from "@/lib/businesses";
+import {
+  fetchCatalogBusinesses,
+  fetchNearbyBusinesses,
+  searchBusinesses,
+} from "@/lib/api";
 import { getBookmarkedIds } from "@/lib/bookmarks";
 import { getBatchCouponCounts } from "@/lib/couponApi";
 import type { Business } from "@/lib/businesses";
@@ -26,6 +32,8 @@ import {
   Sparkles,
   Car,
   CreditCard,
+  ScanLine,
+  Store,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { PlansModal } from "@/components/plans-modal";
@@ -63,6 +71,7 @@ export function BusinessFinder() {
   const [nearbyBusinesses, setNearbyBusinesses] = useState<Business[]>([]);
   const [isLoadingBusinesses, setIsLoadingBusinesses] = useState(false);
   const [isAdminPanelOpen, setIsAdminPanelOpen] = useState(false);
+  const [showOwnerCoupons, setShowOwnerCoupons] = useState(false);
   const [showPlansModal, setShowPlansModal] = useState(false);
   const [showAccountSettings, setShowAccountSettings] = useState(false);
   const [premiumNotification, setPremiumNotification] = useState<
@@ -154,10 +163,45 @@ export function BusinessFinder() {
   );
   const [showAIPanel, setShowAIPanel] = useState(false);
   const [showRidesharePanel, setShowRidesharePanel] = useState(false);
+  const [showRideshareLedger, setShowRideshareLedger] = useState(false);
+
+  // Handle return from paying a ride fare (?ride_payment=success|cancelled):
+  // settle the share, then show the rider their balance
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    const ridePayment = params.get("ride_payment");
+    if (!ridePayment) return;
+    navigate("/", { replace: true });
+
+    const openLedger = () => {
+      setShowRideshareLedger(true);
+      setShowRidesharePanel(true);
+    };
+    const sessionId = params.get("session_id");
+    if (ridePayment === "success" && sessionId) {
+      // The webhook settles it too if this fails
+      rideshareApi
+        .verifySharePayment(sessionId)
+        .catch(() => {})
+        .finally(openLedger);
+    } else {
+      openLedger();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [location.search]);
   const [searchResults, setSearchResults] = useState<Business[] | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const sortRef = useRef<HTMLDivElement>(null);
   const [couponCounts, setCouponCounts] = useState<Record<string, number>>({});
+  const [catalogBusinesses, setCatalogBusinesses] = useState<Business[]>([]);
+  const aiResultIdRef = useRef<string | null>(null);
+
+  // First-party catalog from the server – shown until nearby results arrive
+  useEffect(() => {
+    fetchCatalogBusinesses({ limit: 200 })
+      .then(({ businesses }) => setCatalogBusinesses(businesses))
+      .catch((error) => console.error("Error loading catalog:", error));
+  }, []);
 
   // Live search via Google Places whenever the query changes.
   // Uses the known user location if available; otherwise silently gets it first.
@@ -226,8 +270,8 @@ export function BusinessFinder() {
     if (userLocation && nearbyBusinesses.length > 0) {
       return nearbyBusinesses;
     }
-    return businesses;
-  }, [userLocation, nearbyBusinesses]);
+    return catalogBusinesses;
+  }, [userLocation, nearbyBusinesses, catalogBusinesses]);
 
   const getPriceValue = (priceLevel: string): number => {
     switch (priceLevel) {
@@ -362,10 +406,10 @@ export function BusinessFinder() {
             if (fetched.length > 0) {
               setNearbyBusinesses(fetched.slice(0, 50));
             } else {
-              // No OSM results – fall back to static list sorted by distance
-              const { getNearestBusinesses } = await import("@/lib/businesses");
+              // No OSM results – fall back to the catalog sorted by distance
               setNearbyBusinesses(
                 getNearestBusinesses(
+                  catalogBusinesses,
                   position.coords.latitude,
                   position.coords.longitude,
                   50,
@@ -374,10 +418,10 @@ export function BusinessFinder() {
             }
           } catch (error) {
             console.error("Error fetching nearby businesses:", error);
-            // Fall back to static businesses sorted by distance
-            const { getNearestBusinesses } = await import("@/lib/businesses");
+            // Fall back to catalog businesses sorted by distance
             setNearbyBusinesses(
               getNearestBusinesses(
+                catalogBusinesses,
                 position.coords.latitude,
                 position.coords.longitude,
                 50,
@@ -418,13 +462,15 @@ export function BusinessFinder() {
       if (fetched.length > 0) {
         setNearbyBusinesses(fetched.slice(0, 50));
       } else {
-        const { getNearestBusinesses } = await import("@/lib/businesses");
-        setNearbyBusinesses(getNearestBusinesses(lat, lng, 50));
+        setNearbyBusinesses(
+          getNearestBusinesses(catalogBusinesses, lat, lng, 50),
+        );
       }
     } catch (error) {
       console.error("Error fetching nearby businesses:", error);
-      const { getNearestBusinesses } = await import("@/lib/businesses");
-      setNearbyBusinesses(getNearestBusinesses(lat, lng, 50));
+      setNearbyBusinesses(
+        getNearestBusinesses(catalogBusinesses, lat, lng, 50),
+      );
     } finally {
       setIsLoadingBusinesses(false);
     }
@@ -447,7 +493,7 @@ export function BusinessFinder() {
 
   const handleAIResult = (result: AIResult) => {
     const asBusiness: Business = {
-      id: `ai-${result.id}`,
+      id: result.id,
       name: result.name,
       category: result.category,
       rating: result.rating ?? 0,
@@ -462,9 +508,15 @@ export function BusinessFinder() {
       priceLevel: "$$",
       website: result.website ?? undefined,
     };
-    // Temporarily show this business in the list so it can be selected
+    // Temporarily show this business in the list so it can be selected.
+    // The server has already stored it, so coupons and reviews resolve by ID.
+    const prevAiId = aiResultIdRef.current;
+    const alreadyListed = nearbyBusinesses.some((b) => b.id === result.id);
+    aiResultIdRef.current = alreadyListed ? null : result.id;
     setNearbyBusinesses((prev) => {
-      const withoutPrev = prev.filter((b) => !b.id.startsWith("ai-"));
+      const withoutPrev = prev.filter(
+        (b) => b.id !== prevAiId && b.id !== result.id,
+      );
       return [asBusiness, ...withoutPrev];
     });
     if (!userLocation) {
@@ -554,6 +606,35 @@ export function BusinessFinder() {
                     </Button>
                   )}
 
+                  {/* Owners manage deals for the listings they've claimed */}
+                  {auth.user.role === "business_owner" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowOwnerCoupons(true)}
+                      className="text-purple-400 hover:text-purple-300 hover:bg-gray-800"
+                      title="Manage your business's deals"
+                    >
+                      <Store className="w-4 h-4 mr-2" />
+                      <span className="hidden sm:inline">My Business</span>
+                    </Button>
+                  )}
+
+                  {/* Point-of-sale coupon redemption */}
+                  {(auth.user.role === "admin" ||
+                    auth.user.role === "business_owner") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => navigate("/redeem")}
+                      className="text-purple-400 hover:text-purple-300 hover:bg-gray-800"
+                      title="Redeem a customer's deal"
+                    >
+                      <ScanLine className="w-4 h-4 mr-2" />
+                      <span className="hidden sm:inline">Redeem</span>
+                    </Button>
+                  )}
+
                   <Button
                     variant="ghost"
                     size="sm"
@@ -824,6 +905,12 @@ export function BusinessFinder() {
         businesses={availableBusinesses}
       />
 
+      {/* Owner deal management (scoped to owned businesses) */}
+      <CouponManagement
+        isOpen={showOwnerCoupons}
+        onClose={() => setShowOwnerCoupons(false)}
+      />
+
       {/* Ask AI Panel */}
       <AskAIPanel
         isOpen={showAIPanel}
@@ -835,8 +922,12 @@ export function BusinessFinder() {
       {/* Rideshare Panel */}
       <RidesharePanel
         isOpen={showRidesharePanel}
-        onClose={() => setShowRidesharePanel(false)}
+        onClose={() => {
+          setShowRidesharePanel(false);
+          setShowRideshareLedger(false);
+        }}
         userLocation={userLocation}
+        initialView={showRideshareLedger ? "ledger" : undefined}
       />
     </div>
   );
@@ -0,0 +1,236 @@
+import { useState, useRef, useEffect } from "react";
+import { Link } from "react-router-dom";
+import {
+  ArrowLeft,
+  Camera,
+  CameraOff,
+  CheckCircle,
+  AlertCircle,
+  ScanLine,
+} from "lucide-react";
+import { useAuth } from "@/App";
+import { Button } from "@/components/ui/button";
+import {
+  verifyCouponClaim,
+  formatDiscount,
+  type ClaimVerification,
+} from "@/lib/couponApi";
+
+// BarcodeDetector is not in TypeScript's DOM lib yet (Chromium/Android only)
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+const BarcodeDetectorApi = (
+  window as unknown as {
+    BarcodeDetector?: new (options: {
+      formats: string[];
+    }) => BarcodeDetectorLike;
+  }
+).BarcodeDetector;
+
+/**
+ * Merchant-facing point-of-sale screen: scan (or paste) the QR code a
+ * shopper shows from their deals list to redeem the coupon.
+ */
+export function RedeemPage() {
+  const { user } = useAuth();
+  const [token, setToken] = useState("");
+  const [verifying, setVerifying] = useState(false);
+  const [result, setResult] = useState<ClaimVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stopScanning = () => {
+    streamRef.current?.getTracks().forEach((t) => t.stop());
+    streamRef.current = null;
+    setScanning(false);
+  };
+
+  const handleVerify = async (value: string) => {
+    const payload = value.trim();
+    if (!payload) return;
+    try {
+      setVerifying(true);
+      setError(null);
+      setResult(null);
+      setResult(await verifyCouponClaim(payload));
+      setToken("");
+    } catch (err) {
+      setError((err as Error).message || "Failed to verify claim");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  // Poll the camera feed for a QR code while scanning
+  useEffect(() => {
+    if (!scanning || !BarcodeDetectorApi) return;
+    const detector = new BarcodeDetectorApi({ formats: ["qr_code"] });
+    let cancelled = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        const [code] = await detector.detect(video);
+        if (code?.rawValue) {
+          stopScanning();
+          await handleVerify(code.rawValue);
+          return;
+        }
+      } catch {
+        // Frame not ready yet – try again
+      }
+      setTimeout(scan, 300);
+    };
+    scan();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scanning]);
+
+  useEffect(() => stopScanning, []);
+
+  const startScanning = async () => {
+    try {
+      setError(null);
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" },
+      });
+      streamRef.current = stream;
+      setScanning(true);
+      // The video element renders once scanning is set
+      requestAnimationFrame(() => {
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          videoRef.current.play();
+        }
+      });
+    } catch {
+      setError("Camera unavailable – paste the code instead");
+    }
+  };
+
+  const canVerify =
+    user?.role === "admin" || user?.role === "business_owner";
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 px-4 py-8">
+      <div className="max-w-md mx-auto">
+        <Link
+          to="/"
+          className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Proximiti
+        </Link>
+
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <ScanLine className="w-6 h-6 text-cherry-rose" />
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+              Redeem a Deal
+            </h1>
+          </div>
+
+          {!canVerify ? (
+            <div className="flex items-center gap-2 text-red-600 dark:text-red-400">
+              <AlertCircle className="w-5 h-5" />
+              Only merchants can redeem deals.
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Scan the QR code on the customer's phone, or paste its code
+                below.
+              </p>
+
+              {scanning ? (
+                <div className="space-y-2">
+                  <video
+                    ref={videoRef}
+                    className="w-full rounded-lg bg-black aspect-square object-cover"
+                    muted
+                    playsInline
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={stopScanning}
+                    className="w-full"
+                  >
+                    <CameraOff className="w-4 h-4 mr-2" />
+                    Stop scanning
+                  </Button>
+                </div>
+              ) : (
+                BarcodeDetectorApi && (
+                  <Button
+                    onClick={startScanning}
+                    className="w-full bg-cherry-rose hover:bg-green-600 text-white"
+                  >
+                    <Camera className="w-4 h-4 mr-2" />
+                    Scan QR code
+                  </Button>
+                )
+              )}
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleVerify(token);
+                }}
+                className="space-y-2"
+              >
+                <textarea
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  placeholder="Paste claim code"
+                  rows={3}
+                  className="w-full px-3 py-2 font-mono text-xs bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                />
+                <Button
+                  type="submit"
+                  disabled={verifying || !token.trim()}
+                  variant="outline"
+                  className="w-full"
+                >
+                  {verifying ? "Verifying..." : "Verify & redeem"}
+                </Button>
+              </form>
+
+              {error && (
+                <div className="flex items-center gap-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 px-3 py-2 rounded-lg text-sm">
+                  <AlertCircle className="w-4 h-4 shrink-0" />
+                  {error}
+                </div>
+              )}
+
+              {result && (
+                <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+                  <div className="flex items-center gap-2 text-green-700 dark:text-green-400 font-semibold">
+                    <CheckCircle className="w-5 h-5" />
+                    Redeemed for {result.customer.name}
+                  </div>
+                  <div className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+                    {result.coupon.title}
+                  </div>
+                  <span className="inline-block mt-2 px-3 py-1 bg-cherry-rose text-white font-bold rounded-md">
+                    {formatDiscount(result.coupon)}
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RedeemPage;